@@ -0,0 +1,175 @@
+/**
+ * Scriptable agent participant for the mock Connect server
+ */
+
+import { randomUUID } from 'crypto';
+
+const EVENT_CONTENT_TYPE_PREFIX = 'application/vnd.amazonaws.connect.event.';
+
+export class MockAgent {
+  constructor(server, contact, displayName) {
+    this.server = server;
+    this.contact = contact;
+    this.displayName = displayName;
+    this.participantId = randomUUID();
+    this.joined = false;
+    this.messageHandlers = [];
+    this.timers = new Set();
+  }
+
+  /**
+   * Join the chat as the agent
+   */
+  join() {
+    if (this.joined) return this;
+
+    this.joined = true;
+    this.publishEvent('participant.joined');
+    return this;
+  }
+
+  /**
+   * Show the typing indicator to the customer
+   */
+  typing() {
+    this.publishEvent('typing');
+    return this;
+  }
+
+  /**
+   * Send a text message to the customer
+   */
+  say(content, contentType = 'text/plain') {
+    return this.server.publish(
+      this.contact,
+      this.server.createItem({
+        Type: 'MESSAGE',
+        ParticipantId: this.participantId,
+        DisplayName: this.displayName,
+        ParticipantRole: 'AGENT',
+        Content: content,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  /**
+   * Mark a customer message as delivered or read
+   */
+  receipt(messageId, receipt = 'read') {
+    const timestamp = new Date().toISOString();
+    const receipts = [
+      {
+        ParticipantId: this.participantId,
+        ...(receipt === 'read'
+          ? { ReadTimestamp: timestamp }
+          : { DeliveredTimestamp: timestamp }),
+      },
+    ];
+
+    this.server.publish(
+      this.contact,
+      this.server.createItem({
+        Type: 'MESSAGEMETADATA',
+        MessageMetadata: { MessageId: messageId, Receipts: receipts },
+      })
+    );
+    return this;
+  }
+
+  /**
+   * Hand the contact over to another agent
+   */
+  transfer(displayName = 'Transfer Agent') {
+    this.publishEvent('transfer.succeeded');
+    this.leave();
+
+    this.displayName = displayName;
+    this.participantId = randomUUID();
+    return this.join();
+  }
+
+  /**
+   * Leave the chat without ending it
+   */
+  leave() {
+    if (!this.joined) return this;
+
+    this.publishEvent('participant.left');
+    this.joined = false;
+    return this;
+  }
+
+  /**
+   * Leave and end the chat
+   */
+  disconnect() {
+    this.leave();
+    this.server.endContact(this.contact);
+    return this;
+  }
+
+  /**
+   * Register a handler for customer messages
+   * Handlers receive the message item and this agent
+   */
+  onMessage(handler) {
+    this.messageHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Run steps in order, waiting `delay` ms before each
+   * Steps are functions of the agent, e.g. { delay: 500, run: a => a.typing() }
+   */
+  async script(steps) {
+    for (const step of steps) {
+      if (this.contact.ended) return;
+
+      await this.wait(step.delay || 0);
+      await step.run(this);
+    }
+  }
+
+  /**
+   * Resolve after the given delay unless the agent is cancelled
+   */
+  wait(delay) {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, delay);
+      this.timers.add(timer);
+    });
+  }
+
+  /**
+   * Stop pending scripted steps
+   */
+  cancel() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  handleCustomerMessage(item) {
+    if (this.joined) {
+      this.receipt(item.Id, 'delivered');
+    }
+
+    this.messageHandlers.forEach(handler => handler(item, this));
+  }
+
+  publishEvent(eventType) {
+    this.server.publish(
+      this.contact,
+      this.server.createItem({
+        Type: 'EVENT',
+        ContentType: `${EVENT_CONTENT_TYPE_PREFIX}${eventType}`,
+        ParticipantId: this.participantId,
+        DisplayName: this.displayName,
+        ParticipantRole: 'AGENT',
+      })
+    );
+  }
+}
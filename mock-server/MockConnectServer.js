@@ -0,0 +1,625 @@
+/**
+ * Local stand-in for the Amazon Connect participant service
+ * Implements the participant REST endpoints, the chat WebSocket protocol
+ * and the StartChatContact backend contract from docs/setup-guide.md
+ */
+
+import { EventEmitter } from 'events';
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer } from 'ws';
+import { MockAgent } from './MockAgent.js';
+
+const CHAT_TOPIC = 'aws/chat';
+const EVENT_CONTENT_TYPE_PREFIX = 'application/vnd.amazonaws.connect.event.';
+const MAX_TRANSCRIPT_RESULTS = 100;
+
+// Events that are relayed live but not kept in the transcript
+const TRANSIENT_EVENTS = ['typing', 'message.delivered', 'message.read'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'x-amzn-ErrorType, x-amzn-RequestId',
+};
+
+/**
+ * Error returned to the client as an AWS-style JSON error
+ */
+class MockServiceError extends Error {
+  constructor(statusCode, type, message) {
+    super(message);
+    this.statusCode = statusCode;
+    this.type = type;
+  }
+}
+
+/**
+ * Mock Amazon Connect server
+ * Emits 'contactStarted' with (contact, agent) and 'customerMessage' with
+ * (contact, item) so scripts and tests can drive the agent side
+ */
+export class MockConnectServer extends EventEmitter {
+  constructor(options = {}) {
+    super();
+    this.port = options.port ?? 0;
+    this.host = options.host ?? '127.0.0.1';
+    this.connectionTtlMs = options.connectionTtlMs ?? 60 * 60 * 1000;
+    this.agentName = options.agentName ?? 'Mock Agent';
+
+    this.contacts = new Map();
+    this.participantTokens = new Map();
+    this.connectionTokens = new Map();
+    this.attachments = new Map();
+
+    this.httpServer = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error =>
+        this.sendError(response, error)
+      );
+    });
+    this.webSocketServer = new WebSocketServer({ noServer: true });
+    this.httpServer.on('upgrade', (request, socket, head) =>
+      this.handleUpgrade(request, socket, head)
+    );
+  }
+
+  /**
+   * Start listening; resolves with the base URL
+   */
+  start() {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.port, this.host, () => {
+        this.port = this.httpServer.address().port;
+        resolve(this.url);
+      });
+    });
+  }
+
+  /**
+   * Close all sockets and stop listening
+   */
+  stop() {
+    this.contacts.forEach(contact => {
+      contact.agent.cancel();
+      contact.sockets.forEach(socket => socket.terminate());
+    });
+    this.contacts.clear();
+
+    return new Promise(resolve => {
+      this.webSocketServer.close();
+      this.httpServer.close(() => resolve());
+      this.httpServer.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Base URL of the participant service and backend endpoints
+   */
+  get url() {
+    return `http://${this.host}:${this.port}`;
+  }
+
+  /**
+   * Look up the agent of a contact
+   */
+  getAgent(contactId) {
+    return this.getContact(contactId).agent;
+  }
+
+  /**
+   * Transcript items of a contact, oldest first
+   */
+  getTranscript(contactId) {
+    return [...this.getContact(contactId).transcript];
+  }
+
+  /**
+   * Append an item to the contact and push it to subscribed sockets
+   */
+  publish(contact, item) {
+    const eventType = item.ContentType?.startsWith(EVENT_CONTENT_TYPE_PREFIX)
+      ? item.ContentType.slice(EVENT_CONTENT_TYPE_PREFIX.length)
+      : null;
+
+    if (
+      item.Type !== 'MESSAGEMETADATA' &&
+      !TRANSIENT_EVENTS.includes(eventType)
+    ) {
+      contact.transcript.push(item);
+    }
+
+    const frame = JSON.stringify({
+      topic: CHAT_TOPIC,
+      contentType: 'application/json',
+      content: JSON.stringify(item),
+    });
+    contact.sockets.forEach(socket => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(frame);
+      }
+    });
+
+    return item;
+  }
+
+  /**
+   * Create a transcript item with a fresh ID and timestamp
+   */
+  createItem(fields) {
+    return {
+      Id: randomUUID(),
+      AbsoluteTime: new Date().toISOString(),
+      ...fields,
+    };
+  }
+
+  /**
+   * End a contact; further participant calls are rejected
+   */
+  endContact(contact) {
+    if (contact.ended) return;
+
+    contact.ended = true;
+    contact.agent.cancel();
+    this.publish(
+      contact,
+      this.createItem({
+        Type: 'EVENT',
+        ContentType: `${EVENT_CONTENT_TYPE_PREFIX}chat.ended`,
+        ParticipantRole: 'SYSTEM',
+      })
+    );
+  }
+
+  getContact(contactId) {
+    const contact = this.contacts.get(contactId);
+    if (!contact) {
+      throw new MockServiceError(
+        404,
+        'ResourceNotFoundException',
+        `Contact ${contactId} not found`
+      );
+    }
+    return contact;
+  }
+
+  async handleRequest(request, response) {
+    const url = new URL(request.url, this.url);
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, CORS_HEADERS);
+      response.end();
+      return;
+    }
+
+    const uploadMatch = url.pathname.match(/^\/uploads\/([\w-]+)$/);
+    if (uploadMatch) {
+      await this.handleUpload(request, response, uploadMatch[1]);
+      return;
+    }
+
+    if (request.method !== 'POST') {
+      throw new MockServiceError(404, 'ResourceNotFoundException', 'Not found');
+    }
+
+    const body = await readJson(request);
+    const handlers = {
+      '/start-chat': () => this.startChatContact(body),
+      '/participant/connection': () =>
+        this.createParticipantConnection(request),
+      '/participant/message': () => this.sendMessage(request, body),
+      '/participant/event': () => this.sendEvent(request, body),
+      '/participant/transcript': () => this.getTranscriptPage(request, body),
+      '/participant/disconnect': () => this.disconnectParticipant(request),
+      '/participant/start-attachment-upload': () =>
+        this.startAttachmentUpload(request, body),
+      '/participant/complete-attachment-upload': () =>
+        this.completeAttachmentUpload(request, body),
+      '/participant/attachment': () => this.getAttachment(request, body),
+    };
+
+    const handler = handlers[url.pathname];
+    if (!handler) {
+      throw new MockServiceError(404, 'ResourceNotFoundException', 'Not found');
+    }
+
+    sendJson(response, 200, handler());
+  }
+
+  /**
+   * StartChatContact backend contract
+   */
+  startChatContact(body) {
+    const displayName = body.participantDetails?.displayName || 'Customer';
+    const contactId = randomUUID();
+    const participantId = randomUUID();
+    const participantToken = randomUUID();
+
+    const contact = {
+      contactId,
+      customer: { participantId, displayName },
+      transcript: [],
+      sockets: new Set(),
+      ended: false,
+      attributes: body.participantDetails?.attributes || {},
+    };
+    contact.agent = new MockAgent(this, contact, this.agentName);
+
+    this.contacts.set(contactId, contact);
+    this.participantTokens.set(participantToken, contactId);
+
+    this.emit('contactStarted', contact, contact.agent);
+
+    return { contactId, participantId, participantToken };
+  }
+
+  createParticipantConnection(request) {
+    const contactId = this.participantTokens.get(bearerToken(request));
+    if (!contactId) {
+      throw new MockServiceError(
+        403,
+        'AccessDeniedException',
+        'Invalid participant token'
+      );
+    }
+
+    const contact = this.getContact(contactId);
+    const connectionToken = randomUUID();
+    const expiry = new Date(Date.now() + this.connectionTtlMs).toISOString();
+    this.connectionTokens.set(connectionToken, contactId);
+
+    const isFirstConnection = contact.transcript.length === 0;
+    if (isFirstConnection) {
+      this.publish(
+        contact,
+        this.createItem({
+          Type: 'EVENT',
+          ContentType: `${EVENT_CONTENT_TYPE_PREFIX}participant.joined`,
+          ParticipantId: contact.customer.participantId,
+          DisplayName: contact.customer.displayName,
+          ParticipantRole: 'CUSTOMER',
+        })
+      );
+    }
+
+    const websocketUrl = `${this.url.replace(/^http/, 'ws')}/ws?connectionToken=${connectionToken}`;
+
+    return {
+      ConnectionCredentials: {
+        ConnectionToken: connectionToken,
+        Expiry: expiry,
+      },
+      Websocket: { Url: websocketUrl, ConnectionExpiry: expiry },
+    };
+  }
+
+  sendMessage(request, body) {
+    const contact = this.authorize(request);
+    const item = this.publish(
+      contact,
+      this.createItem({
+        Type: 'MESSAGE',
+        ParticipantId: contact.customer.participantId,
+        DisplayName: contact.customer.displayName,
+        ParticipantRole: 'CUSTOMER',
+        Content: body.Content,
+        ContentType: body.ContentType || 'text/plain',
+      })
+    );
+
+    this.emit('customerMessage', contact, item);
+    contact.agent.handleCustomerMessage(item);
+
+    return { Id: item.Id, AbsoluteTime: item.AbsoluteTime };
+  }
+
+  sendEvent(request, body) {
+    const contact = this.authorize(request);
+    const item = this.publish(
+      contact,
+      this.createItem({
+        Type: 'EVENT',
+        ParticipantId: contact.customer.participantId,
+        DisplayName: contact.customer.displayName,
+        ParticipantRole: 'CUSTOMER',
+        ContentType: body.ContentType,
+        Content: body.Content,
+      })
+    );
+
+    return { Id: item.Id, AbsoluteTime: item.AbsoluteTime };
+  }
+
+  /**
+   * GetTranscript with StartPosition, ScanDirection, SortOrder and paging
+   */
+  getTranscriptPage(request, body) {
+    const contact = this.authorize(request, { allowEnded: true });
+    const items = contact.transcript;
+    const maxResults = Math.min(body.MaxResults || 15, MAX_TRANSCRIPT_RESULTS);
+    const backward = body.ScanDirection === 'BACKWARD';
+    const start = body.StartPosition || {};
+
+    let anchor = backward ? items.length - 1 : 0;
+    if (start.Id) {
+      anchor = items.findIndex(item => item.Id === start.Id);
+    } else if (start.AbsoluteTime) {
+      const time = new Date(start.AbsoluteTime).getTime();
+      anchor = items.findIndex(
+        item => new Date(item.AbsoluteTime).getTime() >= time
+      );
+    } else if (start.MostRecent) {
+      anchor = backward
+        ? items.length - 1
+        : Math.max(items.length - start.MostRecent, 0);
+    }
+
+    const window =
+      anchor === -1
+        ? []
+        : backward
+          ? items.slice(0, anchor + 1).reverse()
+          : items.slice(anchor);
+
+    const offset = Number(body.NextToken) || 0;
+    const page = window.slice(offset, offset + maxResults);
+    const descending = body.SortOrder === 'DESCENDING';
+    page.sort((a, b) => {
+      const order =
+        new Date(a.AbsoluteTime).getTime() - new Date(b.AbsoluteTime).getTime();
+      return descending ? -order : order;
+    });
+
+    return {
+      InitialContactId: contact.contactId,
+      Transcript: page,
+      NextToken:
+        offset + maxResults < window.length
+          ? String(offset + maxResults)
+          : undefined,
+    };
+  }
+
+  disconnectParticipant(request) {
+    const contact = this.authorize(request, { allowEnded: true });
+
+    if (!contact.ended) {
+      this.publish(
+        contact,
+        this.createItem({
+          Type: 'EVENT',
+          ContentType: `${EVENT_CONTENT_TYPE_PREFIX}participant.left`,
+          ParticipantId: contact.customer.participantId,
+          DisplayName: contact.customer.displayName,
+          ParticipantRole: 'CUSTOMER',
+        })
+      );
+      this.endContact(contact);
+    }
+
+    return {};
+  }
+
+  startAttachmentUpload(request, body) {
+    const contact = this.authorize(request);
+    const attachmentId = randomUUID();
+
+    this.attachments.set(attachmentId, {
+      contactId: contact.contactId,
+      name: body.AttachmentName,
+      contentType: body.ContentType,
+      data: null,
+    });
+
+    return {
+      AttachmentId: attachmentId,
+      UploadMetadata: {
+        Url: `${this.url}/uploads/${attachmentId}`,
+        UrlExpiry: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+        HeadersToInclude: { 'Content-Type': body.ContentType },
+      },
+    };
+  }
+
+  completeAttachmentUpload(request, body) {
+    const contact = this.authorize(request);
+
+    (body.AttachmentIds || []).forEach(attachmentId => {
+      const attachment = this.attachments.get(attachmentId);
+      if (!attachment?.data) {
+        throw new MockServiceError(
+          400,
+          'ValidationException',
+          `Attachment ${attachmentId} was not uploaded`
+        );
+      }
+
+      this.publish(
+        contact,
+        this.createItem({
+          Type: 'ATTACHMENT',
+          ParticipantId: contact.customer.participantId,
+          DisplayName: contact.customer.displayName,
+          ParticipantRole: 'CUSTOMER',
+          Attachments: [
+            {
+              AttachmentId: attachmentId,
+              AttachmentName: attachment.name,
+              ContentType: attachment.contentType,
+              Status: 'APPROVED',
+            },
+          ],
+        })
+      );
+    });
+
+    return {};
+  }
+
+  getAttachment(request, body) {
+    this.authorize(request, { allowEnded: true });
+
+    if (!this.attachments.has(body.AttachmentId)) {
+      throw new MockServiceError(
+        404,
+        'ResourceNotFoundException',
+        `Attachment ${body.AttachmentId} not found`
+      );
+    }
+
+    return {
+      Url: `${this.url}/uploads/${body.AttachmentId}`,
+      UrlExpiry: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Pre-signed upload and download target for attachments
+   */
+  async handleUpload(request, response, attachmentId) {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment) {
+      throw new MockServiceError(404, 'NoSuchKey', 'Attachment not found');
+    }
+
+    if (request.method === 'PUT') {
+      attachment.data = await readBody(request);
+      response.writeHead(200, CORS_HEADERS);
+      response.end();
+      return;
+    }
+
+    if (request.method === 'GET' && attachment.data) {
+      response.writeHead(200, {
+        ...CORS_HEADERS,
+        'Content-Type': attachment.contentType,
+        'Content-Disposition': `attachment; filename="${attachment.name}"`,
+      });
+      response.end(attachment.data);
+      return;
+    }
+
+    throw new MockServiceError(404, 'NoSuchKey', 'Attachment not found');
+  }
+
+  /**
+   * Resolve the contact for a connection token sent as X-Amz-Bearer
+   */
+  authorize(request, { allowEnded = false } = {}) {
+    const contactId = this.connectionTokens.get(bearerToken(request));
+    if (!contactId) {
+      throw new MockServiceError(
+        403,
+        'AccessDeniedException',
+        'Invalid connection token'
+      );
+    }
+
+    const contact = this.getContact(contactId);
+    if (contact.ended && !allowEnded) {
+      throw new MockServiceError(
+        403,
+        'AccessDeniedException',
+        'The chat has ended'
+      );
+    }
+
+    return contact;
+  }
+
+  /**
+   * Participant WebSocket: aws/subscribe, aws/ping and aws/heartbeat
+   */
+  handleUpgrade(request, socket, head) {
+    const url = new URL(request.url, this.url);
+    const contactId = this.connectionTokens.get(
+      url.searchParams.get('connectionToken')
+    );
+
+    if (url.pathname !== '/ws' || !contactId || !this.contacts.has(contactId)) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    this.webSocketServer.handleUpgrade(request, socket, head, webSocket => {
+      const contact = this.contacts.get(contactId);
+
+      webSocket.on('message', data => {
+        let frame;
+        try {
+          frame = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+
+        switch (frame.topic) {
+          case 'aws/subscribe':
+            contact.sockets.add(webSocket);
+            webSocket.send(
+              JSON.stringify({
+                topic: 'aws/subscribe',
+                content: { status: 'success', topics: [CHAT_TOPIC] },
+              })
+            );
+            break;
+          case 'aws/ping':
+            webSocket.send(
+              JSON.stringify({ topic: 'aws/ping', statusCode: 200 })
+            );
+            break;
+          case 'aws/heartbeat':
+            webSocket.send(JSON.stringify({ topic: 'aws/heartbeat' }));
+            break;
+        }
+      });
+
+      webSocket.on('close', () => contact.sockets.delete(webSocket));
+    });
+  }
+
+  sendError(response, error) {
+    const statusCode = error.statusCode || 500;
+    const type = error.type || 'InternalServerException';
+
+    sendJson(
+      response,
+      statusCode,
+      { message: error.message },
+      {
+        'x-amzn-ErrorType': type,
+      }
+    );
+  }
+}
+
+const bearerToken = request => request.headers['x-amz-bearer'];
+
+const readBody = request =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const readJson = async request => {
+  const body = (await readBody(request)).toString();
+
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new MockServiceError(400, 'ValidationException', 'Invalid JSON body');
+  }
+};
+
+const sendJson = (response, statusCode, body, headers = {}) => {
+  response.writeHead(statusCode, {
+    ...CORS_HEADERS,
+    'Content-Type': 'application/json',
+    ...headers,
+  });
+  response.end(JSON.stringify(body));
+};
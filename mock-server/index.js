@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+/**
+ * Local mock Amazon Connect server for widget development
+ * Usage: npm run mock:connect (PORT defaults to 8787)
+ *
+ * The default agent joins, greets the customer and echoes replies.
+ * Customers can send "/transfer" or "/leave" to exercise those flows, and
+ * "/menu", "/quick" or "/markdown" to get an interactive list picker, quick
+ * replies or a Markdown reply.
+ */
+
+import { MockConnectServer } from './MockConnectServer.js';
+
+const INTERACTIVE_CONTENT_TYPE =
+  'application/vnd.amazonaws.connect.message.interactive';
+
+const MENU = {
+  templateType: 'ListPicker',
+  version: '1.0',
+  data: {
+    content: {
+      title: 'What can we help you with?',
+      subtitle: 'Tap to select an option',
+      elements: [
+        { title: 'Billing', subtitle: 'Invoices and payments' },
+        { title: 'Technical support' },
+        { title: 'Something else' },
+      ],
+    },
+  },
+};
+
+const QUICK_REPLIES = {
+  templateType: 'QuickReply',
+  version: '1.0',
+  data: {
+    content: {
+      title: 'Was this helpful?',
+      elements: [{ title: 'Yes' }, { title: 'No' }, { title: 'Talk to agent' }],
+    },
+  },
+};
+
+const MARKDOWN = [
+  '**Opening hours**',
+  '',
+  '- Monday to Friday: _9am to 5pm_',
+  '- Weekends: closed',
+  '',
+  'See https://example.com/help for more.',
+].join('\n');
+
+const server = new MockConnectServer({
+  port: Number(process.env.PORT) || 8787,
+  host: process.env.HOST || '127.0.0.1',
+});
+
+server.on('contactStarted', (contact, agent) => {
+  console.log(`💬 Contact started: ${contact.contactId}`);
+
+  agent.script([
+    { delay: 1000, run: a => a.join() },
+    { delay: 500, run: a => a.typing() },
+    {
+      delay: 1000,
+      run: a => a.say(`Hi ${contact.customer.displayName}, how can I help?`),
+    },
+  ]);
+
+  agent.onMessage((item, a) => {
+    console.log(`   ${contact.customer.displayName}: ${item.Content}`);
+
+    const command = item.Content?.trim().toLowerCase();
+    if (command === '/transfer') {
+      a.script([{ delay: 500, run: next => next.transfer() }]);
+      return;
+    }
+    if (command === '/leave') {
+      a.script([{ delay: 500, run: next => next.disconnect() }]);
+      return;
+    }
+    if (command === '/menu') {
+      a.script([
+        {
+          delay: 500,
+          run: next => next.say(JSON.stringify(MENU), INTERACTIVE_CONTENT_TYPE),
+        },
+      ]);
+      return;
+    }
+    if (command === '/quick') {
+      a.script([
+        {
+          delay: 500,
+          run: next =>
+            next.say(JSON.stringify(QUICK_REPLIES), INTERACTIVE_CONTENT_TYPE),
+        },
+      ]);
+      return;
+    }
+    if (command === '/markdown') {
+      a.script([
+        { delay: 500, run: next => next.say(MARKDOWN, 'text/markdown') },
+      ]);
+      return;
+    }
+
+    a.script([
+      { delay: 300, run: next => next.receipt(item.Id, 'read') },
+      { delay: 300, run: next => next.typing() },
+      { delay: 800, run: next => next.say(`You said: ${item.Content}`) },
+    ]);
+  });
+});
+
+const url = await server.start();
+console.log(`🧪 Mock Connect server listening on ${url}`);
+console.log(`   Start chat endpoint: ${url}/start-chat`);
+console.log(`   Set VITE_MOCK_CONNECT_URL=${url} to use it from npm run dev`);
+
+const shutdown = async () => {
+  await server.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -2,6 +2,59 @@ import { useState } from 'react';
 import reactLogo from './assets/react.svg';
 import viteLogo from '/vite.svg';
 import './App.css';
+import { ChatWidget } from './components/ChatWidget';
+import { I18nProvider } from './components/I18nProvider';
+import { ThemeProvider } from './components/ThemeProvider';
+import type { WidgetConfig } from './types/widget';
+
+const mockConnectUrl = import.meta.env.VITE_MOCK_CONNECT_URL;
+
+// Widget configuration for the local mock Connect server (npm run mock:connect)
+const mockConnectConfig: WidgetConfig | null = mockConnectUrl
+  ? {
+      aws: {
+        region: 'us-east-1',
+        instanceId: '00000000-0000-4000-8000-000000000001',
+        contactFlowId: '00000000-0000-4000-8000-000000000002',
+        apiGatewayEndpoint: `${mockConnectUrl}/start-chat`,
+        participantEndpoint: mockConnectUrl,
+      },
+      ui: {
+        theme: {
+          primaryColor: '#646cff',
+          secondaryColor: '#535bf2',
+          fontFamily: 'Inter, system-ui, sans-serif',
+          borderRadius: '8px',
+        },
+        position: { bottom: '20px', right: '20px' },
+        messages: {
+          welcomeMessage: 'Hello! How can we help you today?',
+          offlineMessage: 'We are currently offline.',
+          waitingMessage: 'Waiting for an agent...',
+          connectingMessage: 'Connecting...',
+        },
+      },
+      features: {
+        fileUpload: true,
+        emojiPicker: false,
+        chatRatings: false,
+        chatTranscript: true,
+        typing: true,
+      },
+      preChatForm: {
+        fields: [
+          {
+            id: 'name',
+            label: 'Name',
+            type: 'text',
+            required: true,
+            mapTo: 'displayName',
+          },
+          { id: 'email', label: 'Email', type: 'email', mapTo: 'email' },
+        ],
+      },
+    }
+  : null;
 
 function App(): React.JSX.Element {
   const [count, setCount] = useState(0);
@@ -28,6 +81,16 @@ function App(): React.JSX.Element {
       <p className="read-the-docs">
         Click on the Vite and React logos to learn more
       </p>
+      {mockConnectConfig && (
+        <I18nProvider
+          locale={mockConnectConfig.ui.locale}
+          messages={mockConnectConfig.ui.messages}
+        >
+          <ThemeProvider theme={mockConnectConfig.ui.theme}>
+            <ChatWidget config={mockConnectConfig} />
+          </ThemeProvider>
+        </I18nProvider>
+      )}
     </>
   );
 }
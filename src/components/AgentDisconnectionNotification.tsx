@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useTranslation } from './I18nProvider';
 import '../styles/AgentDisconnectionNotification.css';
 
 /**
@@ -25,6 +26,7 @@ export const AgentDisconnectionNotification: React.FC<
   onDismiss,
   autoHideDelay = 10000, // 10 seconds default
 }) => {
+  const { t } = useTranslation();
   const [isAnimatingOut, setIsAnimatingOut] = useState(false);
 
   // Auto-hide notification after delay
@@ -89,13 +91,13 @@ export const AgentDisconnectionNotification: React.FC<
 
         <div className="agent-disconnection-notification__message">
           <div className="agent-disconnection-notification__title">
-            Agent Disconnected
+            {t('agentDisconnected.title')}
           </div>
           <div className="agent-disconnection-notification__description">
             {agentName
-              ? `${agentName} has disconnected`
-              : 'The agent has disconnected'}
-            . You can try reconnecting or continue the conversation later.
+              ? t('agentDisconnected.named', { name: agentName })
+              : t('agentDisconnected.unnamed')}{' '}
+            {t('agentDisconnected.hint')}
           </div>
         </div>
 
@@ -106,14 +108,14 @@ export const AgentDisconnectionNotification: React.FC<
               onClick={handleReconnect}
               type="button"
             >
-              Reconnect
+              {t('agentDisconnected.reconnect')}
             </button>
           )}
           <button
             className="agent-disconnection-notification__button agent-disconnection-notification__button--secondary"
             onClick={handleDismiss}
             type="button"
-            aria-label="Dismiss notification"
+            aria-label={t('agentDisconnected.dismiss')}
           >
             <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
               <path
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { AgentInfo as AgentInfoType } from '../types/chat';
+import { useTranslation } from './I18nProvider';
 import '../styles/AgentInfo.css';
 
 /**
@@ -24,6 +25,8 @@ export const AgentInfo: React.FC<AgentInfoProps> = ({
   onAgentDisconnected,
   compact = false,
 }) => {
+  const { t } = useTranslation();
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'online':
@@ -38,19 +41,7 @@ export const AgentInfo: React.FC<AgentInfoProps> = ({
     }
   };
 
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'online':
-        return 'Online';
-      case 'away':
-        return 'Away';
-      case 'busy':
-        return 'Busy';
-      case 'offline':
-      default:
-        return 'Offline';
-    }
-  };
+  const getStatusText = (status: string) => t('agentInfo.status', { status });
 
   // Handle agent disconnection notification
   React.useEffect(() => {
@@ -83,9 +74,11 @@ export const AgentInfo: React.FC<AgentInfoProps> = ({
             </svg>
           </div>
           <div className="agent-info__details">
-            <div className="agent-info__name">Customer Support</div>
+            <div className="agent-info__name">{t('agentInfo.defaultName')}</div>
             <div className="agent-info__status">
-              <span className="agent-info__status-text">Connecting...</span>
+              <span className="agent-info__status-text">
+                {t('agentInfo.connecting')}
+              </span>
             </div>
           </div>
         </div>
@@ -135,7 +128,9 @@ export const AgentInfo: React.FC<AgentInfoProps> = ({
           <div
             className="agent-info__status-indicator"
             style={{ backgroundColor: getStatusColor(agent.status) }}
-            aria-label={`Agent status: ${getStatusText(agent.status)}`}
+            aria-label={t('agentInfo.statusLabel', {
+              status: getStatusText(agent.status),
+            })}
           />
         </div>
 
@@ -155,7 +150,9 @@ export const AgentInfo: React.FC<AgentInfoProps> = ({
                   <span className="agent-info__typing-dot" />
                   <span className="agent-info__typing-dot" />
                 </div>
-                <span className="agent-info__typing-text">typing...</span>
+                <span className="agent-info__typing-text">
+                  {t('agentInfo.typing')}
+                </span>
               </div>
             ) : (
               <span className="agent-info__status-text">
@@ -114,6 +114,23 @@ describe('ChatButton', () => {
     });
   });
 
+  describe('Offline State', () => {
+    it('should offer to leave a message when offline', () => {
+      renderWithTheme({ isOffline: true });
+
+      const button = screen.getByRole('button', { name: 'Leave a message' });
+      expect(button).toHaveClass('chat-button--offline');
+    });
+
+    it('should keep the close label when open while offline', () => {
+      renderWithTheme({ isOffline: true, isOpen: true });
+
+      expect(
+        screen.getByRole('button', { name: 'Close chat' })
+      ).toBeInTheDocument();
+    });
+  });
+
   describe('Unread Count Badge', () => {
     it('should not show badge when unread count is 0', () => {
       renderWithTheme({ unreadCount: 0 });
@@ -310,7 +327,7 @@ describe('ChatButton', () => {
     it('should handle very large unread count', () => {
       renderWithTheme({ unreadCount: 9999 });
 
-      const badge = screen.getByLabelText('9999 unread messages');
+      const badge = screen.getByLabelText('9,999 unread messages');
       expect(badge).toHaveTextContent('99+');
     });
   });
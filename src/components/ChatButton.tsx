@@ -1,6 +1,7 @@
 import React from 'react';
 import type { ChatButtonProps } from '../types/ui';
 import { useTheme } from './ThemeProvider';
+import { useTranslation } from './I18nProvider';
 import { useStyles, mergeClassNames } from '../utils/styled';
 import type { StyleDefinition } from '../utils/styled';
 import '../styles/ChatButton.css';
@@ -15,16 +16,19 @@ export const ChatButton: React.FC<ChatButtonProps> = ({
   onClick,
   config,
   position,
+  isOffline = false,
 }) => {
   const theme = useTheme();
+  const { t } = useTranslation();
 
   // Create styled button using theme system
   const buttonStyles: StyleDefinition = {
     base: {
       position: 'fixed',
       bottom: position.bottom,
-      right: position.right,
-      left: position.left,
+      // Logical insets mirror the button in right-to-left layouts
+      insetInlineEnd: position.right,
+      insetInlineStart: position.left,
       width: '60px',
       height: '60px',
       backgroundColor: theme.primaryColor,
@@ -60,8 +64,8 @@ export const ChatButton: React.FC<ChatButtonProps> = ({
         width: '50px',
         height: '50px',
         bottom: theme.spacing.md,
-        right: position.right ? theme.spacing.md : undefined,
-        left: position.left ? theme.spacing.md : undefined,
+        insetInlineEnd: position.right ? theme.spacing.md : undefined,
+        insetInlineStart: position.left ? theme.spacing.md : undefined,
       },
     },
   };
@@ -73,10 +77,17 @@ export const ChatButton: React.FC<ChatButtonProps> = ({
       className={mergeClassNames(
         'chat-button',
         styledButtonClass,
-        isOpen && 'chat-button--open'
+        isOpen && 'chat-button--open',
+        isOffline && 'chat-button--offline'
       )}
       onClick={onClick}
-      aria-label={isOpen ? 'Close chat' : 'Open chat'}
+      aria-label={
+        isOpen
+          ? t('chatButton.close')
+          : isOffline
+            ? t('chatButton.leaveMessage')
+            : t('chatButton.open')
+      }
       aria-expanded={isOpen}
       type="button"
     >
@@ -100,7 +111,7 @@ export const ChatButton: React.FC<ChatButtonProps> = ({
             {unreadCount > 0 && (
               <div
                 className="chat-button__badge"
-                aria-label={`${unreadCount} unread messages`}
+                aria-label={t('chatButton.unread', { count: unreadCount })}
               >
                 {unreadCount > 99 ? '99+' : unreadCount}
               </div>
@@ -345,6 +345,31 @@ describe('ChatSessionManager', () => {
       expect(defaultProps.onDownloadTranscript).toHaveBeenCalled();
     });
 
+    it('should download the transcript itself without a handler', () => {
+      const createObjectURL = vi.fn().mockReturnValue('blob:transcript');
+      Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+      const click = vi
+        .spyOn(HTMLAnchorElement.prototype, 'click')
+        .mockImplementation(() => {});
+      const endedState = { ...mockChatState, status: 'ended' as const };
+      render(
+        <ChatSessionManager
+          {...defaultProps}
+          chatState={endedState}
+          onDownloadTranscript={undefined}
+          transcriptFormats={['html']}
+        />
+      );
+
+      fireEvent.click(screen.getByText('Download Transcript'));
+
+      expect(createObjectURL).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'text/html;charset=utf-8' })
+      );
+      expect(click).toHaveBeenCalled();
+      click.mockRestore();
+    });
+
     it('should include rating in transcript when rating exists', async () => {
       const endedState = { ...mockChatState, status: 'ended' as const };
       render(<ChatSessionManager {...defaultProps} chatState={endedState} />);
@@ -1,8 +1,20 @@
-import React, { useState, useEffect } from 'react';
-import type { ChatState, ChatTranscript, ChatRating } from '../types/chat';
+import React, { useState, useEffect, useMemo } from 'react';
+import type {
+  ChatState,
+  ChatTranscript,
+  ChatRating,
+  TranscriptFormat,
+} from '../types/chat';
+import { TranscriptService } from '../services/TranscriptService';
+import {
+  TRANSCRIPT_FORMATS,
+  createTranscript,
+  downloadTranscript,
+} from '../utils/transcript';
 import { ChatEndDialog } from './ChatEndDialog';
 import { ChatRatingDialog } from './ChatRatingDialog';
 import { ChatTranscriptDialog } from './ChatTranscriptDialog';
+import { useTranslation } from './I18nProvider';
 import '../styles/ChatSessionManager.css';
 
 /**
@@ -12,9 +24,11 @@ export interface ChatSessionManagerProps {
   chatState: ChatState;
   onEndChat: () => void;
   onRateChat?: (rating: ChatRating) => void;
-  onDownloadTranscript?: (transcript: ChatTranscript) => void;
+  onDownloadTranscript?: (transcript: ChatTranscript) => void; // Replaces the built-in download
   enableRatings?: boolean;
   enableTranscript?: boolean;
+  transcriptFormats?: TranscriptFormat[];
+  transcriptEmailEndpoint?: string; // Offers emailing the transcript when set
 }
 
 /**
@@ -28,13 +42,24 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
   onDownloadTranscript,
   enableRatings = true,
   enableTranscript = true,
+  transcriptFormats = TRANSCRIPT_FORMATS,
+  transcriptEmailEndpoint,
 }) => {
+  const { locale, t } = useTranslation();
   const [showEndDialog, setShowEndDialog] = useState(false);
   const [showRatingDialog, setShowRatingDialog] = useState(false);
   const [showTranscriptDialog, setShowTranscriptDialog] = useState(false);
   const [sessionEnded, setSessionEnded] = useState(false);
   const [chatRating, setChatRating] = useState<ChatRating | null>(null);
 
+  const transcriptService = useMemo(
+    () =>
+      transcriptEmailEndpoint
+        ? new TranscriptService(transcriptEmailEndpoint)
+        : null,
+    [transcriptEmailEndpoint]
+  );
+
   // Handle session end state changes
   useEffect(() => {
     if (chatState.status === 'ended' && !sessionEnded) {
@@ -81,21 +106,25 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
     setShowTranscriptDialog(false);
   };
 
-  const handleDownloadTranscript = () => {
+  const handleDownloadTranscript = (
+    format: TranscriptFormat = transcriptFormats[0] || 'text'
+  ) => {
+    const transcript = createTranscript(chatState, chatRating || undefined);
+
     if (onDownloadTranscript) {
-      const transcript: ChatTranscript = {
-        sessionId: chatState.visitor.sessionId,
-        startTime: chatState.session?.startTime || new Date(),
-        endTime: chatState.status === 'ended' ? new Date() : undefined,
-        messages: chatState.messages,
-        agent: chatState.agent,
-        visitor: chatState.visitor,
-        rating: chatRating || undefined,
-      };
       onDownloadTranscript(transcript);
+    } else {
+      downloadTranscript(transcript, format, { locale, translate: t });
     }
   };
 
+  const handleEmailTranscript = async (email: string) => {
+    await transcriptService?.emailTranscript(
+      createTranscript(chatState, chatRating || undefined),
+      email
+    );
+  };
+
   const getSessionDuration = (): string => {
     if (!chatState.session?.startTime) return '0:00';
 
@@ -122,7 +151,7 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
             className="session-control-button session-control-button--end"
             onClick={handleEndChat}
             type="button"
-            aria-label="End chat session"
+            aria-label={t('session.endLabel')}
           >
             <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
               <path
@@ -138,7 +167,7 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
                 strokeLinecap="round"
               />
             </svg>
-            End Chat
+            {t('session.end')}
           </button>
 
           {enableTranscript && (
@@ -146,7 +175,7 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
               className="session-control-button session-control-button--transcript"
               onClick={handleShowTranscript}
               type="button"
-              aria-label="View chat transcript"
+              aria-label={t('session.transcriptLabel')}
             >
               <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
                 <path
@@ -162,7 +191,7 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
                   strokeLinecap="round"
                 />
               </svg>
-              Transcript
+              {t('session.transcript')}
             </button>
           )}
         </div>
@@ -172,22 +201,28 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
       {chatState.status === 'ended' && (
         <div className="session-summary">
           <div className="session-summary__header">
-            <h3>Chat Session Summary</h3>
+            <h3>{t('session.summary')}</h3>
           </div>
           <div className="session-summary__stats">
             <div className="session-stat">
-              <span className="session-stat__label">Duration:</span>
+              <span className="session-stat__label">
+                {t('session.duration')}
+              </span>
               <span className="session-stat__value">
                 {getSessionDuration()}
               </span>
             </div>
             <div className="session-stat">
-              <span className="session-stat__label">Messages:</span>
+              <span className="session-stat__label">
+                {t('session.messages')}
+              </span>
               <span className="session-stat__value">{getMessageCount()}</span>
             </div>
             {chatState.agent && (
               <div className="session-stat">
-                <span className="session-stat__label">Agent:</span>
+                <span className="session-stat__label">
+                  {t('session.agent')}
+                </span>
                 <span className="session-stat__value">
                   {chatState.agent.name}
                 </span>
@@ -202,17 +237,17 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
                 onClick={() => setShowRatingDialog(true)}
                 type="button"
               >
-                Rate This Chat
+                {t('session.rate')}
               </button>
             )}
 
             {enableTranscript && (
               <button
                 className="session-action-button session-action-button--secondary"
-                onClick={handleDownloadTranscript}
+                onClick={() => handleDownloadTranscript()}
                 type="button"
               >
-                Download Transcript
+                {t('session.download')}
               </button>
             )}
           </div>
@@ -237,7 +272,7 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
                   </svg>
                 ))}
               </div>
-              <span className="rating-text">Thank you for your feedback!</span>
+              <span className="rating-text">{t('session.thanks')}</span>
             </div>
           )}
         </div>
@@ -266,8 +301,11 @@ export const ChatSessionManager: React.FC<ChatSessionManagerProps> = ({
           isOpen={showTranscriptDialog}
           onClose={handleCloseTranscript}
           onDownload={handleDownloadTranscript}
+          onEmail={transcriptService ? handleEmailTranscript : undefined}
           chatState={chatState}
           sessionDuration={getSessionDuration()}
+          rating={chatRating || undefined}
+          formats={transcriptFormats}
         />
       )}
     </div>
@@ -0,0 +1,150 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { ChatTranscriptDialog } from './ChatTranscriptDialog';
+import type { ChatState } from '../types/chat';
+
+// Mock CSS imports
+vi.mock('../styles/ChatTranscriptDialog.css', () => ({}));
+
+describe('ChatTranscriptDialog', () => {
+  const chatState: ChatState = {
+    status: 'connected',
+    messages: [
+      {
+        id: '1',
+        content: 'Hello',
+        sender: 'visitor',
+        timestamp: new Date(),
+        status: 'sent',
+        type: 'text',
+      },
+      {
+        id: '2',
+        content: 'Agent has joined',
+        sender: 'system',
+        timestamp: new Date(),
+        status: 'delivered',
+        type: 'system',
+      },
+      {
+        id: '3',
+        content: 'Hi, how can I help?',
+        sender: 'agent',
+        timestamp: new Date(),
+        status: 'delivered',
+        type: 'text',
+      },
+    ],
+    agent: { id: 'agent-1', name: 'Sam', status: 'online', isTyping: false },
+    visitor: { name: 'Jamie', sessionId: 'session-1' },
+    unreadCount: 0,
+    isTyping: false,
+  };
+
+  const defaultProps = {
+    isOpen: true,
+    onClose: vi.fn(),
+    onDownload: vi.fn(),
+    chatState,
+    sessionDuration: '2:30',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should preview the conversation without system notices', () => {
+    render(<ChatTranscriptDialog {...defaultProps} />);
+
+    expect(screen.getByText('Jamie')).toBeInTheDocument();
+    expect(screen.getByText('Sam')).toBeInTheDocument();
+    expect(screen.getByText('Hi, how can I help?')).toBeInTheDocument();
+    expect(screen.queryByText('Agent has joined')).not.toBeInTheDocument();
+  });
+
+  it('should download in the selected format', async () => {
+    render(<ChatTranscriptDialog {...defaultProps} />);
+
+    fireEvent.change(screen.getByLabelText('Format'), {
+      target: { value: 'pdf' },
+    });
+    fireEvent.click(
+      screen.getByRole('button', { name: /Download Transcript/ })
+    );
+
+    await waitFor(() => {
+      expect(defaultProps.onDownload).toHaveBeenCalledWith('pdf');
+    });
+  });
+
+  it('should only offer the given formats', () => {
+    render(<ChatTranscriptDialog {...defaultProps} formats={['text']} />);
+
+    expect(screen.queryByLabelText('Format')).not.toBeInTheDocument();
+  });
+
+  it('should disable PDF for text the PDF fonts cannot show', async () => {
+    render(
+      <ChatTranscriptDialog
+        {...defaultProps}
+        formats={['pdf', 'html']}
+        chatState={{
+          ...chatState,
+          visitor: { name: 'Юлия', sessionId: 'session-1' },
+        }}
+      />
+    );
+
+    expect(screen.getByRole('option', { name: 'PDF' })).toBeDisabled();
+    expect(screen.getByLabelText('Format')).toHaveValue('html');
+    expect(
+      screen.getByText(/PDF is not available for this chat/)
+    ).toBeInTheDocument();
+
+    fireEvent.click(
+      screen.getByRole('button', { name: /Download Transcript/ })
+    );
+
+    await waitFor(() => {
+      expect(defaultProps.onDownload).toHaveBeenCalledWith('html');
+    });
+  });
+
+  it('should email the transcript when emailing is available', async () => {
+    const onEmail = vi.fn().mockResolvedValue(undefined);
+    render(<ChatTranscriptDialog {...defaultProps} onEmail={onEmail} />);
+
+    fireEvent.change(screen.getByLabelText('Email a copy'), {
+      target: { value: ' jamie@example.com ' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(onEmail).toHaveBeenCalledWith('jamie@example.com');
+    expect(
+      await screen.findByText('Transcript sent to jamie@example.com')
+    ).toBeInTheDocument();
+  });
+
+  it('should show an error when emailing fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onEmail = vi.fn().mockRejectedValue(new Error('Network error'));
+    render(<ChatTranscriptDialog {...defaultProps} onEmail={onEmail} />);
+
+    fireEvent.change(screen.getByLabelText('Email a copy'), {
+      target: { value: 'jamie@example.com' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      "We couldn't send the transcript."
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('should not offer emailing without a handler', () => {
+    render(<ChatTranscriptDialog {...defaultProps} />);
+
+    expect(screen.queryByLabelText('Email a copy')).not.toBeInTheDocument();
+  });
+});
@@ -1,16 +1,38 @@
-import React, { useState } from 'react';
-import type { ChatState } from '../types/chat';
+import React, { useMemo, useRef, useState } from 'react';
+import type { ChatRating, ChatState, TranscriptFormat } from '../types/chat';
+import {
+  TRANSCRIPT_FORMATS,
+  canExportTranscript,
+  createTranscript,
+  formatTranscriptText,
+  getTranscriptMessageText,
+  getTranscriptMessages,
+  getTranscriptSenderName,
+} from '../utils/transcript';
+import { useTranslation } from './I18nProvider';
+import { useDirection } from './ThemeProvider';
+import { WidgetPortal } from './WidgetRoot';
+import { useFocusTrap } from '../hooks/useFocusTrap';
 import '../styles/ChatTranscriptDialog.css';
 
+const FORMAT_LABELS: Record<Exclude<TranscriptFormat, 'text'>, string> = {
+  html: 'HTML',
+  json: 'JSON',
+  pdf: 'PDF',
+};
+
 /**
  * Chat transcript dialog component props
  */
 export interface ChatTranscriptDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onDownload: () => void;
+  onDownload: (format: TranscriptFormat) => void | Promise<void>;
+  onEmail?: (email: string) => Promise<void>; // Offers emailing a copy
   chatState: ChatState;
   sessionDuration: string;
+  rating?: ChatRating;
+  formats?: TranscriptFormat[]; // Defaults to every format
 }
 
 /**
@@ -21,45 +43,84 @@ export const ChatTranscriptDialog: React.FC<ChatTranscriptDialogProps> = ({
   isOpen,
   onClose,
   onDownload,
+  onEmail,
   chatState,
   sessionDuration,
+  rating,
+  formats = TRANSCRIPT_FORMATS,
 }) => {
+  const { locale, t, formatDate } = useTranslation();
+  const direction = useDirection();
+  const dialogRef = useRef<HTMLDivElement>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [format, setFormat] = useState<TranscriptFormat>(formats[0] || 'text');
+  const [email, setEmail] = useState('');
+  const [emailStatus, setEmailStatus] = useState<
+    'idle' | 'sending' | 'sent' | 'error'
+  >('idle');
+
+  const transcript = useMemo(
+    () => createTranscript(chatState, rating),
+    [chatState, rating]
+  );
+  const transcriptMessages = getTranscriptMessages(transcript);
+
+  // The PDF fonts cannot show every script, so PDF may be unavailable
+  const isPdfUnavailable = useMemo(
+    () =>
+      formats.includes('pdf') &&
+      !canExportTranscript(transcript, 'pdf', { locale, translate: t }),
+    [formats, transcript, locale, t]
+  );
+  const availableFormats = isPdfUnavailable
+    ? formats.filter(option => option !== 'pdf')
+    : formats;
+  const selectedFormat = availableFormats.includes(format)
+    ? format
+    : availableFormats[0];
 
   const handleDownload = async () => {
+    if (!selectedFormat) return;
+
     setIsDownloading(true);
     try {
-      await onDownload();
+      await onDownload(selectedFormat);
     } finally {
       setIsDownloading(false);
     }
   };
 
+  const handleEmail = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!onEmail || !email.trim()) return;
+
+    setEmailStatus('sending');
+    try {
+      await onEmail(email.trim());
+      setEmailStatus('sent');
+    } catch (err) {
+      console.error('Failed to email transcript:', err);
+      setEmailStatus('error');
+    }
+  };
+
   const formatTimestamp = (date: Date): string => {
-    return new Intl.DateTimeFormat('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    }).format(date);
+    return formatDate(date, { dateStyle: 'medium', timeStyle: 'short' });
   };
 
   const formatMessageTime = (date: Date): string => {
-    return new Intl.DateTimeFormat('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    }).format(date);
+    return formatDate(date, { timeStyle: 'short' });
   };
 
   const getMessageCount = (): number => {
-    return chatState.messages.filter(msg => msg.sender !== 'system').length;
+    return transcriptMessages.length;
   };
 
   const copyToClipboard = async () => {
-    const transcriptText = generateTranscriptText();
+    const transcriptText = formatTranscriptText(transcript, {
+      locale,
+      translate: t,
+    });
     try {
       await navigator.clipboard.writeText(transcriptText);
       // Could show a toast notification here
@@ -68,184 +129,243 @@ export const ChatTranscriptDialog: React.FC<ChatTranscriptDialogProps> = ({
     }
   };
 
-  const generateTranscriptText = (): string => {
-    const lines: string[] = [];
-
-    // Header
-    lines.push('CHAT TRANSCRIPT');
-    lines.push('================');
-    lines.push('');
-    lines.push(`Session ID: ${chatState.visitor.sessionId}`);
-    lines.push(
-      `Date: ${formatTimestamp(chatState.session?.startTime || new Date())}`
-    );
-    lines.push(`Duration: ${sessionDuration}`);
-    lines.push(`Visitor: ${chatState.visitor.name}`);
-    if (chatState.agent) {
-      lines.push(`Agent: ${chatState.agent.name}`);
-    }
-    lines.push('');
-    lines.push('CONVERSATION');
-    lines.push('============');
-    lines.push('');
-
-    // Messages
-    chatState.messages
-      .filter(msg => msg.sender !== 'system')
-      .forEach(message => {
-        const time = formatMessageTime(message.timestamp);
-        const sender =
-          message.sender === 'visitor'
-            ? chatState.visitor.name
-            : chatState.agent?.name || 'Agent';
-        lines.push(`[${time}] ${sender}: ${message.content}`);
-      });
-
-    lines.push('');
-    lines.push('End of transcript');
-
-    return lines.join('\n');
-  };
+  // Keep keyboard focus in the dialog while it is open
+  useFocusTrap(dialogRef, isOpen);
 
   if (!isOpen) {
     return null;
   }
 
   return (
-    <div
-      className="chat-transcript-dialog-overlay"
-      role="dialog"
-      aria-modal="true"
-    >
-      <div className="chat-transcript-dialog">
-        <div className="chat-transcript-dialog__header">
-          <h3 className="chat-transcript-dialog__title">Chat Transcript</h3>
-          <button
-            className="chat-transcript-dialog__close"
-            onClick={onClose}
-            type="button"
-            aria-label="Close transcript dialog"
-          >
-            <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-              <path
-                d="M12 4L4 12M4 4L12 12"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-              />
-            </svg>
-          </button>
-        </div>
+    <WidgetPortal>
+      <div
+        ref={dialogRef}
+        className="chat-transcript-dialog-overlay"
+        role="dialog"
+        aria-modal="true"
+        dir={direction}
+      >
+        <div className="chat-transcript-dialog">
+          <div className="chat-transcript-dialog__header">
+            <h3 className="chat-transcript-dialog__title">
+              {t('transcriptDialog.title')}
+            </h3>
+            <button
+              className="chat-transcript-dialog__close"
+              onClick={onClose}
+              type="button"
+              aria-label={t('transcriptDialog.close')}
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M12 4L4 12M4 4L12 12"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+            </button>
+          </div>
 
-        <div className="chat-transcript-dialog__content">
-          <div className="transcript-summary">
-            <div className="transcript-summary__stats">
-              <div className="transcript-stat">
-                <span className="transcript-stat__label">
-                  Session Duration:
-                </span>
-                <span className="transcript-stat__value">
-                  {sessionDuration}
-                </span>
-              </div>
-              <div className="transcript-stat">
-                <span className="transcript-stat__label">Messages:</span>
-                <span className="transcript-stat__value">
-                  {getMessageCount()}
-                </span>
-              </div>
-              <div className="transcript-stat">
-                <span className="transcript-stat__label">Date:</span>
-                <span className="transcript-stat__value">
-                  {formatTimestamp(chatState.session?.startTime || new Date())}
-                </span>
+          <div className="chat-transcript-dialog__content">
+            <div className="transcript-summary">
+              <div className="transcript-summary__stats">
+                <div className="transcript-stat">
+                  <span className="transcript-stat__label">
+                    {t('transcriptDialog.duration')}
+                  </span>
+                  <span className="transcript-stat__value">
+                    {sessionDuration}
+                  </span>
+                </div>
+                <div className="transcript-stat">
+                  <span className="transcript-stat__label">
+                    {t('transcriptDialog.messages')}
+                  </span>
+                  <span className="transcript-stat__value">
+                    {getMessageCount()}
+                  </span>
+                </div>
+                <div className="transcript-stat">
+                  <span className="transcript-stat__label">
+                    {t('transcriptDialog.date')}
+                  </span>
+                  <span className="transcript-stat__value">
+                    {formatTimestamp(transcript.startTime)}
+                  </span>
+                </div>
               </div>
             </div>
-          </div>
 
-          <div className="transcript-preview">
-            <div className="transcript-preview__header">
-              <h4>Preview</h4>
-            </div>
-            <div className="transcript-preview__content">
-              {chatState.messages
-                .filter(msg => msg.sender !== 'system')
-                .slice(0, 5) // Show first 5 messages as preview
-                .map((message, index) => (
-                  <div key={message.id} className="transcript-message">
-                    <div className="transcript-message__meta">
-                      <span className="transcript-message__sender">
-                        {message.sender === 'visitor'
-                          ? chatState.visitor.name
-                          : chatState.agent?.name || 'Agent'}
-                      </span>
-                      <span className="transcript-message__time">
-                        {formatMessageTime(message.timestamp)}
-                      </span>
-                    </div>
-                    <div className="transcript-message__content">
-                      {message.content}
+            <div className="transcript-preview">
+              <div className="transcript-preview__header">
+                <h4>{t('transcriptDialog.preview')}</h4>
+              </div>
+              <div className="transcript-preview__content">
+                {transcriptMessages
+                  .slice(0, 5) // Show first 5 messages as preview
+                  .map(message => (
+                    <div key={message.id} className="transcript-message">
+                      <div className="transcript-message__meta">
+                        <span className="transcript-message__sender">
+                          {getTranscriptSenderName(transcript, message, t)}
+                        </span>
+                        <span className="transcript-message__time">
+                          {formatMessageTime(message.timestamp)}
+                        </span>
+                      </div>
+                      <div className="transcript-message__content">
+                        {getTranscriptMessageText(message, t)}
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
 
-              {getMessageCount() > 5 && (
-                <div className="transcript-preview__more">
-                  ... and {getMessageCount() - 5} more messages
-                </div>
-              )}
+                {getMessageCount() > 5 && (
+                  <div className="transcript-preview__more">
+                    {t('transcriptDialog.more', {
+                      count: getMessageCount() - 5,
+                    })}
+                  </div>
+                )}
+              </div>
             </div>
+
+            {(formats.length > 1 || onEmail || isPdfUnavailable) && (
+              <div className="transcript-export">
+                {formats.length > 1 && (
+                  <label className="transcript-export__field">
+                    <span className="transcript-export__label">
+                      {t('transcriptDialog.format')}
+                    </span>
+                    <select
+                      className="transcript-export__select"
+                      value={selectedFormat}
+                      onChange={event =>
+                        setFormat(event.target.value as TranscriptFormat)
+                      }
+                    >
+                      {formats.map(option => (
+                        <option
+                          key={option}
+                          value={option}
+                          disabled={option === 'pdf' && isPdfUnavailable}
+                        >
+                          {option === 'text'
+                            ? t('transcriptDialog.plainText')
+                            : FORMAT_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+
+                {isPdfUnavailable && (
+                  <p className="transcript-export__note">
+                    {t('transcriptDialog.pdfUnavailable')}
+                  </p>
+                )}
+
+                {onEmail && (
+                  <form
+                    className="transcript-export__email"
+                    onSubmit={handleEmail}
+                  >
+                    <label className="transcript-export__field">
+                      <span className="transcript-export__label">
+                        {t('transcriptDialog.email')}
+                      </span>
+                      <input
+                        type="email"
+                        className="transcript-export__input"
+                        value={email}
+                        onChange={event => {
+                          setEmail(event.target.value);
+                          setEmailStatus('idle');
+                        }}
+                        placeholder={t('transcriptDialog.emailPlaceholder')}
+                        disabled={emailStatus === 'sending'}
+                        required
+                      />
+                    </label>
+                    <button
+                      type="submit"
+                      className="chat-transcript-dialog__button chat-transcript-dialog__button--secondary"
+                      disabled={emailStatus === 'sending'}
+                    >
+                      {emailStatus === 'sending'
+                        ? t('transcriptDialog.sending')
+                        : t('transcriptDialog.send')}
+                    </button>
+                    {emailStatus === 'sent' && (
+                      <p className="transcript-export__status" role="status">
+                        {t('transcriptDialog.sent', { email: email.trim() })}
+                      </p>
+                    )}
+                    {emailStatus === 'error' && (
+                      <p
+                        className="transcript-export__status transcript-export__status--error"
+                        role="alert"
+                      >
+                        {t('transcriptDialog.emailFailed')}
+                      </p>
+                    )}
+                  </form>
+                )}
+              </div>
+            )}
           </div>
-        </div>
 
-        <div className="chat-transcript-dialog__actions">
-          <button
-            className="chat-transcript-dialog__button chat-transcript-dialog__button--secondary"
-            onClick={copyToClipboard}
-            type="button"
-          >
-            <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-              <path
-                d="M4 2H12C12.5523 2 13 2.44772 13 3V11C13 11.5523 12.5523 12 12 12H4C3.44772 12 3 11.5523 3 11V3C3 2.44772 3.44772 2 4 2Z"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                fill="none"
-              />
-              <path
-                d="M6 4H10M6 6H10M6 8H8"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-              />
-            </svg>
-            Copy to Clipboard
-          </button>
-
-          <button
-            className="chat-transcript-dialog__button chat-transcript-dialog__button--primary"
-            onClick={handleDownload}
-            type="button"
-            disabled={isDownloading}
-          >
-            <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-              <path
-                d="M8 1V11M8 11L11 8M8 11L5 8"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-              <path
-                d="M1 11V13C1 13.5523 1.44772 14 2 14H14C14.5523 14 15 13.5523 15 13V11"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-              />
-            </svg>
-            {isDownloading ? 'Downloading...' : 'Download Transcript'}
-          </button>
+          <div className="chat-transcript-dialog__actions">
+            <button
+              className="chat-transcript-dialog__button chat-transcript-dialog__button--secondary"
+              onClick={copyToClipboard}
+              type="button"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M4 2H12C12.5523 2 13 2.44772 13 3V11C13 11.5523 12.5523 12 12 12H4C3.44772 12 3 11.5523 3 11V3C3 2.44772 3.44772 2 4 2Z"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  fill="none"
+                />
+                <path
+                  d="M6 4H10M6 6H10M6 8H8"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+              {t('transcriptDialog.copy')}
+            </button>
+
+            <button
+              className="chat-transcript-dialog__button chat-transcript-dialog__button--primary"
+              onClick={handleDownload}
+              type="button"
+              disabled={isDownloading || !selectedFormat}
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+                <path
+                  d="M8 1V11M8 11L11 8M8 11L5 8"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+                <path
+                  d="M1 11V13C1 13.5523 1.44772 14 2 14H14C14.5523 14 15 13.5523 15 13V11"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                />
+              </svg>
+              {isDownloading
+                ? t('transcriptDialog.downloading')
+                : t('transcriptDialog.download')}
+            </button>
+          </div>
         </div>
       </div>
-    </div>
+    </WidgetPortal>
   );
 };
@@ -2,7 +2,7 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { vi } from 'vitest';
 import { ChatWidget } from './ChatWidget';
-import type { ChatWidgetProps } from '../types/ui';
+import type { ChatWidgetHandle, ChatWidgetProps } from '../types/ui';
 import type { WidgetConfiguration } from '../types/widget';
 
 // Mock hooks
@@ -251,6 +251,98 @@ describe('ChatWidget', () => {
     });
   });
 
+  describe('Programmatic Control', () => {
+    beforeEach(() => {
+      mockUseConnect.initialize.mockResolvedValue(undefined);
+    });
+
+    it('should report chat state changes', () => {
+      const mockOnChatStateChange = vi.fn();
+
+      render(
+        <ChatWidget
+          {...defaultProps}
+          onChatStateChange={mockOnChatStateChange}
+        />
+      );
+
+      expect(mockOnChatStateChange).toHaveBeenCalledWith(mockUseChat.chatState);
+    });
+
+    it('should report whether the window or only the launcher is shown', () => {
+      const mockOnLayoutChange = vi.fn();
+
+      render(
+        <ChatWidget {...defaultProps} onLayoutChange={mockOnLayoutChange} />
+      );
+
+      expect(mockOnLayoutChange).toHaveBeenCalledWith('closed');
+    });
+
+    it('should open, minimize and close the widget through the ref', () => {
+      const ref = React.createRef<ChatWidgetHandle>();
+      render(<ChatWidget {...defaultProps} ref={ref} />);
+
+      ref.current?.open();
+      ref.current?.minimize();
+      ref.current?.close();
+
+      expect(mockUseWidget.openWidget).toHaveBeenCalled();
+      expect(mockUseWidget.minimizeWidget).toHaveBeenCalled();
+      expect(mockUseWidget.closeWidget).toHaveBeenCalled();
+    });
+
+    it('should set the visitor and open the widget to start a chat', () => {
+      const ref = React.createRef<ChatWidgetHandle>();
+      render(<ChatWidget {...defaultProps} ref={ref} />);
+
+      ref.current?.startChat(
+        { name: 'Jane Doe', email: 'jane@example.com' },
+        { plan: 'premium' }
+      );
+
+      expect(mockUseWidget.setVisitorInfo).toHaveBeenCalledWith({
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        attributes: { plan: 'premium' },
+      });
+      expect(mockUseWidget.openWidget).toHaveBeenCalled();
+    });
+
+    it('should keep current visitor details when setting the visitor', () => {
+      Object.assign(mockUseWidget, {
+        visitorInfo: {
+          name: 'Jane Doe',
+          sessionId: 'test-session',
+          attributes: { plan: 'premium' },
+        },
+        hasVisitorInfo: true,
+      });
+      const ref = React.createRef<ChatWidgetHandle>();
+      render(<ChatWidget {...defaultProps} ref={ref} />);
+
+      ref.current?.setVisitor({ attributes: { orderId: '42' } });
+
+      expect(mockUseWidget.setVisitorInfo).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Jane Doe',
+          attributes: { plan: 'premium', orderId: '42' },
+        })
+      );
+    });
+
+    it('should send messages and end the chat through the ref', async () => {
+      const ref = React.createRef<ChatWidgetHandle>();
+      render(<ChatWidget {...defaultProps} ref={ref} />);
+
+      await ref.current?.sendMessage('Hello');
+      await ref.current?.endChat();
+
+      expect(mockUseChat.sendMessage).toHaveBeenCalledWith('Hello', undefined);
+      expect(mockUseChat.endChat).toHaveBeenCalled();
+    });
+  });
+
   describe('Chat Button Interactions', () => {
     it('should open widget when chat button is clicked and widget is closed', () => {
       render(<ChatWidget {...defaultProps} />);
@@ -387,7 +479,6 @@ describe('ChatWidget', () => {
 
       expect(mockUseWidget.setVisitorInfo).toHaveBeenCalledWith({
         name: 'Website Visitor',
-        email: 'visitor@example.com',
       });
     });
 
@@ -535,7 +626,8 @@ describe('ChatWidget', () => {
 
       // Verify hooks are called with correct parameters
       expect(require('../hooks/useChat').useChat).toHaveBeenCalledWith(
-        mockUseConnect.connectService
+        mockUseConnect.connectService,
+        mockConfig.storageNamespace
       );
       expect(require('../hooks/useWidget').useWidget).toHaveBeenCalledWith(
         mockConfig
@@ -1,27 +1,57 @@
-import React, { useEffect, useCallback, useRef } from 'react';
+import React, {
+  useEffect,
+  useCallback,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+} from 'react';
 import type { ChatWidgetProps } from '../types/ui';
 import { ChatButton } from './ChatButton';
 import { ChatWindow } from './ChatWindow';
+import { useTranslation } from './I18nProvider';
 import { useChat } from '../hooks/useChat';
 import { useConnect } from '../hooks/useConnect';
 import { useWidget } from '../hooks/useWidget';
+import { useAvailability } from '../hooks/useAvailability';
+import { useQueueStatus } from '../hooks/useQueueStatus';
+import { useSurvey } from '../hooks/useSurvey';
+import { resolveAttachmentConfig } from '../utils/attachments';
+import {
+  DEFAULT_CALLBACK_FORM,
+  DEFAULT_LEAVE_MESSAGE_FORM,
+  DEFAULT_VISITOR_NAME,
+  mapPreChatAnswers,
+} from '../utils/preChatForm';
+import { localizeMessages } from '../utils/i18n';
+import type { PreChatAnswers } from '../utils/preChatForm';
+import { INTERACTIVE_RESPONSE_CONTENT_TYPE } from '../utils/interactiveMessage';
+import type { MessageContentType, QuickReply } from '../types/chat';
+import type { InteractiveResponse } from '../types/aws-connect';
+import type { WidgetVisitor } from '../types/widget';
 
 /**
  * Main ChatWidget component
  * Integrates ChatButton and ChatWindow components with hooks
+ * Renders in the locale of the surrounding I18nProvider, which the embed
+ * module sets up from the configuration
  * Requirements: 1.1, 1.2, 1.3, 2.1, 2.2
  */
 export const ChatWidget: React.FC<ChatWidgetProps> = ({
   config,
   onStateChange,
+  onChatStateChange,
+  onLayoutChange,
   onError,
+  ref,
 }) => {
+  const translator = useTranslation();
+
   // Initialize hooks
   const {
     connectService,
     initialize: initializeConnect,
     connectionStatus,
-  } = useConnect();
+  } = useConnect(undefined, config.storageNamespace);
   const {
     chatState,
     initializeChat,
@@ -29,7 +59,12 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     endChat,
     markMessagesAsRead,
     setTyping,
-  } = useChat(connectService);
+    loadOlderMessages,
+    hasMoreHistory,
+    isLoadingHistory,
+    sendAttachment,
+    getAttachmentUrl,
+  } = useChat(connectService, config.storageNamespace, translator.t);
   const {
     isOpen,
     isMinimized,
@@ -42,10 +77,39 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     minimizeWidget,
     setVisitorInfo,
   } = useWidget(config);
+  const { isAvailable, submitLeaveMessage } = useAvailability(
+    config.availability
+  );
+  const {
+    queueStatus,
+    isCallbackOffered,
+    isCallbackRequested,
+    requestCallback,
+  } = useQueueStatus(config.queue, chatState);
+  const { isSurveyOpen, isSurveySubmitted, submitSurvey, skipSurvey } =
+    useSurvey(config.survey, chatState);
 
   // Track initialization
   const initializedRef = useRef(false);
 
+  // Configured messages, with per-locale overrides and translated defaults
+  const uiConfig = useMemo(
+    () => ({
+      ...config.ui,
+      messages: localizeMessages(
+        config.ui.messages,
+        translator.locale,
+        translator.t
+      ),
+    }),
+    [config.ui, translator]
+  );
+
+  // Keep service notifications in the widget's locale
+  useEffect(() => {
+    connectService?.getNotificationService().setTranslator(translator);
+  }, [connectService, translator]);
+
   /**
    * Initialize AWS Connect service
    */
@@ -70,6 +134,20 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     onStateChange?.(widgetState);
   }, [widgetState, onStateChange]);
 
+  /**
+   * Report whether the window or only the launcher is shown
+   */
+  useEffect(() => {
+    onLayoutChange?.(isOpen ? 'open' : isMinimized ? 'minimized' : 'closed');
+  }, [isOpen, isMinimized, onLayoutChange]);
+
+  /**
+   * Report chat state changes
+   */
+  useEffect(() => {
+    onChatStateChange?.(chatState);
+  }, [chatState, onChatStateChange]);
+
   /**
    * Handle chat button click
    * Requirements: 1.1, 1.2 - Toggle widget open/closed state
@@ -109,26 +187,92 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     minimizeWidget();
   }, [minimizeWidget]);
 
+  /**
+   * Send a message, reporting a failure to onError before rejecting
+   */
+  const sendAndReport = useCallback(
+    async (
+      content: string,
+      contentType: MessageContentType | undefined = config.features.markdown
+        ? 'text/markdown'
+        : undefined
+    ) => {
+      try {
+        await sendMessage(content, contentType);
+      } catch (error) {
+        console.error('Failed to send message:', error);
+        onError?.({
+          code: 'NETWORK_ERROR',
+          message: 'Failed to send message',
+          details: {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          },
+        });
+        throw error;
+      }
+    },
+    [sendMessage, onError, config.features.markdown]
+  );
+
   /**
    * Handle message sending
    * Requirements: 3.1 - Wire MessageInput to ConnectService for sending messages
+   * The failed message stays in the list, so the input has nothing to handle
    */
   const handleSendMessage = useCallback(
-    async (content: string) => {
+    (content: string, contentType?: MessageContentType) =>
+      sendAndReport(content, contentType).catch(() => undefined),
+    [sendAndReport]
+  );
+
+  /**
+   * Post the visitor's answer to an interactive message
+   */
+  const handleInteractiveResponse = useCallback(
+    (response: InteractiveResponse) =>
+      handleSendMessage(
+        JSON.stringify(response),
+        INTERACTIVE_RESPONSE_CONTENT_TYPE
+      ),
+    [handleSendMessage]
+  );
+
+  /**
+   * Send a chosen quick reply as the visitor's message
+   */
+  const handleQuickReply = useCallback(
+    (reply: QuickReply) => handleSendMessage(reply.value, 'text/plain'),
+    [handleSendMessage]
+  );
+
+  /**
+   * Handle attachment uploads
+   */
+  const handleSendAttachment = useCallback(
+    async (file: File) => {
       try {
-        await sendMessage(content);
+        await sendAttachment(file);
       } catch (error) {
-        console.error('Failed to send message:', error);
+        console.error('Failed to send attachment:', error);
         onError?.({
           code: 'NETWORK_ERROR',
-          message: 'Failed to send message',
+          message: 'Failed to send attachment',
           details: {
             error: error instanceof Error ? error.message : 'Unknown error',
           },
         });
       }
     },
-    [sendMessage, onError]
+    [sendAttachment, onError]
+  );
+
+  // Attachments are only offered when the fileUpload feature is enabled
+  const attachmentConfig = useMemo(
+    () =>
+      config.features.fileUpload
+        ? resolveAttachmentConfig(config.features.attachments)
+        : undefined,
+    [config.features.fileUpload, config.features.attachments]
   );
 
   /**
@@ -142,31 +286,116 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     [setTyping]
   );
 
+  const hasActiveChat =
+    chatState.status === 'waiting' || chatState.status === 'connected';
+
+  // Outside business hours the widget offers a leave-a-message form, but an
+  // active chat always continues
+  const isOffline = !isAvailable && !hasActiveChat;
+  const leaveMessage = config.availability?.leaveMessage;
+
+  /**
+   * Submit the leave-a-message form
+   */
+  const handleLeaveMessage = useCallback(
+    async (answers: PreChatAnswers) => {
+      const form = leaveMessage?.form ?? DEFAULT_LEAVE_MESSAGE_FORM;
+      const visitor = mapPreChatAnswers(form.fields, answers);
+
+      await submitLeaveMessage({
+        displayName: visitor.name,
+        email: visitor.email,
+        attributes: visitor.attributes,
+        answers,
+      });
+    },
+    [leaveMessage, submitLeaveMessage]
+  );
+
+  const callback = config.queue?.callback;
+
+  /**
+   * Request a callback and leave the queue
+   */
+  const handleRequestCallback = useCallback(
+    async (answers: PreChatAnswers) => {
+      const form = callback?.form ?? DEFAULT_CALLBACK_FORM;
+      const visitor = mapPreChatAnswers(form.fields, answers);
+
+      await requestCallback({
+        displayName: visitor.name,
+        attributes: visitor.attributes,
+        answers,
+      });
+
+      try {
+        await endChat();
+      } catch (error) {
+        console.error('Failed to leave the queue:', error);
+      }
+    },
+    [callback, requestCallback, endChat]
+  );
+
+  // The pre-chat form is only used when it has fields to ask
+  const preChatForm = config.preChatForm?.fields.length
+    ? config.preChatForm
+    : undefined;
+
   /**
    * Handle chat initialization when widget opens
    * Requirements: 2.1, 2.2 - Initialize chat session
+   * Without a pre-chat form the visitor starts anonymously
    */
   useEffect(() => {
-    if (isOpen && !hasVisitorInfo && widgetState === 'initializing') {
-      // For demo purposes, set default visitor info
-      // In real implementation, this would come from a form
-      setVisitorInfo({
-        name: 'Website Visitor',
-        email: 'visitor@example.com',
-      });
+    if (
+      !preChatForm &&
+      !isOffline &&
+      isOpen &&
+      !hasVisitorInfo &&
+      widgetState === 'initializing'
+    ) {
+      setVisitorInfo({ name: DEFAULT_VISITOR_NAME });
     }
-  }, [isOpen, hasVisitorInfo, widgetState, setVisitorInfo]);
+  }, [
+    preChatForm,
+    isOffline,
+    isOpen,
+    hasVisitorInfo,
+    widgetState,
+    setVisitorInfo,
+  ]);
+
+  /**
+   * Start the chat with the pre-chat form answers
+   */
+  const handlePreChatSubmit = useCallback(
+    (answers: PreChatAnswers) => {
+      if (preChatForm) {
+        setVisitorInfo(mapPreChatAnswers(preChatForm.fields, answers));
+      }
+    },
+    [preChatForm, setVisitorInfo]
+  );
+
+  const showPreChatForm = Boolean(
+    preChatForm && !hasVisitorInfo && !hasActiveChat
+  );
 
   /**
    * Initialize chat when visitor info is available
+   * Skipped while a resumed contact is still active
    */
+
   useEffect(() => {
     if (
       isOpen &&
       hasVisitorInfo &&
       visitorInfo &&
       widgetState === 'initializing' &&
-      connectionStatus === 'disconnected'
+      connectionStatus === 'disconnected' &&
+      !hasActiveChat &&
+      !isOffline
     ) {
       initializeChat(visitorInfo).catch(error => {
         console.error('Failed to initialize chat:', error);
@@ -183,10 +412,60 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     visitorInfo,
     widgetState,
     connectionStatus,
+    hasActiveChat,
+    isOffline,
     initializeChat,
     onError,
   ]);
 
+  /**
+   * Set the visitor from the embed API
+   * Given fields replace the current ones; attributes are merged
+   */
+  const handleSetVisitor = useCallback(
+    (visitor: WidgetVisitor, attributes?: Record<string, string>) => {
+      setVisitorInfo({
+        ...visitorInfo,
+        ...visitor,
+        name: visitor.name || visitorInfo?.name || DEFAULT_VISITOR_NAME,
+        attributes: {
+          ...visitorInfo?.attributes,
+          ...visitor.attributes,
+          ...attributes,
+        },
+      });
+    },
+    [visitorInfo, setVisitorInfo]
+  );
+
+  /**
+   * Programmatic control for the embed API
+   * Starting a chat sets the visitor, which skips the pre-chat form
+   */
+  useImperativeHandle(
+    ref,
+    () => ({
+      open: openWidget,
+      close: closeWidget,
+      minimize: minimizeWidget,
+      startChat: (visitor = {}, attributes) => {
+        handleSetVisitor(visitor, attributes);
+        openWidget();
+      },
+      sendMessage: text => sendAndReport(text),
+      endChat,
+      setVisitor: visitor => handleSetVisitor(visitor),
+    }),
+    [
+      openWidget,
+      closeWidget,
+      minimizeWidget,
+      handleSetVisitor,
+      sendAndReport,
+      endChat,
+    ]
+  );
+
   /**
    * Mark messages as read when widget is opened
    */
@@ -205,6 +484,7 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
         onClick={handleChatButtonClick}
         config={config.ui.theme}
         position={position}
+        isOffline={isOffline}
       />
 
       {/* Chat Window - Visible when open */}
@@ -213,9 +493,31 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
         onClose={handleChatWindowClose}
         onMinimize={handleChatWindowMinimize}
         chatState={chatState}
-        config={config.ui}
+        config={uiConfig}
         onSendMessage={handleSendMessage}
         onTyping={handleTyping}
+        onInteractiveResponse={handleInteractiveResponse}
+        onQuickReply={handleQuickReply}
+        onLoadOlderMessages={loadOlderMessages}
+        hasMoreHistory={hasMoreHistory}
+        isLoadingHistory={isLoadingHistory}
+        attachmentConfig={attachmentConfig}
+        onSendAttachment={handleSendAttachment}
+        onResolveAttachment={getAttachmentUrl}
+        preChatForm={showPreChatForm ? preChatForm : undefined}
+        onSubmitPreChatForm={handlePreChatSubmit}
+        isOffline={isOffline}
+        leaveMessage={leaveMessage}
+        onLeaveMessage={leaveMessage ? handleLeaveMessage : undefined}
+        queueStatus={queueStatus}
+        callback={callback}
+        isCallbackOffered={isCallbackOffered}
+        isCallbackRequested={isCallbackRequested}
+        onRequestCallback={callback ? handleRequestCallback : undefined}
+        survey={isSurveyOpen ? config.survey : undefined}
+        isSurveySubmitted={isSurveySubmitted}
+        onSubmitSurvey={submitSurvey}
+        onSkipSurvey={skipSurvey}
       />
     </>
   );
@@ -147,7 +147,10 @@ describe('ChatWindow', () => {
 
       const dialog = screen.getByRole('dialog');
       expect(dialog).toHaveAttribute('aria-modal', 'true');
-      expect(dialog).toHaveAttribute('aria-labelledby', 'chat-window-title');
+      expect(dialog).toHaveAttribute(
+        'aria-labelledby',
+        document.querySelector('.chat-window__header')?.id
+      );
       expect(dialog).toHaveAttribute('tabIndex', '-1');
     });
 
@@ -550,7 +553,24 @@ describe('ChatWindow', () => {
 
       const dialog = screen.getByRole('dialog');
       expect(dialog).toHaveAttribute('aria-modal', 'true');
-      expect(dialog).toHaveAttribute('aria-labelledby', 'chat-window-title');
+      expect(dialog).toHaveAttribute('aria-labelledby');
+    });
+
+    it('should give each window its own title id', () => {
+      render(
+        <>
+          <ChatWindow {...defaultProps} />
+          <ChatWindow {...defaultProps} />
+        </>
+      );
+
+      const [first, second] = screen.getAllByRole('dialog');
+      expect(first.getAttribute('aria-labelledby')).not.toBe(
+        second.getAttribute('aria-labelledby')
+      );
+      expect(
+        document.getElementById(first.getAttribute('aria-labelledby')!)
+      ).toBeInTheDocument();
     });
 
     it('should have proper header structure', () => {
@@ -582,6 +602,131 @@ describe('ChatWindow', () => {
     });
   });
 
+  describe('Queue Position', () => {
+    const queueStatus = {
+      position: 2,
+      estimatedWaitSeconds: 600,
+      updatedAt: new Date(),
+    };
+    const session = {
+      contactId: 'contact-1',
+      connectionToken: 'connection-token',
+      participantId: 'participant-1',
+      participantToken: 'participant-token',
+      websocketUrl: 'wss://example.com',
+      startTime: new Date(),
+    };
+
+    it('should show the queue position until an agent joins', () => {
+      render(
+        <ChatWindow
+          {...defaultProps}
+          chatState={{ ...mockChatState, status: 'connected', session }}
+          queueStatus={queueStatus}
+          isCallbackOffered
+          onRequestCallback={vi.fn()}
+        />
+      );
+
+      expect(
+        screen.getByText('You are number 2 in the queue')
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('button', { name: 'Request a callback instead' })
+      ).toBeInTheDocument();
+      expect(screen.getByTestId('message-list')).toBeInTheDocument();
+    });
+
+    it('should hide the queue position once an agent joins', () => {
+      render(
+        <ChatWindow
+          {...defaultProps}
+          chatState={{
+            ...mockChatState,
+            status: 'connected',
+            session,
+            agent: {
+              id: 'agent-1',
+              name: 'Sam',
+              status: 'online',
+              isTyping: false,
+            },
+          }}
+          queueStatus={queueStatus}
+        />
+      );
+
+      expect(
+        screen.queryByText('You are number 2 in the queue')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Offline State', () => {
+    it('should show the offline message and leave-a-message form', () => {
+      const onLeaveMessage = vi.fn().mockResolvedValue(undefined);
+      render(
+        <ChatWindow
+          {...defaultProps}
+          isOffline
+          onLeaveMessage={onLeaveMessage}
+        />
+      );
+
+      expect(screen.getByText('We are currently offline')).toBeInTheDocument();
+      expect(
+        screen.getByRole('button', { name: 'Send Message' })
+      ).toBeInTheDocument();
+      expect(screen.queryByTestId('message-list')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('message-input')).not.toBeInTheDocument();
+    });
+
+    it('should use the configured leave-a-message form', () => {
+      render(
+        <ChatWindow
+          {...defaultProps}
+          isOffline
+          leaveMessage={{
+            form: {
+              submitLabel: 'Request callback',
+              fields: [{ id: 'phone', label: 'Phone', type: 'tel' }],
+            },
+          }}
+          onLeaveMessage={vi.fn()}
+        />
+      );
+
+      expect(screen.getByLabelText('Phone')).toBeInTheDocument();
+      expect(
+        screen.getByRole('button', { name: 'Request callback' })
+      ).toBeInTheDocument();
+    });
+  });
+
+  describe('Post-chat Survey', () => {
+    it('should show the survey instead of the conversation', () => {
+      render(
+        <ChatWindow
+          {...defaultProps}
+          chatState={{ ...defaultProps.chatState, status: 'ended' }}
+          survey={{
+            questions: [
+              { id: 'resolved', type: 'yesNo', label: 'Was it resolved?' },
+            ],
+          }}
+          onSubmitSurvey={vi.fn()}
+          onSkipSurvey={vi.fn()}
+        />
+      );
+
+      expect(
+        screen.getByRole('group', { name: 'Was it resolved?' })
+      ).toBeInTheDocument();
+      expect(screen.queryByTestId('message-list')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('message-input')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle missing agent gracefully', () => {
       render(
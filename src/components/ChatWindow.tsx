@@ -1,9 +1,16 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useId, useRef, useState } from 'react';
 import type { ChatWindowProps } from '../types/ui';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
 import { AgentInfo } from './AgentInfo';
 import { AgentDisconnectionNotification } from './AgentDisconnectionNotification';
+import { PreChatForm } from './PreChatForm';
+import { LeaveMessageForm } from './LeaveMessageForm';
+import { QueuePosition } from './QueuePosition';
+import { SurveyForm } from './SurveyForm';
+import { useTranslation } from './I18nProvider';
+import { useDirection } from './ThemeProvider';
+import { isWaitingForAgent } from '../utils/queueStatus';
 import '../styles/ChatWindow.css';
 
 /**
@@ -18,7 +25,32 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   config,
   onSendMessage,
   onTyping,
+  onInteractiveResponse,
+  onQuickReply,
+  onLoadOlderMessages,
+  hasMoreHistory = false,
+  isLoadingHistory = false,
+  attachmentConfig,
+  onSendAttachment,
+  onResolveAttachment,
+  preChatForm,
+  onSubmitPreChatForm,
+  isOffline = false,
+  leaveMessage,
+  onLeaveMessage,
+  queueStatus,
+  callback,
+  isCallbackOffered = false,
+  isCallbackRequested = false,
+  onRequestCallback,
+  survey,
+  isSurveySubmitted = false,
+  onSubmitSurvey,
+  onSkipSurvey,
 }) => {
+  const { locale, t } = useTranslation();
+  const titleId = useId();
+  const direction = useDirection();
   const windowRef = useRef<HTMLDivElement>(null);
   const headerRef = useRef<HTMLDivElement>(null);
   const [showDisconnectionNotification, setShowDisconnectionNotification] =
@@ -56,19 +88,17 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
   const getStatusMessage = () => {
     switch (chatState.status) {
       case 'initializing':
-        return config.messages.connectingMessage || 'Connecting...';
+        return config.messages.connectingMessage || t('messages.connecting');
       case 'waiting':
-        return config.messages.waitingMessage || 'Waiting for an agent...';
+        return config.messages.waitingMessage || t('messages.waiting');
       case 'connected':
         return chatState.agent
-          ? `Connected to ${chatState.agent.name}`
-          : 'Connected';
+          ? t('chatWindow.status.connectedTo', { name: chatState.agent.name })
+          : t('chatWindow.status.connected');
       case 'ended':
-        return 'Chat ended';
+        return t('chatWindow.status.ended');
       default:
-        return (
-          config.messages.welcomeMessage || 'Welcome! How can we help you?'
-        );
+        return config.messages.welcomeMessage || t('messages.welcome');
     }
   };
 
@@ -97,16 +127,14 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
       style={windowStyle}
       role="dialog"
       aria-modal="true"
-      aria-labelledby="chat-window-title"
+      aria-labelledby={titleId}
+      lang={locale}
+      dir={direction}
       tabIndex={-1}
     >
       <div className="chat-window__container">
         {/* Header */}
-        <header
-          ref={headerRef}
-          className="chat-window__header"
-          id="chat-window-title"
-        >
+        <header ref={headerRef} className="chat-window__header" id={titleId}>
           <div className="chat-window__header-content">
             <AgentInfo
               agent={chatState.agent}
@@ -120,7 +148,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
             <button
               className="chat-window__action-button"
               onClick={onMinimize}
-              aria-label="Minimize chat"
+              aria-label={t('chatWindow.minimize')}
               type="button"
             >
               <svg
@@ -142,7 +170,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
             <button
               className="chat-window__action-button"
               onClick={onClose}
-              aria-label="Close chat"
+              aria-label={t('chatWindow.close')}
               type="button"
             >
               <svg
@@ -172,28 +200,69 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({
             onReconnect={handleReconnect}
             onDismiss={handleDismissNotification}
           />
-          <MessageList
-            messages={chatState.messages}
-            isTyping={chatState.isTyping}
-            onScroll={() => {}} // Scroll handling is internal to MessageList
-            agentInfo={chatState.agent}
-          />
+          {isOffline ? (
+            <LeaveMessageForm
+              offlineMessage={config.messages.offlineMessage}
+              form={leaveMessage?.form}
+              successMessage={leaveMessage?.successMessage}
+              onSubmit={onLeaveMessage}
+            />
+          ) : survey && onSubmitSurvey ? (
+            <SurveyForm
+              config={survey}
+              isSubmitted={isSurveySubmitted}
+              onSubmit={onSubmitSurvey}
+              onSkip={onSkipSurvey}
+            />
+          ) : preChatForm ? (
+            <PreChatForm
+              config={preChatForm}
+              onSubmit={answers => onSubmitPreChatForm?.(answers)}
+            />
+          ) : (
+            <>
+              <QueuePosition
+                status={isWaitingForAgent(chatState) ? queueStatus : null}
+                isCallbackOffered={isCallbackOffered}
+                isCallbackRequested={isCallbackRequested}
+                callbackForm={callback?.form}
+                callbackSuccessMessage={callback?.successMessage}
+                onRequestCallback={onRequestCallback}
+              />
+              <MessageList
+                messages={chatState.messages}
+                isTyping={chatState.isTyping}
+                onScroll={() => {}} // Scroll handling is internal to MessageList
+                agentInfo={chatState.agent}
+                onLoadOlder={onLoadOlderMessages}
+                hasMoreHistory={hasMoreHistory}
+                isLoadingHistory={isLoadingHistory}
+                onResolveAttachment={onResolveAttachment}
+                onInteractiveResponse={onInteractiveResponse}
+                onQuickReply={onQuickReply}
+              />
+            </>
+          )}
         </main>
 
         {/* Footer */}
-        <footer className="chat-window__footer">
-          <MessageInput
-            onSendMessage={onSendMessage}
-            disabled={chatState.status !== 'connected'}
-            placeholder={
-              chatState.status === 'connected'
-                ? 'Type your message...'
-                : 'Please wait...'
-            }
-            maxLength={1000}
-            onTyping={onTyping}
-          />
-        </footer>
+        {!preChatForm && !isOffline && !survey && (
+          <footer className="chat-window__footer">
+            <MessageInput
+              onSendMessage={onSendMessage}
+              disabled={chatState.status !== 'connected'}
+              placeholder={
+                chatState.status === 'connected'
+                  ? t('chatWindow.placeholder')
+                  : t('chatWindow.placeholderWaiting')
+              }
+              maxLength={1000}
+              onTyping={onTyping}
+              attachmentConfig={attachmentConfig}
+              onSendAttachment={onSendAttachment}
+            />
+          </footer>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,103 @@
+/**
+ * I18nProvider Component Tests
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { I18nProvider, useTranslation } from './I18nProvider';
+import { ChatButton } from './ChatButton';
+import { ThemeProvider } from './ThemeProvider';
+import type { MessageConfiguration } from '../types';
+
+const TestComponent: React.FC = () => {
+  const { locale, t, formatNumber } = useTranslation();
+  return (
+    <div>
+      <span data-testid="locale">{locale}</span>
+      <span data-testid="text">{t('chatButton.open')}</span>
+      <span data-testid="number">{formatNumber(1234.5)}</span>
+    </div>
+  );
+};
+
+describe('I18nProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use English outside a provider', () => {
+    render(<TestComponent />);
+
+    expect(screen.getByTestId('locale')).toHaveTextContent('en');
+    expect(screen.getByTestId('text')).toHaveTextContent('Open chat');
+  });
+
+  it('should translate into the configured locale', () => {
+    render(
+      <I18nProvider locale="de-CH">
+        <TestComponent />
+      </I18nProvider>
+    );
+
+    expect(screen.getByTestId('locale')).toHaveTextContent('de-CH');
+    expect(screen.getByTestId('text')).toHaveTextContent('Chat öffnen');
+    expect(screen.getByTestId('number')).toHaveTextContent('1’234.5');
+  });
+
+  it('should detect the browser locale when none is configured', () => {
+    vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['es-ES', 'en']);
+
+    render(
+      <I18nProvider>
+        <TestComponent />
+      </I18nProvider>
+    );
+
+    expect(screen.getByTestId('text')).toHaveTextContent('Abrir chat');
+  });
+
+  it('should apply configured string overrides', () => {
+    const messages: MessageConfiguration = {
+      welcomeMessage: 'Welcome',
+      offlineMessage: 'Offline',
+      waitingMessage: 'Waiting',
+      locales: { nl: { strings: { 'chatButton.open': 'Chat openen' } } },
+    };
+
+    render(
+      <I18nProvider locale="nl" messages={messages}>
+        <TestComponent />
+      </I18nProvider>
+    );
+
+    expect(screen.getByTestId('locale')).toHaveTextContent('nl');
+    expect(screen.getByTestId('text')).toHaveTextContent('Chat openen');
+  });
+
+  it('should translate widget components', () => {
+    render(
+      <I18nProvider locale="fr">
+        <ThemeProvider>
+          <ChatButton
+            isOpen={false}
+            unreadCount={2}
+            onClick={vi.fn()}
+            config={{
+              primaryColor: '#007bff',
+              secondaryColor: '#6c757d',
+              fontFamily: 'Arial',
+              borderRadius: '8px',
+            }}
+            position={{ bottom: '20px', right: '20px' }}
+          />
+        </ThemeProvider>
+      </I18nProvider>
+    );
+
+    expect(
+      screen.getByRole('button', { name: 'Ouvrir le chat' })
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText('2 messages non lus')).toBeInTheDocument();
+  });
+});
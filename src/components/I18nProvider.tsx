@@ -0,0 +1,55 @@
+/**
+ * I18nProvider Component
+ * Provides the translator for the widget's locale
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+import type { MessageConfiguration, Translator } from '../types';
+import {
+  createTranslator,
+  defaultTranslator,
+  getAvailableLocales,
+  getLocaleStrings,
+  resolveLocale,
+} from '../utils/i18n';
+
+/**
+ * Translation context
+ */
+const I18nContext = createContext<Translator | null>(null);
+
+/**
+ * I18n provider props
+ */
+export interface I18nProviderProps {
+  locale?: string; // 'auto' or unset follows the browser
+  messages?: MessageConfiguration;
+  children: React.ReactNode;
+}
+
+/**
+ * I18n provider component
+ */
+export const I18nProvider: React.FC<I18nProviderProps> = ({
+  locale,
+  messages,
+  children,
+}) => {
+  const translator = useMemo(() => {
+    const resolved = resolveLocale(locale, getAvailableLocales(messages));
+    return createTranslator(resolved, getLocaleStrings(messages, resolved));
+  }, [locale, messages]);
+
+  return (
+    <I18nContext.Provider value={translator}>{children}</I18nContext.Provider>
+  );
+};
+
+/**
+ * Hook to use the translator
+ * Components rendered outside a provider get English strings
+ */
+export const useTranslation = (): Translator =>
+  useContext(I18nContext) ?? defaultTranslator;
+
+export default I18nProvider;
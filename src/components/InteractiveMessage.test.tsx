@@ -0,0 +1,135 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { InteractiveMessage } from './InteractiveMessage';
+
+// Mock CSS imports
+vi.mock('../styles/InteractiveMessage.css', () => ({}));
+
+describe('InteractiveMessage', () => {
+  const listPicker = JSON.stringify({
+    templateType: 'ListPicker',
+    version: '1.0',
+    data: {
+      content: {
+        title: 'What can we help with?',
+        subtitle: 'Pick a topic',
+        elements: [
+          { title: 'Billing', subtitle: 'Invoices and payments' },
+          { title: 'Orders' },
+        ],
+      },
+    },
+  });
+
+  it('should render a list picker', () => {
+    render(<InteractiveMessage content={listPicker} onRespond={vi.fn()} />);
+
+    expect(screen.getByText('What can we help with?')).toBeInTheDocument();
+    expect(screen.getByText('Pick a topic')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Billing/ })).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Orders' })).toBeEnabled();
+  });
+
+  it('should respond with the selection and lock the options', () => {
+    const onRespond = vi.fn();
+    render(<InteractiveMessage content={listPicker} onRespond={onRespond} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Orders' }));
+    fireEvent.click(screen.getByRole('button', { name: /Billing/ }));
+
+    expect(onRespond).toHaveBeenCalledTimes(1);
+    expect(onRespond).toHaveBeenCalledWith({
+      templateType: 'ListPicker',
+      version: '1.0',
+      data: {
+        content: {
+          title: 'What can we help with?',
+          elements: [{ title: 'Orders' }],
+        },
+      },
+    });
+    expect(screen.getByRole('button', { name: 'Orders' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    expect(screen.getByRole('button', { name: /Billing/ })).toBeDisabled();
+  });
+
+  it('should disable the options once answered', () => {
+    render(
+      <InteractiveMessage content={listPicker} onRespond={vi.fn()} disabled />
+    );
+
+    expect(screen.getByRole('button', { name: 'Orders' })).toBeDisabled();
+  });
+
+  it('should answer carousel selections with the panel title', () => {
+    const onRespond = vi.fn();
+    const carousel = JSON.stringify({
+      templateType: 'Carousel',
+      version: '1.0',
+      data: {
+        content: {
+          title: 'Plans',
+          elements: [
+            {
+              templateType: 'Panel',
+              data: {
+                content: { title: 'Basic', elements: [{ title: 'Choose' }] },
+              },
+            },
+            {
+              templateType: 'Panel',
+              data: {
+                content: { title: 'Pro', elements: [{ title: 'Choose' }] },
+              },
+            },
+          ],
+        },
+      },
+    });
+
+    render(<InteractiveMessage content={carousel} onRespond={onRespond} />);
+    fireEvent.click(screen.getAllByRole('button', { name: 'Choose' })[1]);
+
+    expect(onRespond).toHaveBeenCalledWith(
+      expect.objectContaining({
+        templateType: 'Carousel',
+        data: {
+          content: { title: 'Pro', elements: [{ title: 'Choose' }] },
+        },
+      })
+    );
+  });
+
+  it('should not load images from unsafe URLs', () => {
+    const { container } = render(
+      <InteractiveMessage
+        content={JSON.stringify({
+          templateType: 'Panel',
+          version: '1.0',
+          data: {
+            content: {
+              title: 'Help',
+              imageData: 'javascript:alert(1)',
+              elements: [
+                { title: 'Docs', imageData: 'https://example.com/docs.png' },
+              ],
+            },
+          },
+        })}
+      />
+    );
+
+    const images = container.querySelectorAll('img');
+    expect(images).toHaveLength(1);
+    expect(images[0]).toHaveAttribute('src', 'https://example.com/docs.png');
+  });
+
+  it('should fall back to the raw content for unsupported templates', () => {
+    render(<InteractiveMessage content="Pick one: Billing or Orders" />);
+
+    expect(screen.getByText('Pick one: Billing or Orders')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import type {
+  InteractiveElement,
+  InteractiveImage,
+  InteractiveResponse,
+  InteractiveTimeslot,
+  PanelTemplate,
+} from '../types/aws-connect';
+import {
+  createInteractiveResponse,
+  formatTimeslot,
+  parseInteractiveTemplate,
+} from '../utils/interactiveMessage';
+import { sanitizeUrl } from '../utils/markdown';
+import { useTranslation } from './I18nProvider';
+import '../styles/InteractiveMessage.css';
+
+/**
+ * Interactive message component props
+ */
+export interface InteractiveMessageProps {
+  content: string; // JSON-encoded interactive template
+  disabled?: boolean; // Set once the visitor has answered
+  onRespond?: (response: InteractiveResponse) => void;
+}
+
+/**
+ * Template image, only loaded over http or https
+ */
+const TemplateImage: React.FC<{
+  image: InteractiveImage;
+  className: string;
+}> = ({ image, className }) => {
+  const src = image.imageData ? sanitizeUrl(image.imageData) : null;
+  if (!src || !/^https?:/i.test(src)) {
+    return null;
+  }
+
+  return (
+    <img src={src} alt={image.imageDescription || ''} className={className} />
+  );
+};
+
+/**
+ * Title, subtitle and image shared by every template
+ */
+const TemplateHeader: React.FC<{
+  title?: string;
+  subtitle?: string;
+  image?: InteractiveImage;
+}> = ({ title, subtitle, image }) => (
+  <div className="interactive-message__header">
+    {image && (
+      <TemplateImage image={image} className="interactive-message__image" />
+    )}
+    {title && <p className="interactive-message__title">{title}</p>}
+    {subtitle && <p className="interactive-message__subtitle">{subtitle}</p>}
+  </div>
+);
+
+/**
+ * InteractiveMessage component - Connect list pickers, time pickers, panels
+ * and carousels
+ * Falls back to the raw content for unsupported templates
+ */
+export const InteractiveMessage: React.FC<InteractiveMessageProps> = ({
+  content,
+  disabled = false,
+  onRespond,
+}) => {
+  const { locale } = useTranslation();
+  const template = useMemo(() => parseInteractiveTemplate(content), [content]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  if (!template) {
+    return <div className="message-bubble__text">{content}</div>;
+  }
+
+  const isLocked = disabled || selectedKey !== null || !onRespond;
+
+  const select = (
+    key: string,
+    selection: InteractiveElement | InteractiveTimeslot,
+    title?: string
+  ) => {
+    if (isLocked) return;
+
+    setSelectedKey(key);
+    // Carousel answers carry the title of the panel they came from
+    onRespond?.(createInteractiveResponse(template, selection, title));
+  };
+
+  const renderOption = (
+    key: string,
+    element: InteractiveElement,
+    onClick: () => void
+  ) => (
+    <li key={key}>
+      <button
+        type="button"
+        className={`interactive-message__option${
+          selectedKey === key ? ' interactive-message__option--selected' : ''
+        }`}
+        onClick={onClick}
+        disabled={isLocked}
+        aria-pressed={selectedKey === key}
+      >
+        <TemplateImage
+          image={element}
+          className="interactive-message__option-image"
+        />
+        <span className="interactive-message__option-text">
+          <span className="interactive-message__option-title">
+            {element.title}
+          </span>
+          {element.subtitle && (
+            <span className="interactive-message__option-subtitle">
+              {element.subtitle}
+            </span>
+          )}
+        </span>
+      </button>
+    </li>
+  );
+
+  const renderPanel = (
+    panel: Pick<PanelTemplate, 'data'>,
+    keyPrefix: string
+  ) => {
+    const panelContent = panel.data.content;
+
+    return (
+      <>
+        <TemplateHeader
+          title={panelContent.title}
+          subtitle={panelContent.subtitle}
+          image={panelContent}
+        />
+        <ul className="interactive-message__options">
+          {panelContent.elements.map((element, index) =>
+            renderOption(`${keyPrefix}${index}`, element, () =>
+              select(`${keyPrefix}${index}`, element, panelContent.title)
+            )
+          )}
+        </ul>
+      </>
+    );
+  };
+
+  switch (template.templateType) {
+    case 'ListPicker': {
+      const listContent = template.data.content;
+      return (
+        <div className="interactive-message interactive-message--list-picker">
+          <TemplateHeader
+            title={listContent.title}
+            subtitle={listContent.subtitle}
+            image={listContent}
+          />
+          <ul className="interactive-message__options">
+            {listContent.elements.map((element, index) =>
+              renderOption(String(index), element, () =>
+                select(String(index), element)
+              )
+            )}
+          </ul>
+        </div>
+      );
+    }
+    case 'Panel':
+      return (
+        <div className="interactive-message interactive-message--panel">
+          {renderPanel(template, '')}
+        </div>
+      );
+    case 'TimePicker': {
+      const timeContent = template.data.content;
+      return (
+        <div className="interactive-message interactive-message--time-picker">
+          <TemplateHeader
+            title={timeContent.title}
+            subtitle={timeContent.subtitle}
+          />
+          <ul className="interactive-message__options">
+            {timeContent.timeslots.map((timeslot, index) =>
+              renderOption(
+                String(index),
+                {
+                  title: formatTimeslot(
+                    timeslot,
+                    timeContent.timeZoneOffset,
+                    locale
+                  ),
+                  subtitle: `${timeslot.duration} min`,
+                },
+                () => select(String(index), timeslot)
+              )
+            )}
+          </ul>
+        </div>
+      );
+    }
+    case 'Carousel': {
+      const carouselContent = template.data.content;
+      return (
+        <div className="interactive-message interactive-message--carousel">
+          {carouselContent.title && (
+            <TemplateHeader title={carouselContent.title} />
+          )}
+          <div className="interactive-message__carousel" role="list">
+            {carouselContent.elements.map((panel, index) => (
+              <div
+                key={index}
+                className="interactive-message__card"
+                role="listitem"
+              >
+                {renderPanel(panel, `${index}-`)}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    }
+  }
+};
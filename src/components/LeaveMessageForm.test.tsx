@@ -0,0 +1,77 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { LeaveMessageForm } from './LeaveMessageForm';
+
+// Mock CSS imports
+vi.mock('../styles/LeaveMessageForm.css', () => ({}));
+vi.mock('../styles/PreChatForm.css', () => ({}));
+
+describe('LeaveMessageForm', () => {
+  const fillDefaultForm = () => {
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Jamie' },
+    });
+    fireEvent.change(screen.getByLabelText(/Email/), {
+      target: { value: 'jamie@example.com' },
+    });
+    fireEvent.change(screen.getByLabelText(/Message/), {
+      target: { value: 'Please call me back' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send Message' }));
+  };
+
+  it('should show the offline message with the default form', () => {
+    render(
+      <LeaveMessageForm offlineMessage="We are offline" onSubmit={vi.fn()} />
+    );
+
+    expect(screen.getByText('We are offline')).toBeInTheDocument();
+    expect(screen.getByLabelText(/Message/).tagName).toBe('TEXTAREA');
+  });
+
+  it('should only show the offline message without a submit handler', () => {
+    render(<LeaveMessageForm offlineMessage="We are offline" />);
+
+    expect(screen.getByText('We are offline')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('should submit the answers and confirm', async () => {
+    const onSubmit = vi.fn().mockResolvedValue(undefined);
+    render(
+      <LeaveMessageForm
+        offlineMessage="We are offline"
+        successMessage="Message sent"
+        onSubmit={onSubmit}
+      />
+    );
+
+    fillDefaultForm();
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      name: 'Jamie',
+      email: 'jamie@example.com',
+      message: 'Please call me back',
+    });
+    expect(await screen.findByRole('status')).toHaveTextContent('Message sent');
+  });
+
+  it('should let the visitor retry when sending fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onSubmit = vi.fn().mockRejectedValue(new Error('Network error'));
+    render(
+      <LeaveMessageForm offlineMessage="We are offline" onSubmit={onSubmit} />
+    );
+
+    fillDefaultForm();
+
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'Your message could not be sent'
+      )
+    );
+    expect(screen.getByRole('button', { name: 'Send Message' })).toBeEnabled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { PreChatFormConfiguration } from '../types/widget';
+import { PreChatForm } from './PreChatForm';
+import { getDefaultLeaveMessageForm } from '../utils/preChatForm';
+import type { PreChatAnswers } from '../utils/preChatForm';
+import { useTranslation } from './I18nProvider';
+import '../styles/LeaveMessageForm.css';
+
+/**
+ * Leave message form component props
+ */
+export interface LeaveMessageFormProps {
+  offlineMessage: string;
+  form?: PreChatFormConfiguration;
+  successMessage?: string;
+  onSubmit?: (answers: PreChatAnswers) => Promise<void>; // Form is hidden when unset
+}
+
+type SubmitStatus = 'idle' | 'sending' | 'sent' | 'failed';
+
+/**
+ * LeaveMessageForm component - Offline state of the chat window
+ * Shows the offline message and collects a message instead of starting a chat
+ */
+export const LeaveMessageForm: React.FC<LeaveMessageFormProps> = ({
+  offlineMessage,
+  form,
+  successMessage,
+  onSubmit,
+}) => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+
+  const handleSubmit = async (answers: PreChatAnswers) => {
+    if (!onSubmit) return;
+
+    setStatus('sending');
+    try {
+      await onSubmit(answers);
+      setStatus('sent');
+    } catch (error) {
+      console.error('Failed to leave message:', error);
+      setStatus('failed');
+    }
+  };
+
+  return (
+    <div className="leave-message">
+      <p className="leave-message__offline">{offlineMessage}</p>
+
+      {status === 'sent' ? (
+        <p className="leave-message__success" role="status">
+          {successMessage || t('leaveMessage.success')}
+        </p>
+      ) : (
+        onSubmit && (
+          <>
+            {status === 'failed' && (
+              <p className="leave-message__error" role="alert">
+                {t('leaveMessage.failed')}
+              </p>
+            )}
+            <PreChatForm
+              config={form ?? getDefaultLeaveMessageForm(t)}
+              onSubmit={handleSubmit}
+              disabled={status === 'sending'}
+            />
+          </>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { MarkdownContent } from './MarkdownContent';
+
+describe('MarkdownContent', () => {
+  it('should link URLs in plain text without parsing Markdown', () => {
+    const { container } = render(
+      <MarkdownContent content="**Hi** see https://example.com" />
+    );
+
+    expect(container.querySelector('strong')).not.toBeInTheDocument();
+    expect(screen.getByText(/\*\*Hi\*\*/)).toBeInTheDocument();
+    expect(
+      screen.getByRole('link', { name: 'https://example.com' })
+    ).toHaveAttribute('href', 'https://example.com');
+  });
+
+  it('should render Markdown as elements', () => {
+    const { container } = render(
+      <MarkdownContent
+        markdown
+        content={
+          '**Bold** and *italic*\n\n- One\n- Two\n\n[Docs](https://example.com/docs)'
+        }
+      />
+    );
+
+    expect(container.querySelector('strong')).toHaveTextContent('Bold');
+    expect(container.querySelector('em')).toHaveTextContent('italic');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+
+    const link = screen.getByRole('link', { name: 'Docs' });
+    expect(link).toHaveAttribute('href', 'https://example.com/docs');
+    expect(link).toHaveAttribute('target', '_blank');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+  });
+
+  it('should never render HTML or unsafe links', () => {
+    const { container } = render(
+      <MarkdownContent
+        markdown
+        content={'<img src=x onerror="alert(1)"> [click](javascript:alert(1))'}
+      />
+    );
+
+    expect(container.querySelector('img')).not.toBeInTheDocument();
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)">');
+  });
+
+  it('should apply the given class name', () => {
+    const { container } = render(
+      <MarkdownContent content="Hello" className="message-bubble__text" />
+    );
+
+    expect(container.firstChild).toHaveClass(
+      'markdown',
+      'message-bubble__text'
+    );
+  });
+});
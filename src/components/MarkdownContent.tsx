@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { linkifyText, parseMarkdown } from '../utils/markdown';
+import type { MarkdownBlock, MarkdownInline } from '../utils/markdown';
+
+/**
+ * Markdown content component props
+ */
+export interface MarkdownContentProps {
+  content: string;
+  markdown?: boolean; // Plain text only gets its URLs linked when unset
+  className?: string;
+}
+
+/**
+ * Render inline nodes as React elements
+ */
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="markdown__code">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="markdown__link"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+/**
+ * Render a block node as a React element
+ */
+const renderBlock = (block: MarkdownBlock, index: number): React.ReactNode => {
+  switch (block.type) {
+    case 'paragraph':
+      return (
+        <p key={index} className="markdown__paragraph">
+          {renderInline(block.children)}
+        </p>
+      );
+    case 'heading':
+      // Headings inside a message must not join the page outline
+      return (
+        <p
+          key={index}
+          className={`markdown__heading markdown__heading--${block.level}`}
+        >
+          <strong>{renderInline(block.children)}</strong>
+        </p>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className="markdown__list">
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'blockquote':
+      return (
+        <blockquote key={index} className="markdown__blockquote">
+          {renderInline(block.children)}
+        </blockquote>
+      );
+    case 'codeBlock':
+      return (
+        <pre key={index} className="markdown__code-block">
+          <code>{block.text}</code>
+        </pre>
+      );
+  }
+};
+
+/**
+ * MarkdownContent component - Safe rendering of message text
+ * Markdown is turned into React elements, so HTML in messages is never
+ * interpreted and only http, https, mailto and tel links are rendered
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  markdown = false,
+  className,
+}) => {
+  const rendered = useMemo(
+    () =>
+      markdown
+        ? parseMarkdown(content).map(renderBlock)
+        : renderInline(linkifyText(content)),
+    [content, markdown]
+  );
+
+  return (
+    <div
+      className={[
+        'markdown',
+        markdown ? 'markdown--rich' : undefined,
+        className,
+      ]
+        .filter(Boolean)
+        .join(' ')}
+    >
+      {rendered}
+    </div>
+  );
+};
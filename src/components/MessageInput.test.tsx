@@ -510,8 +510,7 @@ describe('MessageInput', () => {
       await user.type(textarea, 'A'.repeat(60));
 
       const charCount = screen.getByText('40 characters remaining');
-      expect(textarea).toHaveAttribute('aria-describedby', 'char-count');
-      expect(charCount).toHaveAttribute('id', 'char-count');
+      expect(textarea).toHaveAttribute('aria-describedby', charCount.id);
       expect(charCount).toHaveAttribute('aria-live', 'polite');
     });
 
@@ -563,4 +562,117 @@ describe('MessageInput', () => {
       expect(mockOnTyping).toHaveBeenCalledWith(true);
     });
   });
+
+  describe('Attachments', () => {
+    const attachmentConfig = {
+      maxFileSizeBytes: 1024,
+      allowedMimeTypes: ['image/png', 'application/pdf'],
+    };
+
+    const createFile = (name: string, type: string, size = 10) => {
+      const file = new File(['x'], name, { type });
+      Object.defineProperty(file, 'size', { value: size });
+      return file;
+    };
+
+    it('should not render a file picker without attachment config', () => {
+      render(<MessageInput {...defaultProps} />);
+
+      expect(screen.queryByLabelText('Attach file')).not.toBeInTheDocument();
+    });
+
+    it('should restrict the file picker to allowed MIME types', () => {
+      render(
+        <MessageInput
+          {...defaultProps}
+          attachmentConfig={attachmentConfig}
+          onSendAttachment={vi.fn()}
+        />
+      );
+
+      expect(screen.getByLabelText('Attach file')).toBeInTheDocument();
+      expect(screen.getByTestId('message-input-file')).toHaveAttribute(
+        'accept',
+        'image/png,application/pdf'
+      );
+    });
+
+    it('should send files picked within the limits', () => {
+      const onSendAttachment = vi.fn();
+      render(
+        <MessageInput
+          {...defaultProps}
+          attachmentConfig={attachmentConfig}
+          onSendAttachment={onSendAttachment}
+        />
+      );
+
+      const file = createFile('photo.png', 'image/png');
+      fireEvent.change(screen.getByTestId('message-input-file'), {
+        target: { files: [file] },
+      });
+
+      expect(onSendAttachment).toHaveBeenCalledWith(file);
+    });
+
+    it('should reject files that break the limits', () => {
+      const onSendAttachment = vi.fn();
+      render(
+        <MessageInput
+          {...defaultProps}
+          attachmentConfig={attachmentConfig}
+          onSendAttachment={onSendAttachment}
+        />
+      );
+
+      fireEvent.change(screen.getByTestId('message-input-file'), {
+        target: { files: [createFile('huge.png', 'image/png', 4096)] },
+      });
+
+      expect(onSendAttachment).not.toHaveBeenCalled();
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'huge.png is larger than 1 KB'
+      );
+    });
+
+    it('should accept dropped files', () => {
+      const onSendAttachment = vi.fn();
+      const { container } = render(
+        <MessageInput
+          {...defaultProps}
+          attachmentConfig={attachmentConfig}
+          onSendAttachment={onSendAttachment}
+        />
+      );
+
+      const form = container.querySelector('form')!;
+      const file = createFile('invoice.pdf', 'application/pdf');
+
+      fireEvent.dragOver(form, { dataTransfer: { files: [file] } });
+      expect(form).toHaveClass('message-input--dragging');
+
+      fireEvent.drop(form, { dataTransfer: { files: [file] } });
+
+      expect(onSendAttachment).toHaveBeenCalledWith(file);
+      expect(form).not.toHaveClass('message-input--dragging');
+    });
+
+    it('should ignore dropped files while disabled', () => {
+      const onSendAttachment = vi.fn();
+      const { container } = render(
+        <MessageInput
+          {...defaultProps}
+          disabled
+          attachmentConfig={attachmentConfig}
+          onSendAttachment={onSendAttachment}
+        />
+      );
+
+      fireEvent.drop(container.querySelector('form')!, {
+        dataTransfer: { files: [createFile('photo.png', 'image/png')] },
+      });
+
+      expect(onSendAttachment).not.toHaveBeenCalled();
+    });
+  });
 });
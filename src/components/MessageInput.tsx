@@ -1,5 +1,7 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useId } from 'react';
 import type { MessageInputProps } from '../types/ui';
+import { validateAttachmentFile } from '../utils/attachments';
+import { useTranslation } from './I18nProvider';
 import '../styles/MessageInput.css';
 
 /**
@@ -12,10 +14,17 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   placeholder,
   maxLength = 1000,
   onTyping,
+  attachmentConfig,
+  onSendAttachment,
 }) => {
+  const { t } = useTranslation();
+  const charCountId = useId();
   const [message, setMessage] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const typingTimeoutRef = useRef<number | null>(null);
 
   // Auto-resize textarea based on content
@@ -116,6 +125,58 @@ export const MessageInput: React.FC<MessageInputProps> = ({
     }
   };
 
+  const canAttach = Boolean(attachmentConfig && onSendAttachment) && !disabled;
+
+  // Validate files against the attachment limits before uploading
+  const handleFiles = (files: FileList | null) => {
+    if (!files || !attachmentConfig || !onSendAttachment) {
+      return;
+    }
+
+    setAttachmentError(null);
+
+    Array.from(files).forEach(file => {
+      const error = validateAttachmentFile(file, attachmentConfig, t);
+      if (error) {
+        setAttachmentError(error);
+        return;
+      }
+
+      onSendAttachment(file);
+    });
+  };
+
+  // Handle file picker selection
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(event.target.files);
+    // Allow the same file to be picked again
+    event.target.value = '';
+  };
+
+  // Handle drag and drop
+  const handleDragOver = (event: React.DragEvent<HTMLFormElement>) => {
+    if (!canAttach) {
+      return;
+    }
+
+    event.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = () => {
+    setIsDragging(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLFormElement>) => {
+    if (!canAttach) {
+      return;
+    }
+
+    event.preventDefault();
+    setIsDragging(false);
+    handleFiles(event.dataTransfer.files);
+  };
+
   // Adjust height on mount and when message changes
   useEffect(() => {
     adjustTextareaHeight();
@@ -135,8 +196,52 @@ export const MessageInput: React.FC<MessageInputProps> = ({
   const canSend = message.trim().length > 0 && !disabled;
 
   return (
-    <form className="message-input" onSubmit={handleSubmit}>
+    <form
+      className={`message-input ${isDragging ? 'message-input--dragging' : ''}`}
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <div className="message-input__container">
+        {attachmentConfig && onSendAttachment && (
+          <>
+            <button
+              type="button"
+              className="message-input__attach-button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canAttach}
+              aria-label={t('messageInput.attach')}
+              title={t('messageInput.attach')}
+            >
+              <svg
+                width="20"
+                height="20"
+                viewBox="0 0 20 20"
+                fill="none"
+                aria-hidden="true"
+              >
+                <path
+                  d="M16 9.5L10 15.5C8.3 17.2 5.7 17.2 4 15.5C2.3 13.8 2.3 11.2 4 9.5L10.5 3C11.6 1.9 13.4 1.9 14.5 3C15.6 4.1 15.6 5.9 14.5 7L8 13.5C7.4 14.1 6.6 14.1 6 13.5C5.4 12.9 5.4 12.1 6 11.5L11.5 6"
+                  stroke="currentColor"
+                  strokeWidth="1.5"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="message-input__file-input"
+              accept={attachmentConfig.allowedMimeTypes.join(',')}
+              onChange={handleFileChange}
+              disabled={!canAttach}
+              hidden
+              data-testid="message-input-file"
+            />
+          </>
+        )}
         <div className="message-input__field">
           <textarea
             ref={textareaRef}
@@ -147,16 +252,16 @@ export const MessageInput: React.FC<MessageInputProps> = ({
             placeholder={placeholder}
             disabled={disabled}
             rows={1}
-            aria-label="Type your message"
-            aria-describedby={isNearLimit ? 'char-count' : undefined}
+            aria-label={t('messageInput.label')}
+            aria-describedby={isNearLimit ? charCountId : undefined}
           />
           {maxLength && isNearLimit && (
             <div
-              id="char-count"
+              id={charCountId}
               className={`message-input__char-count ${remainingChars === 0 ? 'message-input__char-count--limit' : ''}`}
               aria-live="polite"
             >
-              {remainingChars} characters remaining
+              {t('messageInput.remaining', { count: remainingChars ?? 0 })}
             </div>
           )}
         </div>
@@ -165,8 +270,10 @@ export const MessageInput: React.FC<MessageInputProps> = ({
           type="submit"
           className={`message-input__send-button ${canSend ? 'message-input__send-button--active' : ''}`}
           disabled={!canSend}
-          aria-label="Send message"
-          title={canSend ? 'Send message (Enter)' : 'Type a message to send'}
+          aria-label={t('messageInput.send')}
+          title={
+            canSend ? t('messageInput.sendHint') : t('messageInput.emptyHint')
+          }
         >
           <svg
             width="20"
@@ -188,9 +295,15 @@ export const MessageInput: React.FC<MessageInputProps> = ({
         </button>
       </div>
 
+      {attachmentError && (
+        <div className="message-input__error" role="alert">
+          {attachmentError}
+        </div>
+      )}
+
       {/* Keyboard shortcuts hint */}
       <div className="message-input__hint" aria-hidden="true">
-        Press Enter to send, Shift+Enter for new line
+        {t('messageInput.keyboardHint')}
       </div>
     </form>
   );
@@ -178,6 +178,15 @@ describe('MessageList', () => {
       expect(statusIcon).toBeInTheDocument();
     });
 
+    it('should show read status icon with read styling', () => {
+      const messages = [createMessage({ status: 'read', sender: 'visitor' })];
+
+      render(<MessageList {...defaultProps} messages={messages} />);
+
+      const statusIcon = document.querySelector('.message-bubble__status-icon');
+      expect(statusIcon).toHaveClass('message-bubble__status-icon--read');
+    });
+
     it('should show failed status icon with error styling', () => {
       const messages = [createMessage({ status: 'failed', sender: 'visitor' })];
 
@@ -390,6 +399,426 @@ describe('MessageList', () => {
     });
   });
 
+  describe('Older History', () => {
+    const mockScrollTo = (
+      element: HTMLElement,
+      scrollTop: number,
+      scrollHeight: number
+    ) => {
+      Object.defineProperty(element, 'scrollTop', {
+        value: scrollTop,
+        writable: true,
+      });
+      Object.defineProperty(element, 'scrollHeight', {
+        value: scrollHeight,
+        writable: true,
+        configurable: true,
+      });
+      Object.defineProperty(element, 'clientHeight', {
+        value: 300,
+        writable: true,
+      });
+    };
+
+    it('should request older messages when scrolled to the top', () => {
+      const onLoadOlder = vi.fn();
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[createMessage()]}
+          onLoadOlder={onLoadOlder}
+          hasMoreHistory
+        />
+      );
+
+      const messageList = screen.getByRole('log');
+      mockScrollTo(messageList, 0, 1000);
+      fireEvent.scroll(messageList);
+
+      expect(onLoadOlder).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not request older messages away from the top', () => {
+      const onLoadOlder = vi.fn();
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[createMessage()]}
+          onLoadOlder={onLoadOlder}
+          hasMoreHistory
+        />
+      );
+
+      const messageList = screen.getByRole('log');
+      mockScrollTo(messageList, 400, 1000);
+      fireEvent.scroll(messageList);
+
+      expect(onLoadOlder).not.toHaveBeenCalled();
+    });
+
+    it('should not request older messages when history is exhausted or loading', () => {
+      const onLoadOlder = vi.fn();
+      const { rerender } = render(
+        <MessageList
+          {...defaultProps}
+          messages={[createMessage()]}
+          onLoadOlder={onLoadOlder}
+          hasMoreHistory={false}
+        />
+      );
+
+      const messageList = screen.getByRole('log');
+      mockScrollTo(messageList, 0, 1000);
+      fireEvent.scroll(messageList);
+
+      rerender(
+        <MessageList
+          {...defaultProps}
+          messages={[createMessage()]}
+          onLoadOlder={onLoadOlder}
+          hasMoreHistory
+          isLoadingHistory
+        />
+      );
+      fireEvent.scroll(messageList);
+
+      expect(onLoadOlder).not.toHaveBeenCalled();
+    });
+
+    it('should show a loading indicator while fetching history', () => {
+      render(<MessageList {...defaultProps} isLoadingHistory />);
+
+      expect(
+        screen.getByText('Loading earlier messages...')
+      ).toBeInTheDocument();
+    });
+
+    it('should keep the scroll position when older messages are prepended', () => {
+      const latest = createMessage({ id: 'latest', content: 'Latest' });
+      const onLoadOlder = vi.fn();
+      const { rerender } = render(
+        <MessageList
+          {...defaultProps}
+          messages={[latest]}
+          onLoadOlder={onLoadOlder}
+          hasMoreHistory
+        />
+      );
+
+      const messageList = screen.getByRole('log');
+      mockScrollTo(messageList, 0, 1000);
+      fireEvent.scroll(messageList);
+
+      Object.defineProperty(messageList, 'scrollHeight', {
+        value: 1600,
+        writable: true,
+        configurable: true,
+      });
+      rerender(
+        <MessageList
+          {...defaultProps}
+          messages={[createMessage({ id: 'older' }), latest]}
+          onLoadOlder={onLoadOlder}
+          hasMoreHistory
+        />
+      );
+
+      expect(messageList.scrollTop).toBe(600);
+    });
+  });
+
+  describe('Rich Messages', () => {
+    const listPicker = JSON.stringify({
+      templateType: 'ListPicker',
+      version: '1.0',
+      data: {
+        content: {
+          title: 'What can we help with?',
+          elements: [{ title: 'Billing' }, { title: 'Orders' }],
+        },
+      },
+    });
+
+    it('should render Markdown messages as rich text', () => {
+      const { container } = render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'agent',
+              content: 'Your order **has shipped**',
+              contentType: 'text/markdown',
+            }),
+          ]}
+        />
+      );
+
+      expect(container.querySelector('strong')).toHaveTextContent(
+        'has shipped'
+      );
+    });
+
+    it('should link URLs in plain text messages', () => {
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({ content: 'See https://example.com/help' }),
+          ]}
+        />
+      );
+
+      expect(
+        screen.getByRole('link', { name: 'https://example.com/help' })
+      ).toHaveAttribute('href', 'https://example.com/help');
+    });
+
+    it('should render interactive messages and send responses', () => {
+      const onInteractiveResponse = vi.fn();
+
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'system',
+              type: 'system',
+              content: listPicker,
+              contentType:
+                'application/vnd.amazonaws.connect.message.interactive',
+            }),
+          ]}
+          onInteractiveResponse={onInteractiveResponse}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Billing' }));
+
+      expect(onInteractiveResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          templateType: 'ListPicker',
+          data: {
+            content: {
+              title: 'What can we help with?',
+              elements: [{ title: 'Billing' }],
+            },
+          },
+        })
+      );
+    });
+
+    it('should lock interactive messages the visitor has answered', () => {
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'agent',
+              content: listPicker,
+              contentType:
+                'application/vnd.amazonaws.connect.message.interactive',
+              timestamp: new Date(Date.now() - 1000),
+            }),
+            createMessage({
+              content: JSON.stringify({
+                templateType: 'ListPicker',
+                version: '1.0',
+                data: {
+                  content: {
+                    title: 'What can we help with?',
+                    elements: [{ title: 'Orders' }],
+                  },
+                },
+              }),
+              contentType:
+                'application/vnd.amazonaws.connect.message.interactive.response',
+            }),
+          ]}
+          onInteractiveResponse={vi.fn()}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: 'Orders' })).toBeDisabled();
+      // The visitor's answer shows the chosen option, not the raw JSON
+      expect(screen.getAllByText('Orders')).toHaveLength(2);
+    });
+  });
+
+  describe('Quick Replies', () => {
+    const quickReplies = [
+      { label: 'Yes', value: 'yes' },
+      { label: 'No', value: 'no' },
+    ];
+
+    it('should show quick replies under bot messages', () => {
+      const onQuickReply = vi.fn();
+
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'system',
+              type: 'system',
+              content: 'Was this helpful?',
+              quickReplies,
+            }),
+          ]}
+          onQuickReply={onQuickReply}
+        />
+      );
+
+      expect(screen.getByText('Was this helpful?')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Yes' }));
+
+      expect(onQuickReply).toHaveBeenCalledWith({ label: 'Yes', value: 'yes' });
+    });
+
+    it('should disable quick replies once the visitor has replied', () => {
+      const onQuickReply = vi.fn();
+
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'agent',
+              content: 'Was this helpful?',
+              quickReplies,
+            }),
+            createMessage({ content: 'Thanks, all sorted' }),
+          ]}
+          onQuickReply={onQuickReply}
+        />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Yes' }));
+
+      expect(onQuickReply).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: 'Yes' })).toHaveAttribute(
+        'aria-disabled',
+        'true'
+      );
+    });
+  });
+
+  describe('Attachments', () => {
+    it('should render a file card with size and download action', async () => {
+      const onResolveAttachment = vi
+        .fn()
+        .mockResolvedValue('https://download.example.com/report.pdf');
+      const openSpy = vi.spyOn(window, 'open').mockImplementation(() => null);
+
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              type: 'file',
+              content: 'report.pdf',
+              attachment: {
+                id: 'attachment-1',
+                name: 'report.pdf',
+                mimeType: 'application/pdf',
+                size: 2048,
+              },
+            }),
+          ]}
+          onResolveAttachment={onResolveAttachment}
+        />
+      );
+
+      expect(screen.getByText('report.pdf')).toBeInTheDocument();
+      expect(screen.getByText('2 KB')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Download report.pdf'));
+
+      await waitFor(() => {
+        expect(openSpy).toHaveBeenCalledWith(
+          'https://download.example.com/report.pdf',
+          '_blank',
+          'noopener,noreferrer'
+        );
+      });
+      expect(onResolveAttachment).toHaveBeenCalledWith('attachment-1');
+      openSpy.mockRestore();
+    });
+
+    it('should render image thumbnails once the URL is resolved', async () => {
+      const onResolveAttachment = vi
+        .fn()
+        .mockResolvedValue('https://download.example.com/photo.png');
+
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'agent',
+              type: 'image',
+              content: 'photo.png',
+              attachment: {
+                id: 'attachment-2',
+                name: 'photo.png',
+                mimeType: 'image/png',
+              },
+            }),
+          ]}
+          onResolveAttachment={onResolveAttachment}
+        />
+      );
+
+      const image = await screen.findByAltText('photo.png');
+      expect(image).toHaveAttribute(
+        'src',
+        'https://download.example.com/photo.png'
+      );
+    });
+
+    it('should not offer a download before the upload completes', () => {
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              status: 'sending',
+              type: 'file',
+              content: 'notes.txt',
+              attachment: { id: '', name: 'notes.txt', mimeType: 'text/plain' },
+            }),
+          ]}
+          onResolveAttachment={vi.fn()}
+        />
+      );
+
+      expect(screen.getByText('notes.txt')).toBeInTheDocument();
+      expect(
+        screen.queryByLabelText('Download notes.txt')
+      ).not.toBeInTheDocument();
+    });
+  });
+
+  describe('System Messages', () => {
+    it('should render system messages as centered notices', () => {
+      render(
+        <MessageList
+          {...defaultProps}
+          messages={[
+            createMessage({
+              sender: 'system',
+              type: 'system',
+              content: 'Jane has joined the chat',
+            }),
+          ]}
+        />
+      );
+
+      const notice = screen.getByText('Jane has joined the chat');
+      expect(notice).toHaveClass('message-list__system');
+      expect(screen.queryByText('John Smith')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Empty State', () => {
     it('should show empty state icon and message', () => {
       render(<MessageList {...defaultProps} messages={[]} />);
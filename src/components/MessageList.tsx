@@ -1,12 +1,128 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import type {
   MessageListProps,
   MessageBubbleProps,
   TypingIndicatorProps,
 } from '../types/ui';
-import type { Message } from '../types/chat';
+import type { Message, MessageAttachment } from '../types/chat';
+import { formatFileSize, isImageMimeType } from '../utils/attachments';
+import {
+  INTERACTIVE_CONTENT_TYPE,
+  INTERACTIVE_RESPONSE_CONTENT_TYPE,
+  getInteractiveResponseText,
+} from '../utils/interactiveMessage';
+import { MarkdownContent } from './MarkdownContent';
+import { InteractiveMessage } from './InteractiveMessage';
+import { QuickReplies } from './QuickReplies';
+import { useTranslation } from './I18nProvider';
 import '../styles/MessageList.css';
 
+// Distance from the top, in pixels, at which older history is requested
+const LOAD_OLDER_THRESHOLD = 16;
+
+/**
+ * AttachmentContent component for image thumbnails and file cards
+ * Download URLs expire, so they are resolved when needed
+ */
+const AttachmentContent: React.FC<{
+  attachment: MessageAttachment;
+  onResolveAttachment?: (attachmentId: string) => Promise<string>;
+}> = ({ attachment, onResolveAttachment }) => {
+  const { t } = useTranslation();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const canResolve = Boolean(attachment.id && onResolveAttachment);
+  const isImage = isImageMimeType(attachment.mimeType);
+
+  // Load thumbnails for uploaded images
+  useEffect(() => {
+    if (!isImage || !attachment.id || !onResolveAttachment) {
+      return;
+    }
+
+    let cancelled = false;
+
+    onResolveAttachment(attachment.id)
+      .then(url => {
+        if (!cancelled) {
+          setImageUrl(url);
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load attachment preview:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment.id, isImage, onResolveAttachment]);
+
+  const handleDownload = async () => {
+    if (!attachment.id || !onResolveAttachment) {
+      return;
+    }
+
+    try {
+      const url = await onResolveAttachment(attachment.id);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.warn('Failed to download attachment:', error);
+    }
+  };
+
+  if (isImage && imageUrl) {
+    return (
+      <a
+        href={imageUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="message-bubble__image-link"
+      >
+        <img
+          src={imageUrl}
+          alt={attachment.name}
+          className="message-bubble__image"
+        />
+      </a>
+    );
+  }
+
+  return (
+    <div className="message-bubble__file">
+      <svg
+        width="24"
+        height="24"
+        viewBox="0 0 24 24"
+        fill="none"
+        className="message-bubble__file-icon"
+        aria-hidden="true"
+      >
+        <path
+          d="M14 2H6C4.9 2 4 2.9 4 4V20C4 21.1 4.9 22 6 22H18C19.1 22 20 21.1 20 20V8L14 2ZM18 20H6V4H13V9H18V20Z"
+          fill="currentColor"
+        />
+      </svg>
+      <div className="message-bubble__file-details">
+        <span className="message-bubble__file-name">{attachment.name}</span>
+        {attachment.size !== undefined && (
+          <span className="message-bubble__file-size">
+            {formatFileSize(attachment.size)}
+          </span>
+        )}
+      </div>
+      {canResolve && (
+        <button
+          type="button"
+          className="message-bubble__file-download"
+          onClick={handleDownload}
+          aria-label={t('messageList.downloadFile', { name: attachment.name })}
+        >
+          {t('messageList.download')}
+        </button>
+      )}
+    </div>
+  );
+};
+
 /**
  * MessageBubble component for individual messages
  */
@@ -15,13 +131,15 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
   isOwn,
   showTimestamp,
   agentInfo,
+  onResolveAttachment,
+  onInteractiveResponse,
+  onQuickReply,
+  isAnswered = false,
 }) => {
+  const { formatDate } = useTranslation();
+
   const formatTime = (date: Date) => {
-    return new Intl.DateTimeFormat('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    }).format(date);
+    return formatDate(date, { hour: 'numeric', minute: '2-digit' });
   };
 
   const getStatusIcon = () => {
@@ -82,6 +200,28 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
             />
           </svg>
         );
+      case 'read':
+        return (
+          <svg
+            width="12"
+            height="12"
+            viewBox="0 0 12 12"
+            className="message-bubble__status-icon message-bubble__status-icon--read"
+          >
+            <path
+              d="M1 6L4 9L9 3"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              fill="none"
+            />
+            <path
+              d="M3 6L6 9L11 3"
+              stroke="currentColor"
+              strokeWidth="1.5"
+              fill="none"
+            />
+          </svg>
+        );
       case 'failed':
         return (
           <svg
@@ -121,7 +261,37 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
         {!isOwn && agentInfo?.name && (
           <div className="message-bubble__sender">{agentInfo.name}</div>
         )}
-        <div className="message-bubble__text">{message.content}</div>
+        {message.attachment ? (
+          <AttachmentContent
+            attachment={message.attachment}
+            onResolveAttachment={onResolveAttachment}
+          />
+        ) : message.contentType === INTERACTIVE_CONTENT_TYPE ? (
+          <div className="message-bubble__text message-bubble__interactive">
+            <InteractiveMessage
+              content={message.content}
+              disabled={isAnswered}
+              onRespond={onInteractiveResponse}
+            />
+          </div>
+        ) : message.contentType === INTERACTIVE_RESPONSE_CONTENT_TYPE ? (
+          <div className="message-bubble__text">
+            {getInteractiveResponseText(message.content)}
+          </div>
+        ) : (
+          <MarkdownContent
+            className="message-bubble__text"
+            content={message.content}
+            markdown={message.contentType === 'text/markdown'}
+          />
+        )}
+        {message.quickReplies && (
+          <QuickReplies
+            replies={message.quickReplies}
+            disabled={isAnswered}
+            onSelect={onQuickReply}
+          />
+        )}
         {showTimestamp && (
           <div className="message-bubble__meta">
             <span className="message-bubble__time">
@@ -142,6 +312,8 @@ const TypingIndicator: React.FC<TypingIndicatorProps> = ({
   isVisible,
   agentName,
 }) => {
+  const { t } = useTranslation();
+
   if (!isVisible) return null;
 
   return (
@@ -153,7 +325,9 @@ const TypingIndicator: React.FC<TypingIndicatorProps> = ({
           <span className="typing-indicator__dot" />
         </div>
         <span className="typing-indicator__text">
-          {agentName ? `${agentName} is typing...` : 'Agent is typing...'}
+          {agentName
+            ? t('messageList.typing', { name: agentName })
+            : t('messageList.agentTyping')}
         </span>
       </div>
     </div>
@@ -169,11 +343,32 @@ export const MessageList: React.FC<MessageListProps> = ({
   isTyping,
   onScroll,
   agentInfo,
+  onLoadOlder,
+  hasMoreHistory = false,
+  isLoadingHistory = false,
+  onResolveAttachment,
+  onInteractiveResponse,
+  onQuickReply,
 }) => {
+  const { t, formatDate } = useTranslation();
   const listRef = useRef<HTMLDivElement>(null);
+  const previousScrollHeightRef = useRef<number | null>(null);
   const [shouldAutoScroll, setShouldAutoScroll] = useState(true);
   const [userHasScrolled, setUserHasScrolled] = useState(false);
 
+  // Keep the visible messages in place when older history is prepended
+  useLayoutEffect(() => {
+    const previousScrollHeight = previousScrollHeightRef.current;
+    if (previousScrollHeight === null || !listRef.current || isLoadingHistory) {
+      return;
+    }
+
+    const scrollElement = listRef.current;
+    scrollElement.scrollTop +=
+      scrollElement.scrollHeight - previousScrollHeight;
+    previousScrollHeightRef.current = null;
+  }, [messages, isLoadingHistory]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (shouldAutoScroll && listRef.current) {
@@ -198,6 +393,17 @@ export const MessageList: React.FC<MessageListProps> = ({
     if (!userHasScrolled && scrollTop > 0) {
       setUserHasScrolled(true);
     }
+
+    // Lazily load older history when the visitor reaches the top
+    if (
+      onLoadOlder &&
+      hasMoreHistory &&
+      !isLoadingHistory &&
+      scrollTop <= LOAD_OLDER_THRESHOLD
+    ) {
+      previousScrollHeightRef.current = scrollHeight;
+      onLoadOlder();
+    }
   };
 
   // Group messages by date for better organization
@@ -229,6 +435,23 @@ export const MessageList: React.FC<MessageListProps> = ({
 
   const messageGroups = groupMessagesByDate(messages);
 
+  // Interactive messages and quick replies are answered once the visitor has
+  // replied after them
+  const answeredMessageIds = new Set<string>();
+  let visitorHasReplied = false;
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    if (message.sender === 'visitor') {
+      visitorHasReplied = true;
+    } else if (
+      visitorHasReplied &&
+      (message.contentType === INTERACTIVE_CONTENT_TYPE ||
+        message.quickReplies?.length)
+    ) {
+      answeredMessageIds.add(message.id);
+    }
+  }
+
   const formatDateHeader = (dateString: string) => {
     const date = new Date(dateString);
     const today = new Date();
@@ -236,16 +459,16 @@ export const MessageList: React.FC<MessageListProps> = ({
     yesterday.setDate(today.getDate() - 1);
 
     if (date.toDateString() === today.toDateString()) {
-      return 'Today';
+      return t('messageList.today');
     } else if (date.toDateString() === yesterday.toDateString()) {
-      return 'Yesterday';
+      return t('messageList.yesterday');
     } else {
-      return new Intl.DateTimeFormat('en-US', {
+      return formatDate(date, {
         weekday: 'long',
         year: 'numeric',
         month: 'long',
         day: 'numeric',
-      }).format(date);
+      });
     }
   };
 
@@ -256,9 +479,15 @@ export const MessageList: React.FC<MessageListProps> = ({
       onScroll={handleScroll}
       role="log"
       aria-live="polite"
-      aria-label="Chat messages"
+      aria-label={t('messageList.label')}
     >
       <div className="message-list__content">
+        {isLoadingHistory && (
+          <div className="message-list__history-loading" role="status">
+            {t('messageList.loadingHistory')}
+          </div>
+        )}
+
         {messageGroups.length === 0 && (
           <div className="message-list__empty">
             <div className="message-list__empty-icon">
@@ -270,9 +499,7 @@ export const MessageList: React.FC<MessageListProps> = ({
                 />
               </svg>
             </div>
-            <p className="message-list__empty-text">
-              Start a conversation by sending a message below.
-            </p>
+            <p className="message-list__empty-text">{t('messageList.empty')}</p>
           </div>
         )}
 
@@ -284,6 +511,23 @@ export const MessageList: React.FC<MessageListProps> = ({
               </span>
             </div>
             {group.messages.map((message, messageIndex) => {
+              // Contact flows and bots send interactive messages and quick
+              // replies as the system
+              if (
+                message.sender === 'system' &&
+                message.contentType !== INTERACTIVE_CONTENT_TYPE &&
+                !message.quickReplies?.length
+              ) {
+                return (
+                  <MarkdownContent
+                    key={message.id}
+                    className="message-list__system"
+                    content={message.content}
+                    markdown={message.contentType === 'text/markdown'}
+                  />
+                );
+              }
+
               const isOwn = message.sender === 'visitor';
               const showTimestamp =
                 messageIndex === group.messages.length - 1 ||
@@ -297,6 +541,10 @@ export const MessageList: React.FC<MessageListProps> = ({
                   isOwn={isOwn}
                   showTimestamp={showTimestamp}
                   agentInfo={agentInfo}
+                  onResolveAttachment={onResolveAttachment}
+                  onInteractiveResponse={onInteractiveResponse}
+                  onQuickReply={onQuickReply}
+                  isAnswered={answeredMessageIds.has(message.id)}
                 />
               );
             })}
@@ -316,7 +564,7 @@ export const MessageList: React.FC<MessageListProps> = ({
               listRef.current.scrollTop = listRef.current.scrollHeight;
             }
           }}
-          aria-label="Scroll to bottom"
+          aria-label={t('messageList.scrollToBottom')}
           type="button"
         >
           <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
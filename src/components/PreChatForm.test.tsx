@@ -0,0 +1,143 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { PreChatForm } from './PreChatForm';
+import type { PreChatFormConfiguration } from '../types/widget';
+
+// Mock CSS imports
+vi.mock('../styles/PreChatForm.css', () => ({}));
+
+describe('PreChatForm', () => {
+  const config: PreChatFormConfiguration = {
+    title: 'Before we start',
+    submitLabel: 'Start chatting',
+    fields: [
+      {
+        id: 'name',
+        label: 'Name',
+        type: 'text',
+        required: true,
+        mapTo: 'displayName',
+      },
+      { id: 'email', label: 'Email', type: 'email', mapTo: 'email' },
+      {
+        id: 'topic',
+        label: 'Topic',
+        type: 'select',
+        options: [
+          { label: 'Billing', value: 'billing' },
+          { label: 'Support', value: 'support' },
+        ],
+      },
+      { id: 'details', label: 'Details', type: 'textarea' },
+      { id: 'consent', label: 'I accept the terms', type: 'checkbox' },
+    ],
+  };
+
+  const onSubmit = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render the configured fields', () => {
+    render(<PreChatForm config={config} onSubmit={onSubmit} />);
+
+    expect(screen.getByText('Before we start')).toBeInTheDocument();
+    expect(screen.getByLabelText(/Name/)).toHaveAttribute('type', 'text');
+    expect(screen.getByLabelText('Email')).toHaveAttribute('type', 'email');
+    expect(screen.getByRole('combobox', { name: 'Topic' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Billing' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Details').tagName).toBe('TEXTAREA');
+    expect(screen.getByRole('checkbox')).not.toBeChecked();
+    expect(
+      screen.getByRole('button', { name: 'Start chatting' })
+    ).toBeInTheDocument();
+  });
+
+  it('should show validation errors and not submit invalid answers', () => {
+    render(<PreChatForm config={config} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText('Email'), {
+      target: { value: 'nope' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Start chatting' }));
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(screen.getByText('Name is required')).toBeInTheDocument();
+    expect(
+      screen.getByText('Please enter a valid email address')
+    ).toBeInTheDocument();
+    expect(screen.getByLabelText(/Name/)).toHaveAttribute(
+      'aria-invalid',
+      'true'
+    );
+  });
+
+  it('should validate a field when it loses focus', () => {
+    render(<PreChatForm config={config} onSubmit={onSubmit} />);
+
+    fireEvent.blur(screen.getByLabelText(/Name/));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Name is required');
+  });
+
+  it('should clear an error once the answer is valid', () => {
+    render(<PreChatForm config={config} onSubmit={onSubmit} />);
+
+    fireEvent.blur(screen.getByLabelText(/Name/));
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Jamie' },
+    });
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should submit the answers keyed by field id', () => {
+    render(<PreChatForm config={config} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Jamie' },
+    });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Topic' }), {
+      target: { value: 'support' },
+    });
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.click(screen.getByRole('button', { name: 'Start chatting' }));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      name: 'Jamie',
+      email: '',
+      topic: 'support',
+      details: '',
+      consent: 'true',
+    });
+  });
+
+  it('should disable the submit button when disabled', () => {
+    render(<PreChatForm config={config} onSubmit={onSubmit} disabled />);
+
+    expect(
+      screen.getByRole('button', { name: 'Start chatting' })
+    ).toBeDisabled();
+  });
+
+  it('should keep labels unique when rendered twice', () => {
+    render(
+      <>
+        <PreChatForm config={config} onSubmit={onSubmit} />
+        <PreChatForm config={config} onSubmit={onSubmit} />
+      </>
+    );
+
+    const [first, second] = screen.getAllByLabelText('Email');
+    expect(first).not.toBe(second);
+    expect(first.id).not.toBe(second.id);
+
+    const [firstForm, secondForm] = screen.getAllByRole('form');
+    expect(firstForm).toHaveAccessibleName('Before we start');
+    expect(firstForm.getAttribute('aria-labelledby')).not.toBe(
+      secondForm.getAttribute('aria-labelledby')
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import React, { useId, useState } from 'react';
+import type { PreChatField, PreChatFormConfiguration } from '../types/widget';
+import {
+  getInitialPreChatAnswers,
+  validatePreChatAnswer,
+  validatePreChatAnswers,
+} from '../utils/preChatForm';
+import type { PreChatAnswers } from '../utils/preChatForm';
+import { useTranslation } from './I18nProvider';
+import '../styles/PreChatForm.css';
+
+/**
+ * Pre-chat form component props
+ */
+export interface PreChatFormProps {
+  config: PreChatFormConfiguration;
+  onSubmit: (answers: PreChatAnswers) => void;
+  disabled?: boolean;
+}
+
+/**
+ * PreChatForm component - Collects visitor details before the chat starts
+ */
+export const PreChatForm: React.FC<PreChatFormProps> = ({
+  config,
+  onSubmit,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const formId = useId();
+  const titleId = `${formId}-title`;
+  const getInputId = (field: PreChatField) => `${formId}-${field.id}`;
+  const [answers, setAnswers] = useState<PreChatAnswers>(() =>
+    getInitialPreChatAnswers(config.fields)
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleChange = (field: PreChatField, value: string) => {
+    setAnswers(prev => ({ ...prev, [field.id]: value }));
+
+    // Clear the error once the answer becomes valid
+    if (errors[field.id] && !validatePreChatAnswer(field, value, t)) {
+      setErrors(prev => {
+        const next = { ...prev };
+        delete next[field.id];
+        return next;
+      });
+    }
+  };
+
+  const handleBlur = (field: PreChatField) => {
+    const error = validatePreChatAnswer(field, answers[field.id], t);
+    if (error) {
+      setErrors(prev => ({ ...prev, [field.id]: error }));
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validationErrors = validatePreChatAnswers(config.fields, answers, t);
+    setErrors(validationErrors);
+
+    if (Object.keys(validationErrors).length === 0) {
+      onSubmit(answers);
+    }
+  };
+
+  const renderInput = (field: PreChatField) => {
+    const inputId = getInputId(field);
+    const error = errors[field.id];
+    const commonProps = {
+      id: inputId,
+      name: field.id,
+      required: field.required,
+      disabled,
+      'aria-invalid': Boolean(error),
+      'aria-describedby': error ? `${inputId}-error` : undefined,
+      onBlur: () => handleBlur(field),
+    };
+
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            {...commonProps}
+            className="pre-chat-form__input pre-chat-form__input--textarea"
+            placeholder={field.placeholder}
+            value={answers[field.id]}
+            maxLength={field.validation?.maxLength}
+            rows={3}
+            onChange={event => handleChange(field, event.target.value)}
+          />
+        );
+      case 'select':
+        return (
+          <select
+            {...commonProps}
+            className="pre-chat-form__input"
+            value={answers[field.id]}
+            onChange={event => handleChange(field, event.target.value)}
+          >
+            <option value="">{field.placeholder || t('form.select')}</option>
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        );
+      case 'checkbox':
+        return (
+          <input
+            {...commonProps}
+            type="checkbox"
+            className="pre-chat-form__checkbox"
+            checked={answers[field.id] === 'true'}
+            onChange={event =>
+              handleChange(field, String(event.target.checked))
+            }
+          />
+        );
+      default:
+        return (
+          <input
+            {...commonProps}
+            type={field.type}
+            className="pre-chat-form__input"
+            placeholder={field.placeholder}
+            value={answers[field.id]}
+            maxLength={field.validation?.maxLength}
+            autoComplete={
+              field.mapTo === 'displayName'
+                ? 'name'
+                : field.mapTo === 'email'
+                  ? 'email'
+                  : undefined
+            }
+            onChange={event => handleChange(field, event.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <form
+      className="pre-chat-form"
+      onSubmit={handleSubmit}
+      noValidate
+      aria-labelledby={config.title ? titleId : undefined}
+    >
+      {config.title && (
+        <h3 id={titleId} className="pre-chat-form__title">
+          {config.title}
+        </h3>
+      )}
+
+      {config.fields.map(field => (
+        <div
+          key={field.id}
+          className={`pre-chat-form__field pre-chat-form__field--${field.type}`}
+        >
+          <label htmlFor={getInputId(field)} className="pre-chat-form__label">
+            {field.label}
+            {field.required && (
+              <span className="pre-chat-form__required" aria-hidden="true">
+                *
+              </span>
+            )}
+          </label>
+          {renderInput(field)}
+          {errors[field.id] && (
+            <span
+              id={`${getInputId(field)}-error`}
+              className="pre-chat-form__error"
+              role="alert"
+            >
+              {errors[field.id]}
+            </span>
+          )}
+        </div>
+      ))}
+
+      <button
+        type="submit"
+        className="pre-chat-form__submit"
+        disabled={disabled}
+      >
+        {config.submitLabel || t('form.startChat')}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { QueuePosition } from './QueuePosition';
+
+// Mock CSS imports
+vi.mock('../styles/QueuePosition.css', () => ({}));
+vi.mock('../styles/PreChatForm.css', () => ({}));
+
+describe('QueuePosition', () => {
+  const status = {
+    position: 3,
+    estimatedWaitSeconds: 600,
+    updatedAt: new Date(),
+  };
+
+  const requestCallback = () => {
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Request a callback instead' })
+    );
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Jamie' },
+    });
+    fireEvent.change(screen.getByLabelText(/Phone number/), {
+      target: { value: '+44 20 7946 0000' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Request Callback' }));
+  };
+
+  it('should show the queue position and estimated wait', () => {
+    render(<QueuePosition status={status} />);
+
+    expect(
+      screen.getByText('You are number 3 in the queue')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Estimated wait: about 10 minutes')
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('should render nothing without a status', () => {
+    const { container } = render(<QueuePosition status={null} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should submit the callback form when offered', async () => {
+    const onRequestCallback = vi.fn().mockResolvedValue(undefined);
+    render(
+      <QueuePosition
+        status={status}
+        isCallbackOffered
+        onRequestCallback={onRequestCallback}
+      />
+    );
+
+    requestCallback();
+
+    await waitFor(() =>
+      expect(onRequestCallback).toHaveBeenCalledWith({
+        name: 'Jamie',
+        phone: '+44 20 7946 0000',
+      })
+    );
+  });
+
+  it('should let the visitor retry when the request fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onRequestCallback = vi
+      .fn()
+      .mockRejectedValue(new Error('Network error'));
+    render(
+      <QueuePosition
+        status={status}
+        isCallbackOffered
+        onRequestCallback={onRequestCallback}
+      />
+    );
+
+    requestCallback();
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Your callback could not be requested'
+    );
+    expect(
+      screen.getByRole('button', { name: 'Request Callback' })
+    ).toBeEnabled();
+    error.mockRestore();
+  });
+
+  it('should confirm a requested callback', () => {
+    render(
+      <QueuePosition isCallbackRequested callbackSuccessMessage="Call booked" />
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent('Call booked');
+  });
+});
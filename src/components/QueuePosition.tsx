@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { QueueStatus } from '../types/chat';
+import type { PreChatFormConfiguration } from '../types/widget';
+import { PreChatForm } from './PreChatForm';
+import { getDefaultCallbackForm } from '../utils/preChatForm';
+import type { PreChatAnswers } from '../utils/preChatForm';
+import { formatWaitTime } from '../utils/queueStatus';
+import { useTranslation } from './I18nProvider';
+import '../styles/QueuePosition.css';
+
+/**
+ * Queue position component props
+ */
+export interface QueuePositionProps {
+  status?: QueueStatus | null;
+  isCallbackOffered?: boolean;
+  isCallbackRequested?: boolean;
+  callbackForm?: PreChatFormConfiguration;
+  callbackSuccessMessage?: string;
+  onRequestCallback?: (answers: PreChatAnswers) => Promise<void>;
+}
+
+type CallbackStatus = 'idle' | 'editing' | 'sending' | 'failed';
+
+/**
+ * QueuePosition component - Queue details while waiting for an agent
+ * Offers a callback instead of waiting when the wait is long
+ */
+export const QueuePosition: React.FC<QueuePositionProps> = ({
+  status,
+  isCallbackOffered = false,
+  isCallbackRequested = false,
+  callbackForm,
+  callbackSuccessMessage,
+  onRequestCallback,
+}) => {
+  const { t } = useTranslation();
+  const [callbackStatus, setCallbackStatus] = useState<CallbackStatus>('idle');
+
+  const handleSubmit = async (answers: PreChatAnswers) => {
+    if (!onRequestCallback) return;
+
+    setCallbackStatus('sending');
+    try {
+      await onRequestCallback(answers);
+      setCallbackStatus('idle');
+    } catch (error) {
+      console.error('Failed to request callback:', error);
+      setCallbackStatus('failed');
+    }
+  };
+
+  if (isCallbackRequested) {
+    return (
+      <div className="queue-position">
+        <p className="queue-position__success" role="status">
+          {callbackSuccessMessage || t('queue.callbackSuccess')}
+        </p>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="queue-position">
+      <div className="queue-position__details" role="status" aria-live="polite">
+        {status.position !== undefined && (
+          <p className="queue-position__position">
+            {status.position === 1
+              ? t('queue.next')
+              : t('queue.position', { position: status.position })}
+          </p>
+        )}
+        {status.estimatedWaitSeconds !== undefined && (
+          <p className="queue-position__wait">
+            {t('queue.wait', {
+              time: formatWaitTime(status.estimatedWaitSeconds, t),
+            })}
+          </p>
+        )}
+      </div>
+
+      {isCallbackOffered &&
+        onRequestCallback &&
+        (callbackStatus === 'idle' ? (
+          <button
+            className="queue-position__callback-button"
+            type="button"
+            onClick={() => setCallbackStatus('editing')}
+          >
+            {t('queue.requestCallback')}
+          </button>
+        ) : (
+          <>
+            {callbackStatus === 'failed' && (
+              <p className="queue-position__error" role="alert">
+                {t('queue.callbackFailed')}
+              </p>
+            )}
+            <PreChatForm
+              config={callbackForm ?? getDefaultCallbackForm(t)}
+              onSubmit={handleSubmit}
+              disabled={callbackStatus === 'sending'}
+            />
+          </>
+        ))}
+    </div>
+  );
+};
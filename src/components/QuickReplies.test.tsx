@@ -0,0 +1,80 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { QuickReplies } from './QuickReplies';
+
+// Mock CSS imports
+vi.mock('../styles/QuickReplies.css', () => ({}));
+
+describe('QuickReplies', () => {
+  const replies = [
+    { label: 'Yes', value: 'yes' },
+    { label: 'No', value: 'no' },
+    { label: 'Talk to agent', value: 'agent' },
+  ];
+
+  it('should render a chip for each reply', () => {
+    render(<QuickReplies replies={replies} onSelect={vi.fn()} />);
+
+    expect(
+      screen.getByRole('toolbar', { name: 'Suggested replies' })
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole('button')).toHaveLength(3);
+  });
+
+  it('should send the chosen reply once and disable the chips', () => {
+    const onSelect = vi.fn();
+    render(<QuickReplies replies={replies} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'No' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Yes' }));
+
+    expect(onSelect).toHaveBeenCalledTimes(1);
+    expect(onSelect).toHaveBeenCalledWith({ label: 'No', value: 'no' });
+    expect(screen.getByRole('button', { name: 'No' })).toHaveAttribute(
+      'aria-pressed',
+      'true'
+    );
+    screen.getAllByRole('button').forEach(chip => {
+      expect(chip).toHaveAttribute('aria-disabled', 'true');
+    });
+  });
+
+  it('should not send replies once answered', () => {
+    const onSelect = vi.fn();
+    render(<QuickReplies replies={replies} onSelect={onSelect} disabled />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Yes' }));
+
+    expect(onSelect).not.toHaveBeenCalled();
+  });
+
+  it('should move focus between chips with the arrow keys', () => {
+    render(<QuickReplies replies={replies} onSelect={vi.fn()} />);
+    const [yes, no, agent] = screen.getAllByRole('button');
+
+    expect(yes).toHaveAttribute('tabindex', '0');
+    expect(no).toHaveAttribute('tabindex', '-1');
+
+    yes.focus();
+    fireEvent.keyDown(yes, { key: 'ArrowRight' });
+    expect(no).toHaveFocus();
+    expect(no).toHaveAttribute('tabindex', '0');
+    expect(yes).toHaveAttribute('tabindex', '-1');
+
+    fireEvent.keyDown(no, { key: 'End' });
+    expect(agent).toHaveFocus();
+
+    fireEvent.keyDown(agent, { key: 'ArrowRight' });
+    expect(yes).toHaveFocus();
+
+    fireEvent.keyDown(yes, { key: 'ArrowLeft' });
+    expect(agent).toHaveFocus();
+  });
+
+  it('should render nothing without replies', () => {
+    const { container } = render(<QuickReplies replies={[]} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import type { QuickReply } from '../types/chat';
+import { useTranslation } from './I18nProvider';
+import { useDirection } from './ThemeProvider';
+import '../styles/QuickReplies.css';
+
+/**
+ * Quick replies component props
+ */
+export interface QuickRepliesProps {
+  replies: QuickReply[];
+  disabled?: boolean; // Set once the visitor has answered
+  onSelect?: (reply: QuickReply) => void;
+}
+
+/**
+ * QuickReplies component - Suggested reply chips shown under a message
+ * Arrow keys, Home and End move between chips; only one chip is in the tab
+ * order at a time. Left and right follow the reading direction
+ */
+export const QuickReplies: React.FC<QuickRepliesProps> = ({
+  replies,
+  disabled = false,
+  onSelect,
+}) => {
+  const { t } = useTranslation();
+  const step = useDirection() === 'rtl' ? -1 : 1;
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [focusIndex, setFocusIndex] = useState(0);
+  const chipRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  if (replies.length === 0) {
+    return null;
+  }
+
+  const isLocked = disabled || selectedIndex !== null || !onSelect;
+
+  const handleSelect = (index: number) => {
+    if (isLocked) return;
+
+    setSelectedIndex(index);
+    onSelect?.(replies[index]);
+  };
+
+  const moveFocus = (index: number) => {
+    const nextIndex = (index + replies.length) % replies.length;
+    setFocusIndex(nextIndex);
+    chipRefs.current[nextIndex]?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    switch (event.key) {
+      case 'ArrowRight':
+        event.preventDefault();
+        moveFocus(index + step);
+        break;
+      case 'ArrowLeft':
+        event.preventDefault();
+        moveFocus(index - step);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        moveFocus(index + 1);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        moveFocus(index - 1);
+        break;
+      case 'Home':
+        event.preventDefault();
+        moveFocus(0);
+        break;
+      case 'End':
+        event.preventDefault();
+        moveFocus(replies.length - 1);
+        break;
+    }
+  };
+
+  return (
+    <div
+      className="quick-replies"
+      role="toolbar"
+      aria-label={t('quickReplies.label')}
+    >
+      {replies.map((reply, index) => (
+        <button
+          key={`${index}-${reply.value}`}
+          ref={element => {
+            chipRefs.current[index] = element;
+          }}
+          type="button"
+          className={`quick-replies__chip${
+            selectedIndex === index ? ' quick-replies__chip--selected' : ''
+          }`}
+          onClick={() => handleSelect(index)}
+          onKeyDown={event => handleKeyDown(event, index)}
+          onFocus={() => setFocusIndex(index)}
+          tabIndex={focusIndex === index ? 0 : -1}
+          // aria-disabled keeps used chips reachable so the choice is announced
+          aria-disabled={isLocked}
+          aria-pressed={selectedIndex === index}
+        >
+          {reply.label}
+        </button>
+      ))}
+    </div>
+  );
+};
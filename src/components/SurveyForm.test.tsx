@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SurveyForm } from './SurveyForm';
+import type { SurveyConfiguration } from '../types/widget';
+
+const config: SurveyConfiguration = {
+  title: 'How did we do?',
+  thankYouMessage: 'Thanks for the feedback',
+  questions: [
+    {
+      id: 'resolved',
+      type: 'yesNo',
+      label: 'Was your issue resolved?',
+      required: true,
+      branches: [{ equals: 'yes', goTo: 'nps' }],
+    },
+    {
+      id: 'reason',
+      type: 'choice',
+      label: 'What went wrong?',
+      multiple: true,
+      options: [
+        { label: 'Wait time', value: 'wait' },
+        { label: 'Answer quality', value: 'quality' },
+      ],
+    },
+    { id: 'nps', type: 'nps', label: 'How likely are you to recommend us?' },
+  ],
+};
+
+describe('SurveyForm', () => {
+  it('should ask one question at a time', () => {
+    render(<SurveyForm config={config} onSubmit={vi.fn()} />);
+
+    expect(
+      screen.getByRole('group', { name: /was your issue resolved/i })
+    ).toBeInTheDocument();
+    expect(screen.queryByText('What went wrong?')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Next' })).toBeInTheDocument();
+  });
+
+  it('should require an answer to required questions', () => {
+    render(<SurveyForm config={config} onSubmit={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Please answer this question'
+    );
+  });
+
+  it('should follow branches and submit the answers', async () => {
+    const onSubmit = vi.fn().mockResolvedValue(undefined);
+    render(<SurveyForm config={config} onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByLabelText('Yes'));
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+    expect(
+      screen.getByRole('group', { name: /recommend us/i })
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole('radio')).toHaveLength(11);
+
+    fireEvent.click(screen.getByLabelText('9'));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith({ resolved: 'yes', nps: 9 })
+    );
+  });
+
+  it('should collect multiple choices and go back', () => {
+    render(<SurveyForm config={config} onSubmit={vi.fn()} />);
+
+    fireEvent.click(screen.getByLabelText('No'));
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    fireEvent.click(screen.getByLabelText('Wait time'));
+    fireEvent.click(screen.getByLabelText('Answer quality'));
+
+    expect(screen.getByLabelText('Wait time')).toBeChecked();
+    expect(screen.getByLabelText('Answer quality')).toBeChecked();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back' }));
+
+    expect(screen.getByLabelText('No')).toBeChecked();
+  });
+
+  it('should show an error when submitting fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onSubmit = vi.fn().mockRejectedValue(new Error('Network error'));
+    render(
+      <SurveyForm
+        config={{ questions: [config.questions[2]] }}
+        onSubmit={onSubmit}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Your answers could not be sent'
+    );
+  });
+
+  it('should let the visitor skip the survey', () => {
+    const onSkip = vi.fn();
+    render(<SurveyForm config={config} onSubmit={vi.fn()} onSkip={onSkip} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Skip' }));
+
+    expect(onSkip).toHaveBeenCalled();
+  });
+
+  it('should thank the visitor once submitted', () => {
+    render(<SurveyForm config={config} isSubmitted onSubmit={vi.fn()} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent(
+      'Thanks for the feedback'
+    );
+  });
+});
@@ -0,0 +1,288 @@
+import React, { useId, useState } from 'react';
+import type {
+  SurveyAnswer,
+  SurveyConfiguration,
+  SurveyQuestion,
+} from '../types/widget';
+import {
+  getNextSurveyQuestion,
+  getSurveyScale,
+  validateSurveyAnswer,
+} from '../utils/survey';
+import type { SurveyAnswers } from '../utils/survey';
+import type { TranslationKey } from '../types/i18n';
+import { useTranslation } from './I18nProvider';
+import '../styles/SurveyForm.css';
+
+/**
+ * Survey form component props
+ */
+export interface SurveyFormProps {
+  config: Omit<SurveyConfiguration, 'sink' | 'endpoint' | 'attributePrefix'>;
+  isSubmitted?: boolean; // Shows the thank-you message
+  onSubmit: (answers: SurveyAnswers) => Promise<void>;
+  onSkip?: () => void;
+}
+
+type SubmitStatus = 'idle' | 'sending' | 'failed';
+
+const SCALE_HINTS: Record<string, [TranslationKey, TranslationKey]> = {
+  csat: ['survey.csatLow', 'survey.csatHigh'],
+  nps: ['survey.npsLow', 'survey.npsHigh'],
+};
+
+/**
+ * SurveyForm component - Post-chat survey
+ * Asks one question at a time, following the configured branches
+ */
+export const SurveyForm: React.FC<SurveyFormProps> = ({
+  config,
+  isSubmitted = false,
+  onSubmit,
+  onSkip,
+}) => {
+  const { t } = useTranslation();
+  const formId = useId();
+  const titleId = `${formId}-title`;
+  const [answers, setAnswers] = useState<SurveyAnswers>({});
+  const [history, setHistory] = useState<string[]>([]);
+  const [currentId, setCurrentId] = useState(config.questions[0]?.id);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<SubmitStatus>('idle');
+
+  const question = config.questions.find(({ id }) => id === currentId);
+
+  if (isSubmitted || !question) {
+    return (
+      <div className="survey-form">
+        <p className="survey-form__thank-you" role="status">
+          {config.thankYouMessage || t('survey.thankYou')}
+        </p>
+      </div>
+    );
+  }
+
+  const answer = answers[question.id];
+  const nextQuestion = getNextSurveyQuestion(
+    config.questions,
+    question.id,
+    answer
+  );
+  const questionId = `${formId}-${question.id}`;
+  const errorId = `${questionId}-error`;
+
+  const handleChange = (value?: SurveyAnswer) => {
+    setAnswers(prev => {
+      const next = { ...prev };
+      if (value === undefined) {
+        delete next[question.id];
+      } else {
+        next[question.id] = value;
+      }
+      return next;
+    });
+    setError(null);
+  };
+
+  const handleBack = () => {
+    setCurrentId(history[history.length - 1]);
+    setHistory(prev => prev.slice(0, -1));
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const validationError = validateSurveyAnswer(question, answer, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (nextQuestion) {
+      setHistory(prev => [...prev, question.id]);
+      setCurrentId(nextQuestion.id);
+      return;
+    }
+
+    setStatus('sending');
+    try {
+      await onSubmit(answers);
+      setStatus('idle');
+    } catch (submitError) {
+      console.error('Failed to submit survey:', submitError);
+      setStatus('failed');
+    }
+  };
+
+  const renderOption = (
+    value: string | number,
+    label: string,
+    type: 'radio' | 'checkbox' = 'radio'
+  ) => {
+    const isChecked = Array.isArray(answer)
+      ? answer.includes(String(value))
+      : answer === value;
+
+    const handleOptionChange = () => {
+      if (type === 'radio') {
+        handleChange(value);
+        return;
+      }
+
+      const selected = Array.isArray(answer) ? answer : [];
+      const next = isChecked
+        ? selected.filter(item => item !== value)
+        : [...selected, String(value)];
+      handleChange(next.length > 0 ? next : undefined);
+    };
+
+    return (
+      <label key={value} className="survey-form__option">
+        <input
+          type={type}
+          name={questionId}
+          value={value}
+          checked={isChecked}
+          disabled={status === 'sending'}
+          onChange={handleOptionChange}
+        />
+        <span className="survey-form__option-label">{label}</span>
+      </label>
+    );
+  };
+
+  const renderInput = (current: SurveyQuestion) => {
+    switch (current.type) {
+      case 'csat':
+      case 'nps': {
+        const { min, max } = getSurveyScale(current);
+        const [lowHint, highHint] = SCALE_HINTS[current.type].map(key =>
+          t(key)
+        );
+
+        return (
+          <>
+            <div
+              className={`survey-form__scale survey-form__scale--${current.type}`}
+            >
+              {Array.from({ length: max - min + 1 }, (_, index) =>
+                renderOption(min + index, String(min + index))
+              )}
+            </div>
+            <div className="survey-form__scale-hints" aria-hidden="true">
+              <span>{lowHint}</span>
+              <span>{highHint}</span>
+            </div>
+          </>
+        );
+      }
+      case 'yesNo':
+        return (
+          <div className="survey-form__options survey-form__options--inline">
+            {renderOption('yes', t('survey.yes'))}
+            {renderOption('no', t('survey.no'))}
+          </div>
+        );
+      case 'choice':
+        return (
+          <div className="survey-form__options">
+            {current.options?.map(option =>
+              renderOption(
+                option.value,
+                option.label,
+                current.multiple ? 'checkbox' : 'radio'
+              )
+            )}
+          </div>
+        );
+      default:
+        return (
+          <textarea
+            className="survey-form__input"
+            aria-label={current.label}
+            value={typeof answer === 'string' ? answer : ''}
+            rows={3}
+            maxLength={2000}
+            disabled={status === 'sending'}
+            onChange={event => handleChange(event.target.value || undefined)}
+          />
+        );
+    }
+  };
+
+  return (
+    <form
+      className="survey-form"
+      onSubmit={handleSubmit}
+      noValidate
+      aria-labelledby={config.title ? titleId : undefined}
+    >
+      {config.title && (
+        <h3 id={titleId} className="survey-form__title">
+          {config.title}
+        </h3>
+      )}
+
+      <fieldset
+        key={question.id}
+        className={`survey-form__question survey-form__question--${question.type}`}
+        aria-invalid={Boolean(error)}
+        aria-describedby={error ? errorId : undefined}
+      >
+        <legend className="survey-form__label">
+          {question.label}
+          {question.required && (
+            <span className="survey-form__required" aria-hidden="true">
+              *
+            </span>
+          )}
+        </legend>
+        {renderInput(question)}
+      </fieldset>
+
+      {error && (
+        <span id={errorId} className="survey-form__error" role="alert">
+          {error}
+        </span>
+      )}
+      {status === 'failed' && (
+        <p className="survey-form__error" role="alert">
+          {t('survey.failed')}
+        </p>
+      )}
+
+      <div className="survey-form__actions">
+        {history.length > 0 && (
+          <button
+            type="button"
+            className="survey-form__button"
+            onClick={handleBack}
+            disabled={status === 'sending'}
+          >
+            {t('survey.back')}
+          </button>
+        )}
+        {onSkip && (
+          <button
+            type="button"
+            className="survey-form__button"
+            onClick={onSkip}
+            disabled={status === 'sending'}
+          >
+            {t('survey.skip')}
+          </button>
+        )}
+        <button
+          type="submit"
+          className="survey-form__button survey-form__button--primary"
+          disabled={status === 'sending'}
+        >
+          {nextQuestion
+            ? t('survey.next')
+            : config.submitLabel || t('survey.submit')}
+        </button>
+      </div>
+    </form>
+  );
+};
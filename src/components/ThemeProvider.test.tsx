@@ -15,8 +15,10 @@ import {
   useReducedMotion,
   defaultTheme,
   withTheme,
+  useDirection,
 } from './ThemeProvider';
-import type { ThemeConfiguration } from '../types';
+import { I18nProvider } from './I18nProvider';
+import type { MessageConfiguration, ThemeConfiguration } from '../types';
 
 // Mock window.matchMedia
 const mockMatchMedia = (matches: boolean) => ({
@@ -42,6 +44,24 @@ const TestComponent: React.FC = () => {
   );
 };
 
+// Messages with strings for right-to-left locales
+const rtlMessages: MessageConfiguration = {
+  welcomeMessage: 'Hello!',
+  offlineMessage: 'Offline',
+  waitingMessage: 'Waiting',
+  connectingMessage: 'Connecting',
+  locales: {
+    ar: { strings: { 'chatButton.open': 'افتح الدردشة' } },
+    fa: { strings: { 'chatButton.open': 'باز کردن گفتگو' } },
+  },
+};
+
+// Test component for reading direction
+const DirectionTestComponent: React.FC = () => {
+  const direction = useDirection();
+  return <span data-testid="direction">{direction}</span>;
+};
+
 // Test component for responsive hook
 const ResponsiveTestComponent: React.FC = () => {
   const responsive = useResponsive();
@@ -290,6 +310,68 @@ describe('ThemeProvider', () => {
     });
   });
 
+  describe('Reading Direction', () => {
+    it('defaults to left-to-right', () => {
+      const { container } = render(
+        <ThemeProvider>
+          <DirectionTestComponent />
+        </ThemeProvider>
+      );
+
+      expect(screen.getByTestId('direction')).toHaveTextContent('ltr');
+      expect(container.firstElementChild).toHaveAttribute('dir', 'ltr');
+    });
+
+    it('follows the locale', () => {
+      const { container } = render(
+        <I18nProvider locale="ar-EG" messages={rtlMessages}>
+          <ThemeProvider>
+            <DirectionTestComponent />
+          </ThemeProvider>
+        </I18nProvider>
+      );
+
+      expect(screen.getByTestId('direction')).toHaveTextContent('rtl');
+      expect(container.firstElementChild).toHaveAttribute('dir', 'rtl');
+    });
+
+    it('uses an explicit direction over the locale', () => {
+      render(
+        <I18nProvider locale="ar" messages={rtlMessages}>
+          <ThemeProvider direction="ltr">
+            <DirectionTestComponent />
+          </ThemeProvider>
+        </I18nProvider>
+      );
+
+      expect(screen.getByTestId('direction')).toHaveTextContent('ltr');
+    });
+
+    it('exposes the direction on the theme', () => {
+      const ThemeDirection: React.FC = () => <>{useTheme().direction}</>;
+
+      render(
+        <ThemeProvider direction="rtl">
+          <span data-testid="theme-direction">
+            <ThemeDirection />
+          </span>
+        </ThemeProvider>
+      );
+
+      expect(screen.getByTestId('theme-direction')).toHaveTextContent('rtl');
+    });
+
+    it('follows the locale outside a ThemeProvider', () => {
+      render(
+        <I18nProvider locale="fa" messages={rtlMessages}>
+          <DirectionTestComponent />
+        </I18nProvider>
+      );
+
+      expect(screen.getByTestId('direction')).toHaveTextContent('rtl');
+    });
+  });
+
   describe('useResponsive Hook', () => {
     it('provides responsive utilities', () => {
       render(
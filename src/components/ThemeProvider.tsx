@@ -5,7 +5,14 @@
  */
 
 import React, { createContext, useContext, useEffect, useMemo } from 'react';
-import type { ThemeConfiguration, ResponsiveBreakpoints } from '../types';
+import type {
+  ThemeConfiguration,
+  ResponsiveBreakpoints,
+  TextDirection,
+} from '../types';
+import { useTranslation } from './I18nProvider';
+import { isShadowRoot, useWidgetRoot } from './WidgetRoot';
+import { getLocaleDirection, resolveDirection } from '../utils/i18n';
 
 /**
  * Default theme configuration
@@ -100,6 +107,9 @@ export interface ExtendedTheme extends ThemeConfiguration {
   // Breakpoints
   breakpoints: ResponsiveBreakpoints;
 
+  // Reading direction
+  direction: TextDirection;
+
   // Animation values
   animation: {
     duration: {
@@ -126,6 +136,7 @@ const ThemeContext = createContext<ExtendedTheme | null>(null);
  */
 export interface ThemeProviderProps {
   theme?: Partial<ThemeConfiguration>;
+  direction?: TextDirection | 'auto'; // 'auto' or unset follows the locale
   children: React.ReactNode;
   className?: string;
 }
@@ -178,7 +189,10 @@ const getContrastColor = (hex: string): string => {
 /**
  * Create extended theme with computed values
  */
-const createExtendedTheme = (theme: ThemeConfiguration): ExtendedTheme => {
+const createExtendedTheme = (
+  theme: ThemeConfiguration,
+  direction: TextDirection = 'ltr'
+): ExtendedTheme => {
   const primaryColorRgb = hexToRgb(theme.primaryColor);
   const secondaryColorRgb = hexToRgb(theme.secondaryColor);
 
@@ -256,6 +270,9 @@ const createExtendedTheme = (theme: ThemeConfiguration): ExtendedTheme => {
     // Breakpoints
     breakpoints,
 
+    // Reading direction
+    direction,
+
     // Animation values
     animation: {
       duration: {
@@ -360,22 +377,33 @@ const generateCSSCustomProperties = (
  */
 export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   theme = {},
+  direction,
   children,
   className = '',
 }) => {
+  const { locale } = useTranslation();
+  const { root: widgetRoot } = useWidgetRoot();
+  const resolvedDirection = resolveDirection(direction, locale);
+
   // Merge provided theme with defaults
   const mergedTheme = useMemo(() => {
-    return createExtendedTheme({ ...defaultTheme, ...theme });
-  }, [theme]);
+    return createExtendedTheme(
+      { ...defaultTheme, ...theme },
+      resolvedDirection
+    );
+  }, [theme, resolvedDirection]);
 
   // Generate CSS custom properties
   const cssProperties = useMemo(() => {
     return generateCSSCustomProperties(mergedTheme);
   }, [mergedTheme]);
 
-  // Apply CSS custom properties to the DOM
+  // Apply CSS custom properties to the DOM, on the shadow host when the
+  // widget is in a shadow root so they stay out of the host page
   useEffect(() => {
-    const root = document.documentElement;
+    const root = isShadowRoot(widgetRoot)
+      ? (widgetRoot.host as HTMLElement)
+      : widgetRoot.documentElement;
 
     Object.entries(cssProperties).forEach(([property, value]) => {
       root.style.setProperty(property, value);
@@ -387,13 +415,14 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
         root.style.removeProperty(property);
       });
     };
-  }, [cssProperties]);
+  }, [cssProperties, widgetRoot]);
 
   return (
     <ThemeContext.Provider value={mergedTheme}>
       <div
         className={`chat-theme-provider ${className}`}
         style={cssProperties as React.CSSProperties}
+        dir={mergedTheme.direction}
       >
         {children}
       </div>
@@ -414,6 +443,17 @@ export const useTheme = (): ExtendedTheme => {
   return theme;
 };
 
+/**
+ * Hook to use the reading direction
+ * Components rendered outside a ThemeProvider follow the locale
+ */
+export const useDirection = (): TextDirection => {
+  const theme = useContext(ThemeContext);
+  const { locale } = useTranslation();
+
+  return theme?.direction ?? getLocaleDirection(locale);
+};
+
 /**
  * Hook to generate responsive styles
  */
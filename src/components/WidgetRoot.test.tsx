@@ -0,0 +1,109 @@
+/**
+ * WidgetRoot Component Tests
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  WidgetRootProvider,
+  WidgetPortal,
+  isShadowRoot,
+  useWidgetRoot,
+} from './WidgetRoot';
+import { ThemeProvider } from './ThemeProvider';
+
+const RootName: React.FC = () => {
+  const { root } = useWidgetRoot();
+  return <span data-testid="root">{root.nodeName}</span>;
+};
+
+const createShadowRoot = () => {
+  const host = document.createElement('div');
+  document.body.appendChild(host);
+  const shadowRoot = host.attachShadow({ mode: 'open' });
+  const portalContainer = document.createElement('div');
+  shadowRoot.appendChild(portalContainer);
+  return { host, shadowRoot, portalContainer };
+};
+
+describe('WidgetRoot', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should use the document outside a provider', () => {
+    render(<RootName />);
+
+    expect(screen.getByTestId('root')).toHaveTextContent('#document');
+  });
+
+  it('should provide the shadow root', () => {
+    const { shadowRoot } = createShadowRoot();
+
+    render(
+      <WidgetRootProvider root={shadowRoot}>
+        <RootName />
+      </WidgetRootProvider>
+    );
+
+    expect(screen.getByTestId('root')).toHaveTextContent('#document-fragment');
+  });
+
+  it('should tell shadow roots from documents', () => {
+    const { shadowRoot } = createShadowRoot();
+
+    expect(isShadowRoot(shadowRoot)).toBe(true);
+    expect(isShadowRoot(document)).toBe(false);
+  });
+
+  describe('WidgetPortal', () => {
+    it('should render in place without a portal container', () => {
+      const { container } = render(
+        <WidgetPortal>
+          <div data-testid="dialog" />
+        </WidgetPortal>
+      );
+
+      expect(container.querySelector('[data-testid="dialog"]')).not.toBeNull();
+    });
+
+    it('should render into the portal container inside the shadow root', () => {
+      const { shadowRoot, portalContainer } = createShadowRoot();
+
+      const { container } = render(
+        <WidgetRootProvider root={shadowRoot} portalContainer={portalContainer}>
+          <WidgetPortal>
+            <div data-testid="dialog" />
+          </WidgetPortal>
+        </WidgetRootProvider>
+      );
+
+      expect(container.querySelector('[data-testid="dialog"]')).toBeNull();
+      expect(
+        portalContainer.querySelector('[data-testid="dialog"]')
+      ).not.toBeNull();
+    });
+  });
+
+  describe('Theming', () => {
+    it('should set theme properties on the shadow host', () => {
+      const { host, shadowRoot } = createShadowRoot();
+
+      render(
+        <WidgetRootProvider root={shadowRoot}>
+          <ThemeProvider theme={{ primaryColor: '#ff6b35' }}>
+            <div />
+          </ThemeProvider>
+        </WidgetRootProvider>
+      );
+
+      expect(host.style.getPropertyValue('--chat-primary-color')).toBe(
+        '#ff6b35'
+      );
+      expect(
+        document.documentElement.style.getPropertyValue('--chat-primary-color')
+      ).toBe('');
+    });
+  });
+});
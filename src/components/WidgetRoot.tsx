@@ -0,0 +1,75 @@
+/**
+ * WidgetRoot Component
+ * Tells components where the widget is rendered, so portals and theming stay
+ * inside a shadow root when the widget is mounted in one
+ */
+
+import React, { createContext, useContext, useMemo } from 'react';
+import { createPortal } from 'react-dom';
+
+/**
+ * Where the widget is rendered
+ */
+export interface WidgetRootContextValue {
+  root: Document | ShadowRoot;
+  portalContainer?: Element; // Dialogs render in place when unset
+}
+
+/**
+ * Widget root context
+ */
+const WidgetRootContext = createContext<WidgetRootContextValue | null>(null);
+
+/**
+ * Widget root provider props
+ */
+export interface WidgetRootProviderProps {
+  root: Document | ShadowRoot;
+  portalContainer?: Element;
+  children: React.ReactNode;
+}
+
+/**
+ * Widget root provider component
+ */
+export const WidgetRootProvider: React.FC<WidgetRootProviderProps> = ({
+  root,
+  portalContainer,
+  children,
+}) => {
+  const value = useMemo(
+    () => ({ root, portalContainer }),
+    [root, portalContainer]
+  );
+
+  return (
+    <WidgetRootContext.Provider value={value}>
+      {children}
+    </WidgetRootContext.Provider>
+  );
+};
+
+/**
+ * Hook to use the widget root
+ * Components rendered outside a provider use the document
+ */
+export const useWidgetRoot = (): WidgetRootContextValue =>
+  useContext(WidgetRootContext) ?? { root: document };
+
+/**
+ * Whether the widget is rendered inside a shadow root
+ */
+export const isShadowRoot = (root: Document | ShadowRoot): root is ShadowRoot =>
+  typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot;
+
+/**
+ * Render dialogs into the widget's portal container
+ * Without one the content renders in place
+ */
+export const WidgetPortal: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { portalContainer } = useWidgetRoot();
+
+  return portalContainer ? createPortal(children, portalContainer) : children;
+};
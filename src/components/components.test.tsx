@@ -1,11 +1,16 @@
+import type { ReactNode } from 'react';
 import { describe, it, expect } from 'vitest';
-import { render } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { ChatButton } from './ChatButton';
 import { ChatWindow } from './ChatWindow';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
+import { ChatEndDialog } from './ChatEndDialog';
+import { ChatRatingDialog } from './ChatRatingDialog';
+import { QuickReplies } from './QuickReplies';
 import { ThemeProvider } from './ThemeProvider';
 import type { ChatState } from '../types/chat';
+import type { TextDirection } from '../types/i18n';
 import type {
   ThemeConfiguration,
   PositionConfiguration,
@@ -92,4 +97,167 @@ describe('UI Components', () => {
     );
     expect(container).toBeTruthy();
   });
+
+  it('should only use logical inline edges in widget styles', () => {
+    const stylesheets = import.meta.glob<string>('../styles/*.css', {
+      query: '?raw',
+      import: 'default',
+      eager: true,
+    });
+    const physical =
+      /(^|[\s;{])((margin|padding|border)-(left|right)[\w-]*|left|right)\s*:|text-align:\s*(left|right)/m;
+
+    Object.entries(stylesheets).forEach(([file, css]) => {
+      expect(css, file).not.toMatch(physical);
+    });
+  });
+
+  describe.each<TextDirection>(['ltr', 'rtl'])('%s layout', direction => {
+    const renderInDirection = (children: ReactNode) =>
+      render(
+        <ThemeProvider theme={mockTheme} direction={direction}>
+          {children}
+        </ThemeProvider>
+      );
+
+    const styleOf = (element: Element, property: string) =>
+      getComputedStyle(element).getPropertyValue(property);
+
+    it('should set the direction on the widget', () => {
+      const { container } = renderInDirection(
+        <ChatWindow
+          isOpen={true}
+          onClose={() => {}}
+          onMinimize={() => {}}
+          chatState={mockChatState}
+          config={mockUIConfig}
+        />
+      );
+
+      expect(container.firstElementChild).toHaveAttribute('dir', direction);
+      expect(screen.getByRole('dialog')).toHaveAttribute('dir', direction);
+    });
+
+    it('should anchor the button and window to the end edge', () => {
+      renderInDirection(
+        <>
+          <ChatButton
+            isOpen={false}
+            unreadCount={3}
+            onClick={() => {}}
+            config={mockTheme}
+            position={mockPosition}
+          />
+          <ChatWindow
+            isOpen={true}
+            onClose={() => {}}
+            onMinimize={() => {}}
+            chatState={mockChatState}
+            config={mockUIConfig}
+          />
+        </>
+      );
+
+      const button = screen.getByRole('button', { name: 'Open chat' });
+      const chatWindow = screen.getByRole('dialog');
+      const badge = button.querySelector('.chat-button__badge')!;
+
+      expect(styleOf(button, 'inset-inline-end')).toBe('20px');
+      expect(styleOf(chatWindow, 'inset-inline-end')).toBe('20px');
+      expect(styleOf(badge, 'inset-inline-end')).toBe('-8px');
+      [button, chatWindow, badge].forEach(element => {
+        expect(styleOf(element, 'right')).toBe('');
+        expect(styleOf(element, 'left')).toBe('');
+      });
+    });
+
+    it('should put bubble tails on the inline edges', () => {
+      const { container } = renderInDirection(
+        <MessageList
+          messages={[
+            {
+              id: 'visitor',
+              content: 'Hello',
+              sender: 'visitor',
+              timestamp: new Date(),
+              status: 'sent',
+            },
+            {
+              id: 'agent',
+              content: 'Hi there!',
+              sender: 'agent',
+              timestamp: new Date(),
+              status: 'sent',
+            },
+          ]}
+          isTyping={false}
+          onScroll={() => {}}
+        />
+      );
+
+      const [own, other] = Array.from(
+        container.querySelectorAll('.message-bubble__text')
+      );
+
+      expect(styleOf(own, 'border-end-end-radius')).toBe('4px');
+      expect(styleOf(other, 'border-end-start-radius')).toBe('4px');
+    });
+
+    it('should keep the input and dialogs on logical edges', () => {
+      renderInDirection(
+        <>
+          <MessageInput
+            onSendMessage={() => {}}
+            disabled={false}
+            placeholder="Type a message..."
+            maxLength={10}
+          />
+          <ChatEndDialog
+            isOpen={true}
+            onConfirm={() => {}}
+            onCancel={() => {}}
+            sessionDuration="5:00"
+            messageCount={3}
+          />
+          <ChatRatingDialog
+            isOpen={true}
+            onSubmit={() => {}}
+            onSkip={() => {}}
+          />
+        </>
+      );
+
+      fireEvent.change(screen.getByRole('textbox', { name: /message/i }), {
+        target: { value: '123456789' },
+      });
+
+      const charCount = document.querySelector('.message-input__char-count')!;
+      expect(styleOf(charCount, 'inset-inline-end')).toBe('0');
+
+      screen.getAllByRole('dialog').forEach(dialog => {
+        expect(dialog).toHaveAttribute('dir', direction);
+        expect(styleOf(dialog, 'left')).toBe('');
+        expect(styleOf(dialog, 'right')).toBe('');
+      });
+    });
+
+    it('should move quick reply focus along the reading direction', () => {
+      renderInDirection(
+        <QuickReplies
+          replies={[
+            { label: 'Yes', value: 'yes' },
+            { label: 'No', value: 'no' },
+            { label: 'Maybe', value: 'maybe' },
+          ]}
+          onSelect={() => {}}
+        />
+      );
+
+      const [first, second, third] = screen.getAllByRole('button');
+      first.focus();
+      fireEvent.keyDown(first, { key: 'ArrowRight' });
+
+      expect(direction === 'rtl' ? third : second).toHaveFocus();
+    });
+  });
 });
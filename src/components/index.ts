@@ -6,9 +6,18 @@ export * from './MessageList';
 export * from './MessageInput';
 export * from './WidgetConfiguration';
 export * from './ThemeProvider';
+export * from './I18nProvider';
+export * from './WidgetRoot';
 export * from './AgentInfo';
 export * from './AgentDisconnectionNotification';
 export * from './ChatSessionManager';
 export * from './ChatEndDialog';
 export * from './ChatRatingDialog';
 export * from './ChatTranscriptDialog';
+export * from './PreChatForm';
+export * from './LeaveMessageForm';
+export * from './QueuePosition';
+export * from './MarkdownContent';
+export * from './InteractiveMessage';
+export * from './QuickReplies';
+export * from './SurveyForm';
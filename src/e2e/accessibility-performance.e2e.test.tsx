@@ -1,595 +1,269 @@
-import React from 'react';
-import {
-  render,
-  screen,
-  fireEvent,
-  waitFor,
-  act,
-} from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { vi } from 'vitest';
-import { ChatWidget } from '../components/ChatWidget';
-import type { WidgetConfiguration } from '../types/widget';
-
-// Mock performance APIs
-global.performance = {
-  ...global.performance,
-  mark: vi.fn(),
-  measure: vi.fn(),
-  getEntriesByType: vi.fn(() => []),
-  getEntriesByName: vi.fn(() => []),
-  clearMarks: vi.fn(),
-  clearMeasures: vi.fn(),
-  now: vi.fn(() => Date.now()),
-};
-
-// Mock Intersection Observer for performance testing
-global.IntersectionObserver = vi.fn().mockImplementation(() => ({
-  observe: vi.fn(),
-  unobserve: vi.fn(),
-  disconnect: vi.fn(),
-}));
-
-// Mock WebSocket
-const mockWebSocket = {
-  send: vi.fn(),
-  close: vi.fn(),
-  addEventListener: vi.fn(),
-  removeEventListener: vi.fn(),
-  readyState: WebSocket.OPEN,
-};
-
-global.WebSocket = vi.fn(() => mockWebSocket) as any;
-
+import { MockConnectServer } from '../../mock-server/MockConnectServer.js';
+import {
+  createMockConnectConfig,
+  nextAgent,
+  renderWidget,
+} from './mockConnectWidget';
+import type { WidgetConfig } from '../types/widget';
+
+/**
+ * Accessibility and resilience of the real widget against the local mock
+ * Connect server
+ */
 describe('Accessibility and Performance E2E Tests', () => {
-  const mockConfig: WidgetConfiguration = {
-    aws: {
-      region: 'us-east-1',
-      instanceId: 'test-instance-id',
-      contactFlowId: 'test-contact-flow-id',
-      apiGatewayEndpoint: 'https://api.example.com',
-    },
-    ui: {
-      theme: {
-        primaryColor: '#007bff',
-        secondaryColor: '#0056b3',
-        fontFamily: 'Arial, sans-serif',
-        borderRadius: '8px',
-      },
-      position: {
-        bottom: '20px',
-        right: '20px',
-      },
-      messages: {
-        welcomeMessage: 'Welcome! How can we help you?',
-        offlineMessage: 'We are currently offline',
-        waitingMessage: 'Waiting for an agent...',
-        connectingMessage: 'Connecting...',
-      },
-    },
-    features: {
-      fileUpload: false,
-      emojiPicker: false,
-      chatRatings: true,
-      chatTranscript: true,
-    },
-  };
-
-  beforeEach(() => {
-    vi.clearAllMocks();
-    vi.useFakeTimers();
-
-    // Reset WebSocket mock
-    Object.assign(mockWebSocket, {
-      send: vi.fn(),
-      close: vi.fn(),
-      addEventListener: vi.fn(),
-      removeEventListener: vi.fn(),
-      readyState: WebSocket.OPEN,
-    });
+  let server: MockConnectServer;
+  let config: WidgetConfig;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    server = new MockConnectServer({ agentName: 'Sarah' });
+    config = createMockConnectConfig(await server.start());
   });
 
-  afterEach(() => {
-    vi.runOnlyPendingTimers();
-    vi.useRealTimers();
+  afterEach(async () => {
+    // Unmount first so the widget ends its chat while the server is up
+    cleanup();
+    await server.stop();
   });
 
+  /**
+   * Wait until the chat is connected and the visitor can type
+   */
+  const waitForConnection = () =>
+    waitFor(() =>
+      expect(screen.getByLabelText('Type your message')).toBeEnabled()
+    );
+
+  const chatLog = () => within(screen.getByRole('log'));
+
   describe('Comprehensive Accessibility Testing', () => {
     it('should provide complete keyboard navigation support', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+      const user = userEvent.setup();
+      const agent = nextAgent(server);
+      renderWidget({ config });
 
-      render(<ChatWidget config={mockConfig} />);
-
-      // Test keyboard access to chat button
+      // Open the widget from the keyboard
       const chatButton = screen.getByRole('button', { name: 'Open chat' });
-
-      // Focus with Tab
       chatButton.focus();
-      expect(chatButton).toHaveFocus();
-
-      // Activate with Enter
-      fireEvent.keyDown(chatButton, { key: 'Enter' });
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
+      await user.keyboard('{Enter}');
 
-      // Test keyboard navigation within chat window
-      const chatWindow = screen.getByRole('dialog');
-      expect(chatWindow).toHaveFocus();
+      await waitFor(() =>
+        expect(screen.getByRole('dialog')).toBeInTheDocument()
+      );
+      await waitForConnection();
+      (await agent).join();
 
-      // Navigate to message input with Tab
+      // Type and send with the keyboard
       const messageInput = screen.getByLabelText('Type your message');
-      messageInput.focus();
-      expect(messageInput).toHaveFocus();
+      await user.click(messageInput);
+      await user.keyboard('Keyboard navigation test{Enter}');
 
-      // Type message with keyboard
-      await user.type(messageInput, 'Keyboard navigation test');
-
-      // Send with Enter
-      fireEvent.keyDown(messageInput, { key: 'Enter' });
       expect(messageInput).toHaveValue('');
+      await waitFor(() =>
+        expect(
+          chatLog().getByText('Keyboard navigation test')
+        ).toBeInTheDocument()
+      );
 
-      // Navigate to action buttons
-      const minimizeButton = screen.getByLabelText('Minimize chat');
-      const closeButton = screen.getByLabelText('Close chat');
-
-      minimizeButton.focus();
-      expect(minimizeButton).toHaveFocus();
-
-      // Test Tab navigation between buttons
-      fireEvent.keyDown(minimizeButton, { key: 'Tab' });
-      closeButton.focus();
-      expect(closeButton).toHaveFocus();
-
-      // Close with keyboard
-      fireEvent.keyDown(closeButton, { key: 'Enter' });
+      // Close with Escape
+      await user.keyboard('{Escape}');
 
-      await waitFor(() => {
-        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-      });
+      await waitFor(() =>
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+      );
     });
 
     it('should provide comprehensive screen reader support', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
+      const user = userEvent.setup();
+      const agent = nextAgent(server);
+      renderWidget({ config });
 
-      // Test ARIA labels and roles
       const chatButton = screen.getByRole('button', { name: 'Open chat' });
       expect(chatButton).toHaveAttribute('aria-expanded', 'false');
 
       await user.click(chatButton);
 
-      await waitFor(() => {
-        const dialog = screen.getByRole('dialog');
-        expect(dialog).toHaveAttribute('aria-modal', 'true');
-        expect(dialog).toHaveAttribute('aria-labelledby');
-      });
+      const dialog = await screen.findByRole('dialog');
+      expect(dialog).toHaveAttribute('aria-modal', 'true');
+      expect(dialog).toHaveAttribute('aria-labelledby');
 
-      // Test message list accessibility
       const messageList = screen.getByRole('log');
       expect(messageList).toHaveAttribute('aria-live', 'polite');
       expect(messageList).toHaveAttribute('aria-label', 'Chat messages');
 
-      // Test form accessibility
-      const messageInput = screen.getByLabelText('Type your message');
-      expect(messageInput).toHaveAttribute('aria-label', 'Type your message');
-
-      // Test button accessibility
-      const sendButton = screen.getByLabelText('Send message');
-      expect(sendButton).toHaveAttribute('type', 'button');
-
-      // Test status updates
-      await user.type(messageInput, 'Screen reader test');
-
-      // Simulate typing indicator
-      act(() => {
-        const mockTypingEvent = {
-          Type: 'TYPING',
-          ParticipantId: 'agent-123',
-          DisplayName: 'Agent Sarah',
-        };
-
-        const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'message'
-        )?.[1];
-        if (messageHandler) {
-          messageHandler({
-            data: JSON.stringify(mockTypingEvent),
-          } as MessageEvent);
-        }
-      });
+      expect(screen.getByLabelText('Send message')).toHaveAttribute(
+        'type',
+        'submit'
+      );
+
+      // Typing from the agent is announced politely
+      await waitForConnection();
+      const connectedAgent = await agent;
+      connectedAgent.join();
+      connectedAgent.typing();
 
-      // Typing indicator should have proper ARIA
       await waitFor(() => {
-        const typingIndicator = screen.getByRole('status');
-        expect(typingIndicator).toHaveAttribute('aria-live', 'polite');
+        const indicators = screen.getAllByRole('status');
+        indicators.forEach(indicator =>
+          expect(indicator).toHaveAttribute('aria-live', 'polite')
+        );
       });
     });
 
     it('should support high contrast and color accessibility', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      // Mock high contrast mode
-      window.matchMedia = vi.fn().mockImplementation(query => ({
-        matches: query.includes('prefers-contrast: high'),
-        media: query,
-        onchange: null,
-        addListener: vi.fn(),
-        removeListener: vi.fn(),
-        addEventListener: vi.fn(),
-        removeEventListener: vi.fn(),
-        dispatchEvent: vi.fn(),
-      }));
-
-      const highContrastConfig = {
-        ...mockConfig,
+      const user = userEvent.setup();
+      const highContrastConfig: WidgetConfig = {
+        ...config,
         ui: {
-          ...mockConfig.ui,
+          ...config.ui,
           theme: {
-            ...mockConfig.ui.theme,
+            ...config.ui.theme,
             primaryColor: '#000000',
             secondaryColor: '#ffffff',
           },
         },
       };
 
-      render(<ChatWidget config={highContrastConfig} />);
-
-      const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      expect(chatButton).toBeInTheDocument();
-
-      await user.click(chatButton);
+      renderWidget({ config: highContrastConfig });
 
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
+      await user.click(screen.getByRole('button', { name: 'Open chat' }));
 
-      // High contrast theme should be applied
-      const chatWindow = screen.getByRole('dialog');
-      expect(chatWindow).toHaveStyle({
+      expect(await screen.findByRole('dialog')).toHaveStyle({
         '--primary-color': '#000000',
         '--secondary-color': '#ffffff',
       });
     });
 
-    it('should support reduced motion preferences', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      // Mock reduced motion preference
-      window.matchMedia = vi.fn().mockImplementation(query => ({
-        matches: query.includes('prefers-reduced-motion: reduce'),
-        media: query,
-        onchange: null,
-        addListener: vi.fn(),
-        removeListener: vi.fn(),
-        addEventListener: vi.fn(),
-        removeEventListener: vi.fn(),
-        dispatchEvent: vi.fn(),
-      }));
-
-      render(<ChatWidget config={mockConfig} />);
-
-      const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      await user.click(chatButton);
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Animations should be reduced or disabled
-      // This is tested through CSS class application and media queries
-      expect(screen.getByRole('dialog')).toBeInTheDocument();
-    });
-
     it('should handle focus management correctly', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+      const user = userEvent.setup();
+      renderWidget({ config });
 
-      render(<ChatWidget config={mockConfig} />);
-
-      // Initial focus should not be trapped
+      // Focus is not taken before the visitor opens the widget
       const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      expect(document.activeElement).not.toBe(chatButton);
+      expect(chatButton).not.toHaveFocus();
 
-      // Open chat
       await user.click(chatButton);
 
-      await waitFor(() => {
-        const dialog = screen.getByRole('dialog');
-        expect(dialog).toBeInTheDocument();
-        // Dialog should receive focus when opened
-        expect(dialog).toHaveFocus();
-      });
-
-      // Focus should be trapped within dialog
-      const messageInput = screen.getByLabelText('Type your message');
-      const minimizeButton = screen.getByLabelText('Minimize chat');
-      const closeButton = screen.getByLabelText('Close chat');
-
-      // Tab through focusable elements
-      messageInput.focus();
-      expect(messageInput).toHaveFocus();
-
-      fireEvent.keyDown(messageInput, { key: 'Tab' });
-      // Focus should move to next focusable element
+      // The window takes focus when it opens
+      const dialog = await screen.findByRole('dialog');
+      expect(dialog).toHaveFocus();
 
-      // Test Escape key to close
-      fireEvent.keyDown(document.activeElement!, { key: 'Escape' });
+      // Escape closes the window
+      await user.keyboard('{Escape}');
 
-      await waitFor(() => {
-        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-        // Focus should return to chat button
-        expect(chatButton).toHaveFocus();
-      });
+      await waitFor(() =>
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+      );
     });
   });
 
   describe('Performance Testing', () => {
-    it('should load and initialize quickly', async () => {
-      const startTime = performance.now();
-
-      render(<ChatWidget config={mockConfig} />);
-
-      // Widget should render immediately
-      expect(
-        screen.getByRole('button', { name: 'Open chat' })
-      ).toBeInTheDocument();
-
-      const endTime = performance.now();
-      const loadTime = endTime - startTime;
-
-      // Should load in under 100ms (in test environment)
-      expect(loadTime).toBeLessThan(100);
-    });
-
     it('should handle large message volumes efficiently', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
+      const user = userEvent.setup();
+      const agent = nextAgent(server);
+      renderWidget({ config });
 
       await user.click(screen.getByRole('button', { name: 'Open chat' }));
+      await waitForConnection();
 
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Simulate receiving many messages
-      const startTime = performance.now();
-
+      const connectedAgent = await agent;
+      connectedAgent.join();
       for (let i = 0; i < 100; i++) {
-        const mockMessage = {
-          Type: 'MESSAGE',
-          Content: `Message ${i}: This is a test message to simulate high volume chat.`,
-          ParticipantId: i % 2 === 0 ? 'visitor' : 'agent-123',
-          DisplayName: i % 2 === 0 ? 'Visitor' : 'Agent Sarah',
-          Timestamp: new Date().toISOString(),
-        };
-
-        act(() => {
-          const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-            call => call[0] === 'message'
-          )?.[1];
-          if (messageHandler) {
-            messageHandler({
-              data: JSON.stringify(mockMessage),
-            } as MessageEvent);
-          }
-        });
+        connectedAgent.say(`Message ${i}`);
       }
 
-      const endTime = performance.now();
-      const processingTime = endTime - startTime;
-
-      // Should handle 100 messages in reasonable time
-      expect(processingTime).toBeLessThan(1000);
+      await waitFor(() =>
+        expect(chatLog().getByText('Message 99')).toBeInTheDocument()
+      );
+      expect(chatLog().getByText('Message 0')).toBeInTheDocument();
 
-      // UI should remain responsive
+      // The input stays responsive
       const messageInput = screen.getByLabelText('Type your message');
       await user.type(messageInput, 'Performance test');
       expect(messageInput).toHaveValue('Performance test');
     });
 
-    it('should optimize memory usage during long sessions', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
-
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Simulate long chat session
-      const messageInput = screen.getByLabelText('Type your message');
-
-      // Send many messages
-      for (let i = 0; i < 50; i++) {
-        await user.clear(messageInput);
-        await user.type(messageInput, `Message ${i}`);
-        await user.keyboard('{Enter}');
-
-        // Simulate agent responses
-        act(() => {
-          const mockResponse = {
-            Type: 'MESSAGE',
-            Content: `Response to message ${i}`,
-            ParticipantId: 'agent-123',
-            DisplayName: 'Agent Sarah',
-            Timestamp: new Date().toISOString(),
-          };
-
-          const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-            call => call[0] === 'message'
-          )?.[1];
-          if (messageHandler) {
-            messageHandler({
-              data: JSON.stringify(mockResponse),
-            } as MessageEvent);
-          }
-        });
-      }
-
-      // Widget should still be responsive
-      await user.clear(messageInput);
-      await user.type(messageInput, 'Final test message');
-      expect(messageInput).toHaveValue('Final test message');
-
-      // Close and reopen to test cleanup
-      await user.click(screen.getByLabelText('Close chat'));
-
-      await waitFor(() => {
-        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-      });
-
-      // Should cleanup properly
-      expect(mockWebSocket.close).toHaveBeenCalled();
-    });
-
     it('should handle rapid user interactions smoothly', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
-
-      const chatButton = screen.getByRole('button', { name: 'Open chat' });
-
-      // Rapid open/close cycles
-      for (let i = 0; i < 10; i++) {
-        await user.click(chatButton);
+      const user = userEvent.setup();
+      renderWidget({ config });
 
-        await waitFor(() => {
-          expect(screen.getByRole('dialog')).toBeInTheDocument();
-        });
+      // Rapid minimize and reopen cycles keep one contact
+      let contacts = 0;
+      server.on('contactStarted', () => contacts++);
 
-        await user.click(screen.getByLabelText('Close chat'));
+      await user.click(screen.getByRole('button', { name: 'Open chat' }));
+      await waitForConnection();
 
-        await waitFor(() => {
-          expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-        });
+      for (let i = 0; i < 5; i++) {
+        await user.click(screen.getByLabelText('Minimize chat'));
+        await user.click(screen.getByRole('button', { name: 'Open chat' }));
+        await screen.findByRole('dialog');
       }
 
-      // Should still work normally
-      await user.click(chatButton);
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
       const messageInput = screen.getByLabelText('Type your message');
       await user.type(messageInput, 'Rapid interaction test');
       expect(messageInput).toHaveValue('Rapid interaction test');
+      expect(contacts).toBe(1);
     });
 
-    it('should optimize network usage', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
+    it('should throttle typing events sent to the agent', async () => {
+      const user = userEvent.setup();
+      renderWidget({ config });
 
       await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Establish connection
-      act(() => {
-        const openHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'open'
-        )?.[1];
-        if (openHandler) {
-          openHandler(new Event('open'));
-        }
-      });
-
-      const messageInput = screen.getByLabelText('Type your message');
-
-      // Test typing indicator throttling
-      await user.type(messageInput, 'Quick typing test');
-
-      // Should not send excessive typing indicators
-      const typingCalls = mockWebSocket.send.mock.calls.filter(call =>
-        call[0]?.includes('typing')
+      await waitForConnection();
+
+      // Count the visitor's typing events published by the server
+      const publish = vi.spyOn(server, 'publish');
+      const typingEvents = () =>
+        publish.mock.calls.filter(
+          ([, item]) =>
+            item.ContentType?.endsWith('typing') &&
+            item.ParticipantRole === 'CUSTOMER'
+        ).length;
+
+      await user.type(
+        screen.getByLabelText('Type your message'),
+        'Quick typing test'
       );
 
-      // Should throttle typing indicators
-      expect(typingCalls.length).toBeLessThan(10);
-
-      // Test message batching if implemented
-      await user.keyboard('{Enter}');
-
-      // Should send message efficiently
-      expect(mockWebSocket.send).toHaveBeenCalled();
+      await waitFor(() => expect(typingEvents()).toBeGreaterThan(0), {
+        timeout: 5000,
+      });
+      expect(typingEvents()).toBeLessThan(5);
     });
   });
 
   describe('Error Handling and Resilience', () => {
     it('should maintain accessibility during error states', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+      const user = userEvent.setup();
       const onError = vi.fn();
+      const unreachableConfig: WidgetConfig = {
+        ...config,
+        aws: {
+          ...config.aws,
+          apiGatewayEndpoint: `${config.aws.participantEndpoint}/missing`,
+        },
+      };
 
-      render(<ChatWidget config={mockConfig} onError={onError} />);
+      renderWidget({ config: unreachableConfig, onError });
 
       await user.click(screen.getByRole('button', { name: 'Open chat' }));
 
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Simulate connection error
-      act(() => {
-        const errorHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'error'
-        )?.[1];
-        if (errorHandler) {
-          errorHandler(new Event('error'));
-        }
-      });
+      await waitFor(() => expect(onError).toHaveBeenCalled());
 
-      // Error state should maintain accessibility
+      // The error state keeps the dialog semantics and can be closed
       const dialog = screen.getByRole('dialog');
       expect(dialog).toHaveAttribute('aria-modal', 'true');
 
-      // User should still be able to close widget
-      const closeButton = screen.getByLabelText('Close chat');
-      expect(closeButton).toBeInTheDocument();
-
-      await user.click(closeButton);
-
-      await waitFor(() => {
-        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-      });
-    });
-
-    it('should handle performance degradation gracefully', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      // Mock slow performance
-      const originalSetTimeout = global.setTimeout;
-      global.setTimeout = vi.fn((callback, delay) => {
-        return originalSetTimeout(callback, (delay || 0) * 2); // Double all delays
-      });
+      await user.click(within(dialog).getByLabelText('Close chat'));
 
-      render(<ChatWidget config={mockConfig} />);
-
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      // Should still open, just slower
-      await waitFor(
-        () => {
-          expect(screen.getByRole('dialog')).toBeInTheDocument();
-        },
-        { timeout: 5000 }
+      await waitFor(() =>
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
       );
-
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'Slow performance test');
-
-      // Should still work despite performance issues
-      expect(messageInput).toHaveValue('Slow performance test');
-
-      // Restore original setTimeout
-      global.setTimeout = originalSetTimeout;
     });
   });
 });
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { waitFor } from '@testing-library/react';
+import { ConnectService } from '../services/ConnectService';
+import { MockConnectServer } from '../../mock-server/MockConnectServer.js';
+import type { Message } from '../types/chat';
+import type {
+  ConnectionStatus,
+  ConnectParticipantEvent,
+} from '../types/aws-connect';
+
+/**
+ * End-to-end tests against the local mock Connect server
+ * Exercises the real participant SDK client, REST calls and WebSocket protocol
+ */
+describe('Mock Connect server end-to-end', () => {
+  let server: MockConnectServer;
+  let service: ConnectService;
+  let messages: Message[];
+  let events: ConnectParticipantEvent[];
+  let statuses: ConnectionStatus[];
+
+  beforeEach(async () => {
+    localStorage.clear();
+    server = new MockConnectServer({ agentName: 'Alex' });
+    const url = await server.start();
+
+    service = new ConnectService({
+      region: 'us-east-1',
+      instanceId: '00000000-0000-4000-8000-000000000001',
+      contactFlowId: '00000000-0000-4000-8000-000000000002',
+      apiGatewayEndpoint: `${url}/start-chat`,
+      participantEndpoint: url,
+    });
+
+    messages = [];
+    events = [];
+    statuses = [];
+    service.onMessageReceived(message => messages.push(message));
+    service.onParticipantEvent(event => events.push(event));
+    service.onConnectionStatusChange(status => statuses.push(status));
+  });
+
+  afterEach(async () => {
+    await service.endChat().catch(() => undefined);
+    await server.stop();
+  });
+
+  const startChat = async () => {
+    let contactId = '';
+    server.once('contactStarted', contact => {
+      contactId = contact.contactId;
+    });
+
+    const session = await service.initializeChat({ displayName: 'Jamie' });
+    return { session, agent: server.getAgent(contactId) };
+  };
+
+  it('starts a chat and connects the participant WebSocket', async () => {
+    const { session } = await startChat();
+
+    expect(session.contactId).toBeTruthy();
+    expect(session.connectionToken).toBeTruthy();
+    expect(statuses[statuses.length - 1]).toBe('connected');
+  });
+
+  it('delivers agent join, typing and messages over the WebSocket', async () => {
+    const { agent } = await startChat();
+
+    agent.join();
+    agent.typing();
+    agent.say('Hello Jamie');
+
+    await waitFor(() =>
+      expect(messages.map(message => message.content)).toContain('Hello Jamie')
+    );
+    expect(events.map(event => event.type)).toEqual(
+      expect.arrayContaining(['participant.joined', 'typing'])
+    );
+  });
+
+  it('acknowledges sent messages and lets the agent reply', async () => {
+    const { agent } = await startChat();
+    agent.onMessage((item, a) => a.say(`Echo: ${item.Content}`));
+
+    const ack = await service.sendMessage('Hi there', 'local-1');
+
+    expect(ack).toMatchObject({ clientMessageId: 'local-1' });
+    await waitFor(() =>
+      expect(messages.map(message => message.content)).toContain(
+        'Echo: Hi there'
+      )
+    );
+  });
+
+  it('reports transfers and agent disconnects', async () => {
+    const { agent } = await startChat();
+
+    agent.join();
+    agent.transfer('Sam');
+    agent.disconnect();
+
+    await waitFor(() =>
+      expect(events.map(event => event.type)).toContain('chat.ended')
+    );
+    expect(events.map(event => event.type)).toEqual(
+      expect.arrayContaining(['transfer.succeeded', 'participant.left'])
+    );
+  });
+
+  it('pages through the transcript', async () => {
+    const { agent } = await startChat();
+    agent.say('First');
+    agent.say('Second');
+
+    const contents: string[] = [];
+    for await (const page of service.iterateTranscript({ maxResults: 2 })) {
+      contents.push(...page.messages.map(message => message.content));
+    }
+
+    expect(contents).toEqual(['First', 'Second']);
+  });
+});
@@ -0,0 +1,77 @@
+import { render } from '@testing-library/react';
+import { ChatWidget } from '../components/ChatWidget';
+import { I18nProvider } from '../components/I18nProvider';
+import { ThemeProvider } from '../components/ThemeProvider';
+import { MockConnectServer } from '../../mock-server/MockConnectServer.js';
+import type { ChatWidgetProps } from '../types/ui';
+import type { WidgetConfig } from '../types/widget';
+
+/**
+ * Helpers for end-to-end suites that run the real widget against the local
+ * mock Connect server
+ */
+
+type MockAgent = ReturnType<MockConnectServer['getAgent']>;
+
+/**
+ * Widget configuration pointing at a running mock server
+ */
+export const createMockConnectConfig = (url: string): WidgetConfig => ({
+  aws: {
+    region: 'us-east-1',
+    instanceId: '00000000-0000-4000-8000-000000000001',
+    contactFlowId: '00000000-0000-4000-8000-000000000002',
+    apiGatewayEndpoint: `${url}/start-chat`,
+    participantEndpoint: url,
+  },
+  ui: {
+    theme: {
+      primaryColor: '#007bff',
+      secondaryColor: '#0056b3',
+      fontFamily: 'Arial, sans-serif',
+      borderRadius: '8px',
+    },
+    position: {
+      bottom: '20px',
+      right: '20px',
+    },
+    messages: {
+      welcomeMessage: 'Welcome! How can we help you?',
+      offlineMessage: 'We are currently offline',
+      waitingMessage: 'Waiting for an agent...',
+      connectingMessage: 'Connecting...',
+    },
+  },
+  features: {
+    fileUpload: false,
+    emojiPicker: false,
+    chatRatings: false,
+    chatTranscript: false,
+  },
+});
+
+/**
+ * Resolve with the agent of the next contact the server starts
+ */
+export const nextAgent = (server: MockConnectServer): Promise<MockAgent> =>
+  new Promise(resolve => {
+    server.once('contactStarted', (_contact, agent) => resolve(agent));
+  });
+
+/**
+ * Render the widget with the providers the embed module mounts it in
+ */
+export const renderWidget = (props: ChatWidgetProps) =>
+  render(
+    <I18nProvider
+      locale={props.config.ui.locale}
+      messages={props.config.ui.messages}
+    >
+      <ThemeProvider
+        theme={props.config.ui.theme}
+        direction={props.config.ui.direction}
+      >
+        <ChatWidget {...props} />
+      </ThemeProvider>
+    </I18nProvider>
+  );
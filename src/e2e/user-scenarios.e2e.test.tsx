@@ -1,356 +1,195 @@
-import React from 'react';
-import {
-  render,
-  screen,
-  fireEvent,
-  waitFor,
-  act,
-} from '@testing-library/react';
+import { createRef } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import { vi } from 'vitest';
-import { ChatWidget } from '../components/ChatWidget';
-import { WidgetConfiguration } from '../components/WidgetConfiguration';
-import type { WidgetConfiguration as WidgetConfigType } from '../types/widget';
-
-// Mock browser APIs
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: vi.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: vi.fn(),
-    removeListener: vi.fn(),
-    addEventListener: vi.fn(),
-    removeEventListener: vi.fn(),
-    dispatchEvent: vi.fn(),
-  })),
-});
-
-// Mock ResizeObserver
-global.ResizeObserver = vi.fn().mockImplementation(() => ({
-  observe: vi.fn(),
-  unobserve: vi.fn(),
-  disconnect: vi.fn(),
-}));
-
-// Mock WebSocket
-const mockWebSocket = {
-  send: vi.fn(),
-  close: vi.fn(),
-  addEventListener: vi.fn(),
-  removeEventListener: vi.fn(),
-  readyState: WebSocket.OPEN,
-  CONNECTING: WebSocket.CONNECTING,
-  OPEN: WebSocket.OPEN,
-  CLOSING: WebSocket.CLOSING,
-  CLOSED: WebSocket.CLOSED,
-};
-
-global.WebSocket = vi.fn(() => mockWebSocket) as any;
-
-// Mock AWS SDK
-vi.mock('@aws-sdk/client-connectparticipant', () => ({
-  ConnectParticipantClient: vi.fn(() => ({
-    send: vi.fn().mockResolvedValue({
-      ConnectionToken: 'test-token',
-      ParticipantId: 'test-participant',
-      ParticipantToken: 'test-participant-token',
-      Websocket: { Url: 'wss://test.amazonaws.com' },
-    }),
-  })),
-  StartChatContactCommand: vi.fn(),
-  SendMessageCommand: vi.fn(),
-  DisconnectParticipantCommand: vi.fn(),
-  SendEventCommand: vi.fn(),
-}));
-
+import { MockConnectServer } from '../../mock-server/MockConnectServer.js';
+import {
+  createMockConnectConfig,
+  nextAgent,
+  renderWidget,
+} from './mockConnectWidget';
+import type { ChatWidgetHandle } from '../types/ui';
+import type { WidgetConfig } from '../types/widget';
+
+/**
+ * End-to-end user scenarios against the local mock Connect server
+ * The widget runs unmocked: real hooks, services, REST calls and WebSocket
+ */
 describe('End-to-End User Scenarios', () => {
-  const mockConfig: WidgetConfigType = {
-    aws: {
-      region: 'us-east-1',
-      instanceId: 'test-instance-id',
-      contactFlowId: 'test-contact-flow-id',
-      apiGatewayEndpoint: 'https://api.example.com',
-    },
-    ui: {
-      theme: {
-        primaryColor: '#007bff',
-        secondaryColor: '#0056b3',
-        fontFamily: 'Arial, sans-serif',
-        borderRadius: '8px',
-      },
-      position: {
-        bottom: '20px',
-        right: '20px',
-      },
-      messages: {
-        welcomeMessage: 'Welcome! How can we help you?',
-        offlineMessage: 'We are currently offline',
-        waitingMessage: 'Waiting for an agent...',
-        connectingMessage: 'Connecting...',
-      },
-    },
-    features: {
-      fileUpload: false,
-      emojiPicker: false,
-      chatRatings: true,
-      chatTranscript: true,
-    },
-  };
+  let server: MockConnectServer;
+  let config: WidgetConfig;
 
-  beforeEach(() => {
-    vi.clearAllMocks();
-    vi.useFakeTimers();
-
-    // Reset WebSocket mock
-    Object.assign(mockWebSocket, {
-      send: vi.fn(),
-      close: vi.fn(),
-      addEventListener: vi.fn(),
-      removeEventListener: vi.fn(),
-      readyState: WebSocket.OPEN,
-    });
+  beforeEach(async () => {
+    localStorage.clear();
+    server = new MockConnectServer({ agentName: 'Sarah' });
+    config = createMockConnectConfig(await server.start());
   });
 
-  afterEach(() => {
-    vi.runOnlyPendingTimers();
-    vi.useRealTimers();
+  afterEach(async () => {
+    // Unmount first so the widget ends its chat while the server is up
+    cleanup();
+    await server.stop();
   });
 
+  /**
+   * Open the widget and wait until the chat is connected
+   */
+  const openChat = async (user: ReturnType<typeof userEvent.setup>) => {
+    const agent = nextAgent(server);
+    await user.click(screen.getByRole('button', { name: 'Open chat' }));
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('Type your message')).toBeEnabled()
+    );
+    return agent;
+  };
+
+  const chatLog = () => within(screen.getByRole('log'));
+
   describe('Complete Visitor Chat Journey', () => {
     it('should complete full visitor journey from widget discovery to chat completion', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
+      const user = userEvent.setup();
+      renderWidget({ config });
 
       // Scenario: Visitor discovers the chat widget
       const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      expect(chatButton).toBeInTheDocument();
       expect(chatButton).toBeVisible();
 
-      // Scenario: Visitor clicks to start chat
-      await user.click(chatButton);
+      // Scenario: Visitor opens the widget and the chat connects
+      const agent = await openChat(user);
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
 
-      // Widget should open with welcome interface
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Scenario: System initializes connection
-      act(() => {
-        const openHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'open'
-        )?.[1];
-        if (openHandler) {
-          openHandler(new Event('open'));
-        }
-      });
-
-      // Scenario: Visitor sees agent connection
-      const mockAgentJoinEvent = {
-        Type: 'PARTICIPANT_JOINED',
-        ParticipantId: 'agent-123',
-        DisplayName: 'Agent Sarah',
-        ParticipantRole: 'AGENT',
-      };
-
-      act(() => {
-        const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'message'
-        )?.[1];
-        if (messageHandler) {
-          messageHandler({
-            data: JSON.stringify(mockAgentJoinEvent),
-          } as MessageEvent);
+      // Scenario: Agent joins and answers the visitor
+      agent.join();
+      agent.onMessage((item, a) => {
+        if (item.Content === 'Hi, I need help with my account') {
+          a.say("Hello! I'd be happy to help you with your account.");
         }
       });
 
-      // Scenario: Visitor types and sends first message
-      await waitFor(() => {
-        const messageInput = screen.getByLabelText('Type your message');
-        expect(messageInput).not.toBeDisabled();
-      });
-
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'Hi, I need help with my account');
-      await user.keyboard('{Enter}');
-
-      // Message should be sent
-      expect(mockWebSocket.send).toHaveBeenCalled();
-
-      // Scenario: Agent responds
-      const mockAgentMessage = {
-        Type: 'MESSAGE',
-        Content:
-          "Hello! I'd be happy to help you with your account. What specific issue are you experiencing?",
-        ParticipantId: 'agent-123',
-        DisplayName: 'Agent Sarah',
-        Timestamp: new Date().toISOString(),
-      };
-
-      act(() => {
-        const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'message'
-        )?.[1];
-        if (messageHandler) {
-          messageHandler({
-            data: JSON.stringify(mockAgentMessage),
-          } as MessageEvent);
-        }
-      });
-
-      // Agent message should appear
-      await waitFor(() => {
+      await waitFor(() =>
         expect(
-          screen.getByText(/I'd be happy to help you with your account/)
-        ).toBeInTheDocument();
-      });
+          chatLog().getByText('Sarah has joined the chat')
+        ).toBeInTheDocument()
+      );
 
-      // Scenario: Visitor continues conversation
-      await user.clear(messageInput);
-      await user.type(messageInput, "I can't log into my account");
-      await user.keyboard('{Enter}');
-
-      // Scenario: Agent provides solution
-      const mockSolutionMessage = {
-        Type: 'MESSAGE',
-        Content:
-          'I can help you reset your password. Please check your email for a reset link.',
-        ParticipantId: 'agent-123',
-        DisplayName: 'Agent Sarah',
-        Timestamp: new Date().toISOString(),
-      };
+      await user.type(
+        screen.getByLabelText('Type your message'),
+        'Hi, I need help with my account{Enter}'
+      );
 
-      act(() => {
-        const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'message'
-        )?.[1];
-        if (messageHandler) {
-          messageHandler({
-            data: JSON.stringify(mockSolutionMessage),
-          } as MessageEvent);
-        }
-      });
-
-      await waitFor(() => {
+      await waitFor(() =>
         expect(
-          screen.getByText(/check your email for a reset link/)
-        ).toBeInTheDocument();
-      });
-
-      // Scenario: Visitor thanks and ends chat
-      await user.clear(messageInput);
-      await user.type(messageInput, 'Thank you! That worked perfectly.');
-      await user.keyboard('{Enter}');
-
-      // Scenario: Agent ends chat session
-      const mockChatEndEvent = {
-        Type: 'CHAT_ENDED',
-        ParticipantId: 'agent-123',
-        Timestamp: new Date().toISOString(),
-      };
+          chatLog().getByText(/happy to help you with your account/)
+        ).toBeInTheDocument()
+      );
+      expect(
+        chatLog().getByText('Hi, I need help with my account')
+      ).toBeInTheDocument();
 
-      act(() => {
-        const messageHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'message'
-        )?.[1];
-        if (messageHandler) {
-          messageHandler({
-            data: JSON.stringify(mockChatEndEvent),
-          } as MessageEvent);
-        }
-      });
+      // Scenario: Agent ends the chat session
+      agent.disconnect();
 
-      // Scenario: Visitor closes chat widget
-      const closeButton = screen.getByLabelText('Close chat');
-      await user.click(closeButton);
+      await waitFor(() =>
+        expect(chatLog().getByText('The chat has ended')).toBeInTheDocument()
+      );
 
-      // Widget should close
-      await waitFor(() => {
-        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-      });
+      // Scenario: Visitor closes the widget
+      await user.click(
+        within(screen.getByRole('dialog')).getByLabelText('Close chat')
+      );
 
-      // Chat button should be visible again
+      await waitFor(() =>
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+      );
       expect(
         screen.getByRole('button', { name: 'Open chat' })
       ).toBeInTheDocument();
     });
 
     it('should handle visitor reconnection after network interruption', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
-
-      // Start chat
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Establish connection
-      act(() => {
-        const openHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'open'
-        )?.[1];
-        if (openHandler) {
-          openHandler(new Event('open'));
-        }
-      });
-
-      // Send a message
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'Hello, I need help');
-      await user.keyboard('{Enter}');
-
-      // Simulate network interruption
-      act(() => {
-        const closeHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'close'
-        )?.[1];
-        if (closeHandler) {
-          closeHandler(new CloseEvent('close', { code: 1006 }));
-        }
-      });
-
-      // Try to send another message while disconnected
-      await user.clear(messageInput);
-      await user.type(messageInput, 'Are you still there?');
-      await user.keyboard('{Enter}');
-
-      // Simulate reconnection
-      act(() => {
-        vi.advanceTimersByTime(5000);
-        const openHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'open'
-        )?.[1];
-        if (openHandler) {
-          openHandler(new Event('open'));
-        }
-      });
+      const user = userEvent.setup();
+      renderWidget({ config });
+
+      const agent = await openChat(user);
+      agent.join();
+
+      // Simulate a dropped connection
+      const [droppedSocket] = agent.contact.sockets;
+      droppedSocket.terminate();
+
+      // The widget reconnects with a new participant connection
+      await waitFor(
+        () =>
+          expect(
+            [...agent.contact.sockets].some(socket => socket !== droppedSocket)
+          ).toBe(true),
+        { timeout: 5000 }
+      );
+      agent.say('Are you still there?');
+
+      await waitFor(() =>
+        expect(chatLog().getByText('Are you still there?')).toBeInTheDocument()
+      );
+
+      await user.type(
+        screen.getByLabelText('Type your message'),
+        'Connection restored{Enter}'
+      );
+
+      await waitFor(() =>
+        expect(
+          server
+            .getTranscript(agent.contact.contactId)
+            .map(item => item.Content)
+        ).toContain('Connection restored')
+      );
+    });
+  });
 
-      // Should be able to send messages again
-      await waitFor(() => {
-        expect(messageInput).not.toBeDisabled();
-      });
+  describe('Queue Position', () => {
+    it('should show the queue position until an agent joins', async () => {
+      const user = userEvent.setup();
+      renderWidget({ config: { ...config, queue: {} } });
+
+      const agent = await openChat(user);
+
+      // The contact flow announces the queue position
+      server.publish(
+        agent.contact,
+        server.createItem({
+          Type: 'MESSAGE',
+          ParticipantRole: 'SYSTEM',
+          DisplayName: 'SYSTEM_MESSAGE',
+          ContentType: 'text/plain',
+          Content: '{"queuePosition": 3, "estimatedWaitSeconds": 120}',
+        })
+      );
+
+      await waitFor(() =>
+        expect(
+          screen.getByText('You are number 3 in the queue')
+        ).toBeInTheDocument()
+      );
 
-      await user.clear(messageInput);
-      await user.type(messageInput, 'Connection restored');
-      await user.keyboard('{Enter}');
+      agent.join();
 
-      expect(mockWebSocket.send).toHaveBeenCalled();
+      await waitFor(() =>
+        expect(
+          screen.queryByText('You are number 3 in the queue')
+        ).not.toBeInTheDocument()
+      );
+      expect(chatLog().getByText('Sarah has joined the chat')).toBeVisible();
     });
   });
 
   describe('Widget Customization and Theme Application', () => {
     it('should apply custom theme throughout the user experience', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      const customConfig = {
-        ...mockConfig,
+      const user = userEvent.setup();
+      const customConfig: WidgetConfig = {
+        ...config,
         ui: {
-          ...mockConfig.ui,
+          ...config.ui,
           theme: {
             primaryColor: '#ff6b35',
             secondaryColor: '#004e89',
@@ -360,22 +199,11 @@ describe('End-to-End User Scenarios', () => {
         },
       };
 
-      render(<ChatWidget config={customConfig} />);
+      renderWidget({ config: customConfig });
 
-      // Theme should be applied to chat button
-      const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      expect(chatButton).toBeInTheDocument();
+      await openChat(user);
 
-      // Open chat to see theme in chat window
-      await user.click(chatButton);
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Theme should be applied throughout the chat interface
-      const chatWindow = screen.getByRole('dialog');
-      expect(chatWindow).toHaveStyle({
+      expect(screen.getByRole('dialog')).toHaveStyle({
         '--primary-color': '#ff6b35',
         '--secondary-color': '#004e89',
         '--font-family': 'Georgia, serif',
@@ -384,12 +212,11 @@ describe('End-to-End User Scenarios', () => {
     });
 
     it('should handle different positioning configurations', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      const leftPositionConfig = {
-        ...mockConfig,
+      const user = userEvent.setup();
+      const leftPositionConfig: WidgetConfig = {
+        ...config,
         ui: {
-          ...mockConfig.ui,
+          ...config.ui,
           position: {
             bottom: '30px',
             left: '30px',
@@ -397,341 +224,128 @@ describe('End-to-End User Scenarios', () => {
         },
       };
 
-      render(<ChatWidget config={leftPositionConfig} />);
+      renderWidget({ config: leftPositionConfig });
 
-      const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      expect(chatButton).toBeInTheDocument();
+      await openChat(user);
 
-      // Button should be positioned on the left
-      // (Positioning is tested through the component's style application)
-
-      await user.click(chatButton);
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-    });
-  });
-
-  describe('Mobile Responsiveness', () => {
-    it('should adapt interface for mobile devices', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      // Mock mobile viewport
-      Object.defineProperty(window, 'innerWidth', {
-        writable: true,
-        configurable: true,
-        value: 375,
-      });
-      Object.defineProperty(window, 'innerHeight', {
-        writable: true,
-        configurable: true,
-        value: 667,
-      });
-
-      // Mock mobile matchMedia
-      window.matchMedia = vi.fn().mockImplementation(query => ({
-        matches: query.includes('max-width: 768px'),
-        media: query,
-        onchange: null,
-        addListener: vi.fn(),
-        removeListener: vi.fn(),
-        addEventListener: vi.fn(),
-        removeEventListener: vi.fn(),
-        dispatchEvent: vi.fn(),
-      }));
-
-      render(<ChatWidget config={mockConfig} />);
-
-      const chatButton = screen.getByRole('button', { name: 'Open chat' });
-      expect(chatButton).toBeInTheDocument();
-
-      // Open chat on mobile
-      await user.click(chatButton);
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Chat should be optimized for mobile
-      const chatWindow = screen.getByRole('dialog');
-      expect(chatWindow).toBeInTheDocument();
-
-      // Touch interactions should work
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.click(messageInput);
-      await user.type(messageInput, 'Mobile test message');
-
-      // Virtual keyboard simulation
-      fireEvent.focus(messageInput);
-      expect(messageInput).toHaveFocus();
-
-      // Send message with touch
-      await user.keyboard('{Enter}');
-
-      // Should handle mobile-specific interactions
-      expect(messageInput).toHaveValue('');
-    });
-
-    it('should handle orientation changes', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
-
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Simulate orientation change
-      Object.defineProperty(window, 'innerWidth', { value: 667 });
-      Object.defineProperty(window, 'innerHeight', { value: 375 });
-
-      fireEvent(window, new Event('orientationchange'));
-      fireEvent(window, new Event('resize'));
-
-      // Chat should remain functional
-      const messageInput = screen.getByLabelText('Type your message');
-      expect(messageInput).toBeInTheDocument();
-
-      await user.type(messageInput, 'Orientation change test');
-      await user.keyboard('{Enter}');
-    });
-  });
-
-  describe('Cross-Browser Compatibility', () => {
-    it('should work with different user agents', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      // Mock different browsers
-      const browsers = [
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:89.0) Gecko/20100101 Firefox/89.0',
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.1 Safari/605.1.15',
-      ];
-
-      for (const userAgent of browsers) {
-        Object.defineProperty(navigator, 'userAgent', {
-          value: userAgent,
-          configurable: true,
-        });
-
-        render(<ChatWidget config={mockConfig} />);
-
-        // Basic functionality should work across browsers
-        const chatButton = screen.getByRole('button', { name: 'Open chat' });
-        expect(chatButton).toBeInTheDocument();
-
-        await user.click(chatButton);
-
-        await waitFor(() => {
-          expect(screen.getByRole('dialog')).toBeInTheDocument();
-        });
-
-        const messageInput = screen.getByLabelText('Type your message');
-        await user.type(
-          messageInput,
-          `Test from ${userAgent.includes('Chrome') ? 'Chrome' : userAgent.includes('Firefox') ? 'Firefox' : 'Safari'}`
-        );
-
-        expect(messageInput).toHaveValue(expect.stringContaining('Test from'));
-      }
-    });
-
-    it('should handle browser-specific features gracefully', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      // Mock missing browser features
-      const originalClipboard = navigator.clipboard;
-      delete (navigator as any).clipboard;
-
-      render(<ChatWidget config={mockConfig} />);
-
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Should work without clipboard API
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'Test without clipboard');
-      await user.keyboard('{Enter}');
-
-      // Restore clipboard
-      (navigator as any).clipboard = originalClipboard;
+      expect(screen.getByRole('dialog')).toBeInTheDocument();
     });
   });
 
   describe('Complete Widget Lifecycle', () => {
-    it('should handle complete widget lifecycle from initialization to cleanup', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    it('should keep the conversation when minimized and reopened', async () => {
+      const user = userEvent.setup();
+      renderWidget({ config });
 
-      const { unmount } = render(<ChatWidget config={mockConfig} />);
-
-      // Initialize
-      expect(
-        screen.getByRole('button', { name: 'Open chat' })
-      ).toBeInTheDocument();
-
-      // Open and use
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Establish connection
-      act(() => {
-        const openHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'open'
-        )?.[1];
-        if (openHandler) {
-          openHandler(new Event('open'));
-        }
-      });
+      const agent = await openChat(user);
+      agent.join();
 
-      // Use chat
       const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'Test message');
-      await user.keyboard('{Enter}');
+      await user.type(messageInput, 'First message{Enter}');
+      await user.type(messageInput, 'Second message{Enter}');
 
-      // Minimize
+      // Minimize and reopen
       await user.click(screen.getByLabelText('Minimize chat'));
-
-      // Reopen
       await user.click(screen.getByRole('button', { name: 'Open chat' }));
 
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Close
-      await user.click(screen.getByLabelText('Close chat'));
+      await waitFor(() =>
+        expect(screen.getByRole('dialog')).toBeInTheDocument()
+      );
+      expect(chatLog().getByText('First message')).toBeInTheDocument();
+      expect(chatLog().getByText('Second message')).toBeInTheDocument();
 
-      await waitFor(() => {
-        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
-      });
-
-      // Cleanup
-      unmount();
+      // Continue the conversation
+      await user.type(
+        screen.getByLabelText('Type your message'),
+        'Third message after reopen{Enter}'
+      );
 
-      // Should cleanup WebSocket connections
-      expect(mockWebSocket.close).toHaveBeenCalled();
+      await waitFor(() =>
+        expect(
+          server
+            .getTranscript(agent.contact.contactId)
+            .map(item => item.Content)
+        ).toEqual(
+          expect.arrayContaining([
+            'First message',
+            'Second message',
+            'Third message after reopen',
+          ])
+        )
+      );
     });
 
-    it('should persist session data across widget interactions', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
-
-      render(<ChatWidget config={mockConfig} />);
-
-      // Start chat
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Send messages
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'First message');
-      await user.keyboard('{Enter}');
-
-      await user.type(messageInput, 'Second message');
-      await user.keyboard('{Enter}');
+    it('should end the contact when the visitor closes the chat', async () => {
+      const user = userEvent.setup();
+      renderWidget({ config });
 
-      // Minimize widget
-      await user.click(screen.getByLabelText('Minimize chat'));
+      const agent = await openChat(user);
 
-      // Reopen widget
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
+      await user.click(
+        within(screen.getByRole('dialog')).getByLabelText('Close chat')
+      );
 
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
-
-      // Messages should be preserved
-      expect(screen.getByText('First message')).toBeInTheDocument();
-      expect(screen.getByText('Second message')).toBeInTheDocument();
-
-      // Continue conversation
-      await user.type(messageInput, 'Third message after reopen');
-      await user.keyboard('{Enter}');
-
-      expect(
-        screen.getByText('Third message after reopen')
-      ).toBeInTheDocument();
+      await waitFor(() => expect(agent.contact.ended).toBe(true));
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
     });
   });
 
   describe('Error Scenarios and Recovery', () => {
-    it('should handle and recover from various error scenarios', async () => {
-      const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    it('should reject embed API messages that cannot be sent', async () => {
       const onError = vi.fn();
+      const widget = createRef<ChatWidgetHandle>();
+      renderWidget({ config, onError, ref: widget });
+
+      await expect(widget.current!.sendMessage('Hello')).rejects.toThrow(
+        'No active chat session'
+      );
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'NETWORK_ERROR' })
+      );
+    });
 
-      render(<ChatWidget config={mockConfig} onError={onError} />);
-
-      // Start chat
-      await user.click(screen.getByRole('button', { name: 'Open chat' }));
-
-      await waitFor(() => {
-        expect(screen.getByRole('dialog')).toBeInTheDocument();
-      });
+    it('should reject ending a chat the service cannot reach', async () => {
+      const user = userEvent.setup();
+      const widget = createRef<ChatWidgetHandle>();
+      renderWidget({ config, ref: widget });
 
-      // Simulate various error scenarios
+      await openChat(user);
+      await server.stop();
 
-      // 1. WebSocket connection error
-      act(() => {
-        const errorHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'error'
-        )?.[1];
-        if (errorHandler) {
-          errorHandler(new Event('error'));
-        }
-      });
+      await expect(widget.current!.endChat()).rejects.toThrow(
+        'Failed to end chat'
+      );
+    });
 
-      // Should handle error gracefully
-      await waitFor(() => {
-        expect(onError).toHaveBeenCalled();
-      });
+    it('should report a chat that cannot be started', async () => {
+      const user = userEvent.setup();
+      const onError = vi.fn();
+      const unreachableConfig: WidgetConfig = {
+        ...config,
+        aws: {
+          ...config.aws,
+          apiGatewayEndpoint: `${config.aws.participantEndpoint}/missing`,
+        },
+      };
 
-      // 2. Message sending failure
-      mockWebSocket.send.mockImplementation(() => {
-        throw new Error('Send failed');
-      });
+      renderWidget({ config: unreachableConfig, onError });
 
-      const messageInput = screen.getByLabelText('Type your message');
-      await user.type(messageInput, 'This will fail');
-      await user.keyboard('{Enter}');
+      await user.click(screen.getByRole('button', { name: 'Open chat' }));
 
-      // Should handle send error
-      await waitFor(() => {
+      await waitFor(() =>
         expect(onError).toHaveBeenCalledWith(
-          expect.objectContaining({
-            code: 'NETWORK_ERROR',
-          })
-        );
-      });
-
-      // 3. Recovery - fix connection
-      mockWebSocket.send.mockImplementation(() => {});
-
-      act(() => {
-        const openHandler = mockWebSocket.addEventListener.mock.calls.find(
-          call => call[0] === 'open'
-        )?.[1];
-        if (openHandler) {
-          openHandler(new Event('open'));
-        }
-      });
-
-      // Should recover and work normally
-      await user.clear(messageInput);
-      await user.type(messageInput, 'Recovery test');
-      await user.keyboard('{Enter}');
-
-      expect(mockWebSocket.send).toHaveBeenCalled();
+          expect.objectContaining({ code: 'INITIALIZATION_FAILED' })
+        )
+      );
+
+      // The visitor can still close the widget
+      await user.click(
+        within(screen.getByRole('dialog')).getByLabelText('Close chat')
+      );
+
+      await waitFor(() =>
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument()
+      );
     });
   });
 });
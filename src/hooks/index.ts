@@ -2,3 +2,7 @@
 export * from './useChat';
 export * from './useConnect';
 export * from './useWidget';
+export * from './useAvailability';
+export * from './useQueueStatus';
+export * from './useSurvey';
+export * from './useFocusTrap';
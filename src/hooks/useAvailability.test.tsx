@@ -0,0 +1,74 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useAvailability } from './useAvailability';
+import type { AvailabilityConfiguration } from '../types/widget';
+
+const alwaysClosed: AvailabilityConfiguration = {
+  businessHours: { timeZone: 'UTC', weeklyHours: {} },
+  leaveMessage: { endpoint: 'https://api.example.com/messages' },
+};
+
+describe('useAvailability', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ available: false }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should be available without configuration', () => {
+    const { result } = renderHook(() => useAvailability());
+
+    expect(result.current.isAvailable).toBe(true);
+    expect(result.current.isChecking).toBe(false);
+  });
+
+  it('should start offline outside business hours', () => {
+    const { result } = renderHook(() => useAvailability(alwaysClosed));
+
+    expect(result.current.isAvailable).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should check the availability endpoint', async () => {
+    const config = { availabilityEndpoint: 'https://api.example.com/hours' };
+    const { result } = renderHook(() => useAvailability(config));
+
+    expect(result.current.isChecking).toBe(true);
+    await waitFor(() => expect(result.current.isChecking).toBe(false));
+    expect(result.current.isAvailable).toBe(false);
+  });
+
+  it('should submit leave-a-message requests to the configured endpoint', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+    const { result } = renderHook(() => useAvailability(alwaysClosed));
+
+    await act(async () => {
+      await result.current.submitLeaveMessage({
+        displayName: 'Jamie',
+        answers: { message: 'Hello' },
+      });
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.example.com/messages',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('should reject leave-a-message requests without an endpoint', async () => {
+    const { result } = renderHook(() => useAvailability());
+
+    await expect(
+      result.current.submitLeaveMessage({ displayName: 'Jamie', answers: {} })
+    ).rejects.toThrow('Leave message endpoint is not configured');
+  });
+});
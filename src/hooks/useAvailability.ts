@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { AvailabilityConfiguration } from '../types/widget';
+import { AvailabilityService } from '../services/AvailabilityService';
+import { LeaveMessageService } from '../services/LeaveMessageService';
+import type { LeaveMessageRequest } from '../services/LeaveMessageService';
+import { isWithinBusinessHours } from '../utils/businessHours';
+
+/**
+ * useAvailability hook return type
+ */
+export interface UseAvailabilityReturn {
+  isAvailable: boolean;
+  isChecking: boolean;
+  checkAvailability: () => Promise<boolean>;
+  submitLeaveMessage: (request: LeaveMessageRequest) => Promise<void>;
+}
+
+/**
+ * Business hours and offline mode hook
+ * Tracks whether chat is available and submits leave-a-message requests
+ */
+export const useAvailability = (
+  config?: AvailabilityConfiguration
+): UseAvailabilityReturn => {
+  // Start from the schedule so the widget does not flash online
+  const [isAvailable, setIsAvailable] = useState(() =>
+    config?.businessHours ? isWithinBusinessHours(config.businessHours) : true
+  );
+  const [isChecking, setIsChecking] = useState(
+    Boolean(config?.availabilityEndpoint)
+  );
+  const serviceRef = useRef<AvailabilityService | null>(null);
+
+  useEffect(() => {
+    if (!config || (!config.businessHours && !config.availabilityEndpoint)) {
+      setIsAvailable(true);
+      setIsChecking(false);
+      return;
+    }
+
+    const service = new AvailabilityService(config);
+    serviceRef.current = service;
+
+    service.on('onAvailabilityChange', setIsAvailable);
+    service
+      .checkAvailability()
+      .then(setIsAvailable)
+      .finally(() => setIsChecking(false));
+    service.start();
+
+    return () => {
+      service.cleanup();
+      serviceRef.current = null;
+    };
+  }, [config]);
+
+  /**
+   * Re-check availability immediately
+   */
+  const checkAvailability = useCallback(async () => {
+    if (!serviceRef.current) {
+      return true;
+    }
+
+    const available = await serviceRef.current.checkAvailability();
+    setIsAvailable(available);
+    return available;
+  }, []);
+
+  /**
+   * Submit a message left while offline
+   */
+  const submitLeaveMessage = useCallback(
+    async (request: LeaveMessageRequest) => {
+      if (!config?.leaveMessage?.endpoint) {
+        throw new Error('Leave message endpoint is not configured');
+      }
+
+      await new LeaveMessageService(config.leaveMessage.endpoint).submit(
+        request
+      );
+    },
+    [config]
+  );
+
+  return {
+    isAvailable,
+    isChecking,
+    checkAvailability,
+    submitLeaveMessage,
+  };
+};
@@ -6,10 +6,21 @@ import type {
   VisitorInfo,
   ChatStatus,
   ChatError,
+  MessageStatus,
+  MessageContentType,
 } from '../types/chat';
-import type { AgentStatusUpdate, ConnectionStatus } from '../types/aws-connect';
+import type {
+  AgentStatusUpdate,
+  ConnectionStatus,
+  ConnectParticipantEvent,
+  SentMessageAck,
+} from '../types/aws-connect';
 import { ConnectService } from '../services/ConnectService';
+import { toMessageSender } from '../services/WebSocketManager';
 import { ChatStorage } from '../utils/storage';
+import { translate } from '../utils/i18n';
+import type { TranslateFn } from '../types/i18n';
+import { isImageMimeType } from '../utils/attachments';
 
 /**
  * Initial chat state
@@ -25,6 +36,188 @@ const initialChatState: ChatState = {
   isTyping: false,
 };
 
+/**
+ * Prefix of message IDs generated locally before the server assigns one
+ */
+const LOCAL_MESSAGE_ID_PREFIX = 'msg-';
+
+const isServerMessageId = (id: string): boolean =>
+  !id.startsWith(LOCAL_MESSAGE_ID_PREFIX);
+
+/**
+ * System message text shown for a participant event, if any
+ */
+const describeParticipantEvent = (
+  event: ConnectParticipantEvent,
+  t: TranslateFn
+): string | null => {
+  const isAgent = toMessageSender(event.participantRole) === 'agent';
+  const isVisitor = event.participantRole === 'CUSTOMER';
+  const name = event.displayName || t('chatEvent.agent');
+
+  switch (event.type) {
+    case 'participant.joined':
+      return isAgent ? t('chatEvent.joined', { name }) : null;
+    case 'participant.left':
+      return isAgent ? t('chatEvent.left', { name }) : null;
+    case 'transfer.succeeded':
+      return t('chatEvent.transferring');
+    case 'transfer.failed':
+      return t('chatEvent.transferFailed');
+    case 'participant.idle':
+      return isVisitor ? t('chatEvent.idle') : null;
+    case 'participant.autodisconnection':
+      return isVisitor ? t('chatEvent.autoDisconnected') : null;
+    case 'chat.ended':
+      return t('chatEvent.ended');
+    default:
+      return null;
+  }
+};
+
+/**
+ * Delivery progress of visitor messages; receipts never move a message back
+ */
+const RECEIPT_STATUS_ORDER: MessageStatus[] = [
+  'sending',
+  'sent',
+  'delivered',
+  'read',
+];
+
+/**
+ * Apply a read or delivered receipt to the matching visitor message
+ */
+const applyReceipt = (
+  messages: Message[],
+  messageId: string,
+  status: 'delivered' | 'read'
+): Message[] =>
+  messages.map(message => {
+    const currentRank = RECEIPT_STATUS_ORDER.indexOf(message.status);
+
+    if (
+      message.id !== messageId ||
+      message.sender !== 'visitor' ||
+      currentRank === -1 ||
+      currentRank >= RECEIPT_STATUS_ORDER.indexOf(status)
+    ) {
+      return message;
+    }
+
+    return { ...message, status };
+  });
+
+/**
+ * The further-progressed of two visitor message statuses
+ */
+const latestStatus = (
+  current: MessageStatus,
+  next: MessageStatus
+): MessageStatus =>
+  RECEIPT_STATUS_ORDER.indexOf(next) > RECEIPT_STATUS_ORDER.indexOf(current)
+    ? next
+    : current;
+
+/**
+ * Replace an optimistic message's local ID with its server ID
+ * A copy already stored under the server ID is dropped so it shows once
+ */
+const acknowledgeMessage = (
+  messages: Message[],
+  ack: SentMessageAck
+): Message[] => {
+  const local = messages.find(message => message.id === ack.clientMessageId);
+  if (!local) {
+    return messages;
+  }
+
+  const confirmed = messages.find(message => message.id === ack.messageId);
+  const status = latestStatus(
+    local.status === 'failed' ? 'sent' : local.status,
+    confirmed ? latestStatus(confirmed.status, 'sent') : 'sent'
+  );
+
+  return messages
+    .filter(message => message === local || message.id !== ack.messageId)
+    .map(message =>
+      message === local
+        ? { ...message, id: ack.messageId, timestamp: ack.timestamp, status }
+        : message
+    );
+};
+
+/**
+ * Merge an incoming message into the list, deduping by ID
+ * Echoes of our own messages replace the optimistic copy they confirm
+ */
+const mergeIncomingMessage = (
+  messages: Message[],
+  incoming: Message
+): Message[] => {
+  const { clientMessageId, ...message } = incoming;
+  const existing = messages.find(
+    candidate =>
+      candidate.id === message.id ||
+      (clientMessageId !== undefined && candidate.id === clientMessageId)
+  );
+  if (!existing) {
+    return [...messages, message];
+  }
+
+  const status =
+    message.sender === 'visitor'
+      ? latestStatus(
+          existing.status === 'failed' ? 'sent' : existing.status,
+          'sent'
+        )
+      : message.status;
+
+  return messages
+    .filter(candidate => candidate === existing || candidate.id !== message.id)
+    .map(candidate =>
+      candidate === existing ? { ...existing, ...message, status } : candidate
+    );
+};
+
+/**
+ * Whether a participant event means the contact is over
+ */
+const endsChat = (event: ConnectParticipantEvent): boolean =>
+  event.type === 'chat.ended' ||
+  (event.type === 'participant.autodisconnection' &&
+    event.participantRole === 'CUSTOMER');
+
+/**
+ * Merge transcript messages into local messages after a resume
+ * The transcript is authoritative; older history and unsent messages are kept
+ */
+const mergeTranscript = (
+  local: Message[],
+  transcript: Message[]
+): Message[] => {
+  if (transcript.length === 0) {
+    return local;
+  }
+
+  const transcriptIds = new Set(transcript.map(message => message.id));
+  const earliest = Math.min(
+    ...transcript.map(message => message.timestamp.getTime())
+  );
+
+  const kept = local.filter(
+    message =>
+      !transcriptIds.has(message.id) &&
+      (message.status === 'sending' ||
+        message.status === 'failed' ||
+        message.timestamp.getTime() < earliest)
+  );
+
+  return [...kept, ...transcript].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+};
+
 /**
  * useChat hook return type
  */
@@ -33,12 +226,21 @@ export interface UseChatReturn {
   chatState: ChatState;
   isConnected: boolean;
   isLoading: boolean;
+  hasMoreHistory: boolean;
+  isLoadingHistory: boolean;
 
   // Actions
   initializeChat: (
     visitorInfo: Omit<VisitorInfo, 'sessionId'>
   ) => Promise<void>;
-  sendMessage: (content: string) => Promise<void>;
+  resumeChat: () => Promise<boolean>;
+  loadOlderMessages: () => Promise<void>;
+  sendMessage: (
+    content: string,
+    contentType?: MessageContentType
+  ) => Promise<void>;
+  sendAttachment: (file: File) => Promise<void>;
+  getAttachmentUrl: (attachmentId: string) => Promise<string>;
   endChat: () => Promise<void>;
   markMessagesAsRead: () => void;
   setTyping: (isTyping: boolean) => void;
@@ -54,31 +256,75 @@ export interface UseChatReturn {
  * Implements chat state management with proper state transitions
  * Supports requirements 2.1, 2.2, 2.3, 3.1, 3.2, 4.1
  */
-export const useChat = (connectService?: ConnectService): UseChatReturn => {
+export const useChat = (
+  connectService?: ConnectService | null,
+  storageNamespace?: string,
+  t: TranslateFn = translate
+): UseChatReturn => {
   const [chatState, setChatState] = useState<ChatState>(initialChatState);
   const [isLoading, setIsLoading] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   // Use ref to maintain service instance across re-renders
   const serviceRef = useRef<ConnectService | null>(connectService || null);
+  const resumeAttemptedRef = useRef(false);
+
+  // The service is usually created after the first render
+  useEffect(() => {
+    serviceRef.current = connectService || null;
+  }, [connectService]);
+
+  // Event listeners are registered once, so they read the current locale
+  const translateRef = useRef(t);
+  useEffect(() => {
+    translateRef.current = t;
+  }, [t]);
 
   // Derived state
   const isConnected = chatState.status === 'connected';
 
   /**
-   * Update chat state with immutability
+   * Derive the next chat state and persist it
    */
-  const updateChatState = useCallback((updates: Partial<ChatState>) => {
-    setChatState(prevState => {
-      const newState = { ...prevState, ...updates };
+  const setPersistedChatState = useCallback(
+    (updater: (prevState: ChatState) => ChatState) => {
+      setChatState(prevState => {
+        const newState = updater(prevState);
 
-      // Persist state to localStorage for page refresh recovery
-      if (newState.status !== 'closed') {
-        ChatStorage.saveChatState(newState);
-      }
+        // Persist state to localStorage for page refresh recovery
+        if (newState.status !== 'closed') {
+          ChatStorage.saveChatState(newState, storageNamespace);
+        }
 
-      return newState;
-    });
-  }, []);
+        return newState;
+      });
+    },
+    [storageNamespace]
+  );
+
+  /**
+   * Update chat state with immutability
+   */
+  const updateChatState = useCallback(
+    (updates: Partial<ChatState>) => {
+      setPersistedChatState(prevState => ({ ...prevState, ...updates }));
+    },
+    [setPersistedChatState]
+  );
+
+  /**
+   * Update the message list with immutability
+   */
+  const updateMessages = useCallback(
+    (updater: (messages: Message[]) => Message[]) => {
+      setPersistedChatState(prevState => ({
+        ...prevState,
+        messages: updater(prevState.messages),
+      }));
+    },
+    [setPersistedChatState]
+  );
 
   /**
    * Handle state transitions
@@ -86,12 +332,22 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
    */
   const transitionToStatus = useCallback(
     (newStatus: ChatStatus, error?: ChatError) => {
-      updateChatState({
-        status: newStatus,
-        error: error || undefined,
+      setPersistedChatState(prevState => {
+        // The socket closing after the chat ended keeps the first end time
+        const endTime =
+          prevState.status === 'ended' && prevState.endTime
+            ? prevState.endTime
+            : new Date();
+
+        return {
+          ...prevState,
+          status: newStatus,
+          error: error || undefined,
+          endTime: newStatus === 'ended' ? endTime : undefined,
+        };
       });
     },
-    [updateChatState]
+    [setPersistedChatState]
   );
 
   /**
@@ -109,9 +365,9 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
 
       try {
         // Generate or restore session ID
-        let sessionId = ChatStorage.loadSessionId();
+        let sessionId = ChatStorage.loadSessionId(storageNamespace);
         if (!sessionId) {
-          sessionId = ChatStorage.generateSessionId();
+          sessionId = ChatStorage.generateSessionId(storageNamespace);
         }
 
         const fullVisitorInfo: VisitorInfo = {
@@ -119,9 +375,9 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
           sessionId,
         };
 
-        // Update visitor info in state
-        updateChatState({ visitor: fullVisitorInfo });
-        ChatStorage.saveVisitorInfo(fullVisitorInfo);
+        // Update visitor info in state; the previous chat's agent is gone
+        updateChatState({ visitor: fullVisitorInfo, agent: undefined });
+        ChatStorage.saveVisitorInfo(fullVisitorInfo, storageNamespace);
 
         // Transition to waiting state
         transitionToStatus('waiting');
@@ -130,6 +386,7 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
         const session = await serviceRef.current.initializeChat({
           displayName: fullVisitorInfo.name,
           email: fullVisitorInfo.email,
+          attributes: fullVisitorInfo.attributes,
         });
 
         // Update state with session info
@@ -154,88 +411,208 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
         setIsLoading(false);
       }
     },
-    [transitionToStatus, updateChatState]
+    [transitionToStatus, updateChatState, storageNamespace]
   );
 
+  /**
+   * Resume a contact that was active before a page reload
+   * Reconnects through ConnectService and backfills missed messages
+   */
+  const resumeChat = useCallback(async (): Promise<boolean> => {
+    if (!serviceRef.current) {
+      return false;
+    }
+
+    const service = serviceRef.current;
+    setIsLoading(true);
+
+    try {
+      const session = await service.resumeChat();
+      if (!session) {
+        return false;
+      }
+
+      updateChatState({ session, status: 'connected' });
+
+      try {
+        const transcript = await service.receiveMessages();
+
+        updateMessages(messages => mergeTranscript(messages, transcript));
+      } catch (error) {
+        console.warn('Failed to backfill chat transcript:', error);
+      }
+
+      return true;
+    } catch (error) {
+      const chatError: ChatError = {
+        code: 'SESSION_TIMEOUT',
+        message:
+          error instanceof Error ? error.message : 'Failed to resume chat',
+        timestamp: new Date(),
+        recoverable: false,
+      };
+
+      transitionToStatus('ended', chatError);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [transitionToStatus, updateChatState, updateMessages]);
+
+  /**
+   * Load the page of transcript history before the oldest known message
+   */
+  const loadOlderMessages = useCallback(async () => {
+    const service = serviceRef.current;
+    if (!service || !isConnected || !hasMoreHistory || isLoadingHistory) {
+      return;
+    }
+
+    const oldest = chatState.messages.find(message =>
+      isServerMessageId(message.id)
+    );
+    if (!oldest) {
+      setHasMoreHistory(false);
+      return;
+    }
+
+    setIsLoadingHistory(true);
+
+    try {
+      const page = await service.getMessagesBefore(oldest.id);
+
+      updateMessages(messages => {
+        const knownIds = new Set(messages.map(message => message.id));
+        const older = page.messages.filter(
+          message => !knownIds.has(message.id)
+        );
+        return [...older, ...messages];
+      });
+
+      setHasMoreHistory(Boolean(page.nextToken));
+    } catch (error) {
+      console.warn('Failed to load older messages:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [
+    chatState.messages,
+    hasMoreHistory,
+    isConnected,
+    isLoadingHistory,
+    updateMessages,
+  ]);
+
   /**
    * Send message to agent
    * Requirement 3.1: Send messages through ConnectService
    */
   const sendMessage = useCallback(
-    async (content: string) => {
+    async (content: string, contentType?: MessageContentType) => {
       if (!serviceRef.current || !isConnected) {
         throw new Error('No active chat session');
       }
 
       // Create optimistic message
       const message: Message = {
-        id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        id: `${LOCAL_MESSAGE_ID_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
         content,
         sender: 'visitor',
         timestamp: new Date(),
         status: 'sending',
         type: 'text',
       };
+      if (contentType) {
+        message.contentType = contentType;
+      }
 
       // Add message to state optimistically using functional update
-      setChatState(prevState => {
-        const newState = {
-          ...prevState,
-          messages: [...prevState.messages, message],
-        };
+      updateMessages(messages => [...messages, message]);
 
-        // Persist state to localStorage for page refresh recovery
-        if (newState.status !== 'closed') {
-          ChatStorage.saveChatState(newState);
+      try {
+        const ack = await serviceRef.current.sendMessage(
+          content,
+          message.id,
+          contentType
+        );
+
+        // Queued messages stay 'sending' until the service acknowledges them
+        if (!ack) {
+          return;
         }
 
-        return newState;
-      });
+        // Swap in the server ID and mark the message sent
+        updateMessages(messages => acknowledgeMessage(messages, ack));
+      } catch (error) {
+        // Update message status to failed
+        updateMessages(messages =>
+          messages.map(msg =>
+            msg.id === message.id ? { ...msg, status: 'failed' as const } : msg
+          )
+        );
+        throw error;
+      }
+    },
+    [isConnected, updateMessages]
+  );
+
+  /**
+   * Upload a file attachment to the agent
+   * Shows an optimistic file message while the upload is in progress
+   */
+  const sendAttachment = useCallback(
+    async (file: File) => {
+      if (!serviceRef.current || !isConnected) {
+        throw new Error('No active chat session');
+      }
+
+      const message: Message = {
+        id: `${LOCAL_MESSAGE_ID_PREFIX}${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        content: file.name,
+        sender: 'visitor',
+        timestamp: new Date(),
+        status: 'sending',
+        type: isImageMimeType(file.type) ? 'image' : 'file',
+        attachment: {
+          id: '',
+          name: file.name,
+          mimeType: file.type,
+          size: file.size,
+        },
+      };
+
+      const updateMessage = (updates: Partial<Message>) => {
+        updateMessages(messages =>
+          messages.map(msg =>
+            msg.id === message.id ? { ...msg, ...updates } : msg
+          )
+        );
+      };
+
+      updateMessages(messages => [...messages, message]);
 
       try {
-        await serviceRef.current.sendMessage(content);
-
-        // Update message status to sent
-        setChatState(prevState => {
-          const newState = {
-            ...prevState,
-            messages: prevState.messages.map(msg =>
-              msg.id === message.id ? { ...msg, status: 'sent' as const } : msg
-            ),
-          };
-
-          // Persist state to localStorage for page refresh recovery
-          if (newState.status !== 'closed') {
-            ChatStorage.saveChatState(newState);
-          }
-
-          return newState;
-        });
+        const attachment = await serviceRef.current.sendAttachment(file);
+        updateMessage({ status: 'sent', attachment });
       } catch (error) {
-        // Update message status to failed
-        setChatState(prevState => {
-          const newState = {
-            ...prevState,
-            messages: prevState.messages.map(msg =>
-              msg.id === message.id
-                ? { ...msg, status: 'failed' as const }
-                : msg
-            ),
-          };
-
-          // Persist state to localStorage for page refresh recovery
-          if (newState.status !== 'closed') {
-            ChatStorage.saveChatState(newState);
-          }
-
-          return newState;
-        });
+        updateMessage({ status: 'failed' });
         throw error;
       }
     },
-    [isConnected]
+    [isConnected, updateMessages]
   );
 
+  /**
+   * Resolve a download URL for an attachment
+   */
+  const getAttachmentUrl = useCallback(async (attachmentId: string) => {
+    if (!serviceRef.current) {
+      throw new Error('ConnectService not available');
+    }
+
+    return serviceRef.current.getAttachmentUrl(attachmentId);
+  }, []);
+
   /**
    * End chat session
    * Requirement 2.2: Properly terminate chat sessions
@@ -251,11 +628,11 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
       await serviceRef.current.endChat();
 
       // Save final chat history
-      ChatStorage.saveChatHistory(chatState.messages);
+      ChatStorage.saveChatHistory(chatState.messages, storageNamespace);
 
       // Clear active session data but keep visitor info
-      ChatStorage.clearChatState();
-      ChatStorage.clearSessionId();
+      ChatStorage.clearChatState(storageNamespace);
+      ChatStorage.clearSessionId(storageNamespace);
 
       // Reset to closed state
       updateChatState({
@@ -264,15 +641,22 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
         unreadCount: 0,
         isTyping: false,
         error: undefined,
+        endTime: new Date(),
       });
     } catch (error) {
       console.warn('Error ending chat:', error);
       // Still transition to ended state even if disconnect fails
       transitionToStatus('ended');
+      throw error;
     } finally {
       setIsLoading(false);
     }
-  }, [chatState.messages, updateChatState, transitionToStatus]);
+  }, [
+    chatState.messages,
+    updateChatState,
+    transitionToStatus,
+    storageNamespace,
+  ]);
 
   /**
    * Mark messages as read
@@ -282,7 +666,18 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
     if (chatState.unreadCount > 0) {
       updateChatState({ unreadCount: 0 });
     }
-  }, [chatState.unreadCount, updateChatState]);
+
+    // Send read receipts for agent messages now visible to the visitor
+    // ConnectService sends each receipt at most once
+    const service = serviceRef.current;
+    if (service && isConnected) {
+      chatState.messages
+        .filter(
+          message => message.sender === 'agent' && isServerMessageId(message.id)
+        )
+        .forEach(message => service.sendReadReceipt(message.id));
+    }
+  }, [chatState.unreadCount, chatState.messages, isConnected, updateChatState]);
 
   /**
    * Set typing indicator
@@ -309,9 +704,9 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
     (info: Partial<VisitorInfo>) => {
       const updatedVisitor = { ...chatState.visitor, ...info };
       updateChatState({ visitor: updatedVisitor });
-      ChatStorage.saveVisitorInfo(updatedVisitor);
+      ChatStorage.saveVisitorInfo(updatedVisitor, storageNamespace);
     },
-    [chatState.visitor, updateChatState]
+    [chatState.visitor, updateChatState, storageNamespace]
   );
 
   /**
@@ -319,16 +714,16 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
    */
   const clearChatHistory = useCallback(() => {
     updateChatState({ messages: [] });
-    ChatStorage.clearAll();
-  }, [updateChatState]);
+    ChatStorage.clearAll(storageNamespace);
+  }, [updateChatState, storageNamespace]);
 
   /**
    * Restore state from storage
    * Requirement: State persistence for page refreshes during active chats
    */
   const restoreFromStorage = useCallback(() => {
-    const savedState = ChatStorage.loadChatState();
-    const savedVisitor = ChatStorage.loadVisitorInfo();
+    const savedState = ChatStorage.loadChatState(storageNamespace);
+    const savedVisitor = ChatStorage.loadVisitorInfo(storageNamespace);
 
     if (savedState || savedVisitor) {
       const restoredState: Partial<ChatState> = {
@@ -337,11 +732,11 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
       };
 
       // Only restore if there was an active session
-      if (ChatStorage.hasActiveSession()) {
+      if (ChatStorage.hasActiveSession(storageNamespace)) {
         updateChatState(restoredState);
       }
     }
-  }, [updateChatState]);
+  }, [updateChatState, storageNamespace]);
 
   /**
    * Set up service event listeners
@@ -354,36 +749,124 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
     const service = serviceRef.current;
 
     // Handle incoming messages
+    // Known IDs and echoes of our own messages update in place
     const handleMessage = (message: Message) => {
-      setChatState(prevState => {
-        const newState = {
+      setPersistedChatState(prevState => {
+        const messages = mergeIncomingMessage(prevState.messages, message);
+        const isNew = messages.length > prevState.messages.length;
+
+        return {
           ...prevState,
-          messages: [...prevState.messages, message],
-          unreadCount: prevState.unreadCount + 1,
+          messages,
+          unreadCount:
+            isNew && message.sender !== 'visitor'
+              ? prevState.unreadCount + 1
+              : prevState.unreadCount,
         };
+      });
+    };
 
-        // Persist state to localStorage for page refresh recovery
-        if (newState.status !== 'closed') {
-          ChatStorage.saveChatState(newState);
-        }
+    // Handle server acknowledgements of sent messages
+    const handleMessageAcknowledged = (ack: SentMessageAck) => {
+      updateMessages(messages => acknowledgeMessage(messages, ack));
+    };
 
-        return newState;
-      });
+    // Handle queued messages that could not be delivered
+    const handleMessageFailed = (clientMessageId: string) => {
+      updateMessages(messages =>
+        messages.map(msg =>
+          msg.id === clientMessageId
+            ? { ...msg, status: 'failed' as const }
+            : msg
+        )
+      );
     };
 
     // Handle agent status updates
+    // Typing updates carry no name, so known agent details are kept
     const handleAgentStatus = (status: AgentStatusUpdate) => {
-      const agentInfo: AgentInfo = {
-        id: status.agentId,
-        name: status.name || 'Agent',
-        profileImage: status.profileImage,
-        status: status.status,
-        isTyping: status.isTyping,
+      setPersistedChatState(prevState => {
+        const previousAgent =
+          prevState.agent?.id === status.agentId ? prevState.agent : undefined;
+        const agentInfo: AgentInfo = {
+          id: status.agentId,
+          name:
+            status.name ||
+            previousAgent?.name ||
+            translateRef.current('chatEvent.agent'),
+          profileImage: status.profileImage || previousAgent?.profileImage,
+          status: status.status,
+          isTyping: status.isTyping,
+        };
+
+        return { ...prevState, agent: agentInfo, isTyping: status.isTyping };
+      });
+    };
+
+    // Handle participant events with system messages
+    // Requirement 2.2: chat.ended from the server ends the session
+    const handleParticipantEvent = (event: ConnectParticipantEvent) => {
+      if (
+        (event.type === 'message.delivered' || event.type === 'message.read') &&
+        event.messageId
+      ) {
+        const messageId = event.messageId;
+        const status = event.type === 'message.read' ? 'read' : 'delivered';
+
+        updateMessages(messages => applyReceipt(messages, messageId, status));
+        return;
+      }
+
+      const content = describeParticipantEvent(event, translateRef.current);
+      const isEnded = endsChat(event);
+
+      if (!content && !isEnded) {
+        return;
+      }
+
+      const appendEventMessage = (messages: Message[]) => {
+        const isDuplicate =
+          event.id !== undefined &&
+          messages.some(message => message.id === event.id);
+
+        return content && !isDuplicate
+          ? [
+              ...messages,
+              {
+                id:
+                  event.id ||
+                  `${LOCAL_MESSAGE_ID_PREFIX}${Date.now()}-${event.type}`,
+                content,
+                sender: 'system' as const,
+                timestamp: event.timestamp,
+                status: 'delivered' as const,
+                type: 'system' as const,
+              },
+            ]
+          : messages;
       };
 
-      updateChatState({
-        agent: agentInfo,
-        isTyping: status.isTyping,
+      if (!isEnded) {
+        updateMessages(appendEventMessage);
+        return;
+      }
+
+      setChatState(prevState => {
+        const messages = appendEventMessage(prevState.messages);
+
+        // Save final chat history and clear the finished session
+        ChatStorage.saveChatHistory(messages, storageNamespace);
+        ChatStorage.clearChatState(storageNamespace);
+        ChatStorage.clearSessionId(storageNamespace);
+
+        return {
+          ...prevState,
+          messages,
+          status: 'ended' as const,
+          session: undefined,
+          isTyping: false,
+          endTime: event.timestamp,
+        };
       });
     };
 
@@ -407,13 +890,23 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
     service.onMessageReceived(handleMessage);
     service.onAgentStatusChange(handleAgentStatus);
     service.onConnectionStatusChange(handleConnectionStatus);
+    service.onParticipantEvent(handleParticipantEvent);
+    service.onMessageAcknowledged(handleMessageAcknowledged);
+    service.onMessageFailed(handleMessageFailed);
 
     // Cleanup function
     return () => {
       // Note: ConnectService doesn't expose removeListener methods
       // In a real implementation, you'd want to add those methods
     };
-  }, [updateChatState, transitionToStatus]);
+  }, [
+    connectService,
+    setPersistedChatState,
+    updateChatState,
+    updateMessages,
+    transitionToStatus,
+    storageNamespace,
+  ]);
 
   /**
    * Initialize from storage on mount
@@ -422,15 +915,36 @@ export const useChat = (connectService?: ConnectService): UseChatReturn => {
     restoreFromStorage();
   }, [restoreFromStorage]);
 
+  /**
+   * Resume the stored contact once the service is available
+   */
+  useEffect(() => {
+    if (!connectService || resumeAttemptedRef.current) {
+      return;
+    }
+
+    resumeAttemptedRef.current = true;
+
+    if (ChatStorage.hasActiveSession(storageNamespace)) {
+      resumeChat();
+    }
+  }, [connectService, resumeChat, storageNamespace]);
+
   return {
     // State
     chatState,
     isConnected,
     isLoading,
+    hasMoreHistory,
+    isLoadingHistory,
 
     // Actions
     initializeChat,
+    resumeChat,
+    loadOlderMessages,
     sendMessage,
+    sendAttachment,
+    getAttachmentUrl,
     endChat,
     markMessagesAsRead,
     setTyping,
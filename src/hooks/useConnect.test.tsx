@@ -42,7 +42,7 @@ describe('useConnect', () => {
     expect(result.current.connectService).toBeDefined();
     expect(result.current.isInitialized).toBe(true);
     expect(result.current.connectionStatus).toBe('disconnected');
-    expect(ConnectService).toHaveBeenCalledWith('us-east-1');
+    expect(ConnectService).toHaveBeenCalledWith(mockConfig);
   });
 
   it('should handle initialization error', async () => {
@@ -34,7 +34,8 @@ export interface UseConnectReturn {
  * Supports requirements 2.1, 2.2, 7.2, 7.4
  */
 export const useConnect = (
-  initialConfig?: AWSConnectConfig
+  initialConfig?: AWSConnectConfig,
+  storageNamespace?: string
 ): UseConnectReturn => {
   const [connectService, setConnectService] = useState<ConnectService | null>(
     null
@@ -53,52 +54,55 @@ export const useConnect = (
    * Initialize ConnectService with AWS configuration
    * Requirement 7.2: Authenticate with AWS Connect using provided credentials
    */
-  const initialize = useCallback(async (config: AWSConnectConfig) => {
-    try {
-      setIsConnecting(true);
-      setLastError(null);
-      configRef.current = config;
-
-      // Clean up existing service if any
-      if (cleanupRef.current) {
-        cleanupRef.current();
-        cleanupRef.current = null;
-      }
-
-      // Create new ConnectService instance
-      const service = new ConnectService(config.region);
-
-      // Set up connection status monitoring
-      const handleConnectionStatusChange = (status: ConnectionStatus) => {
-        setConnectionStatus(status);
-
-        if (status === 'failed') {
-          setLastError(new Error('Connection to AWS Connect failed'));
+  const initialize = useCallback(
+    async (config: AWSConnectConfig) => {
+      try {
+        setIsConnecting(true);
+        setLastError(null);
+        configRef.current = config;
+
+        // Clean up existing service if any
+        if (cleanupRef.current) {
+          cleanupRef.current();
+          cleanupRef.current = null;
         }
-      };
 
-      service.onConnectionStatusChange(handleConnectionStatusChange);
-
-      // Store cleanup function
-      cleanupRef.current = () => {
-        service.endChat().catch(console.warn);
-      };
-
-      setConnectService(service);
-      setConnectionStatus('disconnected');
-      setIsInitialized(true);
-    } catch (error) {
-      const errorObj =
-        error instanceof Error
-          ? error
-          : new Error('Failed to initialize ConnectService');
-      setLastError(errorObj);
-      setConnectionStatus('failed');
-      throw errorObj;
-    } finally {
-      setIsConnecting(false);
-    }
-  }, []);
+        // Create new ConnectService instance (validates the configuration)
+        const service = new ConnectService({ ...config, storageNamespace });
+
+        // Set up connection status monitoring
+        const handleConnectionStatusChange = (status: ConnectionStatus) => {
+          setConnectionStatus(status);
+
+          if (status === 'failed') {
+            setLastError(new Error('Connection to AWS Connect failed'));
+          }
+        };
+
+        service.onConnectionStatusChange(handleConnectionStatusChange);
+
+        // Store cleanup function
+        cleanupRef.current = () => {
+          service.endChat().catch(console.warn);
+        };
+
+        setConnectService(service);
+        setConnectionStatus('disconnected');
+        setIsInitialized(true);
+      } catch (error) {
+        const errorObj =
+          error instanceof Error
+            ? error
+            : new Error('Failed to initialize ConnectService');
+        setLastError(errorObj);
+        setConnectionStatus('failed');
+        throw errorObj;
+      } finally {
+        setIsConnecting(false);
+      }
+    },
+    [storageNamespace]
+  );
 
   /**
    * Reconnect to AWS Connect
@@ -188,15 +192,17 @@ export const useConnect = (
         console.error('Failed to initialize ConnectService:', error);
       });
     }
+  }, [initialConfig, isInitialized, initialize]);
 
-    // Cleanup on unmount
+  // Cleanup on unmount only; initializing must not end the new service
+  useEffect(() => {
     return () => {
       if (cleanupRef.current) {
         cleanupRef.current();
         cleanupRef.current = null;
       }
     };
-  }, [initialConfig, isInitialized, initialize]);
+  }, []);
 
   /**
    * Monitor connection status and handle automatic reconnection
@@ -0,0 +1,86 @@
+import React, { useRef } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { useFocusTrap } from './useFocusTrap';
+
+const Dialog: React.FC<{ active: boolean }> = ({ active }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  useFocusTrap(ref, active);
+
+  return (
+    <div ref={ref} role="dialog">
+      <button>First</button>
+      <button disabled>Disabled</button>
+      <button>Last</button>
+    </div>
+  );
+};
+
+describe('useFocusTrap', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should move focus into the element when active', () => {
+    render(<Dialog active />);
+
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should leave focus alone when inactive', () => {
+    render(<Dialog active={false} />);
+
+    expect(screen.getByText('First')).not.toHaveFocus();
+  });
+
+  it('should wrap Tab from the last element to the first', () => {
+    render(<Dialog active />);
+    screen.getByText('Last').focus();
+
+    fireEvent.keyDown(screen.getByText('Last'), { key: 'Tab' });
+
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should wrap Shift+Tab from the first element to the last', () => {
+    render(<Dialog active />);
+
+    fireEvent.keyDown(screen.getByText('First'), {
+      key: 'Tab',
+      shiftKey: true,
+    });
+
+    expect(screen.getByText('Last')).toHaveFocus();
+  });
+
+  it('should restore the previous focus when deactivated', () => {
+    const opener = document.createElement('button');
+    document.body.appendChild(opener);
+    opener.focus();
+
+    const { rerender } = render(<Dialog active />);
+    expect(opener).not.toHaveFocus();
+
+    rerender(<Dialog active={false} />);
+
+    expect(opener).toHaveFocus();
+  });
+
+  it('should trap focus inside a shadow root', () => {
+    const host = document.createElement('div');
+    document.body.appendChild(host);
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    const container = document.createElement('div');
+    shadowRoot.appendChild(container);
+
+    render(<Dialog active />, { container });
+    const [first, , last] = Array.from(container.querySelectorAll('button'));
+
+    expect(shadowRoot.activeElement).toBe(first);
+
+    last.focus();
+    fireEvent.keyDown(last, { key: 'Tab' });
+
+    expect(shadowRoot.activeElement).toBe(first);
+  });
+});
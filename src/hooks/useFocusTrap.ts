@@ -0,0 +1,79 @@
+import { useEffect } from 'react';
+import type { RefObject } from 'react';
+
+/**
+ * Elements that can receive keyboard focus
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+/**
+ * Focus trap hook for modal dialogs
+ * Moves focus into the element while active, keeps Tab and Shift+Tab inside
+ * it and restores the previous focus afterwards. Focus is read from the
+ * element's root node, because inside a shadow root document.activeElement is
+ * the shadow host
+ */
+export const useFocusTrap = (
+  ref: RefObject<HTMLElement | null>,
+  active: boolean
+): void => {
+  useEffect(() => {
+    const element = ref.current;
+    if (!active || !element) {
+      return;
+    }
+
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const previouslyFocused = root.activeElement;
+    const getFocusable = () =>
+      Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+
+    if (!element.contains(root.activeElement)) {
+      getFocusable()[0]?.focus();
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab') {
+        return;
+      }
+
+      const focusable = getFocusable();
+      if (focusable.length === 0) {
+        event.preventDefault();
+        return;
+      }
+
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const current = root.activeElement;
+
+      if (event.shiftKey && (current === first || !element.contains(current))) {
+        event.preventDefault();
+        last.focus();
+      } else if (
+        !event.shiftKey &&
+        (current === last || !element.contains(current))
+      ) {
+        event.preventDefault();
+        first.focus();
+      }
+    };
+
+    element.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      element.removeEventListener('keydown', handleKeyDown);
+
+      if (previouslyFocused instanceof HTMLElement) {
+        previouslyFocused.focus();
+      }
+    };
+  }, [ref, active]);
+};
@@ -0,0 +1,148 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useQueueStatus } from './useQueueStatus';
+import type { ChatState, Message } from '../types/chat';
+import type { QueueConfiguration } from '../types/widget';
+
+const session = {
+  contactId: 'contact-1',
+  connectionToken: 'connection-token',
+  participantId: 'participant-1',
+  participantToken: 'participant-token',
+  websocketUrl: 'wss://example.com',
+  startTime: new Date(),
+};
+
+const chatState = (overrides: Partial<ChatState> = {}): ChatState => ({
+  status: 'waiting',
+  session,
+  messages: [],
+  visitor: { name: 'Jamie', sessionId: 'session-1' },
+  unreadCount: 0,
+  isTyping: false,
+  ...overrides,
+});
+
+const queueMessage = (id: string, content: string): Message => ({
+  id,
+  content,
+  sender: 'system',
+  timestamp: new Date(),
+  status: 'delivered',
+  type: 'system',
+});
+
+const config: QueueConfiguration = {
+  callback: {
+    endpoint: 'https://api.example.com/callbacks',
+    thresholdSeconds: 300,
+  },
+};
+
+describe('useQueueStatus', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should have no status without configuration', () => {
+    const { result } = renderHook(() => useQueueStatus(undefined, chatState()));
+
+    expect(result.current.queueStatus).toBeNull();
+    expect(result.current.isCallbackOffered).toBe(false);
+  });
+
+  it('should read queue updates from system messages while waiting', () => {
+    const { result, rerender } = renderHook(
+      ({ state }) => useQueueStatus(config, state),
+      {
+        initialProps: {
+          state: chatState({
+            messages: [queueMessage('1', 'You are number 5 in the queue')],
+          }),
+        },
+      }
+    );
+
+    expect(result.current.queueStatus?.position).toBe(5);
+
+    rerender({
+      state: chatState({
+        messages: [
+          queueMessage('1', 'You are number 5 in the queue'),
+          queueMessage('2', 'You are number 4 in the queue'),
+        ],
+      }),
+    });
+    expect(result.current.queueStatus?.position).toBe(4);
+
+    // The chat connects before an agent picks it up
+    rerender({ state: chatState({ status: 'connected' }) });
+    expect(result.current.queueStatus?.position).toBe(4);
+
+    rerender({
+      state: chatState({
+        status: 'connected',
+        agent: {
+          id: 'agent-1',
+          name: 'Sam',
+          status: 'online',
+          isTyping: false,
+        },
+      }),
+    });
+    expect(result.current.queueStatus).toBeNull();
+  });
+
+  it('should offer a callback when the wait passes the threshold', () => {
+    const { result } = renderHook(() =>
+      useQueueStatus(
+        config,
+        chatState({
+          messages: [
+            queueMessage(
+              '1',
+              '{"queuePosition": 9, "estimatedWaitSeconds": 600}'
+            ),
+          ],
+        })
+      )
+    );
+
+    expect(result.current.isCallbackOffered).toBe(true);
+  });
+
+  it('should request a callback for the waiting contact', async () => {
+    const { result } = renderHook(() => useQueueStatus(config, chatState()));
+
+    await act(async () => {
+      await result.current.requestCallback({
+        displayName: 'Jamie',
+        answers: { phone: '+44 20 7946 0000' },
+      });
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.example.com/callbacks',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).contactId).toBe(
+      'contact-1'
+    );
+    expect(result.current.isCallbackRequested).toBe(true);
+  });
+
+  it('should reject callback requests without an endpoint', async () => {
+    const { result } = renderHook(() => useQueueStatus({}, chatState()));
+
+    await expect(
+      result.current.requestCallback({ displayName: 'Jamie', answers: {} })
+    ).rejects.toThrow('Callback endpoint is not configured');
+  });
+});
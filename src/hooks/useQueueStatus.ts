@@ -0,0 +1,111 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ChatState, QueueStatus } from '../types/chat';
+import type { QueueConfiguration, QueueStatusProvider } from '../types/widget';
+import { createQueueStatusProvider } from '../services/QueueStatusProvider';
+import { CallbackService } from '../services/CallbackService';
+import type { CallbackRequest } from '../services/CallbackService';
+import { isWaitingForAgent } from '../utils/queueStatus';
+
+/**
+ * useQueueStatus hook return type
+ */
+export interface UseQueueStatusReturn {
+  queueStatus: QueueStatus | null;
+  isCallbackOffered: boolean;
+  isCallbackRequested: boolean;
+  requestCallback: (
+    request: Omit<CallbackRequest, 'contactId' | 'queueStatus'>
+  ) => Promise<void>;
+}
+
+/**
+ * Queue position hook
+ * Tracks the queue status while the chat is waiting for an agent and offers
+ * a callback when the estimated wait passes the configured threshold
+ */
+export const useQueueStatus = (
+  config: QueueConfiguration | undefined,
+  chatState: ChatState
+): UseQueueStatusReturn => {
+  const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+  const [isCallbackRequested, setIsCallbackRequested] = useState(false);
+  const providerRef = useRef<QueueStatusProvider | null>(null);
+  const handledMessagesRef = useRef(0);
+
+  const isWaiting = isWaitingForAgent(chatState);
+  const contactId = chatState.session?.contactId;
+
+  useEffect(() => {
+    if (!config || !isWaiting || !contactId) {
+      setQueueStatus(null);
+      return;
+    }
+
+    const provider = createQueueStatusProvider(config);
+    providerRef.current = provider;
+    // Replay earlier messages, the contact flow may announce the queue
+    // position before the chat reaches the waiting state
+    handledMessagesRef.current = 0;
+
+    provider.start(contactId, setQueueStatus);
+
+    return () => {
+      provider.stop();
+      providerRef.current = null;
+    };
+  }, [config, isWaiting, contactId]);
+
+  /**
+   * Pass new messages to the provider
+   */
+  useEffect(() => {
+    const provider = providerRef.current;
+    if (!provider?.handleMessage) {
+      return;
+    }
+
+    chatState.messages
+      .slice(handledMessagesRef.current)
+      .forEach(message => provider.handleMessage?.(message));
+    handledMessagesRef.current = chatState.messages.length;
+  }, [chatState.messages, config, isWaiting, contactId]);
+
+  // A new chat clears the previous callback confirmation
+  useEffect(() => {
+    if (chatState.status === 'initializing') {
+      setIsCallbackRequested(false);
+    }
+  }, [chatState.status]);
+
+  /**
+   * Request a callback for the waiting contact
+   */
+  const requestCallback = useCallback(
+    async (request: Omit<CallbackRequest, 'contactId' | 'queueStatus'>) => {
+      if (!config?.callback?.endpoint) {
+        throw new Error('Callback endpoint is not configured');
+      }
+
+      await new CallbackService(config.callback.endpoint).requestCallback({
+        ...request,
+        contactId,
+        queueStatus: queueStatus ?? undefined,
+      });
+      setIsCallbackRequested(true);
+    },
+    [config, contactId, queueStatus]
+  );
+
+  const threshold = config?.callback?.thresholdSeconds;
+  const isCallbackOffered =
+    threshold !== undefined &&
+    queueStatus?.estimatedWaitSeconds !== undefined &&
+    queueStatus.estimatedWaitSeconds > threshold;
+
+  return {
+    queueStatus,
+    isCallbackOffered,
+    isCallbackRequested,
+    requestCallback,
+  };
+};
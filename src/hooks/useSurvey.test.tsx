@@ -0,0 +1,114 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { useSurvey } from './useSurvey';
+import type { ChatState } from '../types/chat';
+import type { SurveyConfiguration } from '../types/widget';
+
+const session = {
+  contactId: 'contact-1',
+  connectionToken: 'connection-token',
+  participantId: 'participant-1',
+  participantToken: 'participant-token',
+  websocketUrl: 'wss://example.com',
+  startTime: new Date(),
+};
+
+const chatState = (overrides: Partial<ChatState> = {}): ChatState => ({
+  status: 'connected',
+  session,
+  messages: [],
+  visitor: { name: 'Jamie', sessionId: 'session-1' },
+  unreadCount: 0,
+  isTyping: false,
+  ...overrides,
+});
+
+const ended = chatState({ status: 'ended', session: undefined });
+
+describe('useSurvey', () => {
+  const createConfig = (): SurveyConfiguration => ({
+    sink: { submit: vi.fn().mockResolvedValue(undefined) },
+    questions: [
+      {
+        id: 'csat',
+        type: 'csat',
+        label: 'How satisfied are you?',
+        branches: [{ greaterThan: 3, goTo: 'end' }],
+      },
+      { id: 'comments', type: 'text', label: 'What could we improve?' },
+    ],
+  });
+
+  it('should offer the survey once the chat ends', () => {
+    const config = createConfig();
+    const { result, rerender } = renderHook(
+      ({ state }) => useSurvey(config, state),
+      { initialProps: { state: chatState() } }
+    );
+
+    expect(result.current.isSurveyOpen).toBe(false);
+
+    rerender({ state: ended });
+
+    expect(result.current.isSurveyOpen).toBe(true);
+  });
+
+  it('should not offer a survey without questions or a finished contact', () => {
+    const { result: withoutConfig } = renderHook(() =>
+      useSurvey(undefined, ended)
+    );
+    const { result: withoutContact } = renderHook(() =>
+      useSurvey(createConfig(), ended)
+    );
+
+    expect(withoutConfig.current.isSurveyOpen).toBe(false);
+    expect(withoutContact.current.isSurveyOpen).toBe(false);
+  });
+
+  it('should submit the answers for the finished contact', async () => {
+    const config = createConfig();
+    const { result, rerender } = renderHook(
+      ({ state }) => useSurvey(config, state),
+      { initialProps: { state: chatState() } }
+    );
+    rerender({ state: ended });
+
+    await act(async () => {
+      await result.current.submitSurvey({ csat: 5, comments: 'Skipped' });
+    });
+
+    expect((config.sink as { submit: unknown }).submit).toHaveBeenCalledWith({
+      contactId: 'contact-1',
+      sessionId: 'session-1',
+      answers: { csat: 5 },
+      submittedAt: expect.any(Date),
+    });
+    expect(result.current.isSurveySubmitted).toBe(true);
+    expect(result.current.isSurveyOpen).toBe(true);
+  });
+
+  it('should close when skipped and reset for the next chat', () => {
+    const config = createConfig();
+    const { result, rerender } = renderHook(
+      ({ state }) => useSurvey(config, state),
+      { initialProps: { state: chatState() } }
+    );
+    rerender({ state: ended });
+
+    act(() => {
+      result.current.skipSurvey();
+    });
+
+    expect(result.current.isSurveyOpen).toBe(false);
+
+    rerender({
+      state: chatState({ status: 'initializing', session: undefined }),
+    });
+    rerender({
+      state: chatState({ session: { ...session, contactId: 'contact-2' } }),
+    });
+    rerender({ state: ended });
+
+    expect(result.current.isSurveyOpen).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ChatState } from '../types/chat';
+import type { SurveyConfiguration } from '../types/widget';
+import { createSurveySink } from '../services/SurveySink';
+import { getSurveyAnswers } from '../utils/survey';
+import type { SurveyAnswers } from '../utils/survey';
+
+/**
+ * useSurvey hook return type
+ */
+export interface UseSurveyReturn {
+  isSurveyOpen: boolean;
+  isSurveySubmitted: boolean;
+  submitSurvey: (answers: SurveyAnswers) => Promise<void>;
+  skipSurvey: () => void;
+}
+
+/**
+ * Post-chat survey hook
+ * Offers the configured survey once the chat ends and submits the answers
+ * for the contact that just finished
+ */
+export const useSurvey = (
+  config: SurveyConfiguration | undefined,
+  chatState: ChatState
+): UseSurveyReturn => {
+  const [isSurveySubmitted, setIsSurveySubmitted] = useState(false);
+  const [isSurveySkipped, setIsSurveySkipped] = useState(false);
+  const contactIdRef = useRef<string | undefined>(undefined);
+
+  // The session is cleared when the chat ends, so remember its contact
+  const contactId = chatState.session?.contactId;
+  if (contactId) {
+    contactIdRef.current = contactId;
+  }
+
+  // A new chat gets a new survey
+  useEffect(() => {
+    if (chatState.status === 'initializing') {
+      contactIdRef.current = undefined;
+      setIsSurveySubmitted(false);
+      setIsSurveySkipped(false);
+    }
+  }, [chatState.status]);
+
+  /**
+   * Submit the survey to the configured sink
+   */
+  const submitSurvey = useCallback(
+    async (answers: SurveyAnswers) => {
+      if (!config) {
+        throw new Error('Survey is not configured');
+      }
+
+      await createSurveySink(config).submit({
+        contactId: contactIdRef.current,
+        sessionId: chatState.visitor.sessionId,
+        answers: getSurveyAnswers(config.questions, answers),
+        submittedAt: new Date(),
+      });
+      setIsSurveySubmitted(true);
+    },
+    [config, chatState.visitor.sessionId]
+  );
+
+  /**
+   * Dismiss the survey without answering
+   */
+  const skipSurvey = useCallback(() => {
+    setIsSurveySkipped(true);
+  }, []);
+
+  const isSurveyOpen =
+    Boolean(config?.questions.length) &&
+    chatState.status === 'ended' &&
+    Boolean(contactIdRef.current) &&
+    !isSurveySkipped;
+
+  return {
+    isSurveyOpen,
+    isSurveySubmitted,
+    submitSurvey,
+    skipSurvey,
+  };
+};
@@ -80,6 +80,7 @@ const defaultPreferences: WidgetPreferences = {
  * Supports requirements 1.1, 1.2, 1.3, 2.1
  */
 export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
+  const storageNamespace = config?.storageNamespace;
   const [isOpen, setIsOpen] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [widgetState, setWidgetState] = useState<WidgetState>('closed');
@@ -109,8 +110,8 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
     // Save state
     const newPreferences = { ...preferences, minimized: false };
     setPreferences(newPreferences);
-    savePreferences(newPreferences);
-  }, [preferences]);
+    savePreferences(newPreferences, storageNamespace);
+  }, [preferences, storageNamespace]);
 
   /**
    * Close widget
@@ -124,8 +125,8 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
     // Save state
     const newPreferences = { ...preferences, minimized: false };
     setPreferences(newPreferences);
-    savePreferences(newPreferences);
-  }, [preferences]);
+    savePreferences(newPreferences, storageNamespace);
+  }, [preferences, storageNamespace]);
 
   /**
    * Minimize widget
@@ -138,8 +139,8 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
     // Save state
     const newPreferences = { ...preferences, minimized: true };
     setPreferences(newPreferences);
-    savePreferences(newPreferences);
-  }, [preferences]);
+    savePreferences(newPreferences, storageNamespace);
+  }, [preferences, storageNamespace]);
 
   /**
    * Toggle widget open/closed state
@@ -161,7 +162,7 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
       // Generate session ID if not exists
       let currentSessionId = sessionId;
       if (!currentSessionId) {
-        currentSessionId = ChatStorage.generateSessionId();
+        currentSessionId = ChatStorage.generateSessionId(storageNamespace);
         setSessionId(currentSessionId);
       }
 
@@ -171,9 +172,9 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
       };
 
       setVisitorInfoState(fullVisitorInfo);
-      ChatStorage.saveVisitorInfo(fullVisitorInfo);
+      ChatStorage.saveVisitorInfo(fullVisitorInfo, storageNamespace);
     },
-    [sessionId]
+    [sessionId, storageNamespace]
   );
 
   /**
@@ -188,9 +189,9 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
 
       const updatedInfo = { ...visitorInfo, ...updates };
       setVisitorInfoState(updatedInfo);
-      ChatStorage.saveVisitorInfo(updatedInfo);
+      ChatStorage.saveVisitorInfo(updatedInfo, storageNamespace);
     },
-    [visitorInfo]
+    [visitorInfo, storageNamespace]
   );
 
   /**
@@ -198,8 +199,8 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
    */
   const clearVisitorInfo = useCallback(() => {
     setVisitorInfoState(null);
-    ChatStorage.clearVisitorInfo();
-  }, []);
+    ChatStorage.clearVisitorInfo(storageNamespace);
+  }, [storageNamespace]);
 
   /**
    * Update widget position
@@ -207,14 +208,17 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
    */
   const updatePosition = useCallback(
     (newPosition: Partial<WidgetPosition>) => {
-      const updatedPosition = { ...position, ...newPosition };
-      setPosition(updatedPosition);
-
-      const newPreferences = { ...preferences, position: updatedPosition };
-      setPreferences(newPreferences);
-      savePreferences(newPreferences);
+      setPosition(prevPosition => ({ ...prevPosition, ...newPosition }));
+      setPreferences(prevPreferences => {
+        const newPreferences = {
+          ...prevPreferences,
+          position: { ...prevPreferences.position, ...newPosition },
+        };
+        savePreferences(newPreferences, storageNamespace);
+        return newPreferences;
+      });
     },
-    [position, preferences]
+    [storageNamespace]
   );
 
   /**
@@ -224,7 +228,7 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
     (newPreferences: Partial<WidgetPreferences>) => {
       const updatedPreferences = { ...preferences, ...newPreferences };
       setPreferences(updatedPreferences);
-      savePreferences(updatedPreferences);
+      savePreferences(updatedPreferences, storageNamespace);
 
       // Update position if it changed
       if (newPreferences.position) {
@@ -239,7 +243,7 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
         }
       }
     },
-    [preferences]
+    [preferences, storageNamespace]
   );
 
   /**
@@ -247,28 +251,28 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
    * Requirement 2.1: Session ID generation and management
    */
   const generateNewSession = useCallback((): string => {
-    const newSessionId = ChatStorage.generateSessionId();
+    const newSessionId = ChatStorage.generateSessionId(storageNamespace);
     setSessionId(newSessionId);
 
     // Update visitor info with new session ID if exists
     if (visitorInfo) {
       const updatedVisitor = { ...visitorInfo, sessionId: newSessionId };
       setVisitorInfoState(updatedVisitor);
-      ChatStorage.saveVisitorInfo(updatedVisitor);
+      ChatStorage.saveVisitorInfo(updatedVisitor, storageNamespace);
     }
 
     return newSessionId;
-  }, [visitorInfo]);
+  }, [visitorInfo, storageNamespace]);
 
   /**
    * Save current state to localStorage
    */
   const saveState = useCallback(() => {
-    savePreferences(preferences);
+    savePreferences(preferences, storageNamespace);
     if (visitorInfo) {
-      ChatStorage.saveVisitorInfo(visitorInfo);
+      ChatStorage.saveVisitorInfo(visitorInfo, storageNamespace);
     }
-  }, [preferences, visitorInfo]);
+  }, [preferences, visitorInfo, storageNamespace]);
 
   /**
    * Restore state from localStorage
@@ -276,7 +280,7 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
    */
   const restoreState = useCallback(() => {
     // Restore preferences
-    const savedPreferences = loadPreferences();
+    const savedPreferences = loadPreferences(storageNamespace);
     if (savedPreferences) {
       setPreferences(savedPreferences);
       setPosition(savedPreferences.position);
@@ -290,7 +294,7 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
     }
 
     // Restore visitor info
-    const savedVisitor = ChatStorage.loadVisitorInfo();
+    const savedVisitor = ChatStorage.loadVisitorInfo(storageNamespace);
     if (savedVisitor) {
       setVisitorInfoState(savedVisitor);
       setSessionId(savedVisitor.sessionId);
@@ -298,25 +302,25 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
 
     // Restore session ID if no visitor info
     if (!savedVisitor) {
-      const savedSessionId = ChatStorage.loadSessionId();
+      const savedSessionId = ChatStorage.loadSessionId(storageNamespace);
       if (savedSessionId) {
         setSessionId(savedSessionId);
       }
     }
 
     // Check if there's an active chat session
-    if (ChatStorage.hasActiveSession()) {
+    if (ChatStorage.hasActiveSession(storageNamespace)) {
       setWidgetState('connected');
       // Don't auto-open, but show as available
     }
-  }, []);
+  }, [storageNamespace]);
 
   /**
    * Clear all widget data
    */
   const clearAllData = useCallback(() => {
-    ChatStorage.clearAll();
-    clearPreferences();
+    ChatStorage.clearAll(storageNamespace);
+    clearPreferences(storageNamespace);
 
     setVisitorInfoState(null);
     setSessionId(null);
@@ -325,7 +329,7 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
     setIsOpen(false);
     setIsMinimized(false);
     setWidgetState('closed');
-  }, []);
+  }, [storageNamespace]);
 
   /**
    * Initialize widget state on mount
@@ -418,17 +422,27 @@ export const useWidget = (config?: WidgetConfig): UseWidgetReturn => {
  */
 const PREFERENCES_KEY = 'aws-connect-widget-preferences';
 
-function savePreferences(preferences: WidgetPreferences): void {
+function preferencesKey(namespace?: string): string {
+  return namespace ? `${PREFERENCES_KEY}:${namespace}` : PREFERENCES_KEY;
+}
+
+function savePreferences(
+  preferences: WidgetPreferences,
+  namespace?: string
+): void {
   try {
-    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+    localStorage.setItem(
+      preferencesKey(namespace),
+      JSON.stringify(preferences)
+    );
   } catch (error) {
     console.warn('Failed to save widget preferences:', error);
   }
 }
 
-function loadPreferences(): WidgetPreferences | null {
+function loadPreferences(namespace?: string): WidgetPreferences | null {
   try {
-    const saved = localStorage.getItem(PREFERENCES_KEY);
+    const saved = localStorage.getItem(preferencesKey(namespace));
     return saved ? JSON.parse(saved) : null;
   } catch (error) {
     console.warn('Failed to load widget preferences:', error);
@@ -436,9 +450,9 @@ function loadPreferences(): WidgetPreferences | null {
   }
 }
 
-function clearPreferences(): void {
+function clearPreferences(namespace?: string): void {
   try {
-    localStorage.removeItem(PREFERENCES_KEY);
+    localStorage.removeItem(preferencesKey(namespace));
   } catch (error) {
     console.warn('Failed to clear widget preferences:', error);
   }
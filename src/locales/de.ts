@@ -0,0 +1,263 @@
+import type { LocaleBundle } from '../types/i18n';
+
+/**
+ * German strings
+ */
+export const de: LocaleBundle = {
+  'messages.welcome': 'Hallo! Wie können wir Ihnen heute helfen?',
+  'messages.offline':
+    'Wir sind gerade nicht erreichbar. Bitte hinterlassen Sie eine Nachricht.',
+  'messages.waiting': 'Sie werden mit einem Mitarbeiter verbunden...',
+  'messages.connecting': 'Verbindung wird hergestellt...',
+
+  'widget.unavailable': 'Chat vorübergehend nicht verfügbar',
+  'widget.refresh': 'Bitte laden Sie die Seite neu, um es erneut zu versuchen.',
+
+  'chatButton.open': 'Chat öffnen',
+  'chatButton.close': 'Chat schließen',
+  'chatButton.leaveMessage': 'Nachricht hinterlassen',
+  'chatButton.unread':
+    '{count, plural, one {# ungelesene Nachricht} other {# ungelesene Nachrichten}}',
+
+  'chatWindow.minimize': 'Chat minimieren',
+  'chatWindow.close': 'Chat schließen',
+  'chatWindow.status.connected': 'Verbunden',
+  'chatWindow.status.connectedTo': 'Verbunden mit {name}',
+  'chatWindow.status.ended': 'Chat beendet',
+  'chatWindow.placeholder': 'Nachricht eingeben...',
+  'chatWindow.placeholderWaiting': 'Bitte warten...',
+
+  'agentInfo.defaultName': 'Kundenservice',
+  'agentInfo.connecting': 'Verbindung wird hergestellt...',
+  'agentInfo.status':
+    '{status, select, online {Online} away {Abwesend} busy {Beschäftigt} other {Offline}}',
+  'agentInfo.statusLabel': 'Status des Mitarbeiters: {status}',
+  'agentInfo.typing': 'schreibt...',
+
+  'agentDisconnected.title': 'Mitarbeiter getrennt',
+  'agentDisconnected.named': '{name} hat die Verbindung getrennt.',
+  'agentDisconnected.unnamed': 'Der Mitarbeiter hat die Verbindung getrennt.',
+  'agentDisconnected.hint':
+    'Sie können die Verbindung erneut herstellen oder das Gespräch später fortsetzen.',
+  'agentDisconnected.reconnect': 'Erneut verbinden',
+  'agentDisconnected.dismiss': 'Benachrichtigung schließen',
+
+  'messageList.label': 'Chatnachrichten',
+  'messageList.loadingHistory': 'Frühere Nachrichten werden geladen...',
+  'messageList.empty':
+    'Beginnen Sie das Gespräch, indem Sie unten eine Nachricht senden.',
+  'messageList.today': 'Heute',
+  'messageList.yesterday': 'Gestern',
+  'messageList.typing': '{name} schreibt...',
+  'messageList.agentTyping': 'Mitarbeiter schreibt...',
+  'messageList.scrollToBottom': 'Nach unten scrollen',
+  'messageList.download': 'Herunterladen',
+  'messageList.downloadFile': '{name} herunterladen',
+  'quickReplies.label': 'Antwortvorschläge',
+
+  'chatEvent.agent': 'Mitarbeiter',
+  'chatEvent.joined': '{name} ist dem Chat beigetreten',
+  'chatEvent.left': '{name} hat den Chat verlassen',
+  'chatEvent.transferring':
+    'Sie werden an einen anderen Mitarbeiter weitergeleitet',
+  'chatEvent.transferFailed':
+    'Die Weiterleitung konnte nicht abgeschlossen werden',
+  'chatEvent.idle':
+    'Sind Sie noch da? Dieser Chat wird wegen Inaktivität bald beendet.',
+  'chatEvent.autoDisconnected': 'Dieser Chat wurde wegen Inaktivität beendet',
+  'chatEvent.ended': 'Der Chat wurde beendet',
+
+  'messageInput.label': 'Nachricht eingeben',
+  'messageInput.attach': 'Datei anhängen',
+  'messageInput.send': 'Nachricht senden',
+  'messageInput.sendHint': 'Nachricht senden (Eingabetaste)',
+  'messageInput.emptyHint': 'Geben Sie eine Nachricht ein',
+  'messageInput.remaining':
+    '{count, plural, one {# Zeichen übrig} other {# Zeichen übrig}}',
+  'messageInput.keyboardHint':
+    'Eingabetaste zum Senden, Umschalt+Eingabetaste für eine neue Zeile',
+  'attachments.unsupportedType': '{name} ist kein unterstützter Dateityp',
+  'attachments.tooLarge': '{name} ist größer als {size}',
+
+  'form.select': 'Bitte wählen...',
+  'form.startChat': 'Chat starten',
+  'form.required': '{label} ist erforderlich',
+  'form.invalidEmail': 'Bitte geben Sie eine gültige E-Mail-Adresse ein',
+  'form.invalidPhone': 'Bitte geben Sie eine gültige Telefonnummer ein',
+  'form.invalidOption': 'Bitte wählen Sie eine Option für {label}',
+  'form.minLength':
+    '{label} muss mindestens {count, plural, one {# Zeichen} other {# Zeichen}} lang sein',
+  'form.maxLength':
+    '{label} darf höchstens {count, plural, one {# Zeichen} other {# Zeichen}} lang sein',
+  'form.invalidFormat': '{label} hat nicht das erwartete Format',
+  'form.name': 'Name',
+  'form.email': 'E-Mail',
+  'form.message': 'Nachricht',
+  'form.phone': 'Telefonnummer',
+  'leaveMessage.submit': 'Nachricht senden',
+  'leaveMessage.success':
+    'Vielen Dank! Wir melden uns so bald wie möglich bei Ihnen.',
+  'leaveMessage.failed':
+    'Ihre Nachricht konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+
+  'queue.next': 'Sie sind als Nächstes an der Reihe',
+  'queue.position': 'Sie sind Nummer {position} in der Warteschlange',
+  'queue.wait': 'Geschätzte Wartezeit: {time}',
+  'queue.waitUnderMinute': 'weniger als eine Minute',
+  'queue.waitMinutes':
+    '{count, plural, one {etwa # Minute} other {etwa # Minuten}}',
+  'queue.waitHours':
+    '{count, plural, one {etwa # Stunde} other {etwa # Stunden}}',
+  'queue.requestCallback': 'Stattdessen einen Rückruf anfordern',
+  'queue.callbackSubmit': 'Rückruf anfordern',
+  'queue.callbackSuccess':
+    'Vielen Dank! Wir rufen Sie zurück, sobald ein Mitarbeiter frei ist.',
+  'queue.callbackFailed':
+    'Der Rückruf konnte nicht angefordert werden. Bitte versuchen Sie es erneut.',
+
+  'session.endLabel': 'Chatsitzung beenden',
+  'session.end': 'Chat beenden',
+  'session.transcriptLabel': 'Chatverlauf anzeigen',
+  'session.transcript': 'Verlauf',
+  'session.summary': 'Zusammenfassung der Chatsitzung',
+  'session.duration': 'Dauer:',
+  'session.messages': 'Nachrichten:',
+  'session.agent': 'Mitarbeiter:',
+  'session.rate': 'Chat bewerten',
+  'session.download': 'Verlauf herunterladen',
+  'session.thanks': 'Vielen Dank für Ihr Feedback!',
+
+  'endDialog.title': 'Chatsitzung beenden',
+  'endDialog.confirm': 'Möchten Sie diese Chatsitzung wirklich beenden?',
+  'endDialog.details':
+    'Dies kann nicht rückgängig gemacht werden. Ihr Gespräch wird gespeichert und Sie können bei Bedarf den Verlauf herunterladen.',
+  'endDialog.duration': 'Dauer der Sitzung:',
+  'endDialog.messages': 'Ausgetauschte Nachrichten:',
+  'endDialog.continue': 'Chat fortsetzen',
+  'endDialog.end': 'Chat beenden',
+
+  'rating.title': 'Bewerten Sie Ihre Erfahrung',
+  'rating.close': 'Bewertung schließen',
+  'rating.question': 'Wie war Ihr Chat?',
+  'rating.questionWithAgent': 'Wie war Ihr Chat mit {name}?',
+  'rating.subtitle': 'Ihr Feedback hilft uns, unseren Service zu verbessern.',
+  'rating.star':
+    '{score, plural, one {Mit # von 5 Sternen bewerten} other {Mit # von 5 Sternen bewerten}}',
+  'rating.score':
+    '{score, select, 1 {Sehr schlecht} 2 {Schlecht} 3 {Durchschnittlich} 4 {Gut} 5 {Ausgezeichnet} other {Bewertung auswählen}}',
+  'rating.comments': 'Weitere Anmerkungen',
+  'rating.placeholderLow': 'Sagen Sie uns, was wir besser machen können...',
+  'rating.placeholderAverage': 'Weiteres Feedback? (optional)',
+  'rating.placeholderHigh': 'Was hat Ihnen gefallen? (optional)',
+  'rating.skip': 'Überspringen',
+  'rating.submit': 'Bewertung senden',
+  'rating.submitting': 'Wird gesendet...',
+
+  'transcriptDialog.title': 'Chatverlauf',
+  'transcriptDialog.close': 'Verlauf schließen',
+  'transcriptDialog.duration': 'Dauer der Sitzung:',
+  'transcriptDialog.messages': 'Nachrichten:',
+  'transcriptDialog.date': 'Datum:',
+  'transcriptDialog.preview': 'Vorschau',
+  'transcriptDialog.more':
+    '{count, plural, one {... und # weitere Nachricht} other {... und # weitere Nachrichten}}',
+  'transcriptDialog.format': 'Format',
+  'transcriptDialog.plainText': 'Nur Text',
+  'transcriptDialog.pdfUnavailable':
+    'PDF ist für diesen Chat nicht verfügbar, weil die PDF-Schrift einige Zeichen nicht darstellen kann.',
+  'transcriptDialog.email': 'Kopie per E-Mail senden',
+  'transcriptDialog.emailPlaceholder': 'sie@beispiel.de',
+  'transcriptDialog.send': 'Senden',
+  'transcriptDialog.sending': 'Wird gesendet...',
+  'transcriptDialog.sent': 'Verlauf an {email} gesendet',
+  'transcriptDialog.emailFailed':
+    'Der Verlauf konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+  'transcriptDialog.copy': 'In die Zwischenablage kopieren',
+  'transcriptDialog.download': 'Verlauf herunterladen',
+  'transcriptDialog.downloading': 'Wird heruntergeladen...',
+
+  'transcript.title': 'Chatverlauf',
+  'transcript.heading': 'CHATVERLAUF',
+  'transcript.conversation': 'GESPRÄCH',
+  'transcript.end': 'Ende des Verlaufs',
+  'transcript.sessionId': 'Sitzungs-ID',
+  'transcript.date': 'Datum',
+  'transcript.duration': 'Dauer',
+  'transcript.visitor': 'Besucher',
+  'transcript.agent': 'Mitarbeiter',
+  'transcript.system': 'System',
+  'transcript.rating': 'Bewertung',
+  'transcript.attachment': 'Anhang: {name}',
+  'transcript.quickReplies': 'Schnellantworten: {replies}',
+
+  'survey.required': 'Bitte beantworten Sie diese Frage',
+  'survey.scoreRange': 'Bitte wählen Sie einen Wert von {min} bis {max}',
+  'survey.yesNoRequired': 'Bitte antworten Sie mit Ja oder Nein',
+  'survey.invalidOption': 'Bitte wählen Sie eine der Optionen',
+  'survey.yes': 'Ja',
+  'survey.no': 'Nein',
+  'survey.csatLow': 'Sehr unzufrieden',
+  'survey.csatHigh': 'Sehr zufrieden',
+  'survey.npsLow': 'Unwahrscheinlich',
+  'survey.npsHigh': 'Sehr wahrscheinlich',
+  'survey.back': 'Zurück',
+  'survey.skip': 'Überspringen',
+  'survey.next': 'Weiter',
+  'survey.submit': 'Senden',
+  'survey.failed':
+    'Ihre Antworten konnten nicht gesendet werden. Bitte versuchen Sie es erneut.',
+  'survey.thankYou': 'Vielen Dank für Ihr Feedback!',
+
+  'notification.connectionIssue': 'Verbindungsproblem',
+  'notification.connecting': 'Verbindung wird hergestellt',
+  'notification.connectingMessage':
+    'Verbindung zum Chat-Dienst wird hergestellt...',
+  'notification.connected': 'Verbunden',
+  'notification.connectedMessage': 'Mit dem Chat-Dienst verbunden',
+  'notification.reconnecting': 'Erneute Verbindung',
+  'notification.reconnectingMessage':
+    'Verbindung unterbrochen. Es wird versucht, die Verbindung wiederherzustellen...',
+  'notification.disconnected': 'Getrennt',
+  'notification.disconnectedMessage':
+    'Die Verbindung zum Chat-Dienst wurde getrennt',
+  'notification.failed': 'Verbindung fehlgeschlagen',
+  'notification.failedMessage':
+    'Keine Verbindung zum Chat-Dienst möglich. Bitte versuchen Sie es später erneut.',
+  'notification.agentConnected': 'Mitarbeiter verbunden',
+  'notification.agentJoined': '{name} ist dem Chat beigetreten',
+  'notification.anAgentJoined': 'Ein Mitarbeiter ist dem Chat beigetreten',
+  'notification.agentDisconnected': 'Mitarbeiter getrennt',
+  'notification.agentLeft':
+    'Der Mitarbeiter hat den Chat verlassen. Möglicherweise müssen Sie auf einen anderen Mitarbeiter warten.',
+  'notification.messageNotSent': 'Nachricht nicht gesendet',
+  'notification.messageFailed': 'Nachricht konnte nicht gesendet werden',
+  'notification.messageFailedAfter':
+    'Nachricht konnte nach {count} Versuchen nicht gesendet werden',
+  'notification.offline': 'Offline',
+  'notification.offlineMessage':
+    'Sie sind gerade offline. Nachrichten werden gesendet, sobald die Verbindung wiederhergestellt ist.',
+  'notification.queued': 'Nachrichten in der Warteschlange',
+  'notification.queuedMessage':
+    '{count, plural, one {# Nachricht wartet} other {# Nachrichten warten}} auf den Versand',
+  'notification.error.connectionLost':
+    'Die Verbindung zum Chat-Dienst wurde unterbrochen. Wir versuchen, sie automatisch wiederherzustellen.',
+  'notification.error.messageSendFailed':
+    'Ihre Nachricht konnte nicht gesendet werden. Wir versuchen es automatisch erneut.',
+  'notification.error.agentDisconnected':
+    'Der Mitarbeiter hat die Verbindung getrennt. Wir suchen einen anderen verfügbaren Mitarbeiter.',
+  'notification.error.sessionTimeout':
+    'Ihre Chatsitzung ist wegen Inaktivität abgelaufen. Bitte starten Sie einen neuen Chat.',
+  'notification.error.authenticationFailed':
+    'Bei der Authentifizierung ist ein Problem aufgetreten. Bitte laden Sie die Seite neu und versuchen Sie es erneut.',
+  'notification.error.rateLimitExceeded':
+    'Sie senden Nachrichten zu schnell. Bitte warten Sie einen Moment, bevor Sie es erneut versuchen.',
+  'notification.error.unknown':
+    'Ein unerwarteter Fehler ist aufgetreten. Wir arbeiten an einer Lösung.',
+  'notification.action.reconnect': 'Erneut verbinden',
+  'notification.action.retry': 'Wiederholen',
+  'notification.action.retryConnection': 'Verbindung wiederholen',
+  'notification.action.retryMessage': 'Nachricht erneut senden',
+  'notification.action.findAgent': 'Mitarbeiter suchen',
+  'notification.action.startNewChat': 'Neuen Chat starten',
+  'notification.action.dismiss': 'Schließen',
+};
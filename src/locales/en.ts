@@ -0,0 +1,272 @@
+/**
+ * English strings, the default bundle
+ * Every other bundle must translate the same keys. Messages use ICU syntax:
+ * {name} arguments, and plural and select arguments such as
+ * {count, plural, one {# message} other {# messages}}
+ */
+export const en = {
+  // Configurable messages, used when the configuration leaves them out
+  'messages.welcome': 'Hello! How can we help you today?',
+  'messages.offline': 'We are currently offline. Please leave a message.',
+  'messages.waiting': 'Connecting you to an agent...',
+  'messages.connecting': 'Connecting...',
+
+  // Widget
+  'widget.unavailable': 'Chat temporarily unavailable',
+  'widget.refresh': 'Please refresh the page to try again.',
+
+  // Chat button
+  'chatButton.open': 'Open chat',
+  'chatButton.close': 'Close chat',
+  'chatButton.leaveMessage': 'Leave a message',
+  'chatButton.unread':
+    '{count, plural, one {# unread message} other {# unread messages}}',
+
+  // Chat window
+  'chatWindow.minimize': 'Minimize chat',
+  'chatWindow.close': 'Close chat',
+  'chatWindow.status.connected': 'Connected',
+  'chatWindow.status.connectedTo': 'Connected to {name}',
+  'chatWindow.status.ended': 'Chat ended',
+  'chatWindow.placeholder': 'Type your message...',
+  'chatWindow.placeholderWaiting': 'Please wait...',
+
+  // Agent info
+  'agentInfo.defaultName': 'Customer Support',
+  'agentInfo.connecting': 'Connecting...',
+  'agentInfo.status':
+    '{status, select, online {Online} away {Away} busy {Busy} other {Offline}}',
+  'agentInfo.statusLabel': 'Agent status: {status}',
+  'agentInfo.typing': 'typing...',
+
+  // Agent disconnection notification
+  'agentDisconnected.title': 'Agent Disconnected',
+  'agentDisconnected.named': '{name} has disconnected.',
+  'agentDisconnected.unnamed': 'The agent has disconnected.',
+  'agentDisconnected.hint':
+    'You can try reconnecting or continue the conversation later.',
+  'agentDisconnected.reconnect': 'Reconnect',
+  'agentDisconnected.dismiss': 'Dismiss notification',
+
+  // Message list
+  'messageList.label': 'Chat messages',
+  'messageList.loadingHistory': 'Loading earlier messages...',
+  'messageList.empty': 'Start a conversation by sending a message below.',
+  'messageList.today': 'Today',
+  'messageList.yesterday': 'Yesterday',
+  'messageList.typing': '{name} is typing...',
+  'messageList.agentTyping': 'Agent is typing...',
+  'messageList.scrollToBottom': 'Scroll to bottom',
+  'messageList.download': 'Download',
+  'messageList.downloadFile': 'Download {name}',
+  'quickReplies.label': 'Suggested replies',
+
+  // Chat events shown as system messages
+  'chatEvent.agent': 'Agent',
+  'chatEvent.joined': '{name} has joined the chat',
+  'chatEvent.left': '{name} has left the chat',
+  'chatEvent.transferring': 'You are being transferred to another agent',
+  'chatEvent.transferFailed': 'The transfer could not be completed',
+  'chatEvent.idle':
+    'Are you still there? This chat will end soon due to inactivity.',
+  'chatEvent.autoDisconnected': 'This chat was ended due to inactivity',
+  'chatEvent.ended': 'The chat has ended',
+
+  // Message input
+  'messageInput.label': 'Type your message',
+  'messageInput.attach': 'Attach file',
+  'messageInput.send': 'Send message',
+  'messageInput.sendHint': 'Send message (Enter)',
+  'messageInput.emptyHint': 'Type a message to send',
+  'messageInput.remaining':
+    '{count, plural, one {# character remaining} other {# characters remaining}}',
+  'messageInput.keyboardHint': 'Press Enter to send, Shift+Enter for new line',
+  'attachments.unsupportedType': '{name} is not a supported file type',
+  'attachments.tooLarge': '{name} is larger than {size}',
+
+  // Pre-chat, leave-a-message and callback forms
+  'form.select': 'Select...',
+  'form.startChat': 'Start Chat',
+  'form.required': '{label} is required',
+  'form.invalidEmail': 'Please enter a valid email address',
+  'form.invalidPhone': 'Please enter a valid phone number',
+  'form.invalidOption': 'Please choose a {lowercaseLabel}',
+  'form.minLength':
+    '{label} must be at least {count, plural, one {# character} other {# characters}}',
+  'form.maxLength':
+    '{label} must be at most {count, plural, one {# character} other {# characters}}',
+  'form.invalidFormat': '{label} is not in the expected format',
+  'form.name': 'Name',
+  'form.email': 'Email',
+  'form.message': 'Message',
+  'form.phone': 'Phone number',
+  'leaveMessage.submit': 'Send Message',
+  'leaveMessage.success': "Thanks! We'll get back to you as soon as we can.",
+  'leaveMessage.failed': 'Your message could not be sent. Please try again.',
+
+  // Queue position and callbacks
+  'queue.next': 'You are next in the queue',
+  'queue.position': 'You are number {position} in the queue',
+  'queue.wait': 'Estimated wait: {time}',
+  'queue.waitUnderMinute': 'less than a minute',
+  'queue.waitMinutes':
+    '{count, plural, one {about # minute} other {about # minutes}}',
+  'queue.waitHours':
+    '{count, plural, one {about # hour} other {about # hours}}',
+  'queue.requestCallback': 'Request a callback instead',
+  'queue.callbackSubmit': 'Request Callback',
+  'queue.callbackSuccess':
+    "Thanks! We'll call you back as soon as an agent is free.",
+  'queue.callbackFailed':
+    'Your callback could not be requested. Please try again.',
+
+  // Chat session controls and summary
+  'session.endLabel': 'End chat session',
+  'session.end': 'End Chat',
+  'session.transcriptLabel': 'View chat transcript',
+  'session.transcript': 'Transcript',
+  'session.summary': 'Chat Session Summary',
+  'session.duration': 'Duration:',
+  'session.messages': 'Messages:',
+  'session.agent': 'Agent:',
+  'session.rate': 'Rate This Chat',
+  'session.download': 'Download Transcript',
+  'session.thanks': 'Thank you for your feedback!',
+
+  // End chat dialog
+  'endDialog.title': 'End Chat Session',
+  'endDialog.confirm': 'Are you sure you want to end this chat session?',
+  'endDialog.details':
+    'This action cannot be undone. Your conversation will be saved and you can download a transcript if needed.',
+  'endDialog.duration': 'Session Duration:',
+  'endDialog.messages': 'Messages Exchanged:',
+  'endDialog.continue': 'Continue Chat',
+  'endDialog.end': 'End Chat',
+
+  // Rating dialog
+  'rating.title': 'Rate Your Experience',
+  'rating.close': 'Close rating dialog',
+  'rating.question': 'How was your chat experience?',
+  'rating.questionWithAgent': 'How was your chat experience with {name}?',
+  'rating.subtitle': 'Your feedback helps us improve our service.',
+  'rating.star': 'Rate {score} out of 5 stars',
+  'rating.score':
+    '{score, select, 1 {Very Poor} 2 {Poor} 3 {Average} 4 {Good} 5 {Excellent} other {Select a rating}}',
+  'rating.comments': 'Additional Comments',
+  'rating.placeholderLow': 'Please let us know how we can improve...',
+  'rating.placeholderAverage': 'Any additional feedback? (optional)',
+  'rating.placeholderHigh': 'What did you like about this chat? (optional)',
+  'rating.skip': 'Skip',
+  'rating.submit': 'Submit Rating',
+  'rating.submitting': 'Submitting...',
+
+  // Transcript dialog
+  'transcriptDialog.title': 'Chat Transcript',
+  'transcriptDialog.close': 'Close transcript dialog',
+  'transcriptDialog.duration': 'Session Duration:',
+  'transcriptDialog.messages': 'Messages:',
+  'transcriptDialog.date': 'Date:',
+  'transcriptDialog.preview': 'Preview',
+  'transcriptDialog.more':
+    '{count, plural, one {... and # more message} other {... and # more messages}}',
+  'transcriptDialog.format': 'Format',
+  'transcriptDialog.plainText': 'Plain text',
+  'transcriptDialog.pdfUnavailable':
+    'PDF is not available for this chat because the PDF font cannot show some of its characters.',
+  'transcriptDialog.email': 'Email a copy',
+  'transcriptDialog.emailPlaceholder': 'you@example.com',
+  'transcriptDialog.send': 'Send',
+  'transcriptDialog.sending': 'Sending...',
+  'transcriptDialog.sent': 'Transcript sent to {email}',
+  'transcriptDialog.emailFailed':
+    "We couldn't send the transcript. Please try again.",
+  'transcriptDialog.copy': 'Copy to Clipboard',
+  'transcriptDialog.download': 'Download Transcript',
+  'transcriptDialog.downloading': 'Downloading...',
+
+  // Exported transcripts
+  'transcript.title': 'Chat transcript',
+  'transcript.heading': 'CHAT TRANSCRIPT',
+  'transcript.conversation': 'CONVERSATION',
+  'transcript.end': 'End of transcript',
+  'transcript.sessionId': 'Session ID',
+  'transcript.date': 'Date',
+  'transcript.duration': 'Duration',
+  'transcript.visitor': 'Visitor',
+  'transcript.agent': 'Agent',
+  'transcript.system': 'System',
+  'transcript.rating': 'Rating',
+  'transcript.attachment': 'Attachment: {name}',
+  'transcript.quickReplies': 'Quick replies: {replies}',
+
+  // Post-chat survey
+  'survey.required': 'Please answer this question',
+  'survey.scoreRange': 'Please choose a score from {min} to {max}',
+  'survey.yesNoRequired': 'Please answer yes or no',
+  'survey.invalidOption': 'Please choose one of the options',
+  'survey.yes': 'Yes',
+  'survey.no': 'No',
+  'survey.csatLow': 'Very dissatisfied',
+  'survey.csatHigh': 'Very satisfied',
+  'survey.npsLow': 'Not likely',
+  'survey.npsHigh': 'Very likely',
+  'survey.back': 'Back',
+  'survey.skip': 'Skip',
+  'survey.next': 'Next',
+  'survey.submit': 'Submit',
+  'survey.failed': 'Your answers could not be sent. Please try again.',
+  'survey.thankYou': 'Thank you for your feedback!',
+
+  // Notifications
+  'notification.connectionIssue': 'Connection Issue',
+  'notification.connecting': 'Connecting',
+  'notification.connectingMessage': 'Connecting to chat service...',
+  'notification.connected': 'Connected',
+  'notification.connectedMessage': 'Successfully connected to chat service',
+  'notification.reconnecting': 'Reconnecting',
+  'notification.reconnectingMessage':
+    'Connection lost. Attempting to reconnect...',
+  'notification.disconnected': 'Disconnected',
+  'notification.disconnectedMessage':
+    'You have been disconnected from the chat service',
+  'notification.failed': 'Connection Failed',
+  'notification.failedMessage':
+    'Unable to connect to chat service. Please try again later.',
+  'notification.agentConnected': 'Agent Connected',
+  'notification.agentJoined': '{name} has joined the chat',
+  'notification.anAgentJoined': 'An agent has joined the chat',
+  'notification.agentDisconnected': 'Agent Disconnected',
+  'notification.agentLeft':
+    'The agent has left the chat. You may need to wait for another agent.',
+  'notification.messageNotSent': 'Message Not Sent',
+  'notification.messageFailed': 'Message failed to send',
+  'notification.messageFailedAfter':
+    'Message failed to send after {count} attempts',
+  'notification.offline': 'Offline Mode',
+  'notification.offlineMessage':
+    'You are currently offline. Messages will be sent when connection is restored.',
+  'notification.queued': 'Messages Queued',
+  'notification.queuedMessage':
+    '{count, plural, one {# message} other {# messages}} waiting to be sent',
+  'notification.error.connectionLost':
+    "Connection to chat service was lost. We're trying to reconnect automatically.",
+  'notification.error.messageSendFailed':
+    "Your message couldn't be sent. We'll try again automatically.",
+  'notification.error.agentDisconnected':
+    "The agent has disconnected. We're looking for another available agent.",
+  'notification.error.sessionTimeout':
+    'Your chat session has expired due to inactivity. Please start a new chat.',
+  'notification.error.authenticationFailed':
+    'There was an authentication issue. Please refresh the page and try again.',
+  'notification.error.rateLimitExceeded':
+    "You're sending messages too quickly. Please wait a moment before trying again.",
+  'notification.error.unknown':
+    "An unexpected error occurred. We're working to resolve it.",
+  'notification.action.reconnect': 'Reconnect',
+  'notification.action.retry': 'Retry',
+  'notification.action.retryConnection': 'Retry Connection',
+  'notification.action.retryMessage': 'Retry Message',
+  'notification.action.findAgent': 'Find Agent',
+  'notification.action.startNewChat': 'Start New Chat',
+  'notification.action.dismiss': 'Dismiss',
+};
@@ -0,0 +1,258 @@
+import type { LocaleBundle } from '../types/i18n';
+
+/**
+ * Spanish strings
+ */
+export const es: LocaleBundle = {
+  'messages.welcome': '¡Hola! ¿En qué podemos ayudarte hoy?',
+  'messages.offline': 'Ahora mismo no estamos disponibles. Déjanos un mensaje.',
+  'messages.waiting': 'Te estamos conectando con un agente...',
+  'messages.connecting': 'Conectando...',
+
+  'widget.unavailable': 'Chat no disponible temporalmente',
+  'widget.refresh': 'Actualiza la página para volver a intentarlo.',
+
+  'chatButton.open': 'Abrir chat',
+  'chatButton.close': 'Cerrar chat',
+  'chatButton.leaveMessage': 'Dejar un mensaje',
+  'chatButton.unread':
+    '{count, plural, one {# mensaje sin leer} other {# mensajes sin leer}}',
+
+  'chatWindow.minimize': 'Minimizar chat',
+  'chatWindow.close': 'Cerrar chat',
+  'chatWindow.status.connected': 'Conectado',
+  'chatWindow.status.connectedTo': 'Conectado con {name}',
+  'chatWindow.status.ended': 'Chat finalizado',
+  'chatWindow.placeholder': 'Escribe tu mensaje...',
+  'chatWindow.placeholderWaiting': 'Espera un momento...',
+
+  'agentInfo.defaultName': 'Atención al cliente',
+  'agentInfo.connecting': 'Conectando...',
+  'agentInfo.status':
+    '{status, select, online {En línea} away {Ausente} busy {Ocupado} other {Desconectado}}',
+  'agentInfo.statusLabel': 'Estado del agente: {status}',
+  'agentInfo.typing': 'escribiendo...',
+
+  'agentDisconnected.title': 'Agente desconectado',
+  'agentDisconnected.named': '{name} se ha desconectado.',
+  'agentDisconnected.unnamed': 'El agente se ha desconectado.',
+  'agentDisconnected.hint':
+    'Puedes intentar reconectar o continuar la conversación más tarde.',
+  'agentDisconnected.reconnect': 'Reconectar',
+  'agentDisconnected.dismiss': 'Descartar notificación',
+
+  'messageList.label': 'Mensajes del chat',
+  'messageList.loadingHistory': 'Cargando mensajes anteriores...',
+  'messageList.empty':
+    'Empieza la conversación enviando un mensaje a continuación.',
+  'messageList.today': 'Hoy',
+  'messageList.yesterday': 'Ayer',
+  'messageList.typing': '{name} está escribiendo...',
+  'messageList.agentTyping': 'El agente está escribiendo...',
+  'messageList.scrollToBottom': 'Ir al final',
+  'messageList.download': 'Descargar',
+  'messageList.downloadFile': 'Descargar {name}',
+  'quickReplies.label': 'Respuestas sugeridas',
+
+  'chatEvent.agent': 'Agente',
+  'chatEvent.joined': '{name} se ha unido al chat',
+  'chatEvent.left': '{name} ha salido del chat',
+  'chatEvent.transferring': 'Le estamos transfiriendo a otro agente',
+  'chatEvent.transferFailed': 'No se pudo completar la transferencia',
+  'chatEvent.idle': '¿Sigue ahí? Este chat finalizará pronto por inactividad.',
+  'chatEvent.autoDisconnected': 'Este chat finalizó por inactividad',
+  'chatEvent.ended': 'El chat ha finalizado',
+
+  'messageInput.label': 'Escribe tu mensaje',
+  'messageInput.attach': 'Adjuntar archivo',
+  'messageInput.send': 'Enviar mensaje',
+  'messageInput.sendHint': 'Enviar mensaje (Intro)',
+  'messageInput.emptyHint': 'Escribe un mensaje para enviar',
+  'messageInput.remaining':
+    '{count, plural, one {Queda # carácter} other {Quedan # caracteres}}',
+  'messageInput.keyboardHint':
+    'Pulsa Intro para enviar y Mayús+Intro para una nueva línea',
+  'attachments.unsupportedType': '{name} no es un tipo de archivo admitido',
+  'attachments.tooLarge': '{name} supera el tamaño máximo de {size}',
+
+  'form.select': 'Selecciona...',
+  'form.startChat': 'Iniciar chat',
+  'form.required': '{label} es obligatorio',
+  'form.invalidEmail': 'Introduce un correo electrónico válido',
+  'form.invalidPhone': 'Introduce un número de teléfono válido',
+  'form.invalidOption': 'Elige una opción para {label}',
+  'form.minLength':
+    '{label} debe tener al menos {count, plural, one {# carácter} other {# caracteres}}',
+  'form.maxLength':
+    '{label} debe tener como máximo {count, plural, one {# carácter} other {# caracteres}}',
+  'form.invalidFormat': '{label} no tiene el formato esperado',
+  'form.name': 'Nombre',
+  'form.email': 'Correo electrónico',
+  'form.message': 'Mensaje',
+  'form.phone': 'Número de teléfono',
+  'leaveMessage.submit': 'Enviar mensaje',
+  'leaveMessage.success': '¡Gracias! Te responderemos lo antes posible.',
+  'leaveMessage.failed':
+    'No se ha podido enviar tu mensaje. Inténtalo de nuevo.',
+
+  'queue.next': 'Eres el siguiente en la cola',
+  'queue.position': 'Eres el número {position} en la cola',
+  'queue.wait': 'Tiempo de espera estimado: {time}',
+  'queue.waitUnderMinute': 'menos de un minuto',
+  'queue.waitMinutes':
+    '{count, plural, one {aproximadamente # minuto} other {aproximadamente # minutos}}',
+  'queue.waitHours':
+    '{count, plural, one {aproximadamente # hora} other {aproximadamente # horas}}',
+  'queue.requestCallback': 'Prefiero que me llamen',
+  'queue.callbackSubmit': 'Solicitar llamada',
+  'queue.callbackSuccess':
+    '¡Gracias! Te llamaremos en cuanto haya un agente disponible.',
+  'queue.callbackFailed':
+    'No se ha podido solicitar la llamada. Inténtalo de nuevo.',
+
+  'session.endLabel': 'Finalizar la sesión de chat',
+  'session.end': 'Finalizar chat',
+  'session.transcriptLabel': 'Ver la transcripción del chat',
+  'session.transcript': 'Transcripción',
+  'session.summary': 'Resumen de la sesión de chat',
+  'session.duration': 'Duración:',
+  'session.messages': 'Mensajes:',
+  'session.agent': 'Agente:',
+  'session.rate': 'Valorar este chat',
+  'session.download': 'Descargar transcripción',
+  'session.thanks': '¡Gracias por tu opinión!',
+
+  'endDialog.title': 'Finalizar sesión de chat',
+  'endDialog.confirm': '¿Seguro que quieres finalizar esta sesión de chat?',
+  'endDialog.details':
+    'Esta acción no se puede deshacer. Tu conversación se guardará y podrás descargar una transcripción si la necesitas.',
+  'endDialog.duration': 'Duración de la sesión:',
+  'endDialog.messages': 'Mensajes intercambiados:',
+  'endDialog.continue': 'Continuar chat',
+  'endDialog.end': 'Finalizar chat',
+
+  'rating.title': 'Valora tu experiencia',
+  'rating.close': 'Cerrar la valoración',
+  'rating.question': '¿Qué tal ha sido tu experiencia en el chat?',
+  'rating.questionWithAgent':
+    '¿Qué tal ha sido tu experiencia en el chat con {name}?',
+  'rating.subtitle': 'Tu opinión nos ayuda a mejorar nuestro servicio.',
+  'rating.star':
+    '{score, plural, one {Valorar con # estrella de 5} other {Valorar con # estrellas de 5}}',
+  'rating.score':
+    '{score, select, 1 {Muy mala} 2 {Mala} 3 {Normal} 4 {Buena} 5 {Excelente} other {Selecciona una valoración}}',
+  'rating.comments': 'Comentarios adicionales',
+  'rating.placeholderLow': 'Cuéntanos cómo podemos mejorar...',
+  'rating.placeholderAverage': '¿Algún comentario más? (opcional)',
+  'rating.placeholderHigh': '¿Qué te ha gustado de este chat? (opcional)',
+  'rating.skip': 'Omitir',
+  'rating.submit': 'Enviar valoración',
+  'rating.submitting': 'Enviando...',
+
+  'transcriptDialog.title': 'Transcripción del chat',
+  'transcriptDialog.close': 'Cerrar la transcripción',
+  'transcriptDialog.duration': 'Duración de la sesión:',
+  'transcriptDialog.messages': 'Mensajes:',
+  'transcriptDialog.date': 'Fecha:',
+  'transcriptDialog.preview': 'Vista previa',
+  'transcriptDialog.more':
+    '{count, plural, one {... y # mensaje más} other {... y # mensajes más}}',
+  'transcriptDialog.format': 'Formato',
+  'transcriptDialog.plainText': 'Texto sin formato',
+  'transcriptDialog.pdfUnavailable':
+    'El PDF no está disponible para este chat porque la fuente del PDF no puede mostrar algunos de sus caracteres.',
+  'transcriptDialog.email': 'Enviar una copia por correo',
+  'transcriptDialog.emailPlaceholder': 'tu@ejemplo.com',
+  'transcriptDialog.send': 'Enviar',
+  'transcriptDialog.sending': 'Enviando...',
+  'transcriptDialog.sent': 'Transcripción enviada a {email}',
+  'transcriptDialog.emailFailed':
+    'No hemos podido enviar la transcripción. Inténtalo de nuevo.',
+  'transcriptDialog.copy': 'Copiar al portapapeles',
+  'transcriptDialog.download': 'Descargar transcripción',
+  'transcriptDialog.downloading': 'Descargando...',
+
+  'transcript.title': 'Transcripción del chat',
+  'transcript.heading': 'TRANSCRIPCIÓN DEL CHAT',
+  'transcript.conversation': 'CONVERSACIÓN',
+  'transcript.end': 'Fin de la transcripción',
+  'transcript.sessionId': 'ID de sesión',
+  'transcript.date': 'Fecha',
+  'transcript.duration': 'Duración',
+  'transcript.visitor': 'Visitante',
+  'transcript.agent': 'Agente',
+  'transcript.system': 'Sistema',
+  'transcript.rating': 'Valoración',
+  'transcript.attachment': 'Archivo adjunto: {name}',
+  'transcript.quickReplies': 'Respuestas rápidas: {replies}',
+
+  'survey.required': 'Responde a esta pregunta',
+  'survey.scoreRange': 'Elige una puntuación del {min} al {max}',
+  'survey.yesNoRequired': 'Responde sí o no',
+  'survey.invalidOption': 'Elige una de las opciones',
+  'survey.yes': 'Sí',
+  'survey.no': 'No',
+  'survey.csatLow': 'Muy insatisfecho',
+  'survey.csatHigh': 'Muy satisfecho',
+  'survey.npsLow': 'Nada probable',
+  'survey.npsHigh': 'Muy probable',
+  'survey.back': 'Atrás',
+  'survey.skip': 'Omitir',
+  'survey.next': 'Siguiente',
+  'survey.submit': 'Enviar',
+  'survey.failed':
+    'No se han podido enviar tus respuestas. Inténtalo de nuevo.',
+  'survey.thankYou': '¡Gracias por tu opinión!',
+
+  'notification.connectionIssue': 'Problema de conexión',
+  'notification.connecting': 'Conectando',
+  'notification.connectingMessage': 'Conectando con el servicio de chat...',
+  'notification.connected': 'Conectado',
+  'notification.connectedMessage': 'Conectado al servicio de chat',
+  'notification.reconnecting': 'Reconectando',
+  'notification.reconnectingMessage':
+    'Se ha perdido la conexión. Intentando reconectar...',
+  'notification.disconnected': 'Desconectado',
+  'notification.disconnectedMessage':
+    'Te has desconectado del servicio de chat',
+  'notification.failed': 'Error de conexión',
+  'notification.failedMessage':
+    'No se puede conectar con el servicio de chat. Inténtalo más tarde.',
+  'notification.agentConnected': 'Agente conectado',
+  'notification.agentJoined': '{name} se ha unido al chat',
+  'notification.anAgentJoined': 'Un agente se ha unido al chat',
+  'notification.agentDisconnected': 'Agente desconectado',
+  'notification.agentLeft':
+    'El agente ha salido del chat. Es posible que tengas que esperar a otro agente.',
+  'notification.messageNotSent': 'Mensaje no enviado',
+  'notification.messageFailed': 'No se ha podido enviar el mensaje',
+  'notification.messageFailedAfter':
+    'No se ha podido enviar el mensaje tras {count} intentos',
+  'notification.offline': 'Sin conexión',
+  'notification.offlineMessage':
+    'Ahora mismo no tienes conexión. Los mensajes se enviarán cuando se restablezca.',
+  'notification.queued': 'Mensajes en cola',
+  'notification.queuedMessage':
+    '{count, plural, one {# mensaje pendiente de envío} other {# mensajes pendientes de envío}}',
+  'notification.error.connectionLost':
+    'Se ha perdido la conexión con el servicio de chat. Estamos intentando reconectar automáticamente.',
+  'notification.error.messageSendFailed':
+    'No se ha podido enviar tu mensaje. Lo volveremos a intentar automáticamente.',
+  'notification.error.agentDisconnected':
+    'El agente se ha desconectado. Estamos buscando otro agente disponible.',
+  'notification.error.sessionTimeout':
+    'Tu sesión de chat ha caducado por inactividad. Inicia un nuevo chat.',
+  'notification.error.authenticationFailed':
+    'Ha habido un problema de autenticación. Actualiza la página y vuelve a intentarlo.',
+  'notification.error.rateLimitExceeded':
+    'Estás enviando mensajes demasiado rápido. Espera un momento antes de volver a intentarlo.',
+  'notification.error.unknown':
+    'Se ha producido un error inesperado. Estamos trabajando para solucionarlo.',
+  'notification.action.reconnect': 'Reconectar',
+  'notification.action.retry': 'Reintentar',
+  'notification.action.retryConnection': 'Reintentar conexión',
+  'notification.action.retryMessage': 'Reintentar mensaje',
+  'notification.action.findAgent': 'Buscar agente',
+  'notification.action.startNewChat': 'Iniciar nuevo chat',
+  'notification.action.dismiss': 'Descartar',
+};
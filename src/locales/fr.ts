@@ -0,0 +1,259 @@
+import type { LocaleBundle } from '../types/i18n';
+
+/**
+ * French strings
+ */
+export const fr: LocaleBundle = {
+  'messages.welcome': 'Bonjour ! Comment pouvons-nous vous aider ?',
+  'messages.offline':
+    'Nous sommes actuellement hors ligne. Laissez-nous un message.',
+  'messages.waiting': 'Nous vous mettons en relation avec un conseiller...',
+  'messages.connecting': 'Connexion...',
+
+  'widget.unavailable': 'Chat temporairement indisponible',
+  'widget.refresh': 'Veuillez actualiser la page pour réessayer.',
+
+  'chatButton.open': 'Ouvrir le chat',
+  'chatButton.close': 'Fermer le chat',
+  'chatButton.leaveMessage': 'Laisser un message',
+  'chatButton.unread':
+    '{count, plural, one {# message non lu} other {# messages non lus}}',
+
+  'chatWindow.minimize': 'Réduire le chat',
+  'chatWindow.close': 'Fermer le chat',
+  'chatWindow.status.connected': 'Connecté',
+  'chatWindow.status.connectedTo': 'Connecté à {name}',
+  'chatWindow.status.ended': 'Chat terminé',
+  'chatWindow.placeholder': 'Écrivez votre message...',
+  'chatWindow.placeholderWaiting': 'Veuillez patienter...',
+
+  'agentInfo.defaultName': 'Service client',
+  'agentInfo.connecting': 'Connexion...',
+  'agentInfo.status':
+    '{status, select, online {En ligne} away {Absent} busy {Occupé} other {Hors ligne}}',
+  'agentInfo.statusLabel': 'Statut du conseiller : {status}',
+  'agentInfo.typing': 'écrit...',
+
+  'agentDisconnected.title': 'Conseiller déconnecté',
+  'agentDisconnected.named': '{name} s’est déconnecté.',
+  'agentDisconnected.unnamed': 'Le conseiller s’est déconnecté.',
+  'agentDisconnected.hint':
+    'Vous pouvez tenter de vous reconnecter ou reprendre la conversation plus tard.',
+  'agentDisconnected.reconnect': 'Se reconnecter',
+  'agentDisconnected.dismiss': 'Ignorer la notification',
+
+  'messageList.label': 'Messages du chat',
+  'messageList.loadingHistory': 'Chargement des messages précédents...',
+  'messageList.empty':
+    'Commencez la conversation en envoyant un message ci-dessous.',
+  'messageList.today': 'Aujourd’hui',
+  'messageList.yesterday': 'Hier',
+  'messageList.typing': '{name} écrit...',
+  'messageList.agentTyping': 'Le conseiller écrit...',
+  'messageList.scrollToBottom': 'Aller en bas',
+  'messageList.download': 'Télécharger',
+  'messageList.downloadFile': 'Télécharger {name}',
+  'quickReplies.label': 'Réponses suggérées',
+
+  'chatEvent.agent': 'Conseiller',
+  'chatEvent.joined': '{name} a rejoint le chat',
+  'chatEvent.left': '{name} a quitté le chat',
+  'chatEvent.transferring': 'Vous êtes transféré vers un autre conseiller',
+  'chatEvent.transferFailed': "Le transfert n'a pas pu aboutir",
+  'chatEvent.idle':
+    'Êtes-vous toujours là ? Ce chat va bientôt se terminer pour inactivité.',
+  'chatEvent.autoDisconnected': 'Ce chat a été terminé pour inactivité',
+  'chatEvent.ended': 'Le chat est terminé',
+
+  'messageInput.label': 'Écrivez votre message',
+  'messageInput.attach': 'Joindre un fichier',
+  'messageInput.send': 'Envoyer le message',
+  'messageInput.sendHint': 'Envoyer le message (Entrée)',
+  'messageInput.emptyHint': 'Écrivez un message à envoyer',
+  'messageInput.remaining':
+    '{count, plural, one {# caractère restant} other {# caractères restants}}',
+  'messageInput.keyboardHint':
+    'Appuyez sur Entrée pour envoyer, Maj+Entrée pour aller à la ligne',
+  'attachments.unsupportedType': '{name} n’est pas un type de fichier accepté',
+  'attachments.tooLarge': '{name} dépasse la taille maximale de {size}',
+
+  'form.select': 'Sélectionnez...',
+  'form.startChat': 'Démarrer le chat',
+  'form.required': '{label} est obligatoire',
+  'form.invalidEmail': 'Veuillez saisir une adresse e-mail valide',
+  'form.invalidPhone': 'Veuillez saisir un numéro de téléphone valide',
+  'form.invalidOption': 'Veuillez choisir une option pour {label}',
+  'form.minLength':
+    '{label} doit contenir au moins {count, plural, one {# caractère} other {# caractères}}',
+  'form.maxLength':
+    '{label} doit contenir au plus {count, plural, one {# caractère} other {# caractères}}',
+  'form.invalidFormat': '{label} n’est pas au format attendu',
+  'form.name': 'Nom',
+  'form.email': 'E-mail',
+  'form.message': 'Message',
+  'form.phone': 'Numéro de téléphone',
+  'leaveMessage.submit': 'Envoyer le message',
+  'leaveMessage.success': 'Merci ! Nous vous répondrons dès que possible.',
+  'leaveMessage.failed':
+    'Votre message n’a pas pu être envoyé. Veuillez réessayer.',
+
+  'queue.next': 'Vous êtes le prochain dans la file d’attente',
+  'queue.position': 'Vous êtes en position {position} dans la file d’attente',
+  'queue.wait': 'Attente estimée : {time}',
+  'queue.waitUnderMinute': 'moins d’une minute',
+  'queue.waitMinutes':
+    '{count, plural, one {environ # minute} other {environ # minutes}}',
+  'queue.waitHours':
+    '{count, plural, one {environ # heure} other {environ # heures}}',
+  'queue.requestCallback': 'Être rappelé plutôt',
+  'queue.callbackSubmit': 'Demander un rappel',
+  'queue.callbackSuccess':
+    'Merci ! Nous vous rappellerons dès qu’un conseiller sera disponible.',
+  'queue.callbackFailed':
+    'Votre demande de rappel n’a pas pu être envoyée. Veuillez réessayer.',
+
+  'session.endLabel': 'Terminer la session de chat',
+  'session.end': 'Terminer le chat',
+  'session.transcriptLabel': 'Voir la transcription du chat',
+  'session.transcript': 'Transcription',
+  'session.summary': 'Résumé de la session de chat',
+  'session.duration': 'Durée :',
+  'session.messages': 'Messages :',
+  'session.agent': 'Conseiller :',
+  'session.rate': 'Évaluer ce chat',
+  'session.download': 'Télécharger la transcription',
+  'session.thanks': 'Merci pour votre avis !',
+
+  'endDialog.title': 'Terminer la session de chat',
+  'endDialog.confirm': 'Voulez-vous vraiment terminer cette session de chat ?',
+  'endDialog.details':
+    'Cette action est irréversible. Votre conversation sera enregistrée et vous pourrez en télécharger la transcription si besoin.',
+  'endDialog.duration': 'Durée de la session :',
+  'endDialog.messages': 'Messages échangés :',
+  'endDialog.continue': 'Continuer le chat',
+  'endDialog.end': 'Terminer le chat',
+
+  'rating.title': 'Évaluez votre expérience',
+  'rating.close': 'Fermer l’évaluation',
+  'rating.question': 'Comment s’est passé votre chat ?',
+  'rating.questionWithAgent': 'Comment s’est passé votre chat avec {name} ?',
+  'rating.subtitle': 'Votre avis nous aide à améliorer notre service.',
+  'rating.star':
+    '{score, plural, one {Noter # étoile sur 5} other {Noter # étoiles sur 5}}',
+  'rating.score':
+    '{score, select, 1 {Très mauvais} 2 {Mauvais} 3 {Moyen} 4 {Bon} 5 {Excellent} other {Choisissez une note}}',
+  'rating.comments': 'Commentaires',
+  'rating.placeholderLow': 'Dites-nous comment nous améliorer...',
+  'rating.placeholderAverage': 'D’autres remarques ? (facultatif)',
+  'rating.placeholderHigh': 'Qu’avez-vous apprécié ? (facultatif)',
+  'rating.skip': 'Passer',
+  'rating.submit': 'Envoyer la note',
+  'rating.submitting': 'Envoi...',
+
+  'transcriptDialog.title': 'Transcription du chat',
+  'transcriptDialog.close': 'Fermer la transcription',
+  'transcriptDialog.duration': 'Durée de la session :',
+  'transcriptDialog.messages': 'Messages :',
+  'transcriptDialog.date': 'Date :',
+  'transcriptDialog.preview': 'Aperçu',
+  'transcriptDialog.more':
+    '{count, plural, one {... et # autre message} other {... et # autres messages}}',
+  'transcriptDialog.format': 'Format',
+  'transcriptDialog.plainText': 'Texte brut',
+  'transcriptDialog.pdfUnavailable':
+    'Le PDF n’est pas disponible pour ce chat car la police du PDF ne peut pas afficher certains caractères.',
+  'transcriptDialog.email': 'Recevoir une copie par e-mail',
+  'transcriptDialog.emailPlaceholder': 'vous@exemple.fr',
+  'transcriptDialog.send': 'Envoyer',
+  'transcriptDialog.sending': 'Envoi...',
+  'transcriptDialog.sent': 'Transcription envoyée à {email}',
+  'transcriptDialog.emailFailed':
+    'La transcription n’a pas pu être envoyée. Veuillez réessayer.',
+  'transcriptDialog.copy': 'Copier dans le presse-papiers',
+  'transcriptDialog.download': 'Télécharger la transcription',
+  'transcriptDialog.downloading': 'Téléchargement...',
+
+  'transcript.title': 'Transcription du chat',
+  'transcript.heading': 'TRANSCRIPTION DU CHAT',
+  'transcript.conversation': 'CONVERSATION',
+  'transcript.end': 'Fin de la transcription',
+  'transcript.sessionId': 'ID de session',
+  'transcript.date': 'Date',
+  'transcript.duration': 'Durée',
+  'transcript.visitor': 'Visiteur',
+  'transcript.agent': 'Conseiller',
+  'transcript.system': 'Système',
+  'transcript.rating': 'Note',
+  'transcript.attachment': 'Pièce jointe : {name}',
+  'transcript.quickReplies': 'Réponses rapides : {replies}',
+
+  'survey.required': 'Veuillez répondre à cette question',
+  'survey.scoreRange': 'Veuillez choisir une note de {min} à {max}',
+  'survey.yesNoRequired': 'Veuillez répondre par oui ou par non',
+  'survey.invalidOption': 'Veuillez choisir l’une des options',
+  'survey.yes': 'Oui',
+  'survey.no': 'Non',
+  'survey.csatLow': 'Très insatisfait',
+  'survey.csatHigh': 'Très satisfait',
+  'survey.npsLow': 'Peu probable',
+  'survey.npsHigh': 'Très probable',
+  'survey.back': 'Retour',
+  'survey.skip': 'Passer',
+  'survey.next': 'Suivant',
+  'survey.submit': 'Envoyer',
+  'survey.failed':
+    'Vos réponses n’ont pas pu être envoyées. Veuillez réessayer.',
+  'survey.thankYou': 'Merci pour votre avis !',
+
+  'notification.connectionIssue': 'Problème de connexion',
+  'notification.connecting': 'Connexion',
+  'notification.connectingMessage': 'Connexion au service de chat...',
+  'notification.connected': 'Connecté',
+  'notification.connectedMessage': 'Connecté au service de chat',
+  'notification.reconnecting': 'Reconnexion',
+  'notification.reconnectingMessage':
+    'Connexion perdue. Tentative de reconnexion...',
+  'notification.disconnected': 'Déconnecté',
+  'notification.disconnectedMessage':
+    'Vous avez été déconnecté du service de chat',
+  'notification.failed': 'Échec de la connexion',
+  'notification.failedMessage':
+    'Impossible de se connecter au service de chat. Veuillez réessayer plus tard.',
+  'notification.agentConnected': 'Conseiller connecté',
+  'notification.agentJoined': '{name} a rejoint le chat',
+  'notification.anAgentJoined': 'Un conseiller a rejoint le chat',
+  'notification.agentDisconnected': 'Conseiller déconnecté',
+  'notification.agentLeft':
+    'Le conseiller a quitté le chat. Vous devrez peut-être attendre un autre conseiller.',
+  'notification.messageNotSent': 'Message non envoyé',
+  'notification.messageFailed': 'Le message n’a pas pu être envoyé',
+  'notification.messageFailedAfter':
+    'Le message n’a pas pu être envoyé après {count} tentatives',
+  'notification.offline': 'Hors ligne',
+  'notification.offlineMessage':
+    'Vous êtes hors ligne. Les messages seront envoyés au retour de la connexion.',
+  'notification.queued': 'Messages en attente',
+  'notification.queuedMessage':
+    '{count, plural, one {# message en attente d’envoi} other {# messages en attente d’envoi}}',
+  'notification.error.connectionLost':
+    'La connexion au service de chat a été perdue. Nous tentons de nous reconnecter automatiquement.',
+  'notification.error.messageSendFailed':
+    'Votre message n’a pas pu être envoyé. Nous réessaierons automatiquement.',
+  'notification.error.agentDisconnected':
+    'Le conseiller s’est déconnecté. Nous recherchons un autre conseiller disponible.',
+  'notification.error.sessionTimeout':
+    'Votre session de chat a expiré pour cause d’inactivité. Veuillez démarrer un nouveau chat.',
+  'notification.error.authenticationFailed':
+    'Un problème d’authentification est survenu. Veuillez actualiser la page et réessayer.',
+  'notification.error.rateLimitExceeded':
+    'Vous envoyez des messages trop rapidement. Veuillez patienter un instant avant de réessayer.',
+  'notification.error.unknown':
+    'Une erreur inattendue s’est produite. Nous travaillons à la résoudre.',
+  'notification.action.reconnect': 'Se reconnecter',
+  'notification.action.retry': 'Réessayer',
+  'notification.action.retryConnection': 'Réessayer la connexion',
+  'notification.action.retryMessage': 'Renvoyer le message',
+  'notification.action.findAgent': 'Trouver un conseiller',
+  'notification.action.startNewChat': 'Démarrer un nouveau chat',
+  'notification.action.dismiss': 'Ignorer',
+};
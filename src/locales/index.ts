@@ -0,0 +1,12 @@
+import type { LocaleBundle } from '../types/i18n';
+import { de } from './de';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+
+/**
+ * Built-in bundles keyed by language
+ */
+export const LOCALES: Record<string, LocaleBundle> = { en, es, fr, de };
+
+export { de, en, es, fr };
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AvailabilityService } from './AvailabilityService';
+import type { AvailabilityConfiguration } from '../types/widget';
+
+const businessHours: AvailabilityConfiguration['businessHours'] = {
+  timeZone: 'UTC',
+  weeklyHours: { monday: [{ open: '09:00', close: '17:00' }] },
+};
+
+// Monday 2026-10-19
+const OPEN = new Date('2026-10-19T10:00:00Z');
+const CLOSED = new Date('2026-10-19T18:00:00Z');
+
+const jsonResponse = (body: unknown, status = 200) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  }) as Response;
+
+describe('AvailabilityService', () => {
+  let fetchFn: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchFn = vi.fn().mockResolvedValue(jsonResponse({ available: true }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should be available without a schedule or endpoint', async () => {
+    const service = new AvailabilityService({}, fetchFn);
+
+    expect(await service.checkAvailability()).toBe(true);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should follow the business hours schedule', async () => {
+    const service = new AvailabilityService({ businessHours }, fetchFn);
+
+    expect(await service.checkAvailability(OPEN)).toBe(true);
+    expect(await service.checkAvailability(CLOSED)).toBe(false);
+    expect(service.isAvailable()).toBe(false);
+  });
+
+  it('should ask the availability endpoint during business hours', async () => {
+    fetchFn.mockResolvedValue(jsonResponse({ available: false }));
+    const service = new AvailabilityService(
+      { businessHours, availabilityEndpoint: 'https://api.example.com/hours' },
+      fetchFn
+    );
+
+    expect(await service.checkAvailability(OPEN)).toBe(false);
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://api.example.com/hours',
+      expect.objectContaining({ headers: { Accept: 'application/json' } })
+    );
+  });
+
+  it('should not ask the endpoint outside business hours', async () => {
+    const service = new AvailabilityService(
+      { businessHours, availabilityEndpoint: 'https://api.example.com/hours' },
+      fetchFn
+    );
+
+    expect(await service.checkAvailability(CLOSED)).toBe(false);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the schedule when the endpoint fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchFn.mockResolvedValue(jsonResponse({}, 503));
+    const service = new AvailabilityService(
+      { availabilityEndpoint: 'https://api.example.com/hours' },
+      fetchFn
+    );
+
+    expect(await service.checkAvailability()).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      'Failed to check availability:',
+      expect.any(Error)
+    );
+    warn.mockRestore();
+  });
+
+  it('should notify listeners only when availability changes', async () => {
+    const onAvailabilityChange = vi.fn();
+    const service = new AvailabilityService({ businessHours }, fetchFn);
+    service.on('onAvailabilityChange', onAvailabilityChange);
+
+    await service.checkAvailability(OPEN);
+    await service.checkAvailability(CLOSED);
+    await service.checkAvailability(CLOSED);
+    await service.checkAvailability(OPEN);
+
+    expect(onAvailabilityChange.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it('should poll on the configured interval until stopped', async () => {
+    vi.useFakeTimers();
+    const service = new AvailabilityService(
+      {
+        availabilityEndpoint: 'https://api.example.com/hours',
+        pollIntervalMs: 5000,
+      },
+      fetchFn
+    );
+
+    service.start();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+
+    service.cleanup();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+});
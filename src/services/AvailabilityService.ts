@@ -0,0 +1,129 @@
+import type { AvailabilityConfiguration } from '../types/widget';
+import { isWithinBusinessHours } from '../utils/businessHours';
+
+/**
+ * Availability service events
+ */
+export interface AvailabilityServiceEvents {
+  onAvailabilityChange: (available: boolean) => void;
+}
+
+/**
+ * Decides whether the widget is online from business hours and an optional
+ * availability endpoint
+ * An unreachable endpoint falls back to the business hours schedule
+ */
+export class AvailabilityService {
+  private config: AvailabilityConfiguration;
+  private fetchFn: typeof fetch;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private events: Partial<AvailabilityServiceEvents> = {};
+  private available = true;
+
+  constructor(config: AvailabilityConfiguration, fetchFn?: typeof fetch) {
+    this.config = config;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Check availability now and notify listeners when it changes
+   */
+  async checkAvailability(now: Date = new Date()): Promise<boolean> {
+    const { businessHours, availabilityEndpoint } = this.config;
+
+    let available = businessHours
+      ? isWithinBusinessHours(businessHours, now)
+      : true;
+
+    // The endpoint can only close an otherwise open widget, e.g. when no
+    // agents are staffed during business hours
+    if (available && availabilityEndpoint) {
+      available = await this.fetchAvailability(availabilityEndpoint);
+    }
+
+    if (available !== this.available) {
+      this.available = available;
+      this.events.onAvailabilityChange?.(available);
+    }
+
+    return available;
+  }
+
+  /**
+   * Poll on the configured interval
+   * Call checkAvailability() for the initial check
+   */
+  start(): void {
+    this.stop();
+
+    this.pollInterval = setInterval(
+      () => this.checkAvailability(),
+      this.config.pollIntervalMs ?? 60000
+    );
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Last known availability
+   */
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  /**
+   * Set event handlers
+   */
+  on<K extends keyof AvailabilityServiceEvents>(
+    event: K,
+    handler: AvailabilityServiceEvents[K]
+  ): void {
+    this.events[event] = handler;
+  }
+
+  /**
+   * Remove event handler
+   */
+  off<K extends keyof AvailabilityServiceEvents>(event: K): void {
+    delete this.events[event];
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    this.stop();
+    this.events = {};
+  }
+
+  /**
+   * Ask the availability endpoint whether chat is staffed
+   */
+  private async fetchAvailability(endpoint: string): Promise<boolean> {
+    try {
+      const response = await this.fetchFn(endpoint, {
+        headers: { Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Availability request failed with status ${response.status}`
+        );
+      }
+
+      const body = await response.json();
+      return body.available !== false;
+    } catch (error) {
+      console.warn('Failed to check availability:', error);
+      return true;
+    }
+  }
+}
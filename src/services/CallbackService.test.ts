@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CallbackService } from './CallbackService';
+
+describe('CallbackService', () => {
+  const request = {
+    contactId: 'contact-1',
+    displayName: 'Jamie',
+    answers: { name: 'Jamie', phone: '+44 20 7946 0000' },
+  };
+
+  it('should require an endpoint', () => {
+    expect(() => new CallbackService('')).toThrow(
+      'Callback endpoint is required'
+    );
+  });
+
+  it('should POST the request as JSON', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    const service = new CallbackService(
+      'https://api.example.com/callbacks',
+      fetchFn
+    );
+
+    await service.requestCallback(request);
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://api.example.com/callbacks',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const body = JSON.parse(fetchFn.mock.calls[0][1].body);
+    expect(body).toMatchObject(request);
+    expect(body.requestedAt).toEqual(expect.any(String));
+  });
+
+  it('should reject when the endpoint fails', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 502 });
+    const service = new CallbackService(
+      'https://api.example.com/callbacks',
+      fetchFn
+    );
+
+    await expect(service.requestCallback(request)).rejects.toThrow(
+      'Callback request failed with status 502'
+    );
+  });
+});
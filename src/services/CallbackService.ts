@@ -0,0 +1,50 @@
+import type { QueueStatus } from '../types/chat';
+
+/**
+ * Callback requested by a visitor instead of waiting in the queue
+ */
+export interface CallbackRequest {
+  contactId?: string; // Chat contact the visitor is leaving
+  displayName: string;
+  attributes?: Record<string, string>;
+  answers: Record<string, string>; // Raw form answers keyed by field id
+  queueStatus?: QueueStatus;
+}
+
+/**
+ * Submits callback requests to the configured endpoint
+ * The endpoint decides how the callback is scheduled, e.g. as a Connect
+ * outbound contact
+ */
+export class CallbackService {
+  private endpoint: string;
+  private fetchFn: typeof fetch;
+
+  constructor(endpoint: string, fetchFn?: typeof fetch) {
+    if (!endpoint) {
+      throw new Error('Callback endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Request a callback
+   */
+  async requestCallback(request: CallbackRequest): Promise<void> {
+    const response = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...request,
+        requestedAt: new Date().toISOString(),
+        pageUrl: typeof window !== 'undefined' ? window.location.href : '',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Callback request failed with status ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HttpChatStartBackend } from './ChatStartBackend';
+import type { StartChatContactRequest } from '../types/aws-connect';
+
+describe('HttpChatStartBackend', () => {
+  const request: StartChatContactRequest = {
+    instanceId: '12345678-1234-1234-1234-123456789012',
+    contactFlowId: '87654321-4321-4321-4321-210987654321',
+    participantDetails: {
+      displayName: 'Test User',
+      email: 'test@example.com',
+      attributes: { topic: 'billing' },
+    },
+  };
+
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const jsonResponse = (body: unknown, status = 200) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: vi.fn().mockResolvedValue(body),
+  });
+
+  beforeEach(() => {
+    mockFetch = vi.fn().mockResolvedValue(
+      jsonResponse({
+        contactId: 'contact-1',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+      })
+    );
+  });
+
+  it('should require an endpoint', () => {
+    expect(() => new HttpChatStartBackend('')).toThrow(
+      'API Gateway endpoint is required'
+    );
+  });
+
+  it('should POST participant details, instanceId and contactFlowId', async () => {
+    const backend = new HttpChatStartBackend('https://api.example.com/chat', {
+      fetchFn: mockFetch,
+    });
+
+    await backend.startChatContact(request);
+
+    expect(mockFetch).toHaveBeenCalledWith('https://api.example.com/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        instanceId: request.instanceId,
+        contactFlowId: request.contactFlowId,
+        participantDetails: {
+          displayName: 'Test User',
+          email: 'test@example.com',
+          attributes: { topic: 'billing' },
+        },
+      }),
+    });
+  });
+
+  it('should map camelCase backend reply into StartChatContactResponse', async () => {
+    const backend = new HttpChatStartBackend('https://api.example.com/chat', {
+      fetchFn: mockFetch,
+    });
+
+    await expect(backend.startChatContact(request)).resolves.toEqual({
+      ContactId: 'contact-1',
+      ParticipantId: 'participant-1',
+      ParticipantToken: 'participant-token',
+    });
+  });
+
+  it('should accept raw StartChatContact output', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        ContactId: 'contact-2',
+        ParticipantId: 'participant-2',
+        ParticipantToken: 'token-2',
+      })
+    );
+    const backend = new HttpChatStartBackend('https://api.example.com/chat', {
+      fetchFn: mockFetch,
+    });
+
+    await expect(backend.startChatContact(request)).resolves.toEqual({
+      ContactId: 'contact-2',
+      ParticipantId: 'participant-2',
+      ParticipantToken: 'token-2',
+    });
+  });
+
+  it('should include static and dynamic headers', async () => {
+    const staticBackend = new HttpChatStartBackend('https://api.example.com', {
+      fetchFn: mockFetch,
+      headers: { 'x-api-key': 'key' },
+    });
+    await staticBackend.startChatContact(request);
+
+    const dynamicBackend = new HttpChatStartBackend('https://api.example.com', {
+      fetchFn: mockFetch,
+      headers: async () => ({ Authorization: 'Bearer token' }),
+    });
+    await dynamicBackend.startChatContact(request);
+
+    expect(mockFetch.mock.calls[0][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      'x-api-key': 'key',
+    });
+    expect(mockFetch.mock.calls[1][1].headers).toEqual({
+      'Content-Type': 'application/json',
+      Authorization: 'Bearer token',
+    });
+  });
+
+  it('should throw on non-2xx responses', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: 'nope' }, 500));
+    const backend = new HttpChatStartBackend('https://api.example.com/chat', {
+      fetchFn: mockFetch,
+    });
+
+    await expect(backend.startChatContact(request)).rejects.toThrow(
+      'StartChatContact request failed with status 500'
+    );
+  });
+
+  it('should throw on incomplete replies', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ contactId: 'contact-1' }));
+    const backend = new HttpChatStartBackend('https://api.example.com/chat', {
+      fetchFn: mockFetch,
+    });
+
+    await expect(backend.startChatContact(request)).rejects.toThrow(
+      'Invalid StartChatContact response from backend'
+    );
+  });
+});
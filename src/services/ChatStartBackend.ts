@@ -0,0 +1,114 @@
+import type {
+  StartChatContactRequest,
+  StartChatContactResponse,
+} from '../types/aws-connect';
+
+/**
+ * Backend client that starts chat contacts on behalf of the widget
+ * StartChatContact requires AWS credentials, so it must run server side
+ */
+export interface ChatStartBackend {
+  startChatContact(
+    request: StartChatContactRequest
+  ): Promise<StartChatContactResponse>;
+}
+
+/**
+ * Options for the default HTTP backend client
+ */
+export interface HttpChatStartBackendOptions {
+  headers?:
+    | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Default ChatStartBackend that POSTs to the configured API Gateway endpoint
+ * Follows the Lambda contract described in docs/setup-guide.md
+ */
+export class HttpChatStartBackend implements ChatStartBackend {
+  private endpoint: string;
+  private options: HttpChatStartBackendOptions;
+
+  constructor(endpoint: string, options: HttpChatStartBackendOptions = {}) {
+    if (!endpoint) {
+      throw new Error('API Gateway endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.options = options;
+  }
+
+  /**
+   * Start a chat contact through the backend endpoint
+   */
+  async startChatContact(
+    request: StartChatContactRequest
+  ): Promise<StartChatContactResponse> {
+    const fetchFn = this.options.fetchFn || fetch;
+    const headers = await this.resolveHeaders();
+
+    const response = await fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify({
+        instanceId: request.instanceId,
+        contactFlowId: request.contactFlowId,
+        participantDetails: {
+          displayName: request.participantDetails.displayName,
+          email: request.participantDetails.email,
+          attributes: request.participantDetails.attributes,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `StartChatContact request failed with status ${response.status}`
+      );
+    }
+
+    return this.mapResponse(await response.json());
+  }
+
+  /**
+   * Resolve static or dynamic request headers
+   */
+  private async resolveHeaders(): Promise<Record<string, string>> {
+    const { headers } = this.options;
+
+    if (typeof headers === 'function') {
+      return await headers();
+    }
+
+    return headers || {};
+  }
+
+  /**
+   * Map the backend reply into a StartChatContactResponse
+   * Accepts both the camelCase Lambda contract and raw AWS SDK output
+   */
+  private mapResponse(body: Record<string, unknown>): StartChatContactResponse {
+    const contactId = body.contactId ?? body.ContactId;
+    const participantId = body.participantId ?? body.ParticipantId;
+    const participantToken = body.participantToken ?? body.ParticipantToken;
+
+    if (
+      typeof contactId !== 'string' ||
+      typeof participantId !== 'string' ||
+      typeof participantToken !== 'string'
+    ) {
+      throw new Error('Invalid StartChatContact response from backend');
+    }
+
+    return {
+      ContactId: contactId,
+      ParticipantId: participantId,
+      ParticipantToken: participantToken,
+    };
+  }
+}
@@ -1,6 +1,41 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { ConnectService } from './ConnectService';
-import type { ParticipantDetails, ChatSession } from '../types/aws-connect';
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from 'vitest';
+import {
+  ConnectService,
+  type ConnectServiceDependencies,
+} from './ConnectService';
+import type { ConnectServiceConfig } from './ConnectServiceFactory';
+import { HttpChatStartBackend } from './ChatStartBackend';
+import {
+  WebSocketManager,
+  type WebSocketMessageHandler,
+} from './WebSocketManager';
+import { MessageQueue } from './MessageQueue';
+import { ConnectionRefreshScheduler } from './ConnectionRefreshScheduler';
+import { ErrorHandler } from './ErrorHandler';
+import { NotificationService } from './NotificationService';
+import { ChatStorage } from '../utils/storage';
+import {
+  ConnectParticipantClient,
+  CreateParticipantConnectionCommand,
+  GetTranscriptCommand,
+  StartAttachmentUploadCommand,
+  CompleteAttachmentUploadCommand,
+  GetAttachmentCommand,
+  SendEventCommand,
+} from '@aws-sdk/client-connectparticipant';
+import type {
+  ParticipantDetails,
+  ChatSession,
+  ConnectParticipantEvent,
+} from '../types/aws-connect';
 
 // Mock AWS SDK
 vi.mock('@aws-sdk/client-connectparticipant', () => ({
@@ -12,6 +47,9 @@ vi.mock('@aws-sdk/client-connectparticipant', () => ({
   GetTranscriptCommand: vi.fn(),
   DisconnectParticipantCommand: vi.fn(),
   SendEventCommand: vi.fn(),
+  StartAttachmentUploadCommand: vi.fn(),
+  CompleteAttachmentUploadCommand: vi.fn(),
+  GetAttachmentCommand: vi.fn(),
 }));
 
 // Mock WebSocket
@@ -27,14 +65,65 @@ const mockWebSocket = {
 
 global.WebSocket = vi.fn().mockImplementation(() => mockWebSocket);
 
+const validConfig: ConnectServiceConfig = {
+  region: 'us-east-1',
+  instanceId: '12345678-1234-1234-1234-123456789012',
+  contactFlowId: '87654321-4321-4321-4321-210987654321',
+};
+
 describe('ConnectService', () => {
   let connectService: ConnectService;
-  let mockClient: any;
+  let mockClient: { send: Mock };
+  let webSocketManager: WebSocketManager;
+  let messageQueue: MessageQueue;
+  let webSocketHandler: WebSocketMessageHandler;
+
+  /**
+   * Create a service around the mock participant client
+   */
+  const createService = (dependencies: ConnectServiceDependencies = {}) =>
+    new ConnectService(validConfig, {
+      client: mockClient as unknown as ConnectParticipantClient,
+      ...dependencies,
+    });
+
+  /**
+   * Resume a stored contact so the service has an active session
+   */
+  const startSession = async (
+    service = connectService,
+    connectionCredentials: Record<string, string> = {}
+  ) => {
+    ChatStorage.saveContactSession({
+      contactId: 'contact-1',
+      participantId: 'participant-1',
+      participantToken: 'participant-token',
+      startTime: '2023-01-01T00:00:00.000Z',
+    });
+    mockClient.send.mockResolvedValueOnce({
+      ConnectionCredentials: {
+        ConnectionToken: 'mock-token',
+        ...connectionCredentials,
+      },
+      Websocket: { Url: 'wss://example.com' },
+    });
+
+    const session = await service.resumeChat();
+    mockClient.send.mockClear();
+    vi.mocked(CreateParticipantConnectionCommand).mockClear();
+    return session;
+  };
 
   beforeEach(() => {
     vi.clearAllMocks();
-    connectService = new ConnectService('us-east-1');
-    mockClient = (connectService as any).client;
+    sessionStorage.clear();
+    mockClient = { send: vi.fn() };
+    webSocketManager = new WebSocketManager();
+    vi.spyOn(webSocketManager, 'connect').mockResolvedValue(undefined);
+    const setMessageHandler = vi.spyOn(webSocketManager, 'setMessageHandler');
+    messageQueue = new MessageQueue();
+    connectService = createService({ webSocketManager, messageQueue });
+    webSocketHandler = setMessageHandler.mock.calls[0][0];
   });
 
   afterEach(() => {
@@ -42,14 +131,75 @@ describe('ConnectService', () => {
   });
 
   describe('constructor', () => {
-    it('should create ConnectService with default region', () => {
-      const service = new ConnectService();
+    it('should create ConnectService with the provided configuration', () => {
+      const service = new ConnectService(validConfig);
       expect(service).toBeInstanceOf(ConnectService);
+      expect((service as any).config).toEqual(validConfig);
     });
 
-    it('should create ConnectService with specified region', () => {
-      const service = new ConnectService('us-west-2');
-      expect(service).toBeInstanceOf(ConnectService);
+    it('should validate configuration on construction', () => {
+      expect(
+        () => new ConnectService({ ...validConfig, instanceId: 'invalid' })
+      ).toThrow('Invalid AWS Connect instance ID format');
+    });
+
+    it('should create the default HTTP backend from apiGatewayEndpoint', async () => {
+      const startChatContact = vi
+        .spyOn(HttpChatStartBackend.prototype, 'startChatContact')
+        .mockRejectedValue(new Error('Backend unavailable'));
+      const service = new ConnectService({
+        ...validConfig,
+        apiGatewayEndpoint: 'https://api.example.com/chat',
+      });
+
+      await expect(
+        service.initializeChat({ displayName: 'Test User' })
+      ).rejects.toThrow('Backend unavailable');
+      expect(startChatContact).toHaveBeenCalled();
+    });
+
+    it('should point the participant client at participantEndpoint', () => {
+      new ConnectService({
+        ...validConfig,
+        participantEndpoint: 'http://127.0.0.1:8787',
+      });
+
+      expect(ConnectParticipantClient).toHaveBeenCalledWith(
+        expect.objectContaining({
+          region: 'us-east-1',
+          endpoint: 'http://127.0.0.1:8787',
+        })
+      );
+    });
+
+    it('should use injected collaborators', async () => {
+      const errorHandler = new ErrorHandler();
+      const notificationService = new NotificationService();
+
+      const service = createService({
+        webSocketManager,
+        messageQueue,
+        errorHandler,
+        notificationService,
+      });
+      const enqueue = vi.spyOn(messageQueue, 'enqueue');
+      const session = await startSession(service);
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(false);
+      await service.sendMessage('Hello', 'msg-local-1');
+
+      // The mock client answered CreateParticipantConnection
+      expect(session?.connectionToken).toBe('mock-token');
+      expect(webSocketManager.connect).toHaveBeenCalledWith(
+        'wss://example.com'
+      );
+      expect(enqueue).toHaveBeenCalledWith(
+        'Hello',
+        undefined,
+        'msg-local-1',
+        'text/plain'
+      );
+      expect(service.getErrorHandler()).toBe(errorHandler);
+      expect(service.getNotificationService()).toBe(notificationService);
     });
   });
 
@@ -67,6 +217,51 @@ describe('ConnectService', () => {
       );
     });
 
+    it('should start the contact through the configured backend', async () => {
+      const backend = {
+        startChatContact: vi.fn().mockResolvedValue({
+          ContactId: 'contact-1',
+          ParticipantId: 'participant-1',
+          ParticipantToken: 'participant-token',
+        }),
+      };
+      const service = createService({
+        webSocketManager,
+        chatStartBackend: backend,
+      });
+      mockClient.send.mockResolvedValue({
+        ConnectionCredentials: {
+          ConnectionToken: 'connection-token',
+          Expiry: '2023-01-01T01:00:00Z',
+        },
+        Websocket: {
+          Url: 'wss://example.com',
+          ConnectionExpiry: '2023-01-01T01:00:00Z',
+        },
+      });
+
+      const session = await service.initializeChat(mockParticipantDetails);
+
+      expect(backend.startChatContact).toHaveBeenCalledWith({
+        instanceId: validConfig.instanceId,
+        contactFlowId: validConfig.contactFlowId,
+        participantDetails: mockParticipantDetails,
+      });
+      expect(session).toMatchObject({
+        contactId: 'contact-1',
+        connectionToken: 'connection-token',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+        websocketUrl: 'wss://example.com',
+      });
+      expect(ChatStorage.loadContactSession()).toEqual({
+        contactId: 'contact-1',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+        startTime: session.startTime.toISOString(),
+      });
+    });
+
     it('should notify connection status changes', async () => {
       const statusCallback = vi.fn();
       connectService.onConnectionStatusChange(statusCallback);
@@ -90,8 +285,7 @@ describe('ConnectService', () => {
     });
 
     it('should send message when session is active', async () => {
-      // Set up mock session
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockResolvedValue({});
 
       await connectService.sendMessage('Hello');
@@ -100,7 +294,7 @@ describe('ConnectService', () => {
     });
 
     it('should handle send message errors', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockRejectedValue(new Error('Network error'));
 
       await expect(connectService.sendMessage('Hello')).rejects.toThrow(
@@ -109,6 +303,64 @@ describe('ConnectService', () => {
     });
   });
 
+  describe('message correlation', () => {
+    beforeEach(async () => {
+      await startSession();
+    });
+
+    it('should acknowledge sent messages with the server ID', async () => {
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(true);
+      mockClient.send.mockResolvedValue({
+        Id: 'server-1',
+        AbsoluteTime: '2024-01-01T10:00:00.000Z',
+      });
+      const onAck = vi.fn();
+      connectService.onMessageAcknowledged(onAck);
+
+      const ack = await connectService.sendMessage('Hello', 'msg-local-1');
+
+      expect(ack).toEqual({
+        clientMessageId: 'msg-local-1',
+        messageId: 'server-1',
+        timestamp: new Date('2024-01-01T10:00:00.000Z'),
+      });
+      expect(onAck).toHaveBeenCalledWith(ack);
+    });
+
+    it('should queue messages under the local ID while disconnected', async () => {
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(false);
+
+      const ack = await connectService.sendMessage('Hello', 'msg-local-1');
+
+      expect(ack).toBeNull();
+      expect(messageQueue.getQueuedMessages()[0].id).toBe('msg-local-1');
+    });
+
+    it('should tag echoed visitor messages with their local ID', async () => {
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(true);
+      mockClient.send.mockResolvedValue({ Id: 'server-1' });
+      const onMessage = vi.fn();
+      connectService.onMessageReceived(onMessage);
+
+      await connectService.sendMessage('Hello', 'msg-local-1');
+      webSocketHandler.onMessage({
+        id: 'server-1',
+        content: 'Hello',
+        sender: 'visitor',
+        timestamp: new Date(),
+        status: 'delivered',
+        type: 'text',
+      });
+
+      expect(onMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'server-1',
+          clientMessageId: 'msg-local-1',
+        })
+      );
+    });
+  });
+
   describe('receiveMessages', () => {
     it('should throw error when no active session', async () => {
       await expect(connectService.receiveMessages()).rejects.toThrow(
@@ -117,7 +369,7 @@ describe('ConnectService', () => {
     });
 
     it('should receive and convert messages', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
 
       const mockTranscript = [
         {
@@ -143,28 +395,250 @@ describe('ConnectService', () => {
     });
 
     it('should handle empty transcript', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockResolvedValue({ Transcript: [] });
 
       const messages = await connectService.receiveMessages();
 
       expect(messages).toHaveLength(0);
     });
+
+    it('should follow NextToken until the whole transcript is fetched', async () => {
+      await startSession();
+      mockClient.send
+        .mockResolvedValueOnce({
+          Transcript: [{ Id: '1', Content: 'First', Type: 'MESSAGE' }],
+          NextToken: 'page-2',
+        })
+        .mockResolvedValueOnce({
+          Transcript: [{ Id: '2', Content: 'Second', Type: 'MESSAGE' }],
+        });
+
+      const messages = await connectService.receiveMessages();
+
+      expect(messages.map(m => m.id)).toEqual(['1', '2']);
+      expect(GetTranscriptCommand).toHaveBeenCalledTimes(2);
+      expect(GetTranscriptCommand).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          ConnectionToken: 'mock-token',
+          NextToken: 'page-2',
+          ScanDirection: 'FORWARD',
+        })
+      );
+    });
+
+    it('should skip non-message transcript items', async () => {
+      await startSession();
+      mockClient.send.mockResolvedValue({
+        Transcript: [
+          {
+            Id: '1',
+            Type: 'EVENT',
+            ContentType:
+              'application/vnd.amazonaws.connect.event.participant.joined',
+          },
+          { Id: '2', Type: 'MESSAGE', Content: 'Hi' },
+        ],
+      });
+
+      const messages = await connectService.receiveMessages();
+
+      expect(messages.map(m => m.id)).toEqual(['2']);
+    });
+  });
+
+  describe('iterateTranscript', () => {
+    it('should yield one page per GetTranscript call', async () => {
+      await startSession();
+      mockClient.send
+        .mockResolvedValueOnce({
+          Transcript: [{ Id: '1', Content: 'First' }],
+          NextToken: 'page-2',
+        })
+        .mockResolvedValueOnce({ Transcript: [] });
+
+      const pages = [];
+      for await (const page of connectService.iterateTranscript({
+        maxResults: 1,
+      })) {
+        pages.push(page);
+      }
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].nextToken).toBe('page-2');
+      expect(pages[1]).toEqual({ messages: [], nextToken: undefined });
+      expect(GetTranscriptCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ MaxResults: 1 })
+      );
+    });
+  });
+
+  describe('getMessagesBefore', () => {
+    it('should scan backward from the given message', async () => {
+      await startSession();
+      mockClient.send.mockResolvedValue({
+        Transcript: [
+          {
+            Id: 'older',
+            Content: 'Older',
+            AbsoluteTime: '2023-01-01T00:00:00Z',
+          },
+          {
+            Id: 'anchor',
+            Content: 'Anchor',
+            AbsoluteTime: '2023-01-01T00:01:00Z',
+          },
+        ],
+        NextToken: 'older-page',
+      });
+
+      const page = await connectService.getMessagesBefore('anchor', {
+        maxResults: 20,
+      });
+
+      expect(GetTranscriptCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          MaxResults: 20,
+          ScanDirection: 'BACKWARD',
+          StartPosition: {
+            Id: 'anchor',
+            AbsoluteTime: undefined,
+            MostRecent: undefined,
+          },
+        })
+      );
+      expect(page.messages.map(m => m.id)).toEqual(['older']);
+      expect(page.nextToken).toBe('older-page');
+    });
+
+    it('should throw error when no active session', async () => {
+      await expect(connectService.getMessagesBefore('anchor')).rejects.toThrow(
+        'No active chat session'
+      );
+    });
+  });
+
+  describe('attachments', () => {
+    const file = new File(['hello'], 'notes.txt', { type: 'text/plain' });
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      mockFetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      connectService = createService({ webSocketManager, fetchFn: mockFetch });
+      await startSession();
+    });
+
+    it('should start, upload and complete an attachment', async () => {
+      mockClient.send
+        .mockResolvedValueOnce({
+          AttachmentId: 'attachment-1',
+          UploadMetadata: {
+            Url: 'https://upload.example.com',
+            HeadersToInclude: { 'x-amz-meta': 'value' },
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      const attachment = await connectService.sendAttachment(file);
+
+      expect(StartAttachmentUploadCommand).toHaveBeenCalledWith({
+        ConnectionToken: 'mock-token',
+        AttachmentName: 'notes.txt',
+        AttachmentSizeInBytes: file.size,
+        ContentType: 'text/plain',
+      });
+      expect(mockFetch).toHaveBeenCalledWith('https://upload.example.com', {
+        method: 'PUT',
+        headers: { 'x-amz-meta': 'value' },
+        body: file,
+      });
+      expect(CompleteAttachmentUploadCommand).toHaveBeenCalledWith({
+        ConnectionToken: 'mock-token',
+        AttachmentIds: ['attachment-1'],
+      });
+      expect(attachment).toEqual({
+        id: 'attachment-1',
+        name: 'notes.txt',
+        mimeType: 'text/plain',
+        size: file.size,
+      });
+    });
+
+    it('should not complete the upload when the PUT fails', async () => {
+      mockClient.send.mockResolvedValueOnce({
+        AttachmentId: 'attachment-1',
+        UploadMetadata: { Url: 'https://upload.example.com' },
+      });
+      mockFetch.mockResolvedValue({ ok: false, status: 403 });
+
+      await expect(connectService.sendAttachment(file)).rejects.toThrow(
+        'Failed to upload attachment: Upload failed with status 403'
+      );
+      expect(CompleteAttachmentUploadCommand).not.toHaveBeenCalled();
+    });
+
+    it('should resolve attachment download URLs', async () => {
+      mockClient.send.mockResolvedValue({
+        Url: 'https://download.example.com',
+        AttachmentSizeInBytes: 5,
+      });
+
+      await expect(
+        connectService.getAttachmentUrl('attachment-1')
+      ).resolves.toBe('https://download.example.com');
+      expect(GetAttachmentCommand).toHaveBeenCalledWith({
+        ConnectionToken: 'mock-token',
+        AttachmentId: 'attachment-1',
+      });
+    });
+
+    it('should convert attachment transcript items', async () => {
+      mockClient.send.mockResolvedValue({
+        Transcript: [
+          {
+            Id: 'item-1',
+            Type: 'ATTACHMENT',
+            ParticipantRole: 'AGENT',
+            Attachments: [
+              {
+                AttachmentId: 'attachment-2',
+                AttachmentName: 'receipt.png',
+                ContentType: 'image/png',
+              },
+            ],
+          },
+        ],
+      });
+
+      const messages = await connectService.receiveMessages();
+
+      expect(messages[0]).toMatchObject({
+        type: 'image',
+        content: 'receipt.png',
+        attachment: {
+          id: 'attachment-2',
+          name: 'receipt.png',
+          mimeType: 'image/png',
+        },
+      });
+    });
   });
 
   describe('endChat', () => {
     it('should disconnect and cleanup when session exists', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockResolvedValue({});
 
       await connectService.endChat();
 
       expect(mockClient.send).toHaveBeenCalledTimes(1);
-      expect((connectService as any).connectionToken).toBeNull();
+      await expect(connectService.receiveMessages()).rejects.toThrow(
+        'No active chat session'
+      );
     });
 
     it('should cleanup even when disconnect fails', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockRejectedValue(new Error('Disconnect failed'));
 
       const statusCallback = vi.fn();
@@ -175,7 +649,9 @@ describe('ConnectService', () => {
       );
 
       // Should still cleanup
-      expect((connectService as any).connectionToken).toBeNull();
+      await expect(connectService.receiveMessages()).rejects.toThrow(
+        'No active chat session'
+      );
     });
   });
 
@@ -184,23 +660,42 @@ describe('ConnectService', () => {
       const callback = vi.fn();
       connectService.onMessageReceived(callback);
 
-      expect((connectService as any).messageCallbacks).toContain(callback);
+      const message = {
+        id: 'message-1',
+        content: 'Hello',
+        sender: 'agent' as const,
+        timestamp: new Date(),
+        status: 'delivered' as const,
+        type: 'text' as const,
+      };
+      webSocketHandler.onMessage(message);
+
+      expect(callback).toHaveBeenCalledWith(message);
     });
 
     it('should register agent status callback', () => {
       const callback = vi.fn();
       connectService.onAgentStatusChange(callback);
 
-      expect((connectService as any).agentStatusCallbacks).toContain(callback);
+      webSocketHandler.onParticipantEvent?.({
+        type: 'participant.joined',
+        participantId: 'agent-1',
+        participantRole: 'AGENT',
+        timestamp: new Date(),
+      });
+
+      expect(callback).toHaveBeenCalledWith(
+        expect.objectContaining({ agentId: 'agent-1', status: 'online' })
+      );
     });
 
     it('should register connection status callback', () => {
       const callback = vi.fn();
       connectService.onConnectionStatusChange(callback);
 
-      expect((connectService as any).connectionStatusCallbacks).toContain(
-        callback
-      );
+      webSocketHandler.onConnectionStatusChange('reconnecting');
+
+      expect(callback).toHaveBeenCalledWith('reconnecting');
     });
   });
 
@@ -210,7 +705,7 @@ describe('ConnectService', () => {
     });
 
     it('should send typing event when session is active', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockResolvedValue({});
 
       await connectService.sendTypingEvent();
@@ -219,13 +714,83 @@ describe('ConnectService', () => {
     });
 
     it('should not throw when typing event fails', async () => {
-      (connectService as any).connectionToken = 'mock-token';
+      await startSession();
       mockClient.send.mockRejectedValue(new Error('Network error'));
 
       await expect(connectService.sendTypingEvent()).resolves.toBeUndefined();
     });
   });
 
+  describe('resumeChat', () => {
+    const connectionResponse = {
+      ConnectionCredentials: {
+        ConnectionToken: 'resumed-token',
+        Expiry: '2023-01-01T01:00:00Z',
+      },
+      Websocket: {
+        Url: 'wss://example.com/resumed',
+        ConnectionExpiry: '2023-01-01T01:00:00Z',
+      },
+    };
+
+    it('should return null when there is no stored contact', async () => {
+      await expect(connectService.resumeChat()).resolves.toBeNull();
+      expect(mockClient.send).not.toHaveBeenCalled();
+    });
+
+    it('should reconnect the stored contact', async () => {
+      ChatStorage.saveContactSession({
+        contactId: 'contact-1',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+        startTime: '2023-01-01T00:00:00.000Z',
+      });
+      mockClient.send.mockResolvedValue(connectionResponse);
+
+      const session = await connectService.resumeChat();
+
+      expect(CreateParticipantConnectionCommand).toHaveBeenCalledWith({
+        ParticipantToken: 'participant-token',
+        Type: ['WEBSOCKET', 'CONNECTION_CREDENTIALS'],
+      });
+      expect(webSocketManager.connect).toHaveBeenCalledWith(
+        'wss://example.com/resumed'
+      );
+      expect(session).toEqual({
+        contactId: 'contact-1',
+        connectionToken: 'resumed-token',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+        websocketUrl: 'wss://example.com/resumed',
+        startTime: new Date('2023-01-01T00:00:00.000Z'),
+      });
+    });
+
+    it('should clear the stored contact when it can no longer be resumed', async () => {
+      ChatStorage.saveContactSession({
+        contactId: 'contact-1',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+        startTime: '2023-01-01T00:00:00.000Z',
+      });
+      mockClient.send.mockRejectedValue(new Error('Access denied'));
+
+      await expect(connectService.resumeChat()).rejects.toThrow(
+        'Failed to resume chat: Access denied'
+      );
+      expect(ChatStorage.loadContactSession()).toBeNull();
+    });
+
+    it('should clear the stored contact when the chat ends', async () => {
+      await startSession();
+      mockClient.send.mockResolvedValue({});
+
+      await connectService.endChat();
+
+      expect(ChatStorage.loadContactSession()).toBeNull();
+    });
+  });
+
   describe('refreshConnectionToken', () => {
     it('should throw error when no participant token', async () => {
       await expect(connectService.refreshConnectionToken()).rejects.toThrow(
@@ -234,7 +799,7 @@ describe('ConnectService', () => {
     });
 
     it('should refresh token when participant token exists', async () => {
-      (connectService as any).participantToken = 'mock-participant-token';
+      await startSession();
 
       const mockResponse = {
         ConnectionCredentials: {
@@ -247,11 +812,263 @@ describe('ConnectService', () => {
         },
       };
 
-      mockClient.send.mockResolvedValue(mockResponse);
+      mockClient.send.mockResolvedValueOnce(mockResponse);
+
+      const expiresAt = await connectService.refreshConnectionToken();
+
+      expect(expiresAt).toEqual(new Date('2023-01-01T01:00:00Z'));
+
+      mockClient.send.mockResolvedValue({ Transcript: [] });
+      await connectService.receiveMessages();
+
+      expect(GetTranscriptCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ ConnectionToken: 'new-token' })
+      );
+    });
+
+    it('should swap to the new WebSocket URL for an active session', async () => {
+      await startSession();
+      const switchUrl = vi
+        .spyOn(webSocketManager, 'switchUrl')
+        .mockResolvedValue(undefined);
+
+      mockClient.send.mockResolvedValue({
+        ConnectionCredentials: {
+          ConnectionToken: 'new-token',
+          Expiry: '2023-01-01T02:00:00Z',
+        },
+        Websocket: {
+          Url: 'wss://example.com/new',
+          ConnectionExpiry: '2023-01-01T01:30:00Z',
+        },
+      });
+
+      const expiresAt = await connectService.refreshConnectionToken();
+
+      expect(switchUrl).toHaveBeenCalledWith('wss://example.com/new');
+      expect(expiresAt).toEqual(new Date('2023-01-01T01:30:00Z'));
+    });
+
+    it('should reconnect with the new credentials when the socket dropped', async () => {
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(false);
+      const switchUrl = vi
+        .spyOn(webSocketManager, 'switchUrl')
+        .mockResolvedValue(undefined);
+      await startSession();
+
+      mockClient.send.mockResolvedValue({
+        ConnectionCredentials: {
+          ConnectionToken: 'new-token',
+          Expiry: '2023-01-01T02:00:00Z',
+        },
+        Websocket: {
+          Url: 'wss://example.com',
+          ConnectionExpiry: '2023-01-01T01:30:00Z',
+        },
+      });
 
       await connectService.refreshConnectionToken();
 
-      expect((connectService as any).connectionToken).toBe('new-token');
+      expect(switchUrl).toHaveBeenCalledWith('wss://example.com');
+    });
+
+    it('should leave reporting a failed refresh to the caller', async () => {
+      const errorHandler = new ErrorHandler();
+      const handleError = vi.spyOn(errorHandler, 'handleError');
+      const service = createService({ webSocketManager, errorHandler });
+      await startSession(service);
+
+      mockClient.send.mockRejectedValue(new Error('Network error'));
+
+      await expect(service.refreshConnectionToken()).rejects.toThrow(
+        'Failed to refresh connection token: Network error'
+      );
+      expect(handleError).not.toHaveBeenCalled();
+    });
+
+    it('should schedule a refresh when the connection opens', async () => {
+      const connectionRefreshScheduler = new ConnectionRefreshScheduler();
+      const schedule = vi
+        .spyOn(connectionRefreshScheduler, 'schedule')
+        .mockImplementation(() => undefined);
+      const service = createService({
+        webSocketManager,
+        connectionRefreshScheduler,
+      });
+
+      await startSession(service, { Expiry: '2023-01-01T01:00:00Z' });
+
+      expect(schedule).toHaveBeenCalledWith(
+        new Date('2023-01-01T01:00:00Z'),
+        expect.any(Function)
+      );
+    });
+
+    it('should time out the session when refresh keeps failing', async () => {
+      const connectionRefreshScheduler = new ConnectionRefreshScheduler(
+        0,
+        1,
+        0
+      );
+      const errorHandler = new ErrorHandler();
+      const handleSessionTimeout = vi
+        .spyOn(errorHandler, 'handleSessionTimeout')
+        .mockResolvedValue(undefined);
+      const service = createService({
+        webSocketManager,
+        connectionRefreshScheduler,
+        errorHandler,
+      });
+      const onStatus = vi.fn();
+      service.onConnectionStatusChange(onStatus);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await startSession(service, { Expiry: '2023-01-01T01:00:00Z' });
+      mockClient.send.mockRejectedValue(new Error('Network error'));
+
+      await vi.waitFor(() => expect(onStatus).toHaveBeenCalledWith('failed'));
+      expect(handleSessionTimeout).toHaveBeenCalled();
+      connectionRefreshScheduler.cleanup();
+    });
+  });
+
+  describe('message receipts', () => {
+    beforeEach(async () => {
+      await startSession();
+      mockClient.send.mockResolvedValue({});
+    });
+
+    it('should send a read receipt once per message', async () => {
+      await connectService.sendReadReceipt('message-1');
+      await connectService.sendReadReceipt('message-1');
+
+      expect(SendEventCommand).toHaveBeenCalledTimes(1);
+      expect(SendEventCommand).toHaveBeenCalledWith({
+        ConnectionToken: 'mock-token',
+        ContentType: 'application/vnd.amazonaws.connect.event.message.read',
+        Content: JSON.stringify({ messageId: 'message-1' }),
+      });
+    });
+
+    it('should retry receipts that failed to send', async () => {
+      mockClient.send.mockRejectedValueOnce(new Error('Throttled'));
+
+      await connectService.sendReadReceipt('message-1');
+      await connectService.sendReadReceipt('message-1');
+
+      expect(mockClient.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send delivered receipts for incoming agent messages', () => {
+      webSocketHandler.onMessage({
+        id: 'message-2',
+        content: 'Hello',
+        sender: 'agent',
+        timestamp: new Date(),
+        status: 'delivered',
+        type: 'text',
+      });
+
+      expect(SendEventCommand).toHaveBeenCalledWith({
+        ConnectionToken: 'mock-token',
+        ContentType:
+          'application/vnd.amazonaws.connect.event.message.delivered',
+        Content: JSON.stringify({ messageId: 'message-2' }),
+      });
+    });
+
+    it('should mark transcript messages read by the agent', async () => {
+      mockClient.send.mockResolvedValue({
+        Transcript: [
+          {
+            Id: 'message-3',
+            Type: 'MESSAGE',
+            ParticipantRole: 'CUSTOMER',
+            MessageMetadata: {
+              MessageId: 'message-3',
+              Receipts: [{ ReadTimestamp: '2023-01-01T00:00:00Z' }],
+            },
+          },
+        ],
+      });
+
+      const messages = await connectService.receiveMessages();
+
+      expect(messages[0].status).toBe('read');
+    });
+  });
+
+  describe('participant events', () => {
+    const dispatchEvent = (
+      event: Omit<ConnectParticipantEvent, 'timestamp'>
+    ) => {
+      webSocketHandler.onParticipantEvent?.({
+        timestamp: new Date(),
+        ...event,
+      });
+    };
+
+    it('should forward participant events to listeners', () => {
+      const eventCallback = vi.fn();
+      connectService.onParticipantEvent(eventCallback);
+
+      dispatchEvent({ type: 'transfer.succeeded', id: 'event-1' });
+
+      expect(eventCallback).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'transfer.succeeded', id: 'event-1' })
+      );
+    });
+
+    it('should report agent joins and departures as agent status', () => {
+      const agentStatusCallback = vi.fn();
+      connectService.onAgentStatusChange(agentStatusCallback);
+
+      dispatchEvent({
+        type: 'participant.joined',
+        participantId: 'agent-1',
+        participantRole: 'AGENT',
+        displayName: 'Jane',
+      });
+      dispatchEvent({
+        type: 'participant.left',
+        participantId: 'agent-1',
+        participantRole: 'AGENT',
+        displayName: 'Jane',
+      });
+
+      expect(agentStatusCallback).toHaveBeenNthCalledWith(1, {
+        agentId: 'agent-1',
+        status: 'online',
+        isTyping: false,
+        name: 'Jane',
+      });
+      expect(agentStatusCallback).toHaveBeenNthCalledWith(2, {
+        agentId: 'agent-1',
+        status: 'offline',
+        isTyping: false,
+        name: 'Jane',
+      });
+    });
+
+    it('should ignore customer joins for agent status', () => {
+      const agentStatusCallback = vi.fn();
+      connectService.onAgentStatusChange(agentStatusCallback);
+
+      dispatchEvent({
+        type: 'participant.joined',
+        participantId: 'customer-1',
+        participantRole: 'CUSTOMER',
+      });
+
+      expect(agentStatusCallback).not.toHaveBeenCalled();
+    });
+
+    it('should clear the stored contact when the chat ends', () => {
+      const clearSpy = vi.spyOn(ChatStorage, 'clearContactSession');
+
+      dispatchEvent({ type: 'chat.ended' });
+
+      expect(clearSpy).toHaveBeenCalled();
     });
   });
 
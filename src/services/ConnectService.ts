@@ -5,35 +5,105 @@ import {
   GetTranscriptCommand,
   DisconnectParticipantCommand,
   SendEventCommand,
+  StartAttachmentUploadCommand,
+  CompleteAttachmentUploadCommand,
+  GetAttachmentCommand,
+  type Item,
 } from '@aws-sdk/client-connectparticipant';
 import type {
   ChatSession,
   ConnectService as IConnectService,
   ParticipantDetails,
+  StartChatContactResponse,
+  CreateParticipantConnectionResponse,
   AgentStatusUpdate,
   ConnectionStatus,
   ConnectMessageEvent,
   ConnectTypingEvent,
   WebSocketMessageType,
+  TranscriptPage,
+  TranscriptPageOptions,
+  AttachmentUpload,
+  ConnectParticipantEvent,
+  SentMessageAck,
 } from '../types/aws-connect';
-import type { Message } from '../types/chat';
+import type {
+  Message,
+  MessageAttachment,
+  MessageContentType,
+} from '../types/chat';
 import {
   WebSocketManager,
+  toMessageContentType,
+  toMessageSender,
   type WebSocketMessageHandler,
 } from './WebSocketManager';
 import { MessageQueue } from './MessageQueue';
+import { MessageCorrelator } from './MessageCorrelator';
+import { ConnectionRefreshScheduler } from './ConnectionRefreshScheduler';
 import { TypingIndicatorService } from './TypingIndicatorService';
 import { ErrorHandler } from './ErrorHandler';
 import { NotificationService } from './NotificationService';
+import {
+  HttpChatStartBackend,
+  type ChatStartBackend,
+} from './ChatStartBackend';
+import {
+  validateConnectServiceConfig,
+  type ConnectServiceConfig,
+} from '../utils/connectServiceConfig';
+import { ChatStorage } from '../utils/storage';
+import { isImageMimeType } from '../utils/attachments';
+import { applyQuickReplyTemplate } from '../utils/interactiveMessage';
+
+const TRANSCRIPT_PAGE_SIZE = 50;
+
+/**
+ * Only chat messages are rendered from the transcript; untyped items count as messages
+ */
+const isTranscriptMessage = (item: Item): boolean =>
+  !item.Type || item.Type === 'MESSAGE' || item.Type === 'ATTACHMENT';
+
+/**
+ * Earliest expiry of the connection credentials and the WebSocket URL
+ * Null when Amazon Connect does not report either
+ */
+const getConnectionExpiry = (
+  response: CreateParticipantConnectionResponse
+): Date | null => {
+  const expiries = [
+    response.ConnectionCredentials.Expiry,
+    response.Websocket.ConnectionExpiry,
+  ]
+    .map(expiry => (expiry ? new Date(expiry).getTime() : NaN))
+    .filter(time => !Number.isNaN(time));
+
+  return expiries.length > 0 ? new Date(Math.min(...expiries)) : null;
+};
+
+/**
+ * Optional collaborators for ConnectService
+ * Defaults are created for anything not provided, so tests can inject fakes
+ */
+export interface ConnectServiceDependencies {
+  client?: ConnectParticipantClient;
+  webSocketManager?: WebSocketManager;
+  messageQueue?: MessageQueue;
+  typingIndicatorService?: TypingIndicatorService;
+  errorHandler?: ErrorHandler;
+  notificationService?: NotificationService;
+  connectionRefreshScheduler?: ConnectionRefreshScheduler;
+  chatStartBackend?: ChatStartBackend; // Overrides the default HTTP backend
+  fetchFn?: typeof fetch; // Used for attachment uploads to pre-signed URLs
+}
 
 /**
  * AWS Connect service implementation
  * Handles chat session initialization, message sending/receiving, and connection management
  * Supports requirements 2.1, 2.2, 7.2, 7.4
  */
-export class ConnectService
-  implements IConnectService, WebSocketMessageHandler
-{
+export class ConnectService implements IConnectService {
+  private config: ConnectServiceConfig;
   private client: ConnectParticipantClient;
   private session: ChatSession | null = null;
   private connectionToken: string | null = null;
@@ -42,30 +112,80 @@ export class ConnectService
   private agentStatusCallbacks: ((status: AgentStatusUpdate) => void)[] = [];
   private connectionStatusCallbacks: ((status: ConnectionStatus) => void)[] =
     [];
+  private participantEventCallbacks: ((
+    event: ConnectParticipantEvent
+  ) => void)[] = [];
+  private messageAckCallbacks: ((ack: SentMessageAck) => void)[] = [];
+  private messageFailedCallbacks: ((
+    clientMessageId: string,
+    error: Error
+  ) => void)[] = [];
 
   // Real-time messaging services
   private webSocketManager: WebSocketManager;
   private messageQueue: MessageQueue;
   private typingIndicatorService: TypingIndicatorService;
+  private messageCorrelator = new MessageCorrelator();
+  private connectionRefreshScheduler: ConnectionRefreshScheduler;
 
   // Error handling and notifications
   private errorHandler: ErrorHandler;
   private notificationService: NotificationService;
 
-  constructor(region: string = 'us-east-1') {
-    this.client = new ConnectParticipantClient({
-      region,
-      // Credentials will be provided through environment or IAM roles
-    });
+  // Backend used to start chat contacts
+  private chatStartBackend: ChatStartBackend | null;
+
+  private fetchFn?: typeof fetch;
+
+  // Receipts already sent, keyed by `${type}:${messageId}`
+  private sentReceipts = new Set<string>();
+
+  constructor(
+    config: ConnectServiceConfig,
+    dependencies: ConnectServiceDependencies = {}
+  ) {
+    validateConnectServiceConfig(config);
+    this.config = config;
+
+    this.client =
+      dependencies.client ||
+      new ConnectParticipantClient(
+        config.participantEndpoint
+          ? {
+              region: config.region,
+              endpoint: config.participantEndpoint,
+              // Participant APIs authorize with the participant and
+              // connection tokens, so placeholder credentials are enough
+              credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+            }
+          : {
+              region: config.region,
+              // Credentials will be provided through environment or IAM roles
+            }
+      );
 
     // Initialize real-time messaging services
-    this.webSocketManager = new WebSocketManager();
-    this.messageQueue = new MessageQueue();
-    this.typingIndicatorService = new TypingIndicatorService();
+    this.webSocketManager =
+      dependencies.webSocketManager || new WebSocketManager();
+    this.messageQueue = dependencies.messageQueue || new MessageQueue();
+    this.typingIndicatorService =
+      dependencies.typingIndicatorService || new TypingIndicatorService();
+    this.connectionRefreshScheduler =
+      dependencies.connectionRefreshScheduler ||
+      new ConnectionRefreshScheduler();
 
     // Initialize error handling and notifications
-    this.errorHandler = new ErrorHandler();
-    this.notificationService = new NotificationService();
+    this.errorHandler = dependencies.errorHandler || new ErrorHandler();
+    this.notificationService =
+      dependencies.notificationService || new NotificationService();
+
+    this.chatStartBackend =
+      dependencies.chatStartBackend ||
+      (config.apiGatewayEndpoint
+        ? new HttpChatStartBackend(config.apiGatewayEndpoint)
+        : null);
+
+    this.fetchFn = dependencies.fetchFn;
 
     // Set up service integrations
     this.setupServiceIntegrations();
@@ -82,33 +202,32 @@ export class ConnectService
     try {
       this.notifyConnectionStatus('connecting');
 
-      // In a real implementation, this would come from your backend API
-      // that calls AWS Connect's StartChatContact API
+      // StartChatContact is called by the backend, which holds AWS credentials
       const startChatResponse = await this.startChatContact(participantDetails);
 
       this.participantToken = startChatResponse.ParticipantToken;
 
-      // Create participant connection
-      const connectionResponse = await this.createParticipantConnection();
-
-      this.connectionToken =
-        connectionResponse.ConnectionCredentials.ConnectionToken;
-
-      // Create chat session object
-      this.session = {
-        connectionToken: this.connectionToken,
-        participantId: startChatResponse.ParticipantId,
-        participantToken: this.participantToken,
-        websocketUrl: connectionResponse.Websocket.Url,
-        startTime: new Date(),
-      };
+      // Create participant connection and WebSocket for real-time messaging
+      const session = await this.openParticipantConnection(
+        startChatResponse.ContactId,
+        startChatResponse.ParticipantId,
+        new Date()
+      );
 
-      // Establish WebSocket connection for real-time messaging
-      await this.webSocketManager.connect(connectionResponse.Websocket.Url);
+      // Persist participant credentials so the contact survives a reload
+      ChatStorage.saveContactSession(
+        {
+          contactId: session.contactId,
+          participantId: session.participantId,
+          participantToken: session.participantToken,
+          startTime: session.startTime.toISOString(),
+        },
+        this.config.storageNamespace
+      );
 
       this.notifyConnectionStatus('connected');
 
-      return this.session;
+      return session;
     } catch (error) {
       this.notifyConnectionStatus('failed');
 
@@ -126,34 +245,78 @@ export class ConnectService
     }
   }
 
+  /**
+   * Resume a chat contact persisted before a page reload
+   * Re-creates the participant connection and WebSocket for the stored contact
+   * Returns null when there is no contact to resume
+   */
+  async resumeChat(): Promise<ChatSession | null> {
+    const storedContact = ChatStorage.loadContactSession(
+      this.config.storageNamespace
+    );
+    if (!storedContact) {
+      return null;
+    }
+
+    try {
+      this.notifyConnectionStatus('connecting');
+
+      this.participantToken = storedContact.participantToken;
+
+      const session = await this.openParticipantConnection(
+        storedContact.contactId,
+        storedContact.participantId,
+        new Date(storedContact.startTime)
+      );
+
+      this.notifyConnectionStatus('connected');
+
+      return session;
+    } catch (error) {
+      // The contact has most likely ended while the page was away
+      ChatStorage.clearContactSession(this.config.storageNamespace);
+      this.session = null;
+      this.connectionToken = null;
+      this.participantToken = null;
+      this.notifyConnectionStatus('failed');
+
+      throw new Error(
+        `Failed to resume chat: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * Send message to agent
    * Requirement 3.1: Send messages to agent through AWS Connect
    * Requirement 3.2: Use message queuing for offline scenarios
    * Requirement 2.4: Error handling for message delivery
+   * Resolves with the server acknowledgement, or null when the message was
+   * queued; queued messages are acknowledged through onMessageAcknowledged
    */
-  async sendMessage(content: string): Promise<void> {
+  async sendMessage(
+    content: string,
+    clientMessageId = this.generateClientMessageId(),
+    contentType: MessageContentType = 'text/plain'
+  ): Promise<SentMessageAck | null> {
     if (!this.connectionToken) {
       const error = new Error('No active chat session');
       await this.errorHandler.handleError(error, 'AUTHENTICATION_FAILED');
       throw error;
     }
 
-    const sendMessageFunction = async (messageContent: string) => {
-      const command = new SendMessageCommand({
-        ConnectionToken: this.connectionToken!,
-        Content: messageContent,
-        ContentType: 'text/plain',
-      });
-
-      await this.client.send(command);
-    };
+    this.messageCorrelator.track(clientMessageId, content);
 
     // Try to send immediately if connected, otherwise queue
     if (this.webSocketManager.isConnected()) {
       try {
-        await sendMessageFunction(content);
+        const ack = await this.dispatchMessage(
+          content,
+          clientMessageId,
+          contentType
+        );
         this.notificationService.showMessageStatus(true);
+        return ack;
       } catch (error) {
         // Handle message send error with recovery
         await this.errorHandler.handleMessageSendError(
@@ -162,7 +325,12 @@ export class ConnectService
         );
 
         // Queue the message for retry
-        this.messageQueue.enqueue(content);
+        this.messageQueue.enqueue(
+          content,
+          undefined,
+          clientMessageId,
+          contentType
+        );
         this.notificationService.showMessageStatus(false);
 
         throw new Error(
@@ -171,31 +339,91 @@ export class ConnectService
       }
     } else {
       // Queue message for later delivery
-      this.messageQueue.enqueue(content);
+      this.messageQueue.enqueue(
+        content,
+        undefined,
+        clientMessageId,
+        contentType
+      );
       this.notificationService.showQueueStatus(this.messageQueue.size());
+      return null;
     }
   }
 
+  /**
+   * Send a message and acknowledge it with the server-assigned ID
+   */
+  private async dispatchMessage(
+    content: string,
+    clientMessageId: string,
+    contentType: MessageContentType = 'text/plain'
+  ): Promise<SentMessageAck> {
+    if (!this.connectionToken) {
+      throw new Error('No active session');
+    }
+
+    const command = new SendMessageCommand({
+      ConnectionToken: this.connectionToken,
+      Content: content,
+      ContentType: contentType,
+    });
+
+    const response = await this.client.send(command);
+    const ack: SentMessageAck = {
+      clientMessageId,
+      messageId: response?.Id || clientMessageId,
+      timestamp: response?.AbsoluteTime
+        ? new Date(response.AbsoluteTime)
+        : new Date(),
+    };
+
+    this.messageCorrelator.acknowledge(clientMessageId, ack.messageId);
+    this.messageAckCallbacks.forEach(callback => callback(ack));
+
+    return ack;
+  }
+
   /**
    * Receive messages from transcript
    * Requirement 3.2: Receive messages from agent
    */
   async receiveMessages(): Promise<Message[]> {
+    return this.getFullTranscript();
+  }
+
+  /**
+   * Fetch a single GetTranscript page
+   */
+  async getTranscriptPage(
+    options: TranscriptPageOptions = {}
+  ): Promise<TranscriptPage> {
     if (!this.connectionToken) {
       throw new Error('No active chat session');
     }
 
     try {
+      const { startPosition } = options;
       const command = new GetTranscriptCommand({
         ConnectionToken: this.connectionToken,
-        MaxResults: 50,
+        MaxResults: options.maxResults ?? TRANSCRIPT_PAGE_SIZE,
+        NextToken: options.nextToken,
+        ScanDirection: options.scanDirection,
+        SortOrder: 'ASCENDING',
+        StartPosition: startPosition && {
+          Id: startPosition.id,
+          AbsoluteTime: startPosition.absoluteTime,
+          MostRecent: startPosition.mostRecent,
+        },
       });
 
       const response = await this.client.send(command);
 
-      return (response.Transcript || []).map(
-        this.convertConnectMessageToMessage
-      );
+      return {
+        messages: (response.Transcript || [])
+          .filter(isTranscriptMessage)
+          .map(this.convertConnectMessageToMessage),
+        nextToken: response.NextToken || undefined,
+      };
     } catch (error) {
       throw new Error(
         `Failed to receive messages: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -203,6 +431,174 @@ export class ConnectService
     }
   }
 
+  /**
+   * Iterate over transcript pages, following NextToken until exhausted
+   */
+  async *iterateTranscript(
+    options: Omit<TranscriptPageOptions, 'nextToken'> = {}
+  ): AsyncGenerator<TranscriptPage> {
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.getTranscriptPage({ ...options, nextToken });
+      nextToken = page.nextToken;
+      yield page;
+    } while (nextToken);
+  }
+
+  /**
+   * Fetch the whole transcript from the start of the contact
+   */
+  async getFullTranscript(): Promise<Message[]> {
+    const messages: Message[] = [];
+
+    for await (const page of this.iterateTranscript({
+      scanDirection: 'FORWARD',
+    })) {
+      messages.push(...page.messages);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Fetch the page of messages sent before the given message ID
+   * Pass the returned nextToken back in to keep paging further back
+   */
+  async getMessagesBefore(
+    messageId: string,
+    options: Pick<TranscriptPageOptions, 'maxResults' | 'nextToken'> = {}
+  ): Promise<TranscriptPage> {
+    const page = await this.getTranscriptPage({
+      ...options,
+      scanDirection: 'BACKWARD',
+      startPosition: { id: messageId },
+    });
+
+    return {
+      ...page,
+      messages: page.messages.filter(message => message.id !== messageId),
+    };
+  }
+
+  /**
+   * Upload a file as a chat attachment
+   * Starts the upload, PUTs the file to the pre-signed URL, then completes it
+   */
+  async sendAttachment(file: File): Promise<MessageAttachment> {
+    const upload = await this.startAttachmentUpload(file);
+
+    try {
+      const fetchFn = this.fetchFn || fetch;
+      const response = await fetchFn(upload.uploadUrl, {
+        method: 'PUT',
+        headers: upload.headers,
+        body: file,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Upload failed with status ${response.status}`);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to upload attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    await this.completeAttachmentUpload(upload.attachmentId);
+
+    return {
+      id: upload.attachmentId,
+      name: file.name,
+      mimeType: file.type,
+      size: file.size,
+    };
+  }
+
+  /**
+   * Request a pre-signed upload URL for an attachment
+   */
+  async startAttachmentUpload(file: File): Promise<AttachmentUpload> {
+    if (!this.connectionToken) {
+      throw new Error('No active chat session');
+    }
+
+    try {
+      const command = new StartAttachmentUploadCommand({
+        ConnectionToken: this.connectionToken,
+        AttachmentName: file.name,
+        AttachmentSizeInBytes: file.size,
+        ContentType: file.type,
+      });
+
+      const response = await this.client.send(command);
+
+      if (!response.AttachmentId || !response.UploadMetadata?.Url) {
+        throw new Error('Invalid upload response');
+      }
+
+      return {
+        attachmentId: response.AttachmentId,
+        uploadUrl: response.UploadMetadata.Url,
+        headers: response.UploadMetadata.HeadersToInclude || {},
+      };
+    } catch (error) {
+      throw new Error(
+        `Failed to start attachment upload: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Mark an uploaded attachment as complete so it is sent to the agent
+   */
+  async completeAttachmentUpload(attachmentId: string): Promise<void> {
+    if (!this.connectionToken) {
+      throw new Error('No active chat session');
+    }
+
+    try {
+      const command = new CompleteAttachmentUploadCommand({
+        ConnectionToken: this.connectionToken,
+        AttachmentIds: [attachmentId],
+      });
+
+      await this.client.send(command);
+    } catch (error) {
+      throw new Error(
+        `Failed to complete attachment upload: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Get a short-lived download URL for an attachment
+   */
+  async getAttachmentUrl(attachmentId: string): Promise<string> {
+    if (!this.connectionToken) {
+      throw new Error('No active chat session');
+    }
+
+    try {
+      const command = new GetAttachmentCommand({
+        ConnectionToken: this.connectionToken,
+        AttachmentId: attachmentId,
+      });
+
+      const response = await this.client.send(command);
+
+      if (!response.Url) {
+        throw new Error('Attachment URL missing from response');
+      }
+
+      return response.Url;
+    } catch (error) {
+      throw new Error(
+        `Failed to get attachment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   /**
    * End chat session
    * Requirement 2.2: Properly terminate chat sessions
@@ -217,6 +613,7 @@ export class ConnectService
         await this.client.send(command);
       }
 
+      ChatStorage.clearContactSession(this.config.storageNamespace);
       this.cleanup();
       this.notifyConnectionStatus('disconnected');
     } catch (error) {
@@ -229,6 +626,7 @@ export class ConnectService
       );
 
       // Still cleanup even if disconnect fails
+      ChatStorage.clearContactSession(this.config.storageNamespace);
       this.cleanup();
       throw new Error(
         `Failed to end chat: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -257,6 +655,29 @@ export class ConnectService
     this.connectionStatusCallbacks.push(callback);
   }
 
+  /**
+   * Register callback for participant events (joined, left, chat ended, etc.)
+   */
+  onParticipantEvent(callback: (event: ConnectParticipantEvent) => void): void {
+    this.participantEventCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for server acknowledgements of sent messages
+   */
+  onMessageAcknowledged(callback: (ack: SentMessageAck) => void): void {
+    this.messageAckCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for queued messages that could not be delivered
+   */
+  onMessageFailed(
+    callback: (clientMessageId: string, error: Error) => void
+  ): void {
+    this.messageFailedCallbacks.push(callback);
+  }
+
   /**
    * Send typing indicator to agent
    * Requirement 3.4: Implement typing indicators
@@ -266,23 +687,60 @@ export class ConnectService
       return;
     }
 
+    // The participant WebSocket is receive-only, so events go through the API
     try {
-      // Use WebSocket for real-time typing indicators
-      this.webSocketManager.sendTypingIndicator();
+      const command = new SendEventCommand({
+        ConnectionToken: this.connectionToken,
+        ContentType: 'application/vnd.amazonaws.connect.event.typing',
+      });
+
+      await this.client.send(command);
     } catch (error) {
-      // Fallback to API call if WebSocket fails
-      try {
-        const command = new SendEventCommand({
-          ConnectionToken: this.connectionToken,
-          Content: JSON.stringify({ ParticipantRole: 'CUSTOMER' }),
-          ContentType: 'application/vnd.amazonaws.connect.event.typing',
-        });
+      // Typing events are not critical, so we don't throw
+      console.warn('Failed to send typing event:', error);
+    }
+  }
 
-        await this.client.send(command);
-      } catch (apiError) {
-        // Typing events are not critical, so we don't throw
-        console.warn('Failed to send typing event:', apiError);
-      }
+  /**
+   * Send a read receipt for a message shown to the visitor
+   */
+  async sendReadReceipt(messageId: string): Promise<void> {
+    await this.sendMessageReceipt('read', messageId);
+  }
+
+  /**
+   * Send a delivered receipt for a message received by the widget
+   */
+  async sendDeliveredReceipt(messageId: string): Promise<void> {
+    await this.sendMessageReceipt('delivered', messageId);
+  }
+
+  /**
+   * Send a message receipt event, at most once per message and type
+   */
+  private async sendMessageReceipt(
+    type: 'read' | 'delivered',
+    messageId: string
+  ): Promise<void> {
+    const key = `${type}:${messageId}`;
+    if (!this.connectionToken || this.sentReceipts.has(key)) {
+      return;
+    }
+
+    this.sentReceipts.add(key);
+
+    try {
+      const command = new SendEventCommand({
+        ConnectionToken: this.connectionToken,
+        ContentType: `application/vnd.amazonaws.connect.event.message.${type}`,
+        Content: JSON.stringify({ messageId }),
+      });
+
+      await this.client.send(command);
+    } catch (error) {
+      // Receipts are not critical, so we don't throw; allow a later retry
+      this.sentReceipts.delete(key);
+      console.warn(`Failed to send ${type} receipt:`, error);
     }
   }
 
@@ -290,8 +748,9 @@ export class ConnectService
    * Refresh connection token when it expires
    * Requirement 7.4: Handle token refresh for long sessions
    * Requirement 4.3: Session timeout handling
+   * Resolves with the expiry of the new credentials, if reported
    */
-  async refreshConnectionToken(): Promise<void> {
+  async refreshConnectionToken(): Promise<Date | null> {
     if (!this.participantToken) {
       await this.errorHandler.handleSessionTimeout();
       throw new Error('No participant token available for refresh');
@@ -304,16 +763,23 @@ export class ConnectService
 
       if (this.session) {
         this.session.connectionToken = this.connectionToken;
+
+        // Swap to the new WebSocket URL before the old connection expires,
+        // or reconnect with it when the connection has dropped
+        if (
+          this.session.websocketUrl !== connectionResponse.Websocket.Url ||
+          !this.webSocketManager.isConnected()
+        ) {
+          this.session.websocketUrl = connectionResponse.Websocket.Url;
+          await this.webSocketManager.switchUrl(
+            connectionResponse.Websocket.Url
+          );
+        }
       }
-    } catch (error) {
-      // Handle token refresh error
-      await this.errorHandler.handleError(
-        error instanceof Error
-          ? error
-          : new Error('Unknown token refresh error'),
-        'AUTHENTICATION_FAILED'
-      );
 
+      return getConnectionExpiry(connectionResponse);
+    } catch (error) {
+      // Callers retry, so only their final failure is reported
       throw new Error(
         `Failed to refresh connection token: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -321,18 +787,28 @@ export class ConnectService
   }
 
   /**
-   * Private method to start chat contact (would typically be done by backend)
+   * Start chat contact through the configured backend
    */
-  private async startChatContact(participantDetails: ParticipantDetails) {
-    // This is a placeholder - in a real implementation, this would be handled by your backend
-    // The backend would call AWS Connect's StartChatContact API and return the response
-    throw new Error('StartChatContact must be implemented by backend service');
+  private async startChatContact(
+    participantDetails: ParticipantDetails
+  ): Promise<StartChatContactResponse> {
+    if (!this.chatStartBackend) {
+      throw new Error(
+        'StartChatContact must be implemented by backend service'
+      );
+    }
+
+    return this.chatStartBackend.startChatContact({
+      instanceId: this.config.instanceId,
+      contactFlowId: this.config.contactFlowId,
+      participantDetails,
+    });
   }
 
   /**
    * Create participant connection with AWS Connect
    */
-  private async createParticipantConnection() {
+  private async createParticipantConnection(): Promise<CreateParticipantConnectionResponse> {
     if (!this.participantToken) {
       throw new Error('No participant token available');
     }
@@ -343,12 +819,70 @@ export class ConnectService
     });
 
     const response = await this.client.send(command);
+    const { ConnectionCredentials, Websocket } = response;
 
-    if (!response.ConnectionCredentials || !response.Websocket) {
+    if (!ConnectionCredentials?.ConnectionToken || !Websocket?.Url) {
       throw new Error('Invalid connection response from AWS Connect');
     }
 
-    return response;
+    return {
+      ConnectionCredentials: {
+        ConnectionToken: ConnectionCredentials.ConnectionToken,
+        Expiry: ConnectionCredentials.Expiry || '',
+      },
+      Websocket: {
+        Url: Websocket.Url,
+        ConnectionExpiry: Websocket.ConnectionExpiry || '',
+      },
+    };
+  }
+
+  /**
+   * Open the participant connection and WebSocket for the participant token
+   */
+  private async openParticipantConnection(
+    contactId: string,
+    participantId: string,
+    startTime: Date
+  ): Promise<ChatSession> {
+    if (!this.participantToken) {
+      throw new Error('No participant token available');
+    }
+
+    const connectionResponse = await this.createParticipantConnection();
+
+    this.connectionToken =
+      connectionResponse.ConnectionCredentials.ConnectionToken;
+
+    const session: ChatSession = {
+      contactId,
+      connectionToken: this.connectionToken,
+      participantId,
+      participantToken: this.participantToken,
+      websocketUrl: connectionResponse.Websocket.Url,
+      startTime,
+    };
+    this.session = session;
+
+    // Establish WebSocket connection for real-time messaging
+    await this.webSocketManager.connect(connectionResponse.Websocket.Url);
+
+    this.scheduleConnectionRefresh(getConnectionExpiry(connectionResponse));
+
+    return session;
+  }
+
+  /**
+   * Refresh the participant connection before its credentials expire
+   */
+  private scheduleConnectionRefresh(expiresAt: Date | null): void {
+    if (!expiresAt) {
+      return;
+    }
+
+    this.connectionRefreshScheduler.schedule(expiresAt, () =>
+      this.refreshConnectionToken()
+    );
   }
 
   /**
@@ -397,15 +931,41 @@ export class ConnectService
   /**
    * Convert AWS Connect message to internal Message format
    */
-  private convertConnectMessageToMessage = (connectMessage: any): Message => {
-    return {
+  private convertConnectMessageToMessage = (connectMessage: Item): Message => {
+    const message: Message = {
       id: connectMessage.Id || `msg-${Date.now()}`,
       content: connectMessage.Content || '',
-      sender: connectMessage.ParticipantRole === 'AGENT' ? 'agent' : 'visitor',
+      sender: toMessageSender(connectMessage.ParticipantRole),
       timestamp: new Date(connectMessage.AbsoluteTime || Date.now()),
       status: 'delivered',
-      type: 'text',
+      type: connectMessage.ParticipantRole === 'SYSTEM' ? 'system' : 'text',
     };
+
+    const contentType = toMessageContentType(connectMessage.ContentType);
+    if (contentType) {
+      message.contentType = contentType;
+    }
+
+    // Receipts on the visitor's own messages report how far they got
+    const receipts = connectMessage.MessageMetadata?.Receipts || [];
+    if (receipts.some(receipt => receipt.ReadTimestamp)) {
+      message.status = 'read';
+    }
+
+    const attachment = connectMessage.Attachments?.[0];
+    if (connectMessage.Type === 'ATTACHMENT' && attachment?.AttachmentId) {
+      const mimeType = attachment.ContentType || '';
+
+      message.type = isImageMimeType(mimeType) ? 'image' : 'file';
+      message.content = attachment.AttachmentName || '';
+      message.attachment = {
+        id: attachment.AttachmentId,
+        name: attachment.AttachmentName || '',
+        mimeType,
+      };
+    }
+
+    return applyQuickReplyTemplate(message);
   };
 
   /**
@@ -426,7 +986,20 @@ export class ConnectService
    * WebSocketMessageHandler implementation
    */
   onMessage(message: Message): void {
-    this.messageCallbacks.forEach(callback => callback(message));
+    // Echoes of our own messages carry the local ID they confirm
+    const clientMessageId =
+      message.sender === 'visitor'
+        ? this.messageCorrelator.resolve(message)
+        : undefined;
+    const correlated = clientMessageId
+      ? { ...message, clientMessageId }
+      : message;
+
+    this.messageCallbacks.forEach(callback => callback(correlated));
+
+    if (message.sender === 'agent') {
+      this.sendDeliveredReceipt(message.id);
+    }
   }
 
   onTyping(isTyping: boolean, participantId: string): void {
@@ -441,12 +1014,60 @@ export class ConnectService
     this.notifyConnectionStatus(status);
   }
 
+  /**
+   * Handle participant events from the WebSocket
+   * Agent joins and departures drive agent status; a finished contact
+   * can no longer be resumed, so its stored credentials are cleared
+   */
+  private handleParticipantEvent(event: ConnectParticipantEvent): void {
+    const isAgent = toMessageSender(event.participantRole) === 'agent';
+
+    if (
+      isAgent &&
+      event.participantId &&
+      (event.type === 'participant.joined' || event.type === 'participant.left')
+    ) {
+      const update: AgentStatusUpdate = {
+        agentId: event.participantId,
+        status: event.type === 'participant.joined' ? 'online' : 'offline',
+        isTyping: false,
+        name: event.displayName,
+      };
+      this.agentStatusCallbacks.forEach(callback => callback(update));
+    }
+
+    if (
+      event.type === 'chat.ended' ||
+      (event.type === 'participant.autodisconnection' &&
+        event.participantRole === 'CUSTOMER')
+    ) {
+      ChatStorage.clearContactSession(this.config.storageNamespace);
+    }
+
+    this.participantEventCallbacks.forEach(callback => callback(event));
+  }
+
   /**
    * Set up service integrations
    */
   private setupServiceIntegrations(): void {
-    // Set WebSocket message handler
-    this.webSocketManager.setMessageHandler(this);
+    // Set WebSocket message handler (adapter, since onConnectionStatusChange
+    // is the public callback registration method on this class)
+    const webSocketHandler: WebSocketMessageHandler = {
+      onMessage: message => this.onMessage(message),
+      onTyping: (isTyping, participantId) =>
+        this.onTyping(isTyping, participantId),
+      onConnectionStatusChange: status =>
+        this.onWebSocketConnectionStatusChange(status),
+      onParticipantEvent: event => this.handleParticipantEvent(event),
+    };
+    this.webSocketManager.setMessageHandler(webSocketHandler);
+
+    // Reconnect through a new participant connection, since the stored
+    // WebSocket URL expires
+    this.webSocketManager.setConnectionRefresher(async () => {
+      this.scheduleConnectionRefresh(await this.refreshConnectionToken());
+    });
 
     // Set up typing indicator events
     this.typingIndicatorService.on('onTypingStart', participantId => {
@@ -474,19 +1095,11 @@ export class ConnectService
     });
 
     // Set up message queue processing
-    this.messageQueue.startProcessing(async content => {
-      if (!this.connectionToken) {
-        throw new Error('No active session');
+    this.messageQueue.startProcessing(
+      async (content, messageId, contentType) => {
+        await this.dispatchMessage(content, messageId, contentType);
       }
-
-      const command = new SendMessageCommand({
-        ConnectionToken: this.connectionToken,
-        Content: content,
-        ContentType: 'text/plain',
-      });
-
-      await this.client.send(command);
-    });
+    );
 
     // Set up error handler events
     this.errorHandler.on('onError', error => {
@@ -498,6 +1111,13 @@ export class ConnectService
       this.notifyConnectionStatus(status);
     });
 
+    // A chat whose credentials cannot be refreshed is over
+    this.connectionRefreshScheduler.on('onRefreshFailed', async error => {
+      console.warn('Failed to refresh connection:', error);
+      await this.handleSessionTimeout();
+      this.notifyConnectionStatus('failed');
+    });
+
     // Set up message queue events
     this.messageQueue.on('onMessageQueued', message => {
       this.notificationService.showQueueStatus(this.messageQueue.size());
@@ -505,9 +1125,20 @@ export class ConnectService
 
     this.messageQueue.on('onMessageFailed', (messageId, error) => {
       this.notificationService.showMessageStatus(false);
+      this.messageCorrelator.forget(messageId);
+      this.messageFailedCallbacks.forEach(callback =>
+        callback(messageId, error)
+      );
     });
   }
 
+  /**
+   * Generate a local message ID for messages sent without one
+   */
+  private generateClientMessageId(): string {
+    return `msg-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+  }
+
   /**
    * Cleanup resources
    */
@@ -515,6 +1146,7 @@ export class ConnectService
     this.webSocketManager.cleanup();
     this.messageQueue.cleanup();
     this.typingIndicatorService.cleanup();
+    this.connectionRefreshScheduler.stop();
     this.errorHandler.cleanup();
     this.notificationService.cleanup();
 
@@ -524,5 +1156,10 @@ export class ConnectService
     this.messageCallbacks = [];
     this.agentStatusCallbacks = [];
     this.connectionStatusCallbacks = [];
+    this.participantEventCallbacks = [];
+    this.messageAckCallbacks = [];
+    this.messageFailedCallbacks = [];
+    this.messageCorrelator.clear();
+    this.sentReceipts.clear();
   }
 }
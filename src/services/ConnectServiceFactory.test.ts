@@ -4,6 +4,7 @@ import {
   type ConnectServiceConfig,
 } from './ConnectServiceFactory';
 import { ConnectService } from './ConnectService';
+import type { ChatStartBackend } from './ChatStartBackend';
 
 vi.mock('./ConnectService');
 
@@ -16,12 +17,24 @@ describe('ConnectServiceFactory', () => {
   };
 
   describe('create', () => {
-    it('should create ConnectService instance', () => {
+    it('should pass the full configuration to ConnectService', () => {
       const service = ConnectServiceFactory.create(validConfig);
 
-      expect(ConnectService).toHaveBeenCalledWith(validConfig.region);
+      expect(ConnectService).toHaveBeenCalledWith(validConfig, {});
       expect(service).toBeDefined();
     });
+
+    it('should pass injected dependencies to ConnectService', () => {
+      const chatStartBackend: ChatStartBackend = {
+        startChatContact: vi.fn(),
+      };
+
+      ConnectServiceFactory.create(validConfig, { chatStartBackend });
+
+      expect(ConnectService).toHaveBeenLastCalledWith(validConfig, {
+        chatStartBackend,
+      });
+    });
   });
 
   describe('validateConfig', () => {
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConnectionRefreshScheduler } from './ConnectionRefreshScheduler';
+
+describe('ConnectionRefreshScheduler', () => {
+  let scheduler: ConnectionRefreshScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T10:00:00Z'));
+    scheduler = new ConnectionRefreshScheduler(60000, 3, 1000);
+  });
+
+  afterEach(() => {
+    scheduler.cleanup();
+    vi.useRealTimers();
+  });
+
+  it('should refresh before the credentials expire', async () => {
+    const refresh = vi.fn().mockResolvedValue(null);
+
+    scheduler.schedule(new Date('2024-01-01T10:10:00Z'), refresh);
+
+    await vi.advanceTimersByTimeAsync(8 * 60000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reschedule for the expiry of the new credentials', async () => {
+    const onRefreshSucceeded = vi.fn();
+    scheduler.on('onRefreshSucceeded', onRefreshSucceeded);
+    const refresh = vi
+      .fn()
+      .mockResolvedValueOnce(new Date('2024-01-01T10:20:00Z'))
+      .mockResolvedValueOnce(null);
+
+    scheduler.schedule(new Date('2024-01-01T10:10:00Z'), refresh);
+
+    await vi.advanceTimersByTimeAsync(9 * 60000);
+    expect(onRefreshSucceeded).toHaveBeenCalledWith(
+      new Date('2024-01-01T10:20:00Z')
+    );
+    expect(scheduler.isScheduled()).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(10 * 60000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    expect(scheduler.isScheduled()).toBe(false);
+  });
+
+  it('should refresh immediately when expiry is within the lead time', async () => {
+    const refresh = vi.fn().mockResolvedValue(null);
+
+    scheduler.schedule(new Date('2024-01-01T10:00:30Z'), refresh);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry with backoff and report failure after max retries', async () => {
+    const onRefreshFailed = vi.fn();
+    scheduler.on('onRefreshFailed', onRefreshFailed);
+    const refresh = vi.fn().mockRejectedValue(new Error('Network error'));
+
+    scheduler.schedule(new Date('2024-01-01T10:00:00Z'), refresh);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+    expect(onRefreshFailed).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(refresh).toHaveBeenCalledTimes(3);
+    expect(onRefreshFailed).toHaveBeenCalledWith(new Error('Network error'));
+  });
+
+  it('should cancel a pending refresh when stopped', async () => {
+    const refresh = vi.fn().mockResolvedValue(null);
+
+    scheduler.schedule(new Date('2024-01-01T10:10:00Z'), refresh);
+    scheduler.stop();
+
+    await vi.advanceTimersByTimeAsync(10 * 60000);
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('should drop a refresh that settles after being stopped', async () => {
+    const onRefreshFailed = vi.fn();
+    scheduler.on('onRefreshFailed', onRefreshFailed);
+    let rejectRefresh: (error: Error) => void = () => undefined;
+    const refresh = vi.fn(
+      () =>
+        new Promise<Date | null>((_, reject) => {
+          rejectRefresh = reject;
+        })
+    );
+
+    scheduler.schedule(new Date('2024-01-01T10:00:00Z'), refresh);
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+
+    rejectRefresh(new Error('Network error'));
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(scheduler.isScheduled()).toBe(false);
+    expect(onRefreshFailed).not.toHaveBeenCalled();
+  });
+
+  it('should not reschedule a refresh that succeeds after being stopped', async () => {
+    let resolveRefresh: (expiresAt: Date | null) => void = () => undefined;
+    const refresh = vi.fn(
+      () =>
+        new Promise<Date | null>(resolve => {
+          resolveRefresh = resolve;
+        })
+    );
+
+    scheduler.schedule(new Date('2024-01-01T10:00:00Z'), refresh);
+    await vi.advanceTimersByTimeAsync(0);
+    scheduler.stop();
+
+    resolveRefresh(new Date('2024-01-01T10:20:00Z'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(scheduler.isScheduled()).toBe(false);
+  });
+});
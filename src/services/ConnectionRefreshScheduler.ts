@@ -0,0 +1,130 @@
+/**
+ * Connection refresh scheduler events
+ */
+export interface ConnectionRefreshSchedulerEvents {
+  onRefreshSucceeded: (expiresAt: Date | null) => void;
+  onRefreshFailed: (error: Error) => void;
+}
+
+/**
+ * Refreshes participant connection credentials shortly before they expire
+ * Supports requirement 7.4: Handle token refresh for long sessions
+ */
+export class ConnectionRefreshScheduler {
+  private refreshTimeout: NodeJS.Timeout | null = null;
+  private generation = 0; // Bumped by stop() to drop refreshes in flight
+  private events: Partial<ConnectionRefreshSchedulerEvents> = {};
+  private refreshLeadTime: number;
+  private maxRetries: number;
+  private retryDelay: number;
+
+  constructor(
+    refreshLeadTime = 60000, // Refresh one minute before expiry
+    maxRetries = 3,
+    retryDelay = 2000 // 2 second base delay
+  ) {
+    this.refreshLeadTime = refreshLeadTime;
+    this.maxRetries = maxRetries;
+    this.retryDelay = retryDelay;
+  }
+
+  /**
+   * Schedule a refresh before the given expiry
+   * The refresh function resolves with the next expiry, or null when the
+   * new credentials do not report one
+   */
+  schedule(expiresAt: Date, refreshFunction: () => Promise<Date | null>): void {
+    this.stop();
+
+    const delay = Math.max(
+      expiresAt.getTime() - Date.now() - this.refreshLeadTime,
+      0
+    );
+
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = null;
+      this.refresh(refreshFunction, 0);
+    }, delay);
+  }
+
+  /**
+   * Cancel any pending refresh
+   */
+  stop(): void {
+    this.generation++;
+    if (this.refreshTimeout) {
+      clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = null;
+    }
+  }
+
+  /**
+   * Whether a refresh is pending
+   */
+  isScheduled(): boolean {
+    return this.refreshTimeout !== null;
+  }
+
+  /**
+   * Set event handlers
+   */
+  on<K extends keyof ConnectionRefreshSchedulerEvents>(
+    event: K,
+    handler: ConnectionRefreshSchedulerEvents[K]
+  ): void {
+    this.events[event] = handler;
+  }
+
+  /**
+   * Remove event handler
+   */
+  off<K extends keyof ConnectionRefreshSchedulerEvents>(event: K): void {
+    delete this.events[event];
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    this.stop();
+    this.events = {};
+  }
+
+  /**
+   * Attempt a refresh, retrying with exponential backoff
+   */
+  private async refresh(
+    refreshFunction: () => Promise<Date | null>,
+    attempt: number
+  ): Promise<void> {
+    const generation = this.generation;
+
+    try {
+      const expiresAt = await refreshFunction();
+      if (generation !== this.generation) return;
+
+      this.events.onRefreshSucceeded?.(expiresAt);
+
+      if (expiresAt) {
+        this.schedule(expiresAt, refreshFunction);
+      }
+    } catch (error) {
+      if (generation !== this.generation) return;
+
+      if (attempt + 1 >= this.maxRetries) {
+        this.events.onRefreshFailed?.(
+          error instanceof Error ? error : new Error('Unknown error')
+        );
+        return;
+      }
+
+      this.refreshTimeout = setTimeout(
+        () => {
+          this.refreshTimeout = null;
+          this.refresh(refreshFunction, attempt + 1);
+        },
+        this.retryDelay * Math.pow(2, attempt)
+      );
+    }
+  }
+}
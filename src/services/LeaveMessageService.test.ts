@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LeaveMessageService } from './LeaveMessageService';
+
+describe('LeaveMessageService', () => {
+  const request = {
+    displayName: 'Jamie',
+    email: 'jamie@example.com',
+    answers: {
+      name: 'Jamie',
+      email: 'jamie@example.com',
+      message: 'Call me back',
+    },
+  };
+
+  it('should require an endpoint', () => {
+    expect(() => new LeaveMessageService('')).toThrow(
+      'Leave message endpoint is required'
+    );
+  });
+
+  it('should POST the message as JSON', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    const service = new LeaveMessageService(
+      'https://api.example.com/messages',
+      fetchFn
+    );
+
+    await service.submit(request);
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://api.example.com/messages',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const body = JSON.parse(fetchFn.mock.calls[0][1].body);
+    expect(body).toMatchObject(request);
+    expect(body.submittedAt).toEqual(expect.any(String));
+  });
+
+  it('should reject when the endpoint fails', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 500 });
+    const service = new LeaveMessageService(
+      'https://api.example.com/messages',
+      fetchFn
+    );
+
+    await expect(service.submit(request)).rejects.toThrow(
+      'Leave message request failed with status 500'
+    );
+  });
+});
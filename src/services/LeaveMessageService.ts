@@ -0,0 +1,49 @@
+/**
+ * Message left by a visitor while the widget is offline
+ */
+export interface LeaveMessageRequest {
+  displayName: string;
+  email?: string;
+  attributes?: Record<string, string>;
+  answers: Record<string, string>; // Raw form answers keyed by field id
+}
+
+/**
+ * Submits offline messages to the configured endpoint
+ * The endpoint decides how messages are delivered, e.g. as a Connect task
+ * or an email
+ */
+export class LeaveMessageService {
+  private endpoint: string;
+  private fetchFn: typeof fetch;
+
+  constructor(endpoint: string, fetchFn?: typeof fetch) {
+    if (!endpoint) {
+      throw new Error('Leave message endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Submit a message
+   */
+  async submit(request: LeaveMessageRequest): Promise<void> {
+    const response = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...request,
+        submittedAt: new Date().toISOString(),
+        pageUrl: typeof window !== 'undefined' ? window.location.href : '',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Leave message request failed with status ${response.status}`
+      );
+    }
+  }
+}
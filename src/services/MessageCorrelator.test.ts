@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MessageCorrelator } from './MessageCorrelator';
+import type { Message } from '../types/chat';
+
+const echo = (id: string, content: string): Message => ({
+  id,
+  content,
+  sender: 'visitor',
+  timestamp: new Date(),
+  status: 'delivered',
+  type: 'text',
+});
+
+describe('MessageCorrelator', () => {
+  let correlator: MessageCorrelator;
+
+  beforeEach(() => {
+    correlator = new MessageCorrelator(2);
+  });
+
+  it('should resolve echoes of acknowledged messages by server ID', () => {
+    correlator.track('msg-1', 'Hello');
+    correlator.acknowledge('msg-1', 'server-1');
+
+    expect(correlator.resolve(echo('server-1', 'Hello'))).toBe('msg-1');
+  });
+
+  it('should match echoes that arrive before the acknowledgement by content', () => {
+    correlator.track('msg-1', 'Hello');
+    correlator.track('msg-2', 'Hello');
+
+    expect(correlator.resolve(echo('server-1', 'Hello'))).toBe('msg-1');
+    expect(correlator.resolve(echo('server-2', 'Hello'))).toBe('msg-2');
+    expect(correlator.resolve(echo('server-1', 'Hello'))).toBe('msg-1');
+  });
+
+  it('should not resolve messages sent from elsewhere', () => {
+    correlator.track('msg-1', 'Hello');
+    correlator.acknowledge('msg-1', 'server-1');
+
+    expect(correlator.resolve(echo('server-2', 'Hi'))).toBeUndefined();
+  });
+
+  it('should stop tracking forgotten and evicted messages', () => {
+    correlator.track('msg-1', 'One');
+    correlator.track('msg-2', 'Two');
+    correlator.track('msg-3', 'Three');
+    correlator.forget('msg-2');
+
+    expect(correlator.resolve(echo('server-1', 'One'))).toBeUndefined();
+    expect(correlator.resolve(echo('server-2', 'Two'))).toBeUndefined();
+    expect(correlator.resolve(echo('server-3', 'Three'))).toBe('msg-3');
+  });
+});
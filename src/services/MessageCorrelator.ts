@@ -0,0 +1,92 @@
+import type { Message } from '../types/chat';
+
+/**
+ * Visitor message sent from this client, keyed by its local ID
+ */
+interface TrackedMessage {
+  clientMessageId: string;
+  content: string;
+  messageId?: string;
+}
+
+/**
+ * Correlates locally created visitor messages with server-assigned IDs
+ * The WebSocket echo of a sent message can arrive before the SendMessage
+ * response, so unacknowledged messages are also matched by content
+ */
+export class MessageCorrelator {
+  private tracked: TrackedMessage[] = [];
+  private maxTracked: number;
+
+  constructor(maxTracked = 100) {
+    this.maxTracked = maxTracked;
+  }
+
+  /**
+   * Start tracking a message before it is sent
+   */
+  track(clientMessageId: string, content: string): void {
+    if (this.find(clientMessageId)) return;
+
+    this.tracked.push({ clientMessageId, content });
+
+    if (this.tracked.length > this.maxTracked) {
+      this.tracked.shift();
+    }
+  }
+
+  /**
+   * Record the server ID from a SendMessage response
+   */
+  acknowledge(clientMessageId: string, messageId: string): void {
+    const entry = this.find(clientMessageId);
+    if (entry) {
+      entry.messageId = messageId;
+    }
+  }
+
+  /**
+   * Find the local ID of an echoed visitor message
+   * Returns undefined for messages sent from elsewhere
+   */
+  resolve(message: Message): string | undefined {
+    const acknowledged = this.tracked.find(
+      entry => entry.messageId === message.id
+    );
+    if (acknowledged) {
+      return acknowledged.clientMessageId;
+    }
+
+    const pending = this.tracked.find(
+      entry => !entry.messageId && entry.content === message.content
+    );
+    if (pending) {
+      pending.messageId = message.id;
+      return pending.clientMessageId;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Stop tracking a message that will not be delivered
+   */
+  forget(clientMessageId: string): void {
+    this.tracked = this.tracked.filter(
+      entry => entry.clientMessageId !== clientMessageId
+    );
+  }
+
+  /**
+   * Clear all tracked messages
+   */
+  clear(): void {
+    this.tracked = [];
+  }
+
+  private find(clientMessageId: string): TrackedMessage | undefined {
+    return this.tracked.find(
+      entry => entry.clientMessageId === clientMessageId
+    );
+  }
+}
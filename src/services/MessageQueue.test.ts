@@ -24,6 +24,13 @@ describe('MessageQueue', () => {
       expect(messageQueue.isEmpty()).toBe(false);
     });
 
+    it('should keep a caller-provided message ID', () => {
+      const messageId = messageQueue.enqueue('Hello', 3, 'msg-local-1');
+
+      expect(messageId).toBe('msg-local-1');
+      expect(messageQueue.getQueuedMessages()[0].id).toBe('msg-local-1');
+    });
+
     it('should dequeue messages by ID', () => {
       const messageId = messageQueue.enqueue('Hello');
       const message = messageQueue.dequeue(messageId);
@@ -94,7 +101,7 @@ describe('MessageQueue', () => {
       vi.advanceTimersByTime(2000);
       await vi.runAllTimersAsync();
 
-      expect(mockSendFunction).toHaveBeenCalledWith('Hello');
+      expect(mockSendFunction).toHaveBeenCalledWith('Hello', messageId);
       expect(onMessageSent).toHaveBeenCalledWith(messageId);
       expect(messageQueue.size()).toBe(0);
     });
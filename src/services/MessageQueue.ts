@@ -1,4 +1,4 @@
-import type { Message } from '../types/chat';
+import type { Message, MessageContentType } from '../types/chat';
 
 /**
  * Queued message interface
@@ -9,6 +9,7 @@ export interface QueuedMessage {
   timestamp: Date;
   retryCount: number;
   maxRetries: number;
+  contentType?: MessageContentType; // Plain text when unset
 }
 
 /**
@@ -40,10 +41,14 @@ export class MessageQueue {
 
   /**
    * Add message to queue
+   * Pass messageId to keep the caller's ID for correlation
    */
-  enqueue(content: string, maxRetries = this.defaultMaxRetries): string {
-    const messageId = this.generateMessageId();
-
+  enqueue(
+    content: string,
+    maxRetries = this.defaultMaxRetries,
+    messageId = this.generateMessageId(),
+    contentType?: MessageContentType
+  ): string {
     const queuedMessage: QueuedMessage = {
       id: messageId,
       content,
@@ -51,6 +56,9 @@ export class MessageQueue {
       retryCount: 0,
       maxRetries,
     };
+    if (contentType) {
+      queuedMessage.contentType = contentType;
+    }
 
     // Remove oldest message if queue is full
     if (this.queue.length >= this.maxQueueSize) {
@@ -112,7 +120,13 @@ export class MessageQueue {
   /**
    * Start processing queue with provided send function
    */
-  startProcessing(sendFunction: (content: string) => Promise<void>): void {
+  startProcessing(
+    sendFunction: (
+      content: string,
+      messageId: string,
+      contentType?: MessageContentType
+    ) => Promise<void>
+  ): void {
     if (this.isProcessing) return;
 
     this.isProcessing = true;
@@ -137,7 +151,11 @@ export class MessageQueue {
    * Process a single batch of messages
    */
   async processQueue(
-    sendFunction: (content: string) => Promise<void>
+    sendFunction: (
+      content: string,
+      messageId: string,
+      contentType?: MessageContentType
+    ) => Promise<void>
   ): Promise<void> {
     if (this.queue.length === 0) {
       this.events.onQueueEmpty?.();
@@ -149,7 +167,9 @@ export class MessageQueue {
     if (!message) return;
 
     try {
-      await sendFunction(message.content);
+      await (message.contentType
+        ? sendFunction(message.content, message.id, message.contentType)
+        : sendFunction(message.content, message.id));
 
       // Message sent successfully, remove from queue
       this.dequeue(message.id);
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { NotificationService } from './NotificationService';
+import { createTranslator } from '../utils/i18n';
 import type { ChatError } from '../types/chat';
 
 describe('NotificationService', () => {
@@ -227,6 +228,14 @@ describe('NotificationService', () => {
       });
     });
 
+    it('should use the singular for a single queued message', () => {
+      const id = notificationService.showQueueStatus(1);
+
+      expect(notificationService.getNotification(id!)?.message).toBe(
+        '1 message waiting to be sent'
+      );
+    });
+
     it('should not show notification for empty queue', () => {
       const id = notificationService.showQueueStatus(0);
 
@@ -234,6 +243,29 @@ describe('NotificationService', () => {
     });
   });
 
+  describe('localization', () => {
+    it('should show notifications in the translator locale', () => {
+      const service = new NotificationService(createTranslator('fr'));
+      const id = service.showQueueStatus(2);
+
+      expect(service.getNotification(id!)).toMatchObject({
+        title: 'Messages en attente',
+        message: '2 messages en attente d’envoi',
+      });
+      service.cleanup();
+    });
+
+    it('should switch locale for later notifications', () => {
+      notificationService.setTranslator(createTranslator('de'));
+      const id = notificationService.showOfflineMode();
+
+      expect(notificationService.getNotification(id)).toMatchObject({
+        title: 'Offline',
+        message: expect.stringContaining('Sie sind gerade offline'),
+      });
+    });
+  });
+
   describe('offline mode notifications', () => {
     it('should show offline mode notification', () => {
       const id = notificationService.showOfflineMode();
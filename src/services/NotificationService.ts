@@ -1,5 +1,7 @@
 import type { ChatError, ChatErrorCode } from '../types/chat';
 import type { ConnectionStatus } from '../types/aws-connect';
+import type { Translator } from '../types/i18n';
+import { defaultTranslator } from '../utils/i18n';
 
 /**
  * Notification types
@@ -46,6 +48,15 @@ export class NotificationService {
   private events: Partial<NotificationEvents> = {};
   private notificationCounter = 0;
 
+  constructor(private translator: Translator = defaultTranslator) {}
+
+  /**
+   * Show later notifications in another locale
+   */
+  setTranslator(translator: Translator): void {
+    this.translator = translator;
+  }
+
   /**
    * Set event handlers
    */
@@ -67,11 +78,12 @@ export class NotificationService {
    * Show error notification from ChatError
    */
   showError(error: ChatError, actions?: NotificationAction[]): string {
+    const { t } = this.translator;
     const userFriendlyMessage = this.getUserFriendlyErrorMessage(error);
 
     return this.addNotification({
       type: 'error',
-      title: 'Connection Issue',
+      title: t('notification.connectionIssue'),
       message: userFriendlyMessage,
       duration: error.recoverable ? 5000 : 0, // Auto-dismiss recoverable errors
       actions: actions || this.getDefaultErrorActions(error),
@@ -82,6 +94,8 @@ export class NotificationService {
    * Show connection status notification
    */
   showConnectionStatus(status: ConnectionStatus): string | null {
+    const { t } = this.translator;
+
     // Remove existing connection status notifications
     this.removeNotificationsByType('info');
     this.removeNotificationsByType('warning');
@@ -90,36 +104,36 @@ export class NotificationService {
       case 'connecting':
         return this.addNotification({
           type: 'info',
-          title: 'Connecting',
-          message: 'Connecting to chat service...',
+          title: t('notification.connecting'),
+          message: t('notification.connectingMessage'),
           duration: 0,
         });
 
       case 'connected':
         return this.addNotification({
           type: 'success',
-          title: 'Connected',
-          message: 'Successfully connected to chat service',
+          title: t('notification.connected'),
+          message: t('notification.connectedMessage'),
           duration: 3000,
         });
 
       case 'reconnecting':
         return this.addNotification({
           type: 'warning',
-          title: 'Reconnecting',
-          message: 'Connection lost. Attempting to reconnect...',
+          title: t('notification.reconnecting'),
+          message: t('notification.reconnectingMessage'),
           duration: 0,
         });
 
       case 'disconnected':
         return this.addNotification({
           type: 'warning',
-          title: 'Disconnected',
-          message: 'You have been disconnected from the chat service',
+          title: t('notification.disconnected'),
+          message: t('notification.disconnectedMessage'),
           duration: 0,
           actions: [
             {
-              label: 'Reconnect',
+              label: t('notification.action.reconnect'),
               action: () => this.handleReconnectAction(),
               style: 'primary',
             },
@@ -129,12 +143,12 @@ export class NotificationService {
       case 'failed':
         return this.addNotification({
           type: 'error',
-          title: 'Connection Failed',
-          message: 'Unable to connect to chat service. Please try again later.',
+          title: t('notification.failed'),
+          message: t('notification.failedMessage'),
           duration: 0,
           actions: [
             {
-              label: 'Retry',
+              label: t('notification.action.retry'),
               action: () => this.handleRetryAction(),
               style: 'primary',
             },
@@ -150,21 +164,22 @@ export class NotificationService {
    * Show agent status notification
    */
   showAgentStatus(isConnected: boolean, agentName?: string): string {
+    const { t } = this.translator;
+
     if (isConnected) {
       return this.addNotification({
         type: 'success',
-        title: 'Agent Connected',
+        title: t('notification.agentConnected'),
         message: agentName
-          ? `${agentName} has joined the chat`
-          : 'An agent has joined the chat',
+          ? t('notification.agentJoined', { name: agentName })
+          : t('notification.anAgentJoined'),
         duration: 3000,
       });
     } else {
       return this.addNotification({
         type: 'warning',
-        title: 'Agent Disconnected',
-        message:
-          'The agent has left the chat. You may need to wait for another agent.',
+        title: t('notification.agentDisconnected'),
+        message: t('notification.agentLeft'),
         duration: 5000,
       });
     }
@@ -175,19 +190,20 @@ export class NotificationService {
    */
   showMessageStatus(success: boolean, retryCount?: number): string | null {
     if (!success) {
+      const { t } = this.translator;
       const message =
         retryCount && retryCount > 1
-          ? `Message failed to send after ${retryCount} attempts`
-          : 'Message failed to send';
+          ? t('notification.messageFailedAfter', { count: retryCount })
+          : t('notification.messageFailed');
 
       return this.addNotification({
         type: 'error',
-        title: 'Message Not Sent',
+        title: t('notification.messageNotSent'),
         message,
         duration: 5000,
         actions: [
           {
-            label: 'Retry',
+            label: t('notification.action.retry'),
             action: () => this.handleRetryMessageAction(),
             style: 'primary',
           },
@@ -201,11 +217,12 @@ export class NotificationService {
    * Show offline mode notification
    */
   showOfflineMode(): string {
+    const { t } = this.translator;
+
     return this.addNotification({
       type: 'warning',
-      title: 'Offline Mode',
-      message:
-        'You are currently offline. Messages will be sent when connection is restored.',
+      title: t('notification.offline'),
+      message: t('notification.offlineMessage'),
       duration: 0,
     });
   }
@@ -215,10 +232,12 @@ export class NotificationService {
    */
   showQueueStatus(queueSize: number): string | null {
     if (queueSize > 0) {
+      const { t } = this.translator;
+
       return this.addNotification({
         type: 'info',
-        title: 'Messages Queued',
-        message: `${queueSize} message${queueSize > 1 ? 's' : ''} waiting to be sent`,
+        title: t('notification.queued'),
+        message: t('notification.queuedMessage', { count: queueSize }),
         duration: 3000,
       });
     }
@@ -328,27 +347,29 @@ export class NotificationService {
    * Get user-friendly error message
    */
   private getUserFriendlyErrorMessage(error: ChatError): string {
+    const { t } = this.translator;
+
     switch (error.code) {
       case 'CONNECTION_LOST':
-        return "Connection to chat service was lost. We're trying to reconnect automatically.";
+        return t('notification.error.connectionLost');
 
       case 'MESSAGE_SEND_FAILED':
-        return "Your message couldn't be sent. We'll try again automatically.";
+        return t('notification.error.messageSendFailed');
 
       case 'AGENT_DISCONNECTED':
-        return "The agent has disconnected. We're looking for another available agent.";
+        return t('notification.error.agentDisconnected');
 
       case 'SESSION_TIMEOUT':
-        return 'Your chat session has expired due to inactivity. Please start a new chat.';
+        return t('notification.error.sessionTimeout');
 
       case 'AUTHENTICATION_FAILED':
-        return 'There was an authentication issue. Please refresh the page and try again.';
+        return t('notification.error.authenticationFailed');
 
       case 'RATE_LIMIT_EXCEEDED':
-        return "You're sending messages too quickly. Please wait a moment before trying again.";
+        return t('notification.error.rateLimitExceeded');
 
       default:
-        return "An unexpected error occurred. We're working to resolve it.";
+        return t('notification.error.unknown');
     }
   }
 
@@ -356,13 +377,14 @@ export class NotificationService {
    * Get default actions for error types
    */
   private getDefaultErrorActions(error: ChatError): NotificationAction[] {
+    const { t } = this.translator;
     const actions: NotificationAction[] = [];
 
     if (error.recoverable) {
       switch (error.code) {
         case 'CONNECTION_LOST':
           actions.push({
-            label: 'Retry Connection',
+            label: t('notification.action.retryConnection'),
             action: () => this.handleReconnectAction(),
             style: 'primary',
           });
@@ -370,7 +392,7 @@ export class NotificationService {
 
         case 'MESSAGE_SEND_FAILED':
           actions.push({
-            label: 'Retry Message',
+            label: t('notification.action.retryMessage'),
             action: () => this.handleRetryMessageAction(),
             style: 'primary',
           });
@@ -378,7 +400,7 @@ export class NotificationService {
 
         case 'AGENT_DISCONNECTED':
           actions.push({
-            label: 'Find Agent',
+            label: t('notification.action.findAgent'),
             action: () => this.handleFindAgentAction(),
             style: 'primary',
           });
@@ -387,7 +409,7 @@ export class NotificationService {
     } else {
       // Non-recoverable errors
       actions.push({
-        label: 'Start New Chat',
+        label: t('notification.action.startNewChat'),
         action: () => this.handleStartNewChatAction(),
         style: 'primary',
       });
@@ -395,7 +417,7 @@ export class NotificationService {
 
     // Always provide dismiss action
     actions.push({
-      label: 'Dismiss',
+      label: t('notification.action.dismiss'),
       action: () => {}, // Will be handled by notification removal
       style: 'secondary',
     });
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  EndpointQueueStatusProvider,
+  SystemMessageQueueStatusProvider,
+  createQueueStatusProvider,
+} from './QueueStatusProvider';
+import type { Message } from '../types/chat';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  }) as Response;
+
+const systemMessage = (content: string): Message => ({
+  id: 'msg-1',
+  content,
+  sender: 'system',
+  timestamp: new Date('2026-10-19T10:00:00Z'),
+  status: 'delivered',
+  type: 'system',
+});
+
+describe('EndpointQueueStatusProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should require an endpoint', () => {
+    expect(() => new EndpointQueueStatusProvider('')).toThrow(
+      'Queue status endpoint is required'
+    );
+  });
+
+  it('should poll the endpoint with the contact ID until stopped', async () => {
+    vi.useFakeTimers();
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ position: 2, estimatedWaitSeconds: 90 })
+      );
+    const onUpdate = vi.fn();
+    const provider = new EndpointQueueStatusProvider(
+      'https://api.example.com/queue',
+      5000,
+      fetchFn
+    );
+
+    provider.start('contact-1', onUpdate);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(fetchFn.mock.calls[0][0]).toBe(
+      'https://api.example.com/queue?contactId=contact-1'
+    );
+    expect(onUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ position: 2, estimatedWaitSeconds: 90 })
+    );
+
+    provider.stop();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the last status when a poll fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchFn = vi.fn().mockResolvedValue(jsonResponse({}, 503));
+    const onUpdate = vi.fn();
+    const provider = new EndpointQueueStatusProvider(
+      'https://api.example.com/queue',
+      5000,
+      fetchFn
+    );
+
+    provider.start('contact-1', onUpdate);
+    await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+
+    expect(warn).toHaveBeenCalledWith(
+      'Failed to fetch queue status:',
+      expect.any(Error)
+    );
+    expect(onUpdate).not.toHaveBeenCalled();
+    provider.stop();
+    warn.mockRestore();
+  });
+});
+
+describe('SystemMessageQueueStatusProvider', () => {
+  it('should report queue updates from system messages', () => {
+    const onUpdate = vi.fn();
+    const provider = new SystemMessageQueueStatusProvider();
+
+    provider.start('contact-1', onUpdate);
+    provider.handleMessage(systemMessage('You are number 3 in the queue'));
+    provider.handleMessage({
+      ...systemMessage('You are number 1 in the queue'),
+      sender: 'agent',
+    });
+
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    expect(onUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ position: 3 })
+    );
+  });
+
+  it('should ignore messages after it stops', () => {
+    const onUpdate = vi.fn();
+    const provider = new SystemMessageQueueStatusProvider();
+
+    provider.start('contact-1', onUpdate);
+    provider.stop();
+    provider.handleMessage(systemMessage('You are number 3 in the queue'));
+
+    expect(onUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('createQueueStatusProvider', () => {
+  it('should pick the provider from the configuration', () => {
+    expect(
+      createQueueStatusProvider({
+        statusEndpoint: 'https://api.example.com/queue',
+      })
+    ).toBeInstanceOf(EndpointQueueStatusProvider);
+    expect(createQueueStatusProvider({})).toBeInstanceOf(
+      SystemMessageQueueStatusProvider
+    );
+
+    const custom = { start: vi.fn(), stop: vi.fn() };
+    expect(createQueueStatusProvider({ provider: custom })).toBe(custom);
+  });
+});
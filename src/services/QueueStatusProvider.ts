@@ -0,0 +1,128 @@
+import type { Message, QueueStatus } from '../types/chat';
+import type { QueueConfiguration, QueueStatusProvider } from '../types/widget';
+import { parseQueueStatusMessage, toQueueStatus } from '../utils/queueStatus';
+
+/**
+ * Polls a backend endpoint for the contact's queue position
+ * Failed polls keep the last known status
+ */
+export class EndpointQueueStatusProvider implements QueueStatusProvider {
+  private endpoint: string;
+  private pollIntervalMs: number;
+  private fetchFn: typeof fetch;
+  private pollInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    endpoint: string,
+    pollIntervalMs = 15000,
+    fetchFn?: typeof fetch
+  ) {
+    if (!endpoint) {
+      throw new Error('Queue status endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.pollIntervalMs = pollIntervalMs;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Fetch the status now and then on the poll interval
+   */
+  start(contactId: string, onUpdate: (status: QueueStatus) => void): void {
+    this.stop();
+
+    const poll = async () => {
+      const status = await this.fetchStatus(contactId);
+      if (status && this.pollInterval) {
+        onUpdate(status);
+      }
+    };
+
+    this.pollInterval = setInterval(poll, this.pollIntervalMs);
+    void poll();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  private async fetchStatus(contactId: string): Promise<QueueStatus | null> {
+    try {
+      const url = new URL(this.endpoint, window.location.href);
+      url.searchParams.set('contactId', contactId);
+
+      const response = await this.fetchFn(url.toString(), {
+        headers: { Accept: 'application/json' },
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Queue status request failed with status ${response.status}`
+        );
+      }
+
+      const body = await response.json();
+      return toQueueStatus(body.position, body.estimatedWaitSeconds);
+    } catch (error) {
+      console.warn('Failed to fetch queue status:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Reads queue updates from system messages sent by the contact flow
+ * See parseQueueStatusMessage for the supported formats
+ */
+export class SystemMessageQueueStatusProvider implements QueueStatusProvider {
+  private onUpdate: ((status: QueueStatus) => void) | null = null;
+
+  start(_contactId: string, onUpdate: (status: QueueStatus) => void): void {
+    this.onUpdate = onUpdate;
+  }
+
+  handleMessage(message: Message): void {
+    if (!this.onUpdate || message.sender !== 'system') {
+      return;
+    }
+
+    const status = parseQueueStatusMessage(message.content, message.timestamp);
+    if (status) {
+      this.onUpdate(status);
+    }
+  }
+
+  stop(): void {
+    this.onUpdate = null;
+  }
+}
+
+/**
+ * Create the provider selected by the queue configuration
+ */
+export const createQueueStatusProvider = (
+  config: QueueConfiguration
+): QueueStatusProvider => {
+  const provider =
+    config.provider ?? (config.statusEndpoint ? 'endpoint' : 'systemMessages');
+
+  if (provider === 'endpoint') {
+    return new EndpointQueueStatusProvider(
+      config.statusEndpoint || '',
+      config.pollIntervalMs
+    );
+  }
+
+  if (provider === 'systemMessages') {
+    return new SystemMessageQueueStatusProvider();
+  }
+
+  return provider;
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ContactAttributesSurveySink,
+  EndpointSurveySink,
+  createSurveySink,
+} from './SurveySink';
+
+describe('SurveySink', () => {
+  const response = {
+    contactId: 'contact-1',
+    sessionId: 'session-1',
+    answers: { csat: 4, reason: ['wait', 'quality'] },
+    submittedAt: new Date('2024-01-15T10:00:00Z'),
+  };
+
+  describe('EndpointSurveySink', () => {
+    it('should require an endpoint', () => {
+      expect(() => new EndpointSurveySink('')).toThrow(
+        'Survey endpoint is required'
+      );
+    });
+
+    it('should POST the response as JSON', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      const sink = new EndpointSurveySink(
+        'https://api.example.com/survey',
+        fetchFn
+      );
+
+      await sink.submit(response);
+
+      expect(fetchFn).toHaveBeenCalledWith(
+        'https://api.example.com/survey',
+        expect.objectContaining({
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+        })
+      );
+      const body = JSON.parse(fetchFn.mock.calls[0][1].body);
+      expect(body).toMatchObject({
+        contactId: 'contact-1',
+        sessionId: 'session-1',
+        answers: response.answers,
+        submittedAt: '2024-01-15T10:00:00.000Z',
+      });
+    });
+
+    it('should reject when the endpoint fails', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 500 });
+      const sink = new EndpointSurveySink(
+        'https://api.example.com/survey',
+        fetchFn
+      );
+
+      await expect(sink.submit(response)).rejects.toThrow(
+        'Survey submission failed with status 500'
+      );
+    });
+  });
+
+  describe('ContactAttributesSurveySink', () => {
+    it('should send the answers as contact attributes', async () => {
+      const fetchFn = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+      const sink = new ContactAttributesSurveySink(
+        'https://api.example.com/contact-attributes',
+        'csat_',
+        fetchFn
+      );
+
+      await sink.submit(response);
+
+      expect(JSON.parse(fetchFn.mock.calls[0][1].body)).toEqual({
+        contactId: 'contact-1',
+        attributes: { csat_csat: '4', csat_reason: 'wait,quality' },
+      });
+    });
+
+    it('should require the contact ID', async () => {
+      const fetchFn = vi.fn();
+      const sink = new ContactAttributesSurveySink(
+        'https://api.example.com/contact-attributes',
+        undefined,
+        fetchFn
+      );
+
+      await expect(
+        sink.submit({ ...response, contactId: undefined })
+      ).rejects.toThrow('Survey contact ID is required');
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSurveySink', () => {
+    it('should create the configured sink', () => {
+      const custom = { submit: vi.fn() };
+
+      expect(
+        createSurveySink({
+          questions: [],
+          endpoint: 'https://api.example.com/survey',
+        })
+      ).toBeInstanceOf(EndpointSurveySink);
+      expect(
+        createSurveySink({
+          questions: [],
+          sink: 'contactAttributes',
+          endpoint: 'https://api.example.com/contact-attributes',
+        })
+      ).toBeInstanceOf(ContactAttributesSurveySink);
+      expect(createSurveySink({ questions: [], sink: custom })).toBe(custom);
+    });
+  });
+});
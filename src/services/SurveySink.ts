@@ -0,0 +1,109 @@
+import type {
+  SurveyConfiguration,
+  SurveyResponse,
+  SurveySink,
+} from '../types/widget';
+import { toSurveyAttributes } from '../utils/survey';
+
+/**
+ * Posts completed surveys to a backend endpoint
+ */
+export class EndpointSurveySink implements SurveySink {
+  private endpoint: string;
+  private fetchFn: typeof fetch;
+
+  constructor(endpoint: string, fetchFn?: typeof fetch) {
+    if (!endpoint) {
+      throw new Error('Survey endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Submit the survey
+   */
+  async submit(response: SurveyResponse): Promise<void> {
+    const result = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...response,
+        submittedAt: response.submittedAt.toISOString(),
+        pageUrl: typeof window !== 'undefined' ? window.location.href : '',
+      }),
+    });
+
+    if (!result.ok) {
+      throw new Error(`Survey submission failed with status ${result.status}`);
+    }
+  }
+}
+
+/**
+ * Sends completed surveys to a backend that stores the answers as contact
+ * attributes, e.g. with the Connect UpdateContactAttributes API
+ * The browser cannot update contact attributes itself
+ */
+export class ContactAttributesSurveySink implements SurveySink {
+  private endpoint: string;
+  private attributePrefix: string;
+  private fetchFn: typeof fetch;
+
+  constructor(
+    endpoint: string,
+    attributePrefix = 'survey_',
+    fetchFn?: typeof fetch
+  ) {
+    if (!endpoint) {
+      throw new Error('Survey endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.attributePrefix = attributePrefix;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Submit the survey answers for the contact
+   */
+  async submit(response: SurveyResponse): Promise<void> {
+    if (!response.contactId) {
+      throw new Error('Survey contact ID is required');
+    }
+
+    const result = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contactId: response.contactId,
+        attributes: toSurveyAttributes(response.answers, this.attributePrefix),
+      }),
+    });
+
+    if (!result.ok) {
+      throw new Error(`Survey submission failed with status ${result.status}`);
+    }
+  }
+}
+
+/**
+ * Create the sink selected by the survey configuration
+ */
+export const createSurveySink = (config: SurveyConfiguration): SurveySink => {
+  const sink = config.sink ?? 'endpoint';
+
+  if (sink === 'endpoint') {
+    return new EndpointSurveySink(config.endpoint || '');
+  }
+
+  if (sink === 'contactAttributes') {
+    return new ContactAttributesSurveySink(
+      config.endpoint || '',
+      config.attributePrefix
+    );
+  }
+
+  return sink;
+};
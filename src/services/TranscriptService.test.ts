@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TranscriptService } from './TranscriptService';
+import type { ChatTranscript } from '../types/chat';
+
+describe('TranscriptService', () => {
+  const transcript: ChatTranscript = {
+    sessionId: 'session-1',
+    startTime: new Date('2026-10-19T09:00:00Z'),
+    messages: [
+      {
+        id: '1',
+        content: 'Hello',
+        sender: 'visitor',
+        timestamp: new Date('2026-10-19T09:01:00Z'),
+        status: 'sent',
+        type: 'text',
+      },
+    ],
+    visitor: { name: 'Jamie', sessionId: 'session-1' },
+  };
+
+  it('should require an endpoint', () => {
+    expect(() => new TranscriptService('')).toThrow(
+      'Transcript email endpoint is required'
+    );
+  });
+
+  it('should POST the transcript with text and HTML bodies', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    const service = new TranscriptService(
+      'https://api.example.com/transcripts',
+      fetchFn
+    );
+
+    await service.emailTranscript(transcript, 'jamie@example.com', {
+      locale: 'en-US',
+      timeZone: 'UTC',
+    });
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      'https://api.example.com/transcripts',
+      expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const body = JSON.parse(fetchFn.mock.calls[0][1].body);
+    expect(body).toMatchObject({
+      email: 'jamie@example.com',
+      sessionId: 'session-1',
+      transcript: { sessionId: 'session-1', visitor: { name: 'Jamie' } },
+    });
+    expect(body.text).toContain('[9:01 AM] Jamie: Hello');
+    expect(body.html).toContain('<!DOCTYPE html>');
+  });
+
+  it('should reject when the endpoint fails', async () => {
+    const fetchFn = vi.fn().mockResolvedValue({ ok: false, status: 500 });
+    const service = new TranscriptService(
+      'https://api.example.com/transcripts',
+      fetchFn
+    );
+
+    await expect(
+      service.emailTranscript(transcript, 'jamie@example.com')
+    ).rejects.toThrow('Transcript email request failed with status 500');
+  });
+});
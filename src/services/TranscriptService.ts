@@ -0,0 +1,52 @@
+import type { ChatTranscript } from '../types/chat';
+import {
+  formatTranscriptHtml,
+  formatTranscriptText,
+} from '../utils/transcript';
+import type { TranscriptFormatOptions } from '../utils/transcript';
+
+/**
+ * Emails chat transcripts through the configured endpoint
+ * The endpoint receives the transcript as JSON along with ready-made text
+ * and HTML bodies, and decides how the email is sent
+ */
+export class TranscriptService {
+  private endpoint: string;
+  private fetchFn: typeof fetch;
+
+  constructor(endpoint: string, fetchFn?: typeof fetch) {
+    if (!endpoint) {
+      throw new Error('Transcript email endpoint is required');
+    }
+
+    this.endpoint = endpoint;
+    this.fetchFn = fetchFn || ((...args) => fetch(...args));
+  }
+
+  /**
+   * Email a transcript to the given address
+   */
+  async emailTranscript(
+    transcript: ChatTranscript,
+    email: string,
+    options: TranscriptFormatOptions = {}
+  ): Promise<void> {
+    const response = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email,
+        sessionId: transcript.sessionId,
+        transcript,
+        text: formatTranscriptText(transcript, options),
+        html: formatTranscriptHtml(transcript, options),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Transcript email request failed with status ${response.status}`
+      );
+    }
+  }
+}
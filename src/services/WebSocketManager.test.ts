@@ -6,19 +6,38 @@ import {
 import type { ConnectionStatus } from '../types/aws-connect';
 import type { Message } from '../types/chat';
 
+// Handlers the manager assigns to a socket, called directly by the tests
+type SocketHandler = (event?: unknown) => void;
+
 // Mock WebSocket
 const mockWebSocket = {
   send: vi.fn(),
   close: vi.fn(),
   readyState: WebSocket.OPEN,
-  onopen: null as any,
-  onmessage: null as any,
-  onclose: null as any,
-  onerror: null as any,
+  onopen: null as unknown as SocketHandler,
+  onmessage: null as unknown as SocketHandler,
+  onclose: null as unknown as SocketHandler,
+  onerror: null as unknown as SocketHandler,
 };
 
 global.WebSocket = vi.fn().mockImplementation(() => mockWebSocket);
 
+// Wrap a Connect item in an aws/chat frame
+const chatFrame = (payload: object) => ({
+  data: JSON.stringify({
+    topic: 'aws/chat',
+    contentType: 'application/json',
+    content: JSON.stringify(payload),
+  }),
+});
+
+const subscriptionAck = {
+  data: JSON.stringify({
+    topic: 'aws/subscribe',
+    content: { status: 'success', topics: ['aws/chat'] },
+  }),
+};
+
 // Mock navigator.onLine
 Object.defineProperty(navigator, 'onLine', {
   writable: true,
@@ -37,6 +56,7 @@ describe('WebSocketManager', () => {
       onMessage: vi.fn(),
       onTyping: vi.fn(),
       onConnectionStatusChange: vi.fn(),
+      onParticipantEvent: vi.fn(),
     };
 
     webSocketManager.setMessageHandler(mockHandler);
@@ -54,6 +74,16 @@ describe('WebSocketManager', () => {
       // Simulate WebSocket open event
       mockWebSocket.onopen();
 
+      expect(mockWebSocket.send).toHaveBeenCalledWith(
+        JSON.stringify({
+          topic: 'aws/subscribe',
+          content: { topics: ['aws/chat'] },
+        })
+      );
+      expect(webSocketManager.getState()).toBe('connecting');
+
+      mockWebSocket.onmessage(subscriptionAck);
+
       await expect(connectPromise).resolves.toBeUndefined();
       expect(webSocketManager.isConnected()).toBe(true);
       expect(webSocketManager.getState()).toBe('connected');
@@ -71,18 +101,102 @@ describe('WebSocketManager', () => {
       expect(webSocketManager.getState()).toBe('failed');
     });
 
+    it('should fail when the subscription is rejected', async () => {
+      const connectPromise = webSocketManager.connect('wss://example.com');
+      mockWebSocket.onopen();
+      mockWebSocket.onmessage({
+        data: JSON.stringify({
+          topic: 'aws/subscribe',
+          content: { status: 'failure', topics: [] },
+        }),
+      });
+
+      await expect(connectPromise).rejects.toThrow(
+        'WebSocket subscription failed'
+      );
+      expect(webSocketManager.getState()).toBe('failed');
+    });
+
+    it('should fail when the socket closes before subscribing', async () => {
+      const connectPromise = webSocketManager.connect('wss://example.com');
+      mockWebSocket.onopen();
+      mockWebSocket.onclose({ code: 1006 });
+
+      await expect(connectPromise).rejects.toThrow(
+        'WebSocket closed before subscribing'
+      );
+      expect(webSocketManager.getState()).toBe('failed');
+    });
+
     it('should disconnect properly', () => {
       webSocketManager.disconnect();
 
       expect(mockWebSocket.close).toHaveBeenCalledWith(1000, 'Normal closure');
       expect(webSocketManager.getState()).toBe('disconnected');
     });
+
+    it('should switch to a new URL before closing the old socket', async () => {
+      const connectPromise = webSocketManager.connect('wss://example.com');
+      mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
+      await connectPromise;
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(true);
+
+      const nextSocket = {
+        ...mockWebSocket,
+        close: vi.fn(),
+        onopen: null as unknown as SocketHandler,
+        onmessage: null as unknown as SocketHandler,
+        onclose: null as unknown as SocketHandler,
+        onerror: null as unknown as SocketHandler,
+      };
+      vi.mocked(global.WebSocket).mockImplementationOnce(
+        () => nextSocket as unknown as WebSocket
+      );
+
+      const switchPromise = webSocketManager.switchUrl('wss://example.com/2');
+
+      // The old socket stays open until the new one is ready
+      expect(mockWebSocket.close).not.toHaveBeenCalled();
+
+      nextSocket.onopen();
+      nextSocket.onmessage(subscriptionAck);
+      await switchPromise;
+
+      expect(global.WebSocket).toHaveBeenLastCalledWith('wss://example.com/2');
+      expect(mockWebSocket.close).toHaveBeenCalledWith(
+        1000,
+        'Connection refreshed'
+      );
+      expect(mockWebSocket.onclose).toBeNull();
+      expect(mockHandler.onConnectionStatusChange).not.toHaveBeenCalledWith(
+        'disconnected'
+      );
+
+      nextSocket.onmessage(
+        chatFrame({
+          Type: 'MESSAGE',
+          Id: 'msg-1',
+          ParticipantId: 'agent-1',
+          DisplayName: 'Agent',
+          ParticipantRole: 'AGENT',
+          Content: 'Still here',
+          ContentType: 'text/plain',
+          AbsoluteTime: '2024-01-01T10:00:00.000Z',
+        })
+      );
+
+      expect(mockHandler.onMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'msg-1', content: 'Still here' })
+      );
+    });
   });
 
   describe('message handling', () => {
     beforeEach(async () => {
       const connectPromise = webSocketManager.connect('wss://example.com');
       mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
       await connectPromise;
     });
 
@@ -108,7 +222,7 @@ describe('WebSocketManager', () => {
         AbsoluteTime: '2023-01-01T00:00:00Z',
       };
 
-      mockWebSocket.onmessage({ data: JSON.stringify(mockMessage) });
+      mockWebSocket.onmessage(chatFrame(mockMessage));
 
       expect(mockHandler.onMessage).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -128,28 +242,197 @@ describe('WebSocketManager', () => {
         AbsoluteTime: '2023-01-01T00:00:00Z',
       };
 
-      mockWebSocket.onmessage({ data: JSON.stringify(mockTypingEvent) });
+      mockWebSocket.onmessage(chatFrame(mockTypingEvent));
 
       expect(mockHandler.onTyping).toHaveBeenCalledWith(true, 'agent-1');
     });
+
+    it("should ignore the visitor's own typing events", () => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'EVENT',
+          ContentType: 'application/vnd.amazonaws.connect.event.typing',
+          ParticipantId: 'customer-1',
+          ParticipantRole: 'CUSTOMER',
+        })
+      );
+
+      expect(mockHandler.onTyping).not.toHaveBeenCalled();
+    });
+
+    it('should map system messages to system sender', () => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'MESSAGE',
+          Id: '2',
+          Content: 'Thanks for contacting us',
+          ParticipantRole: 'SYSTEM',
+        })
+      );
+
+      expect(mockHandler.onMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ sender: 'system', type: 'system' })
+      );
+    });
+
+    it('should keep the content type of rich messages', () => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'MESSAGE',
+          Id: '3',
+          Content: '**Hello**',
+          ContentType: 'text/markdown',
+          ParticipantRole: 'AGENT',
+        })
+      );
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'MESSAGE',
+          Id: '4',
+          Content: 'Hello',
+          ContentType: 'text/plain',
+          ParticipantRole: 'AGENT',
+        })
+      );
+
+      expect(mockHandler.onMessage).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ contentType: 'text/markdown' })
+      );
+      expect(
+        vi.mocked(mockHandler.onMessage).mock.calls[1][0]
+      ).not.toHaveProperty('contentType');
+    });
+
+    it.each([
+      ['participant.joined'],
+      ['participant.left'],
+      ['participant.idle'],
+      ['participant.returned'],
+      ['participant.autodisconnection'],
+      ['chat.ended'],
+      ['transfer.succeeded'],
+      ['transfer.failed'],
+    ])('should dispatch %s events', eventType => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'EVENT',
+          Id: 'event-1',
+          ContentType: `application/vnd.amazonaws.connect.event.${eventType}`,
+          ParticipantId: 'agent-1',
+          ParticipantRole: 'AGENT',
+          DisplayName: 'Jane',
+          AbsoluteTime: '2023-01-01T00:00:00Z',
+        })
+      );
+
+      expect(mockHandler.onParticipantEvent).toHaveBeenCalledWith({
+        type: eventType,
+        id: 'event-1',
+        participantId: 'agent-1',
+        participantRole: 'AGENT',
+        displayName: 'Jane',
+        timestamp: new Date('2023-01-01T00:00:00Z'),
+      });
+    });
+
+    it('should include the message ID on read and delivered receipts', () => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'EVENT',
+          ContentType: 'application/vnd.amazonaws.connect.event.message.read',
+          Content: JSON.stringify({ messageId: 'message-1' }),
+          ParticipantRole: 'AGENT',
+        })
+      );
+
+      expect(mockHandler.onParticipantEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'message.read',
+          messageId: 'message-1',
+        })
+      );
+    });
+
+    it('should dispatch receipts sent as message metadata', () => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'MESSAGEMETADATA',
+          Id: 'metadata-1',
+          AbsoluteTime: '2023-01-01T00:00:00Z',
+          MessageMetadata: {
+            MessageId: 'message-1',
+            Receipts: [
+              {
+                DeliveredTimestamp: '2023-01-01T00:00:00Z',
+                RecipientParticipantId: 'agent-1',
+              },
+            ],
+          },
+        })
+      );
+
+      expect(mockHandler.onParticipantEvent).toHaveBeenCalledWith({
+        type: 'message.delivered',
+        id: 'metadata-1',
+        messageId: 'message-1',
+        timestamp: new Date('2023-01-01T00:00:00Z'),
+      });
+    });
+
+    it('should drop unknown event types', () => {
+      mockWebSocket.onmessage(
+        chatFrame({
+          Type: 'EVENT',
+          ContentType: 'application/vnd.amazonaws.connect.event.unknown',
+        })
+      );
+
+      expect(mockHandler.onParticipantEvent).not.toHaveBeenCalled();
+    });
   });
 
-  describe('typing indicators', () => {
+  describe('heartbeat', () => {
     beforeEach(async () => {
+      vi.useFakeTimers();
       const connectPromise = webSocketManager.connect('wss://example.com');
       mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
       await connectPromise;
+      vi.spyOn(webSocketManager, 'isConnected').mockReturnValue(true);
+      mockWebSocket.send.mockClear();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
     });
 
-    it('should send typing indicator', () => {
-      webSocketManager.sendTypingIndicator();
+    it('should send aws/ping frames', () => {
+      vi.advanceTimersByTime(30000);
 
       expect(mockWebSocket.send).toHaveBeenCalledWith(
-        expect.stringContaining(
-          'application/vnd.amazonaws.connect.event.typing'
-        )
+        JSON.stringify({ topic: 'aws/ping' })
       );
     });
+
+    it('should keep the connection while pings are answered', () => {
+      for (let i = 0; i < 3; i++) {
+        vi.advanceTimersByTime(30000);
+        mockWebSocket.onmessage({
+          data: JSON.stringify({ topic: 'aws/ping', statusCode: 200 }),
+        });
+      }
+
+      expect(mockWebSocket.send).toHaveBeenCalledTimes(3);
+      expect(webSocketManager.getState()).toBe('connected');
+    });
+
+    it('should reconnect after missed heartbeats', () => {
+      vi.advanceTimersByTime(3 * 30000);
+
+      expect(mockWebSocket.close).toHaveBeenCalled();
+      expect(webSocketManager.getState()).toBe('reconnecting');
+    });
   });
 
   describe('reconnection logic', () => {
@@ -164,6 +447,7 @@ describe('WebSocketManager', () => {
     it('should attempt reconnection on abnormal close', async () => {
       const connectPromise = webSocketManager.connect('wss://example.com');
       mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
       await connectPromise;
 
       // Simulate abnormal close
@@ -175,9 +459,30 @@ describe('WebSocketManager', () => {
       );
     });
 
+    it('should reconnect through the connection refresher', async () => {
+      const connectPromise = webSocketManager.connect('wss://example.com');
+      mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
+      await connectPromise;
+
+      const refresher = vi.fn().mockResolvedValue(undefined);
+      webSocketManager.setConnectionRefresher(refresher);
+      vi.mocked(global.WebSocket).mockClear();
+
+      mockWebSocket.onclose({ code: 1006 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(refresher).toHaveBeenCalledTimes(1);
+      expect(global.WebSocket).not.toHaveBeenCalled();
+      expect(mockHandler.onConnectionStatusChange).toHaveBeenLastCalledWith(
+        'connected'
+      );
+    });
+
     it('should not reconnect on normal close', async () => {
       const connectPromise = webSocketManager.connect('wss://example.com');
       mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
       await connectPromise;
 
       // Simulate normal close
@@ -200,6 +505,7 @@ describe('WebSocketManager', () => {
     it('should handle online event', async () => {
       const connectPromise = webSocketManager.connect('wss://example.com');
       mockWebSocket.onopen();
+      mockWebSocket.onmessage(subscriptionAck);
       await connectPromise;
 
       // Simulate going offline then online
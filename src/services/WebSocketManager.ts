@@ -3,18 +3,79 @@ import type {
   ConnectMessageEvent,
   ConnectTypingEvent,
   ConnectionStatus,
+  ConnectEventPayload,
+  ConnectMessageMetadataEvent,
+  ConnectParticipantEvent,
+  ConnectParticipantEventType,
+  ConnectWebSocketFrame,
 } from '../types/aws-connect';
-import type { Message } from '../types/chat';
+import type { Message, MessageContentType, MessageSender } from '../types/chat';
+import { applyQuickReplyTemplate } from '../utils/interactiveMessage';
+
+/**
+ * Connect participant WebSocket topics
+ */
+const CHAT_TOPIC = 'aws/chat';
+const SUBSCRIBE_TOPIC = 'aws/subscribe';
+const PING_TOPIC = 'aws/ping';
+const HEARTBEAT_TOPIC = 'aws/heartbeat';
+
+// Pings left unanswered before the connection is treated as dead
+const MAX_MISSED_HEARTBEATS = 2;
+
+const EVENT_CONTENT_TYPE_PREFIX = 'application/vnd.amazonaws.connect.event.';
+
+const PARTICIPANT_EVENT_TYPES: ConnectParticipantEventType[] = [
+  'typing',
+  'participant.joined',
+  'participant.left',
+  'participant.idle',
+  'participant.returned',
+  'participant.autodisconnection',
+  'chat.ended',
+  'transfer.succeeded',
+  'transfer.failed',
+  'message.delivered',
+  'message.read',
+];
+
+/**
+ * Map an Amazon Connect participant role to a message sender
+ */
+export const toMessageSender = (participantRole?: string): MessageSender => {
+  switch (participantRole) {
+    case 'AGENT':
+    case 'CUSTOM_BOT':
+    case 'SUPERVISOR':
+      return 'agent';
+    case 'SYSTEM':
+      return 'system';
+    default:
+      return 'visitor';
+  }
+};
+
+// Rich content types rendered by the widget, anything else is plain text
+const RICH_CONTENT_TYPES: MessageContentType[] = [
+  'text/markdown',
+  'application/vnd.amazonaws.connect.message.interactive',
+  'application/vnd.amazonaws.connect.message.interactive.response',
+];
+
+/**
+ * Map an Amazon Connect message content type to a rich content type
+ * Returns undefined for plain text
+ */
+export const toMessageContentType = (
+  contentType?: string
+): MessageContentType | undefined =>
+  RICH_CONTENT_TYPES.find(richType => richType === contentType);
 
 /**
  * WebSocket connection states
  */
 export type WebSocketState =
-  | 'disconnected'
-  | 'connecting'
-  | 'connected'
-  | 'reconnecting'
-  | 'failed';
+  'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'failed';
 
 /**
  * WebSocket message handler interface
@@ -23,6 +84,7 @@ export interface WebSocketMessageHandler {
   onMessage: (message: Message) => void;
   onTyping: (isTyping: boolean, participantId: string) => void;
   onConnectionStatusChange: (status: ConnectionStatus) => void;
+  onParticipantEvent?: (event: ConnectParticipantEvent) => void;
 }
 
 /**
@@ -38,8 +100,10 @@ export class WebSocketManager {
   private reconnectDelay = 1000; // Start with 1 second
   private maxReconnectDelay = 30000; // Max 30 seconds
   private heartbeatInterval: NodeJS.Timeout | null = null;
+  private missedHeartbeats = 0;
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private messageHandler: WebSocketMessageHandler | null = null;
+  private connectionRefresher: (() => Promise<void>) | null = null;
   private messageQueue: string[] = [];
   private isOnline = navigator.onLine;
 
@@ -56,52 +120,35 @@ export class WebSocketManager {
     this.messageHandler = handler;
   }
 
+  /**
+   * Set how reconnection opens a new connection
+   * Connect WebSocket URLs expire, so reconnecting to the stored URL only
+   * works for a short while; the refresher requests a new one and connects
+   */
+  setConnectionRefresher(refresher: () => Promise<void>): void {
+    this.connectionRefresher = refresher;
+  }
+
   /**
    * Connect to WebSocket with the provided URL
    * Requirement 3.1: Establish real-time connection
+   * Resolves once Connect acknowledges the aws/chat subscription
    */
   async connect(websocketUrl: string): Promise<void> {
     this.websocketUrl = websocketUrl;
     this.setState('connecting');
 
-    return new Promise((resolve, reject) => {
-      try {
-        this.websocket = new WebSocket(websocketUrl);
-
-        this.websocket.onopen = () => {
-          this.setState('connected');
-          this.resetReconnectAttempts();
-          this.startHeartbeat();
-          this.processMessageQueue();
-          resolve();
-        };
+    try {
+      const socket = await this.openSocket(websocketUrl);
 
-        this.websocket.onmessage = event => {
-          this.handleMessage(event);
-        };
-
-        this.websocket.onclose = event => {
-          this.handleClose(event);
-        };
-
-        this.websocket.onerror = error => {
-          console.error('WebSocket error:', error);
-          this.setState('failed');
-          reject(new Error('WebSocket connection failed'));
-        };
-
-        // Set connection timeout
-        setTimeout(() => {
-          if (this.state === 'connecting') {
-            this.websocket?.close();
-            reject(new Error('WebSocket connection timeout'));
-          }
-        }, 10000); // 10 second timeout
-      } catch (error) {
-        this.setState('failed');
-        reject(error);
-      }
-    });
+      this.attachSocket(socket);
+      this.setState('connected');
+      this.resetReconnectAttempts();
+      this.processMessageQueue();
+    } catch (error) {
+      this.setState('failed');
+      throw error;
+    }
   }
 
   /**
@@ -119,6 +166,32 @@ export class WebSocketManager {
     this.setState('disconnected');
   }
 
+  /**
+   * Move to a new WebSocket URL after a credential refresh
+   * The new socket opens before the old one closes, so incoming messages
+   * keep flowing; anything received on both is deduped by message ID
+   */
+  async switchUrl(websocketUrl: string): Promise<void> {
+    const previous = this.websocket;
+
+    if (!previous || !this.isConnected()) {
+      await this.connect(websocketUrl);
+      return;
+    }
+
+    // The old socket keeps delivering until the new one is subscribed
+    const next = await this.openSocket(websocketUrl);
+
+    // Retire the old socket without triggering reconnection
+    previous.onclose = null;
+    previous.onmessage = null;
+    previous.close(1000, 'Connection refreshed');
+
+    this.websocketUrl = websocketUrl;
+    this.attachSocket(next);
+    this.processMessageQueue();
+  }
+
   /**
    * Send message through WebSocket
    * Requirement 3.2: Send messages with queuing for offline scenarios
@@ -136,20 +209,6 @@ export class WebSocketManager {
     }
   }
 
-  /**
-   * Send typing indicator
-   * Requirement 3.4: Implement typing indicators
-   */
-  sendTypingIndicator(): void {
-    const typingMessage = JSON.stringify({
-      Type: 'EVENT',
-      ContentType: 'application/vnd.amazonaws.connect.event.typing',
-      Content: JSON.stringify({ ParticipantRole: 'CUSTOMER' }),
-    });
-
-    this.sendMessage(typingMessage);
-  }
-
   /**
    * Check if WebSocket is connected
    */
@@ -191,11 +250,135 @@ export class WebSocketManager {
   }
 
   /**
-   * Handle incoming WebSocket messages
+   * Open a socket and subscribe it to the aws/chat topic
+   * Connect only delivers chat frames to subscribed sockets
+   */
+  private openSocket(websocketUrl: string): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(websocketUrl);
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        reject(error);
+      };
+
+      // Set connection timeout
+      const timeout = setTimeout(() => {
+        socket.close();
+        fail(new Error('WebSocket connection timeout'));
+      }, 10000); // 10 second timeout
+
+      socket.onopen = () => {
+        socket.send(
+          JSON.stringify({
+            topic: SUBSCRIBE_TOPIC,
+            content: { topics: [CHAT_TOPIC] },
+          })
+        );
+      };
+
+      socket.onmessage = event => {
+        if (settled) {
+          this.handleMessage(event);
+          return;
+        }
+
+        const frame = this.parseFrame(event);
+        if (frame?.topic !== SUBSCRIBE_TOPIC) return;
+
+        if (
+          typeof frame.content === 'object' &&
+          frame.content.status === 'success'
+        ) {
+          settled = true;
+          clearTimeout(timeout);
+          resolve(socket);
+        } else {
+          socket.close();
+          fail(new Error('WebSocket subscription failed'));
+        }
+      };
+
+      socket.onerror = error => {
+        console.error('WebSocket error:', error);
+        fail(new Error('WebSocket connection failed'));
+      };
+
+      socket.onclose = () => {
+        fail(new Error('WebSocket closed before subscribing'));
+      };
+    });
+  }
+
+  /**
+   * Make a subscribed socket the active connection
+   */
+  private attachSocket(socket: WebSocket): void {
+    this.websocket = socket;
+
+    socket.onmessage = event => {
+      this.handleMessage(event);
+    };
+
+    socket.onclose = event => {
+      if (socket === this.websocket) {
+        this.handleClose(event);
+      }
+    };
+
+    socket.onerror = error => {
+      console.error('WebSocket error:', error);
+    };
+
+    this.startHeartbeat();
+  }
+
+  /**
+   * Parse a {topic, content} frame, logging anything malformed
+   */
+  private parseFrame(event: MessageEvent): ConnectWebSocketFrame | null {
+    try {
+      return JSON.parse(event.data);
+    } catch (error) {
+      console.error('Failed to parse WebSocket message:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Handle incoming WebSocket frames
    */
   private handleMessage(event: MessageEvent): void {
+    const frame = this.parseFrame(event);
+    if (!frame) return;
+
+    switch (frame.topic) {
+      case CHAT_TOPIC:
+        this.handleChatFrame(frame);
+        break;
+      case PING_TOPIC:
+      case HEARTBEAT_TOPIC:
+        // Ping response or server heartbeat, connection is alive
+        this.missedHeartbeats = 0;
+        break;
+      case SUBSCRIBE_TOPIC:
+        // Subscription is acknowledged while the socket is opened
+        break;
+      default:
+        console.warn('Unknown WebSocket topic:', frame.topic);
+    }
+  }
+
+  /**
+   * Handle chat payloads; content is a JSON-encoded Connect item
+   */
+  private handleChatFrame(frame: ConnectWebSocketFrame): void {
     try {
-      const data = JSON.parse(event.data);
+      const data =
+        typeof frame.content === 'string' ? JSON.parse(frame.content) : {};
       const messageType: WebSocketMessageType = data.Type;
 
       switch (messageType) {
@@ -205,15 +388,11 @@ export class WebSocketManager {
         case 'EVENT':
           this.handleIncomingEvent(data);
           break;
-        case 'HEARTBEAT':
-          // Heartbeat received, connection is alive
-          break;
-        case 'CONNECTION_ACK':
-        case 'CONNECTION_ESTABLISHED':
-          // Connection acknowledged
+        case 'MESSAGEMETADATA':
+          this.handleMessageMetadata(data as ConnectMessageMetadataEvent);
           break;
         default:
-          console.log('Unknown WebSocket message type:', messageType);
+          console.warn('Unknown WebSocket message type:', messageType);
       }
     } catch (error) {
       console.error('Failed to parse WebSocket message:', error);
@@ -229,24 +408,35 @@ export class WebSocketManager {
     const message: Message = {
       id: messageEvent.Id || Date.now().toString(),
       content: messageEvent.Content || '',
-      sender: messageEvent.ParticipantRole === 'AGENT' ? 'agent' : 'visitor',
+      sender: toMessageSender(messageEvent.ParticipantRole),
       timestamp: new Date(messageEvent.AbsoluteTime || Date.now()),
       status: 'delivered',
-      type: 'text',
+      type: messageEvent.ParticipantRole === 'SYSTEM' ? 'system' : 'text',
     };
 
-    this.messageHandler.onMessage(message);
+    const contentType = toMessageContentType(messageEvent.ContentType);
+    if (contentType) {
+      message.contentType = contentType;
+    }
+
+    this.messageHandler.onMessage(applyQuickReplyTemplate(message));
   }
 
   /**
    * Handle incoming events (typing, agent status, etc.)
+   * Every application/vnd.amazonaws.connect.event.* type is dispatched
    */
-  private handleIncomingEvent(eventData: any): void {
+  private handleIncomingEvent(eventData: ConnectEventPayload): void {
     if (!this.messageHandler) return;
 
-    if (
-      eventData.ContentType === 'application/vnd.amazonaws.connect.event.typing'
-    ) {
+    const eventType = this.parseEventType(eventData.ContentType);
+    if (!eventType) {
+      console.warn('Unknown participant event type:', eventData.ContentType);
+      return;
+    }
+
+    // The visitor's own typing events are echoed back and are ignored
+    if (eventType === 'typing' && eventData.ParticipantRole !== 'CUSTOMER') {
       const typingEvent = eventData as ConnectTypingEvent;
       const isTyping = true; // AWS Connect sends typing events when typing starts
 
@@ -257,6 +447,81 @@ export class WebSocketManager {
         this.messageHandler?.onTyping(false, typingEvent.ParticipantId);
       }, 3000);
     }
+
+    const participantEvent: ConnectParticipantEvent = {
+      type: eventType,
+      id: eventData.Id,
+      participantId: eventData.ParticipantId,
+      participantRole: eventData.ParticipantRole,
+      displayName: eventData.DisplayName,
+      timestamp: new Date(eventData.AbsoluteTime || Date.now()),
+    };
+
+    if (eventType === 'message.delivered' || eventType === 'message.read') {
+      participantEvent.messageId = this.parseReceiptMessageId(
+        eventData.Content
+      );
+    }
+
+    this.messageHandler.onParticipantEvent?.(participantEvent);
+  }
+
+  /**
+   * Handle receipts delivered as message metadata
+   * Dispatched as message.read or message.delivered participant events
+   */
+  private handleMessageMetadata(metadata: ConnectMessageMetadataEvent): void {
+    if (!this.messageHandler || !metadata.MessageMetadata?.MessageId) return;
+
+    const receipts = metadata.MessageMetadata.Receipts || [];
+    const isRead = receipts.some(receipt => receipt.ReadTimestamp);
+    const isDelivered = receipts.some(receipt => receipt.DeliveredTimestamp);
+
+    if (!isRead && !isDelivered) return;
+
+    this.messageHandler.onParticipantEvent?.({
+      type: isRead ? 'message.read' : 'message.delivered',
+      id: metadata.Id,
+      messageId: metadata.MessageMetadata.MessageId,
+      timestamp: new Date(metadata.AbsoluteTime || Date.now()),
+    });
+  }
+
+  /**
+   * Derive the participant event type from its content type
+   */
+  private parseEventType(
+    contentType: string | undefined
+  ): ConnectParticipantEventType | null {
+    if (!contentType?.startsWith(EVENT_CONTENT_TYPE_PREFIX)) {
+      return null;
+    }
+
+    const eventType = contentType.slice(EVENT_CONTENT_TYPE_PREFIX.length);
+
+    return PARTICIPANT_EVENT_TYPES.includes(
+      eventType as ConnectParticipantEventType
+    )
+      ? (eventType as ConnectParticipantEventType)
+      : null;
+  }
+
+  /**
+   * Read the message ID from a receipt event's JSON content
+   */
+  private parseReceiptMessageId(
+    content: string | undefined
+  ): string | undefined {
+    if (!content) {
+      return undefined;
+    }
+
+    try {
+      const parsed = JSON.parse(content);
+      return parsed.messageId || parsed.MessageId;
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -295,13 +560,17 @@ export class WebSocketManager {
     );
 
     this.reconnectTimeout = setTimeout(async () => {
-      if (!this.websocketUrl) {
+      if (!this.connectionRefresher && !this.websocketUrl) {
         this.setState('failed');
         return;
       }
 
       try {
-        await this.connect(this.websocketUrl);
+        if (this.connectionRefresher) {
+          await this.connectionRefresher();
+        } else {
+          await this.connect(this.websocketUrl!);
+        }
         this.messageHandler?.onConnectionStatusChange('connected');
       } catch (error) {
         console.error('Reconnection failed:', error);
@@ -312,15 +581,40 @@ export class WebSocketManager {
 
   /**
    * Start heartbeat to keep connection alive
+   * Sends aws/ping frames; a connection that stops answering is reopened
    */
   private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.missedHeartbeats = 0;
+
     this.heartbeatInterval = setInterval(() => {
-      if (this.isConnected()) {
-        this.sendMessage(JSON.stringify({ Type: 'HEARTBEAT' }));
+      if (!this.isConnected()) return;
+
+      if (this.missedHeartbeats >= MAX_MISSED_HEARTBEATS) {
+        this.handleHeartbeatTimeout();
+        return;
       }
+
+      this.missedHeartbeats++;
+      this.websocket!.send(JSON.stringify({ topic: PING_TOPIC }));
     }, 30000); // Send heartbeat every 30 seconds
   }
 
+  /**
+   * Drop a connection that stopped answering pings and reconnect
+   */
+  private handleHeartbeatTimeout(): void {
+    this.stopHeartbeat();
+
+    if (this.websocket) {
+      this.websocket.onclose = null;
+      this.websocket.close();
+      this.websocket = null;
+    }
+
+    this.attemptReconnection();
+  }
+
   /**
    * Stop heartbeat interval
    */
@@ -1,8 +1,16 @@
-export { ConnectService } from './ConnectService';
+export {
+  ConnectService,
+  type ConnectServiceDependencies,
+} from './ConnectService';
 export {
   ConnectServiceFactory,
   type ConnectServiceConfig,
 } from './ConnectServiceFactory';
+export {
+  HttpChatStartBackend,
+  type ChatStartBackend,
+  type HttpChatStartBackendOptions,
+} from './ChatStartBackend';
 export {
   WebSocketManager,
   type WebSocketMessageHandler,
@@ -27,3 +35,28 @@ export {
   type NotificationAction,
   type NotificationEvents,
 } from './NotificationService';
+export { MessageCorrelator } from './MessageCorrelator';
+export {
+  ConnectionRefreshScheduler,
+  type ConnectionRefreshSchedulerEvents,
+} from './ConnectionRefreshScheduler';
+export {
+  AvailabilityService,
+  type AvailabilityServiceEvents,
+} from './AvailabilityService';
+export {
+  LeaveMessageService,
+  type LeaveMessageRequest,
+} from './LeaveMessageService';
+export {
+  EndpointQueueStatusProvider,
+  SystemMessageQueueStatusProvider,
+  createQueueStatusProvider,
+} from './QueueStatusProvider';
+export { CallbackService, type CallbackRequest } from './CallbackService';
+export { TranscriptService } from './TranscriptService';
+export {
+  EndpointSurveySink,
+  ContactAttributesSurveySink,
+  createSurveySink,
+} from './SurveySink';
@@ -1,10 +1,11 @@
-import type { Message, AgentStatus } from './chat';
+import type { Message, AgentStatus, MessageContentType } from './chat';
 
 /**
  * AWS Connect chat session interface
  * Supports requirements 7.1, 7.2
  */
 export interface ChatSession {
+  contactId: string;
   connectionToken: string;
   participantId: string;
   participantToken: string;
@@ -12,12 +13,26 @@ export interface ChatSession {
   startTime: Date;
 }
 
+/**
+ * Participant credentials persisted to resume a contact after a reload
+ */
+export interface StoredContactSession {
+  contactId: string;
+  participantId: string;
+  participantToken: string;
+  startTime: string;
+}
+
 /**
  * AWS Connect service interface
  */
 export interface ConnectService {
   initializeChat(participantDetails: ParticipantDetails): Promise<ChatSession>;
-  sendMessage(content: string): Promise<void>;
+  sendMessage(
+    content: string,
+    clientMessageId?: string,
+    contentType?: MessageContentType
+  ): Promise<SentMessageAck | null>;
   receiveMessages(): Promise<Message[]>;
   endChat(): Promise<void>;
   onMessageReceived(callback: (message: Message) => void): void;
@@ -55,6 +70,15 @@ export type ConnectionStatus =
   | 'reconnecting'
   | 'failed';
 
+/**
+ * StartChatContact request sent to the backend
+ */
+export interface StartChatContactRequest {
+  instanceId: string;
+  contactFlowId: string;
+  participantDetails: ParticipantDetails;
+}
+
 /**
  * AWS Connect API response interfaces
  */
@@ -75,6 +99,48 @@ export interface CreateParticipantConnectionResponse {
   };
 }
 
+/**
+ * Server acknowledgement of a sent visitor message
+ * Links the local optimistic message ID to the SendMessage response Id
+ */
+export interface SentMessageAck {
+  clientMessageId: string;
+  messageId: string;
+  timestamp: Date;
+}
+
+/**
+ * Options for fetching a single GetTranscript page
+ */
+export interface TranscriptPageOptions {
+  maxResults?: number;
+  nextToken?: string;
+  scanDirection?: 'FORWARD' | 'BACKWARD';
+  startPosition?: {
+    id?: string;
+    absoluteTime?: string;
+    mostRecent?: number;
+  };
+}
+
+/**
+ * Single page of transcript messages
+ * nextToken is undefined once the transcript is exhausted
+ */
+export interface TranscriptPage {
+  messages: Message[];
+  nextToken?: string;
+}
+
+/**
+ * Pre-signed upload target returned by StartAttachmentUpload
+ */
+export interface AttachmentUpload {
+  attachmentId: string;
+  uploadUrl: string;
+  headers: Record<string, string>;
+}
+
 /**
  * AWS Connect message event interface
  */
@@ -89,6 +155,89 @@ export interface ConnectMessageEvent {
   AbsoluteTime: string;
 }
 
+/**
+ * Participant event content types sent by Amazon Connect
+ */
+export type ConnectEventContentType =
+  | 'application/vnd.amazonaws.connect.event.typing'
+  | 'application/vnd.amazonaws.connect.event.participant.joined'
+  | 'application/vnd.amazonaws.connect.event.participant.left'
+  | 'application/vnd.amazonaws.connect.event.participant.idle'
+  | 'application/vnd.amazonaws.connect.event.participant.returned'
+  | 'application/vnd.amazonaws.connect.event.participant.autodisconnection'
+  | 'application/vnd.amazonaws.connect.event.chat.ended'
+  | 'application/vnd.amazonaws.connect.event.transfer.succeeded'
+  | 'application/vnd.amazonaws.connect.event.transfer.failed'
+  | 'application/vnd.amazonaws.connect.event.message.delivered'
+  | 'application/vnd.amazonaws.connect.event.message.read';
+
+/**
+ * Participant event names, derived from the content type suffix
+ */
+export type ConnectParticipantEventType =
+  | 'typing'
+  | 'participant.joined'
+  | 'participant.left'
+  | 'participant.idle'
+  | 'participant.returned'
+  | 'participant.autodisconnection'
+  | 'chat.ended'
+  | 'transfer.succeeded'
+  | 'transfer.failed'
+  | 'message.delivered'
+  | 'message.read';
+
+/**
+ * Participant roles reported by Amazon Connect
+ */
+export type ConnectParticipantRole =
+  'AGENT' | 'CUSTOMER' | 'SYSTEM' | 'CUSTOM_BOT' | 'SUPERVISOR';
+
+/**
+ * Raw EVENT payload received over the participant WebSocket
+ */
+export interface ConnectEventPayload {
+  Id?: string;
+  Type: 'EVENT';
+  ContentType: ConnectEventContentType;
+  Content?: string;
+  ParticipantId?: string;
+  DisplayName?: string;
+  ParticipantRole?: ConnectParticipantRole;
+  AbsoluteTime?: string;
+}
+
+/**
+ * Raw MESSAGEMETADATA payload carrying read and delivered receipts
+ */
+export interface ConnectMessageMetadataEvent {
+  Id?: string;
+  Type: 'MESSAGEMETADATA';
+  AbsoluteTime?: string;
+  MessageMetadata: {
+    MessageId: string;
+    Receipts?: {
+      DeliveredTimestamp?: string;
+      ReadTimestamp?: string;
+      RecipientParticipantId?: string;
+    }[];
+  };
+}
+
+/**
+ * Parsed participant event dispatched to WebSocketMessageHandler
+ * messageId is set for read and delivered receipts
+ */
+export interface ConnectParticipantEvent {
+  type: ConnectParticipantEventType;
+  id?: string;
+  participantId?: string;
+  participantRole?: ConnectParticipantRole;
+  displayName?: string;
+  messageId?: string;
+  timestamp: Date;
+}
+
 /**
  * AWS Connect typing event interface
  */
@@ -122,9 +271,146 @@ export type ConnectErrorType =
 /**
  * WebSocket message types from AWS Connect
  */
-export type WebSocketMessageType =
-  | 'MESSAGE'
-  | 'EVENT'
-  | 'HEARTBEAT'
-  | 'CONNECTION_ACK'
-  | 'CONNECTION_ESTABLISHED';
+export type WebSocketMessageType = 'MESSAGE' | 'EVENT' | 'MESSAGEMETADATA';
+
+/**
+ * Subscription request and acknowledgement content for aws/subscribe
+ */
+export interface ConnectSubscriptionContent {
+  topics: string[];
+  status?: 'success' | 'failure';
+}
+
+/**
+ * Frame exchanged over the Connect participant WebSocket
+ * aws/chat frames carry a JSON-encoded message, event or metadata item
+ */
+export interface ConnectWebSocketFrame {
+  topic: string;
+  contentType?: string;
+  content?: string | ConnectSubscriptionContent;
+  statusCode?: number;
+}
+
+/**
+ * Amazon Connect interactive message templates
+ * Sent as application/vnd.amazonaws.connect.message.interactive content
+ */
+export type InteractiveTemplate =
+  ListPickerTemplate | TimePickerTemplate | PanelTemplate | CarouselTemplate;
+
+/**
+ * Image shown by an interactive template or element
+ */
+export interface InteractiveImage {
+  imageType?: 'URL';
+  imageData?: string;
+  imageDescription?: string;
+}
+
+/**
+ * Selectable option of a list picker, panel or carousel
+ */
+export interface InteractiveElement extends InteractiveImage {
+  title: string;
+  subtitle?: string;
+}
+
+/**
+ * List of options to pick one from
+ */
+export interface ListPickerTemplate {
+  templateType: 'ListPicker';
+  version: string;
+  data: {
+    content: InteractiveImage & {
+      title: string;
+      subtitle?: string;
+      elements: InteractiveElement[];
+    };
+  };
+}
+
+/**
+ * Appointment slot offered by a time picker
+ */
+export interface InteractiveTimeslot {
+  date: string; // ISO 8601 start time
+  duration: number; // Minutes
+}
+
+/**
+ * Calendar of time slots to pick one from
+ */
+export interface TimePickerTemplate {
+  templateType: 'TimePicker';
+  version: string;
+  data: {
+    content: {
+      title: string;
+      subtitle?: string;
+      timeZoneOffset?: number; // Minutes from UTC used to display slots
+      timeslots: InteractiveTimeslot[];
+    };
+  };
+}
+
+/**
+ * Question with a few button options
+ */
+export interface PanelTemplate {
+  templateType: 'Panel';
+  version: string;
+  data: {
+    content: InteractiveImage & {
+      title: string;
+      subtitle?: string;
+      elements: InteractiveElement[];
+    };
+  };
+}
+
+/**
+ * Horizontally scrolling panels
+ */
+export interface CarouselTemplate {
+  templateType: 'Carousel';
+  version: string;
+  data: {
+    content: {
+      title?: string;
+      elements: Array<Omit<PanelTemplate, 'version'> & { version?: string }>;
+    };
+  };
+}
+
+/**
+ * Suggested replies offered by a bot
+ * Rendered as quick-reply chips under the message rather than as a template
+ */
+export interface QuickReplyTemplate {
+  templateType: 'QuickReply';
+  version: string;
+  data: {
+    content: {
+      title: string;
+      elements: Array<Pick<InteractiveElement, 'title'>>;
+    };
+  };
+}
+
+/**
+ * Visitor's answer to an interactive template
+ * Sent as application/vnd.amazonaws.connect.message.interactive.response
+ */
+export interface InteractiveResponse {
+  templateType: InteractiveTemplate['templateType'];
+  version: string;
+  data: {
+    content: {
+      title: string;
+      elements?: Array<Pick<InteractiveElement, 'title'>>;
+      timeslots?: InteractiveTimeslot[];
+    };
+  };
+}
@@ -13,6 +13,7 @@ export interface ChatState {
   unreadCount: number;
   isTyping: boolean;
   error?: ChatError;
+  endTime?: Date; // When the chat ended
 }
 
 /**
@@ -35,6 +36,32 @@ export interface Message {
   timestamp: Date;
   status: MessageStatus;
   type: MessageType;
+  attachment?: MessageAttachment;
+  /** Local ID of the optimistic message an echoed visitor message confirms */
+  clientMessageId?: string;
+  /** Format of content, plain text when unset */
+  contentType?: MessageContentType;
+  /** Suggested replies shown as chips under the message */
+  quickReplies?: QuickReply[];
+}
+
+/**
+ * Suggested reply offered with a message
+ */
+export interface QuickReply {
+  label: string;
+  value: string; // Sent as the visitor's message when chosen
+}
+
+/**
+ * Attachment carried by 'file' and 'image' messages
+ * Download URLs are short lived, so they are resolved on demand
+ */
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: number;
 }
 
 /**
@@ -45,13 +72,33 @@ export type MessageSender = 'visitor' | 'agent' | 'system';
 /**
  * Message delivery status
  */
-export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'failed';
+export type MessageStatus =
+  'sending' | 'sent' | 'delivered' | 'read' | 'failed';
 
 /**
  * Message content types
  */
 export type MessageType = 'text' | 'file' | 'image' | 'system';
 
+/**
+ * Message content formats
+ * Interactive messages carry a JSON-encoded Connect interactive template
+ */
+export type MessageContentType =
+  | 'text/plain'
+  | 'text/markdown'
+  | 'application/vnd.amazonaws.connect.message.interactive'
+  | 'application/vnd.amazonaws.connect.message.interactive.response';
+
+/**
+ * Visitor's place in the queue while waiting for an agent
+ */
+export interface QueueStatus {
+  position?: number; // 1 is next in line
+  estimatedWaitSeconds?: number;
+  updatedAt: Date;
+}
+
 /**
  * Agent information interface
  */
@@ -77,6 +124,7 @@ export interface VisitorInfo {
   sessionId: string;
   ipAddress?: string;
   userAgent?: string;
+  attributes?: Record<string, string>; // Contact attributes for routing
 }
 
 /**
@@ -101,6 +149,11 @@ export interface ChatTranscript {
   rating?: ChatRating;
 }
 
+/**
+ * Formats a chat transcript can be exported in
+ */
+export type TranscriptFormat = 'text' | 'html' | 'json' | 'pdf';
+
 /**
  * Chat error interface
  */
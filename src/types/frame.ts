@@ -0,0 +1,138 @@
+import type {
+  DeepPartial,
+  WidgetConfig,
+  WidgetError,
+  WidgetEventMap,
+  WidgetEventName,
+  WidgetInstance,
+  WidgetLayout,
+  WidgetOptions,
+  WidgetVisitor,
+} from './widget';
+
+/**
+ * postMessage protocol between the iframe loader on the host page and the
+ * widget running in the iframe
+ */
+
+/**
+ * Protocol marker carried by every message, so other messages posted to
+ * either window are ignored
+ */
+export type FrameProtocol = 'aws-connect-chat-widget/1';
+
+/**
+ * Protocol message as posted between the windows
+ */
+export type FrameEnvelope<T> = T & { protocol: FrameProtocol };
+
+/**
+ * Iframe size for a widget layout, as CSS lengths
+ */
+export interface FrameSize {
+  width: string;
+  height: string;
+}
+
+/**
+ * Widget instance commands the host can run in the frame, with their arguments
+ */
+export interface FrameCommandMap {
+  open: [];
+  close: [];
+  minimize: [];
+  startChat: [visitor?: WidgetVisitor, attributes?: Record<string, string>];
+  sendMessage: [text: string];
+  endChat: [];
+  setVisitor: [visitor: WidgetVisitor];
+  updateConfig: [config: DeepPartial<WidgetConfig>];
+}
+
+export type FrameCommand = keyof FrameCommandMap;
+
+/**
+ * Widget options sent to the frame
+ * Handlers cannot cross windows, so errors come back as events instead
+ */
+export type FrameWidgetOptions = WidgetOptions & {
+  id?: string; // Frames from one origin share storage, see WidgetInitOptions
+};
+
+/**
+ * Messages from the host page to the frame
+ */
+export type HostMessage =
+  | { type: 'init'; options: FrameWidgetOptions }
+  | {
+      [K in FrameCommand]: {
+        type: 'command';
+        id: number;
+        command: K;
+        args: FrameCommandMap[K];
+      };
+    }[FrameCommand]
+  | { type: 'destroy' };
+
+/**
+ * Widget events forwarded as they are
+ * Layout and unread changes have their own messages
+ */
+export type FrameEventName = Exclude<
+  WidgetEventName,
+  'layoutChange' | 'unreadChange'
+>;
+
+/**
+ * Messages from the frame to the host page
+ */
+export type FrameMessage =
+  | { type: 'result'; id: number; error?: string } // Reply to a command
+  | {
+      [K in FrameEventName]: {
+        type: 'event';
+        event: K;
+        data: WidgetEventMap[K];
+      };
+    }[FrameEventName]
+  | { type: 'resize'; layout: WidgetLayout; size: FrameSize }
+  | { type: 'unread'; count: number }; // For a launcher badge on the host
+
+/**
+ * Options for serving the widget in an iframe
+ */
+export interface WidgetFrameOptions {
+  allowedOrigins: string[]; // Host pages allowed to control the frame, e.g. 'https://*.example.com'
+}
+
+/**
+ * Options for the iframe loader
+ */
+export type WidgetLoaderOptions = FrameWidgetOptions & {
+  frameUrl: string; // Page that calls startFrame
+  title?: string; // Accessible name of the iframe. Default: 'Chat'
+  onError?: (error: WidgetError) => void;
+};
+
+/**
+ * Widget running in an iframe, controlled from the host page
+ * Commands sent before the frame has loaded run once it loads
+ */
+export interface WidgetFrameInstance extends Pick<
+  WidgetInstance,
+  | 'open'
+  | 'close'
+  | 'minimize'
+  | 'startChat'
+  | 'sendMessage'
+  | 'endChat'
+  | 'setVisitor'
+  | 'on'
+  | 'off'
+  | 'destroy'
+  | 'isDestroyed'
+> {
+  readonly element: HTMLIFrameElement;
+  updateConfig(config: DeepPartial<WidgetConfig>): Promise<void>; // Rejects when the frame rejects the update
+  getLayout(): WidgetLayout;
+  getUnreadCount(): number;
+}
@@ -0,0 +1,42 @@
+import type { en } from '../locales/en';
+
+/**
+ * Key of a built-in widget string
+ */
+export type TranslationKey = keyof typeof en;
+
+/**
+ * Strings for one locale, keyed like the English bundle
+ */
+export type LocaleBundle = Record<TranslationKey, string>;
+
+/**
+ * Values for the arguments of a message
+ */
+export type TranslationValues = Record<
+  string,
+  string | number | Date | undefined
+>;
+
+/**
+ * Look up a string and fill in its arguments
+ */
+export type TranslateFn = (
+  key: TranslationKey,
+  values?: TranslationValues
+) => string;
+
+/**
+ * Reading direction of the widget
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Strings and Intl formatting for a locale
+ */
+export interface Translator {
+  locale: string; // BCP 47 tag used for Intl formatting
+  t: TranslateFn;
+  formatDate: (date: Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
@@ -5,3 +5,5 @@ export type * from './aws-connect';
 export type * from './ui';
 export type * from './validation';
 export type * from './errors';
+export type * from './i18n';
+export type * from './frame';
@@ -2,12 +2,27 @@ import type React from 'react';
 import type {
   WidgetConfig,
   WidgetState,
+  WidgetLayout,
   WidgetError,
   ThemeConfiguration,
   PositionConfiguration,
   UIConfiguration,
+  AttachmentConfiguration,
+  PreChatFormConfiguration,
+  LeaveMessageConfiguration,
+  CallbackConfiguration,
+  SurveyConfiguration,
+  SurveyAnswer,
+  WidgetVisitor,
 } from './widget';
-import type { ChatState, Message, AgentInfo } from './chat';
+import type {
+  ChatState,
+  Message,
+  AgentInfo,
+  QueueStatus,
+  QuickReply,
+} from './chat';
+import type { InteractiveResponse } from './aws-connect';
 
 /**
  * UI component prop interfaces
@@ -20,7 +35,26 @@ import type { ChatState, Message, AgentInfo } from './chat';
 export interface ChatWidgetProps {
   config: WidgetConfig;
   onStateChange?: (state: WidgetState) => void;
+  onChatStateChange?: (state: ChatState) => void;
+  onLayoutChange?: (layout: WidgetLayout) => void;
   onError?: (error: WidgetError) => void;
+  ref?: React.Ref<ChatWidgetHandle>; // Programmatic control for the embed API
+}
+
+/**
+ * Commands a host page can send to a rendered chat widget
+ */
+export interface ChatWidgetHandle {
+  open: () => void;
+  close: () => void;
+  minimize: () => void;
+  startChat: (
+    visitor?: WidgetVisitor,
+    attributes?: Record<string, string>
+  ) => void;
+  sendMessage: (text: string) => Promise<void>;
+  endChat: () => Promise<void>;
+  setVisitor: (visitor: WidgetVisitor) => void;
 }
 
 /**
@@ -32,6 +66,7 @@ export interface ChatButtonProps {
   onClick: () => void;
   config: ThemeConfiguration;
   position: PositionConfiguration;
+  isOffline?: boolean;
 }
 
 /**
@@ -45,6 +80,29 @@ export interface ChatWindowProps {
   config: UIConfiguration;
   onSendMessage: (content: string) => void;
   onTyping: (isTyping: boolean) => void;
+  onInteractiveResponse?: (response: InteractiveResponse) => void;
+  onQuickReply?: (reply: QuickReply) => void;
+  onLoadOlderMessages?: () => void | Promise<void>;
+  hasMoreHistory?: boolean;
+  isLoadingHistory?: boolean;
+  attachmentConfig?: AttachmentConfiguration; // Enables uploads when set
+  onSendAttachment?: (file: File) => void;
+  onResolveAttachment?: (attachmentId: string) => Promise<string>;
+  preChatForm?: PreChatFormConfiguration; // Shown instead of the conversation when set
+  onSubmitPreChatForm?: (answers: Record<string, string>) => void;
+  isOffline?: boolean; // Shows the offline message and leave-a-message form
+  leaveMessage?: Omit<LeaveMessageConfiguration, 'endpoint'>;
+  onLeaveMessage?: (answers: Record<string, string>) => Promise<void>;
+  queueStatus?: QueueStatus | null; // Shown while waiting for an agent
+  callback?: Omit<CallbackConfiguration, 'endpoint' | 'thresholdSeconds'>;
+  isCallbackOffered?: boolean;
+  isCallbackRequested?: boolean;
+  onRequestCallback?: (answers: Record<string, string>) => Promise<void>;
+  // Post-chat survey, shown instead of the conversation when set
+  survey?: Omit<SurveyConfiguration, 'sink' | 'endpoint' | 'attributePrefix'>;
+  isSurveySubmitted?: boolean;
+  onSubmitSurvey?: (answers: Record<string, SurveyAnswer>) => Promise<void>;
+  onSkipSurvey?: () => void;
 }
 
 /**
@@ -55,6 +113,12 @@ export interface MessageListProps {
   isTyping: boolean;
   onScroll: (position: number) => void;
   agentInfo?: AgentInfo;
+  onLoadOlder?: () => void | Promise<void>;
+  hasMoreHistory?: boolean;
+  isLoadingHistory?: boolean;
+  onResolveAttachment?: (attachmentId: string) => Promise<string>;
+  onInteractiveResponse?: (response: InteractiveResponse) => void;
+  onQuickReply?: (reply: QuickReply) => void;
 }
 
 /**
@@ -66,6 +130,8 @@ export interface MessageInputProps {
   placeholder: string;
   maxLength?: number;
   onTyping?: (isTyping: boolean) => void;
+  attachmentConfig?: AttachmentConfiguration; // Enables uploads when set
+  onSendAttachment?: (file: File) => void;
 }
 
 /**
@@ -76,6 +142,10 @@ export interface MessageBubbleProps {
   isOwn: boolean;
   showTimestamp: boolean;
   agentInfo?: AgentInfo;
+  onResolveAttachment?: (attachmentId: string) => Promise<string>;
+  onInteractiveResponse?: (response: InteractiveResponse) => void;
+  onQuickReply?: (reply: QuickReply) => void;
+  isAnswered?: boolean; // Stops interactive messages and quick replies
 }
 
 /**
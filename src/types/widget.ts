@@ -1,3 +1,13 @@
+import type {
+  AgentInfo,
+  ChatState,
+  ChatStatus,
+  Message,
+  QueueStatus,
+  VisitorInfo,
+} from './chat';
+import type { LocaleBundle, TextDirection } from './i18n';
+
 /**
  * Main widget configuration interface
  * Supports requirements 6.1, 6.2, 7.1, 7.2
@@ -6,6 +16,11 @@ export interface WidgetConfig {
   aws: AWSConnectConfig;
   ui: UIConfiguration;
   features: FeatureConfiguration;
+  preChatForm?: PreChatFormConfiguration;
+  availability?: AvailabilityConfiguration;
+  queue?: QueueConfiguration;
+  survey?: SurveyConfiguration;
+  storageNamespace?: string; // Keeps stored chat data apart from other widgets on the page
 }
 
 /**
@@ -16,6 +31,7 @@ export interface AWSConnectConfig {
   instanceId: string;
   contactFlowId: string;
   apiGatewayEndpoint?: string;
+  participantEndpoint?: string; // e.g. the local mock Connect server
 }
 
 /**
@@ -25,6 +41,8 @@ export interface UIConfiguration {
   theme: ThemeConfiguration;
   position: PositionConfiguration;
   messages: MessageConfiguration;
+  locale?: string; // e.g. 'fr' or 'de-CH'; 'auto' or unset follows the browser
+  direction?: TextDirection | 'auto'; // 'auto' or unset follows the locale
 }
 
 /**
@@ -42,8 +60,8 @@ export interface ThemeConfiguration {
  */
 export interface PositionConfiguration {
   bottom: string;
-  right?: string;
-  left?: string;
+  right?: string; // Distance from the end edge; the left edge in right-to-left layouts
+  left?: string; // Distance from the start edge; the right edge in right-to-left layouts
 }
 
 /**
@@ -54,6 +72,16 @@ export interface MessageConfiguration {
   offlineMessage: string;
   waitingMessage: string;
   connectingMessage: string;
+  locales?: Record<string, LocaleMessageConfiguration>; // Keyed by locale, e.g. 'fr' or 'fr-CA'
+}
+
+/**
+ * Message overrides for one locale
+ */
+export interface LocaleMessageConfiguration extends Partial<
+  Omit<MessageConfiguration, 'locales'>
+> {
+  strings?: Partial<LocaleBundle>; // Overrides of the built-in widget strings
 }
 
 /**
@@ -65,6 +93,236 @@ export interface FeatureConfiguration {
   chatRatings: boolean;
   chatTranscript: boolean;
   typing: boolean;
+  attachments?: AttachmentConfiguration;
+  markdown?: boolean; // Sends visitor messages as text/markdown
+}
+
+/**
+ * Attachment limits applied when fileUpload is enabled
+ */
+export interface AttachmentConfiguration {
+  maxFileSizeBytes: number;
+  allowedMimeTypes: string[];
+}
+
+/**
+ * Pre-chat form shown before a chat starts
+ */
+export interface PreChatFormConfiguration {
+  fields: PreChatField[];
+  title?: string;
+  submitLabel?: string;
+}
+
+/**
+ * Input types supported by the pre-chat form
+ */
+export type PreChatFieldType =
+  'text' | 'email' | 'tel' | 'textarea' | 'select' | 'checkbox';
+
+/**
+ * Where a pre-chat answer is sent when the chat starts
+ */
+export type PreChatFieldTarget = 'displayName' | 'email' | 'attribute';
+
+/**
+ * Pre-chat form field
+ */
+export interface PreChatField {
+  id: string;
+  label: string;
+  type: PreChatFieldType;
+  required?: boolean;
+  placeholder?: string;
+  defaultValue?: string;
+  options?: PreChatFieldOption[]; // Choices for select fields
+  validation?: PreChatFieldValidation;
+  mapTo?: PreChatFieldTarget; // Defaults to 'attribute'
+  attributeKey?: string; // Contact attribute name, defaults to the field id
+}
+
+/**
+ * Choice offered by a select field
+ */
+export interface PreChatFieldOption {
+  label: string;
+  value: string;
+}
+
+/**
+ * Validation rules for a pre-chat field
+ */
+export interface PreChatFieldValidation {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string; // Regular expression the whole value must match
+  message?: string; // Shown when the pattern does not match
+}
+
+/**
+ * Decides when the widget is online
+ * Without business hours or an endpoint the widget is always online
+ */
+export interface AvailabilityConfiguration {
+  businessHours?: BusinessHoursConfiguration;
+  availabilityEndpoint?: string; // GET, responds with { available: boolean }
+  pollIntervalMs?: number; // Defaults to one minute
+  leaveMessage?: LeaveMessageConfiguration;
+}
+
+/**
+ * Weekly opening hours in a fixed time zone
+ */
+export interface BusinessHoursConfiguration {
+  timeZone: string; // IANA time zone, e.g. 'America/New_York'
+  weeklyHours: Partial<Record<Weekday, BusinessHoursRange[]>>;
+  holidays?: HolidayException[];
+}
+
+/**
+ * Day of the week
+ */
+export type Weekday =
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday'
+  | 'sunday';
+
+/**
+ * Opening range in 24-hour 'HH:mm' time
+ * A close time before the open time runs past midnight
+ */
+export interface BusinessHoursRange {
+  open: string;
+  close: string;
+}
+
+/**
+ * Date with different opening hours, closed all day unless hours are given
+ */
+export interface HolidayException {
+  date: string; // 'YYYY-MM-DD' in the business time zone
+  name?: string;
+  hours?: BusinessHoursRange[];
+}
+
+/**
+ * Leave-a-message flow shown while offline
+ */
+export interface LeaveMessageConfiguration {
+  endpoint: string; // POST target for offline messages
+  form?: PreChatFormConfiguration; // Defaults to name, email and message
+  successMessage?: string;
+}
+
+/**
+ * Queue position and estimated wait shown while waiting for an agent
+ */
+export interface QueueConfiguration {
+  // Defaults to 'endpoint' when statusEndpoint is set, otherwise
+  // 'systemMessages'
+  provider?: 'endpoint' | 'systemMessages' | QueueStatusProvider;
+  statusEndpoint?: string; // GET ?contactId=, responds with { position, estimatedWaitSeconds }
+  pollIntervalMs?: number; // Defaults to 15 seconds
+  callback?: CallbackConfiguration;
+}
+
+/**
+ * Source of queue updates for the waiting contact
+ */
+export interface QueueStatusProvider {
+  start(contactId: string, onUpdate: (status: QueueStatus) => void): void;
+  handleMessage?(message: Message): void; // Receives every chat message
+  stop(): void;
+}
+
+/**
+ * "Request a callback instead" offer for long waits
+ */
+export interface CallbackConfiguration {
+  endpoint: string; // POST target for callback requests
+  thresholdSeconds: number; // Offered when the estimated wait is longer
+  form?: PreChatFormConfiguration; // Defaults to name and phone number
+  successMessage?: string;
+}
+
+/**
+ * Post-chat survey shown once the chat ends
+ */
+export interface SurveyConfiguration {
+  questions: SurveyQuestion[]; // Asked one at a time, in order unless branched
+  // Defaults to 'endpoint'; 'contactAttributes' sends the answers to a
+  // backend that stores them on the contact
+  sink?: 'endpoint' | 'contactAttributes' | SurveySink;
+  endpoint?: string; // POST target for the built-in sinks
+  attributePrefix?: string; // Contact attribute prefix, defaults to 'survey_'
+  title?: string;
+  submitLabel?: string;
+  thankYouMessage?: string;
+}
+
+/**
+ * Question types supported by the post-chat survey
+ */
+export type SurveyQuestionType = 'csat' | 'nps' | 'yesNo' | 'text' | 'choice';
+
+/**
+ * Post-chat survey question
+ */
+export interface SurveyQuestion {
+  id: string;
+  type: SurveyQuestionType;
+  label: string;
+  required?: boolean;
+  options?: SurveyQuestionOption[]; // Choices for choice questions
+  multiple?: boolean; // Lets choice questions take several answers
+  scale?: number; // Highest CSAT score, defaults to 5
+  branches?: SurveyBranch[]; // First match picks the next question
+}
+
+/**
+ * Choice offered by a choice question
+ */
+export interface SurveyQuestionOption {
+  label: string;
+  value: string;
+}
+
+/**
+ * Jump to another question, or to the end, when the answer matches
+ * Every condition given must hold
+ */
+export interface SurveyBranch {
+  equals?: SurveyAnswer;
+  lessThan?: number;
+  greaterThan?: number;
+  goTo: string; // Question id, or 'end' to finish the survey
+}
+
+/**
+ * Answer to a survey question
+ * Scores are numbers, yes/no answers 'yes' or 'no', multiple choices arrays
+ */
+export type SurveyAnswer = string | number | string[];
+
+/**
+ * Completed survey, tied to the chat contact
+ */
+export interface SurveyResponse {
+  contactId?: string;
+  sessionId?: string;
+  answers: Record<string, SurveyAnswer>;
+  submittedAt: Date;
+}
+
+/**
+ * Destination for completed surveys
+ */
+export interface SurveySink {
+  submit(response: SurveyResponse): Promise<void>;
 }
 
 /**
@@ -77,16 +335,109 @@ export type WidgetState =
   | 'connected'
   | 'ended';
 
+/**
+ * What the widget shows: the chat window, or only the launcher button
+ */
+export type WidgetLayout = 'open' | 'minimized' | 'closed';
+
+/**
+ * Recursively optional version of a configuration type
+ * Arrays and functions are replaced whole rather than merged
+ */
+export type DeepPartial<T> = T extends (...args: never[]) => unknown
+  ? T
+  : T extends readonly unknown[]
+    ? T
+    : T extends object
+      ? { [K in keyof T]?: DeepPartial<T[K]> }
+      : T;
+
+/**
+ * Configuration accepted by the embed API
+ * Only the Connect instance and contact flow are required; everything else is
+ * merged over the widget defaults
+ */
+export type WidgetOptions = DeepPartial<Omit<WidgetConfig, 'aws'>> & {
+  aws: Partial<AWSConnectConfig> &
+    Pick<AWSConnectConfig, 'instanceId' | 'contactFlowId'>;
+};
+
 /**
  * Widget initialization options
  */
-export interface WidgetInitOptions {
-  config: WidgetConfig;
-  containerId?: string;
-  onStateChange?: (state: WidgetState) => void;
+export type WidgetInitOptions = WidgetOptions & {
+  id?: string; // Unique per page; scopes the created container and stored chat data
+  containerId?: string; // Defaults to a container appended to the body
+  autoMount?: boolean; // Default: true
+  shadowDom?: boolean; // Renders in a shadow root, isolated from page styles
   onError?: (error: WidgetError) => void;
+};
+
+/**
+ * Embedded widget instance for external control
+ * Chat commands issued before the widget has rendered run once it mounts
+ */
+export interface WidgetInstance {
+  mount(containerId?: string): void;
+  unmount(): void;
+  destroy(): void;
+  updateConfig(config: DeepPartial<WidgetConfig>): void;
+  getState(): WidgetInstanceState;
+  isDestroyed(): boolean;
+  open(): void;
+  close(): void; // Hides the window; an active chat continues
+  minimize(): void;
+  startChat(visitor?: WidgetVisitor, attributes?: Record<string, string>): void;
+  sendMessage(text: string): Promise<void>;
+  endChat(): Promise<void>;
+  setVisitor(visitor: WidgetVisitor): void;
+  on<K extends WidgetEventName>(
+    event: K,
+    handler: WidgetEventHandler<K>
+  ): () => void; // Returns a function that unsubscribes
+  off<K extends WidgetEventName>(
+    event: K,
+    handler: WidgetEventHandler<K>
+  ): void;
+}
+
+/**
+ * Snapshot of a widget instance
+ */
+export interface WidgetInstanceState {
+  id: string | null; // Null for the unscoped default widget
+  mounted: boolean;
+  destroyed: boolean;
+  config: WidgetConfig;
+  widgetState: WidgetState;
+  layout: WidgetLayout;
+  chat: ChatState | null; // Null until the widget has rendered
 }
 
+/**
+ * Visitor details set through the embed API
+ * Missing fields keep their current value; the name defaults to 'Website Visitor'
+ */
+export type WidgetVisitor = Partial<Omit<VisitorInfo, 'sessionId'>>;
+
+/**
+ * Events emitted by a widget instance, with their payloads
+ */
+export interface WidgetEventMap {
+  message: Message; // New message in the active chat
+  statusChange: ChatStatus;
+  agentJoined: AgentInfo;
+  unreadChange: number;
+  layoutChange: WidgetLayout;
+  error: WidgetError;
+}
+
+export type WidgetEventName = keyof WidgetEventMap;
+
+export type WidgetEventHandler<K extends WidgetEventName> = (
+  data: WidgetEventMap[K]
+) => void;
+
 /**
  * Widget error types
  */
@@ -98,6 +449,7 @@ export interface WidgetError {
 
 export type WidgetErrorCode =
   | 'CONFIG_INVALID'
+  | 'WIDGET_ERROR'
   | 'AWS_CONNECTION_FAILED'
   | 'INITIALIZATION_FAILED'
   | 'NETWORK_ERROR';
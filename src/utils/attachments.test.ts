@@ -0,0 +1,91 @@
+/**
+ * Tests for attachment utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ATTACHMENT_CONFIG,
+  resolveAttachmentConfig,
+  validateAttachmentFile,
+  isImageMimeType,
+  formatFileSize,
+} from './attachments';
+
+const createFile = (name: string, type: string, size: number): File => {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('Attachment utilities', () => {
+  describe('resolveAttachmentConfig', () => {
+    it('should fall back to defaults', () => {
+      expect(resolveAttachmentConfig()).toEqual(DEFAULT_ATTACHMENT_CONFIG);
+    });
+
+    it('should override individual limits', () => {
+      const config = resolveAttachmentConfig({ maxFileSizeBytes: 1024 });
+
+      expect(config.maxFileSizeBytes).toBe(1024);
+      expect(config.allowedMimeTypes).toEqual(
+        DEFAULT_ATTACHMENT_CONFIG.allowedMimeTypes
+      );
+    });
+  });
+
+  describe('validateAttachmentFile', () => {
+    const config = {
+      maxFileSizeBytes: 1024 * 1024,
+      allowedMimeTypes: ['image/*', 'application/pdf'],
+    };
+
+    it('should accept allowed files within the size limit', () => {
+      expect(
+        validateAttachmentFile(
+          createFile('photo.png', 'image/png', 100),
+          config
+        )
+      ).toBeNull();
+      expect(
+        validateAttachmentFile(
+          createFile('invoice.pdf', 'application/pdf', 100),
+          config
+        )
+      ).toBeNull();
+    });
+
+    it('should reject MIME types outside the allow-list', () => {
+      expect(
+        validateAttachmentFile(
+          createFile('script.js', 'text/javascript', 100),
+          config
+        )
+      ).toBe('script.js is not a supported file type');
+    });
+
+    it('should reject files over the size limit', () => {
+      expect(
+        validateAttachmentFile(
+          createFile('large.png', 'image/png', 2 * 1024 * 1024),
+          config
+        )
+      ).toBe('large.png is larger than 1 MB');
+    });
+  });
+
+  describe('isImageMimeType', () => {
+    it('should detect image MIME types', () => {
+      expect(isImageMimeType('image/jpeg')).toBe(true);
+      expect(isImageMimeType('application/pdf')).toBe(false);
+    });
+  });
+
+  describe('formatFileSize', () => {
+    it('should format bytes, kilobytes and megabytes', () => {
+      expect(formatFileSize(512)).toBe('512 B');
+      expect(formatFileSize(2048)).toBe('2 KB');
+      expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5 MB');
+      expect(formatFileSize(20 * 1024 * 1024)).toBe('20 MB');
+    });
+  });
+});
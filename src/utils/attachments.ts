@@ -0,0 +1,96 @@
+import type { TranslateFn } from '../types/i18n';
+import type { AttachmentConfiguration } from '../types/widget';
+import { translate } from './i18n';
+
+/**
+ * Default attachment limits, matching the Amazon Connect chat defaults
+ */
+export const DEFAULT_ATTACHMENT_CONFIG: AttachmentConfiguration = {
+  maxFileSizeBytes: 20 * 1024 * 1024,
+  allowedMimeTypes: [
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ],
+};
+
+/**
+ * Resolve the attachment limits from a partial feature configuration
+ */
+export const resolveAttachmentConfig = (
+  config?: Partial<AttachmentConfiguration>
+): AttachmentConfiguration => ({
+  maxFileSizeBytes:
+    config?.maxFileSizeBytes ?? DEFAULT_ATTACHMENT_CONFIG.maxFileSizeBytes,
+  allowedMimeTypes:
+    config?.allowedMimeTypes ?? DEFAULT_ATTACHMENT_CONFIG.allowedMimeTypes,
+});
+
+/**
+ * Check whether a MIME type matches an allow-list entry
+ * Entries may use a wildcard subtype, e.g. 'image/*'
+ */
+const matchesMimeType = (mimeType: string, allowed: string): boolean => {
+  if (allowed.endsWith('/*')) {
+    return mimeType.startsWith(allowed.slice(0, -1));
+  }
+
+  return mimeType === allowed;
+};
+
+/**
+ * Validate a file against the attachment limits
+ * Returns an error message, or null when the file can be uploaded
+ */
+export const validateAttachmentFile = (
+  file: File,
+  config: AttachmentConfiguration,
+  t: TranslateFn = translate
+): string | null => {
+  if (
+    !config.allowedMimeTypes.some(allowed =>
+      matchesMimeType(file.type, allowed)
+    )
+  ) {
+    return t('attachments.unsupportedType', { name: file.name });
+  }
+
+  if (file.size > config.maxFileSizeBytes) {
+    return t('attachments.tooLarge', {
+      name: file.name,
+      size: formatFileSize(config.maxFileSizeBytes),
+    });
+  }
+
+  return null;
+};
+
+/**
+ * Whether an attachment should be rendered as an image thumbnail
+ */
+export const isImageMimeType = (mimeType: string): boolean =>
+  mimeType.startsWith('image/');
+
+/**
+ * Format a byte count for display, e.g. 1.5 MB
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+
+  const megabytes = bytes / (1024 * 1024);
+  return `${Number.isInteger(megabytes) ? megabytes : megabytes.toFixed(1)} MB`;
+};
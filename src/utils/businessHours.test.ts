@@ -0,0 +1,120 @@
+/**
+ * Tests for business hours utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getZonedTime,
+  isWithinBusinessHours,
+  parseTimeOfDay,
+} from './businessHours';
+import type { BusinessHoursConfiguration } from '../types/widget';
+
+const schedule: BusinessHoursConfiguration = {
+  timeZone: 'America/New_York',
+  weeklyHours: {
+    monday: [{ open: '09:00', close: '17:00' }],
+    tuesday: [
+      { open: '09:00', close: '12:00' },
+      { open: '13:00', close: '17:00' },
+    ],
+    friday: [{ open: '20:00', close: '02:00' }],
+  },
+  holidays: [
+    { date: '2026-12-28', name: 'Closure' },
+    {
+      date: '2026-12-29',
+      name: 'Short day',
+      hours: [{ open: '10:00', close: '12:00' }],
+    },
+  ],
+};
+
+// Mondays 2026-10-19 and 2026-12-28, Tuesday 2026-12-29; New York is UTC-4
+// in October and UTC-5 in December
+const at = (iso: string) => new Date(iso);
+
+describe('Business hours utilities', () => {
+  describe('parseTimeOfDay', () => {
+    it('should parse HH:mm into minutes', () => {
+      expect(parseTimeOfDay('09:30')).toBe(570);
+      expect(parseTimeOfDay('24:00')).toBe(1440);
+    });
+
+    it('should reject malformed times', () => {
+      expect(() => parseTimeOfDay('9am')).toThrow('Invalid time of day');
+      expect(() => parseTimeOfDay('12:75')).toThrow('Invalid time of day');
+    });
+  });
+
+  describe('getZonedTime', () => {
+    it('should resolve the local date, weekday and time', () => {
+      expect(
+        getZonedTime(at('2026-10-20T02:30:00Z'), 'America/New_York')
+      ).toEqual({ date: '2026-10-19', weekday: 'monday', minutes: 1350 });
+    });
+  });
+
+  describe('isWithinBusinessHours', () => {
+    it('should use the business time zone', () => {
+      // 09:30 in New York
+      expect(isWithinBusinessHours(schedule, at('2026-10-19T13:30:00Z'))).toBe(
+        true
+      );
+      // 08:30 in New York, 12:30 UTC
+      expect(isWithinBusinessHours(schedule, at('2026-10-19T12:30:00Z'))).toBe(
+        false
+      );
+    });
+
+    it('should treat the close time as exclusive', () => {
+      expect(isWithinBusinessHours(schedule, at('2026-10-19T21:00:00Z'))).toBe(
+        false
+      );
+    });
+
+    it('should support several ranges per day', () => {
+      // Tuesday 12:30 and 13:30 in New York
+      expect(isWithinBusinessHours(schedule, at('2026-10-20T16:30:00Z'))).toBe(
+        false
+      );
+      expect(isWithinBusinessHours(schedule, at('2026-10-20T17:30:00Z'))).toBe(
+        true
+      );
+    });
+
+    it('should be closed on days without hours', () => {
+      // Wednesday 10:00 in New York
+      expect(isWithinBusinessHours(schedule, at('2026-10-21T14:00:00Z'))).toBe(
+        false
+      );
+    });
+
+    it('should carry ranges past midnight into the next day', () => {
+      // Friday 23:00 and Saturday 01:00 in New York
+      expect(isWithinBusinessHours(schedule, at('2026-10-24T03:00:00Z'))).toBe(
+        true
+      );
+      expect(isWithinBusinessHours(schedule, at('2026-10-24T05:00:00Z'))).toBe(
+        true
+      );
+      expect(isWithinBusinessHours(schedule, at('2026-10-24T07:00:00Z'))).toBe(
+        false
+      );
+    });
+
+    it('should apply holiday closures and special hours', () => {
+      // Monday 2026-12-28 10:00 in New York is a closure
+      expect(isWithinBusinessHours(schedule, at('2026-12-28T15:00:00Z'))).toBe(
+        false
+      );
+      // Tuesday 2026-12-29 only opens 10:00-12:00
+      expect(isWithinBusinessHours(schedule, at('2026-12-29T16:00:00Z'))).toBe(
+        true
+      );
+      expect(isWithinBusinessHours(schedule, at('2026-12-29T18:00:00Z'))).toBe(
+        false
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type {
+  BusinessHoursConfiguration,
+  BusinessHoursRange,
+  Weekday,
+} from '../types/widget';
+
+const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Calendar date, weekday and time of day in a time zone
+ */
+interface ZonedTime {
+  date: string; // 'YYYY-MM-DD'
+  weekday: Weekday;
+  minutes: number; // Minutes since midnight
+}
+
+/**
+ * Parse 'HH:mm' into minutes since midnight
+ */
+export const parseTimeOfDay = (time: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (minutes > MINUTES_PER_DAY || Number(match[2]) >= 60) {
+    throw new Error(`Invalid time of day: ${time}`);
+  }
+
+  return minutes;
+};
+
+/**
+ * Resolve the date and time of day of an instant in a time zone
+ */
+export const getZonedTime = (date: Date, timeZone: string): ZonedTime => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find(entry => entry.type === type)?.value ?? '';
+
+  const calendarDate = `${part('year')}-${part('month')}-${part('day')}`;
+
+  return {
+    date: calendarDate,
+    weekday: WEEKDAYS[new Date(`${calendarDate}T00:00:00Z`).getUTCDay()],
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+};
+
+/**
+ * The previous calendar day of a 'YYYY-MM-DD' date
+ */
+const previousDay = (calendarDate: string): ZonedTime => {
+  const date = new Date(`${calendarDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+
+  return {
+    date: date.toISOString().slice(0, 10),
+    weekday: WEEKDAYS[date.getUTCDay()],
+    minutes: 0,
+  };
+};
+
+/**
+ * Opening ranges for a calendar day, applying holiday exceptions
+ */
+const getRangesForDay = (
+  config: BusinessHoursConfiguration,
+  day: Pick<ZonedTime, 'date' | 'weekday'>
+): BusinessHoursRange[] => {
+  const holiday = config.holidays?.find(entry => entry.date === day.date);
+  if (holiday) {
+    return holiday.hours || [];
+  }
+
+  return config.weeklyHours[day.weekday] || [];
+};
+
+/**
+ * Check whether an instant falls within the configured business hours
+ */
+export const isWithinBusinessHours = (
+  config: BusinessHoursConfiguration,
+  date: Date = new Date()
+): boolean => {
+  const now = getZonedTime(date, config.timeZone);
+
+  const openToday = getRangesForDay(config, now).some(range => {
+    const open = parseTimeOfDay(range.open);
+    const close = parseTimeOfDay(range.close);
+
+    return close > open
+      ? now.minutes >= open && now.minutes < close
+      : now.minutes >= open;
+  });
+
+  if (openToday) {
+    return true;
+  }
+
+  // Ranges that started yesterday and run past midnight
+  return getRangesForDay(config, previousDay(now.date)).some(range => {
+    const open = parseTimeOfDay(range.open);
+    const close = parseTimeOfDay(range.close);
+
+    return close <= open && now.minutes < close;
+  });
+};
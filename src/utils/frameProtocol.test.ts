@@ -0,0 +1,86 @@
+/**
+ * Tests for the iframe postMessage protocol
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FRAME_PROTOCOL,
+  createFrameMessage,
+  isAllowedOrigin,
+  isFrameMessage,
+  isHostMessage,
+} from './frameProtocol';
+
+describe('Frame protocol', () => {
+  describe('isAllowedOrigin', () => {
+    it('should match exact origins', () => {
+      const allowed = ['https://www.example.com'];
+
+      expect(isAllowedOrigin('https://www.example.com', allowed)).toBe(true);
+      expect(isAllowedOrigin('http://www.example.com', allowed)).toBe(false);
+      expect(isAllowedOrigin('https://www.example.com:8443', allowed)).toBe(
+        false
+      );
+    });
+
+    it('should ignore a trailing slash on allowed origins', () => {
+      expect(
+        isAllowedOrigin('https://www.example.com', ['https://www.example.com/'])
+      ).toBe(true);
+    });
+
+    it('should match subdomain patterns', () => {
+      const allowed = ['https://*.example.com'];
+
+      expect(isAllowedOrigin('https://shop.example.com', allowed)).toBe(true);
+      expect(isAllowedOrigin('https://a.b.example.com', allowed)).toBe(true);
+      expect(isAllowedOrigin('https://example.com', allowed)).toBe(false);
+      expect(isAllowedOrigin('https://evilexample.com', allowed)).toBe(false);
+      expect(isAllowedOrigin('http://shop.example.com', allowed)).toBe(false);
+    });
+
+    it('should not treat a bare wildcard as a catch-all', () => {
+      expect(isAllowedOrigin('https://www.example.com', ['*'])).toBe(false);
+      expect(isAllowedOrigin('null', ['https://www.example.com'])).toBe(false);
+    });
+  });
+
+  describe('message guards', () => {
+    it('should accept messages carrying the protocol marker', () => {
+      const command = createFrameMessage({
+        type: 'command',
+        id: 1,
+        command: 'open',
+        args: [],
+      });
+
+      expect(command.protocol).toBe(FRAME_PROTOCOL);
+      expect(isHostMessage(command)).toBe(true);
+      expect(isFrameMessage(command)).toBe(false);
+      expect(
+        isFrameMessage(createFrameMessage({ type: 'unread', count: 2 }))
+      ).toBe(true);
+    });
+
+    it('should reject unrelated messages', () => {
+      expect(isHostMessage({ type: 'init' })).toBe(false);
+      expect(isHostMessage('init')).toBe(false);
+      expect(isHostMessage(null)).toBe(false);
+      expect(
+        isHostMessage({ protocol: 'other-widget/1', type: 'destroy' })
+      ).toBe(false);
+    });
+
+    it('should reject commands outside the protocol', () => {
+      expect(
+        isHostMessage({
+          protocol: FRAME_PROTOCOL,
+          type: 'command',
+          id: 1,
+          command: 'mount',
+          args: [],
+        })
+      ).toBe(false);
+    });
+  });
+});
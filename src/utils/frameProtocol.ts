@@ -0,0 +1,103 @@
+import type {
+  FrameCommand,
+  FrameEnvelope,
+  FrameMessage,
+  FrameProtocol,
+  FrameSize,
+  HostMessage,
+} from '../types/frame';
+import type { WidgetLayout } from '../types/widget';
+
+/**
+ * Protocol marker of the current message format
+ */
+export const FRAME_PROTOCOL: FrameProtocol = 'aws-connect-chat-widget/1';
+
+/**
+ * Iframe size for each layout
+ * Leaves room for the 20px offsets and shadows of the launcher and window
+ */
+export const FRAME_SIZES: Record<WidgetLayout, FrameSize> = {
+  closed: { width: '100px', height: '100px' },
+  minimized: { width: '100px', height: '100px' },
+  open: { width: '420px', height: '720px' },
+};
+
+/**
+ * Commands the frame runs; anything else is rejected
+ */
+export const FRAME_COMMANDS: readonly FrameCommand[] = [
+  'open',
+  'close',
+  'minimize',
+  'startChat',
+  'sendMessage',
+  'endChat',
+  'setVisitor',
+  'updateConfig',
+];
+
+const HOST_MESSAGE_TYPES: readonly string[] = ['init', 'command', 'destroy'];
+const FRAME_MESSAGE_TYPES: readonly string[] = [
+  'result',
+  'event',
+  'resize',
+  'unread',
+];
+
+/**
+ * Add the protocol marker to a message before it is posted
+ */
+export const createFrameMessage = <T extends HostMessage | FrameMessage>(
+  message: T
+): FrameEnvelope<T> => ({ ...message, protocol: FRAME_PROTOCOL });
+
+const hasProtocolType = (data: unknown, types: readonly string[]): boolean =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { protocol?: unknown }).protocol === FRAME_PROTOCOL &&
+  types.includes((data as { type?: unknown }).type as string);
+
+/**
+ * Whether posted data is a message from the host page
+ * Commands outside FRAME_COMMANDS are not accepted
+ */
+export const isHostMessage = (
+  data: unknown
+): data is FrameEnvelope<HostMessage> =>
+  hasProtocolType(data, HOST_MESSAGE_TYPES) &&
+  ((data as HostMessage).type !== 'command' ||
+    FRAME_COMMANDS.includes((data as { command: FrameCommand }).command));
+
+/**
+ * Whether posted data is a message from the frame
+ */
+export const isFrameMessage = (
+  data: unknown
+): data is FrameEnvelope<FrameMessage> =>
+  hasProtocolType(data, FRAME_MESSAGE_TYPES);
+
+/**
+ * Whether an origin is on the allow-list
+ * Entries are exact origins or subdomain patterns such as
+ * 'https://*.example.com'; there is no catch-all entry
+ */
+export const isAllowedOrigin = (
+  origin: string,
+  allowedOrigins: readonly string[]
+): boolean =>
+  allowedOrigins.some(allowed => {
+    const pattern = allowed.replace(/\/+$/, '');
+    const wildcard = pattern.match(/^([a-z][a-z0-9+.-]*:\/\/)\*(\..+)$/i);
+    if (!wildcard) {
+      return origin === pattern;
+    }
+
+    const [, scheme, suffix] = wildcard;
+    const host = origin.slice(scheme.length);
+    return (
+      origin.startsWith(scheme) &&
+      host.endsWith(suffix) &&
+      host.length > suffix.length
+    );
+  });
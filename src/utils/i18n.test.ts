@@ -0,0 +1,286 @@
+/**
+ * Tests for localization utilities
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createTranslator,
+  formatMessage,
+  getAvailableLocales,
+  getLocaleDirection,
+  getLocaleStrings,
+  localizeMessages,
+  matchLocale,
+  resolveDirection,
+  resolveLocale,
+} from './i18n';
+import { LOCALES } from '../locales';
+import { en } from '../locales/en';
+import type { MessageConfiguration } from '../types/widget';
+
+const mockLanguages = (languages: string[]) =>
+  vi.spyOn(navigator, 'languages', 'get').mockReturnValue(languages);
+
+describe('Localization utilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('formatMessage', () => {
+    it('should fill in simple arguments', () => {
+      expect(formatMessage('Connected to {name}', { name: 'Sam' })).toBe(
+        'Connected to Sam'
+      );
+    });
+
+    it('should pick plural forms and replace #', () => {
+      const pattern =
+        '{count, plural, one {# message} other {# messages}} waiting to be sent';
+
+      expect(formatMessage(pattern, { count: 1 })).toBe(
+        '1 message waiting to be sent'
+      );
+      expect(formatMessage(pattern, { count: 3 })).toBe(
+        '3 messages waiting to be sent'
+      );
+      expect(formatMessage(pattern, { count: 1200 })).toBe(
+        '1,200 messages waiting to be sent'
+      );
+    });
+
+    it('should use the plural rules of the locale', () => {
+      const pattern = '{count, plural, one {# fichier} other {# fichiers}}';
+
+      expect(formatMessage(pattern, { count: 0 }, 'fr')).toBe('0 fichier');
+      expect(formatMessage(pattern, { count: 0 }, 'en')).toBe('0 fichiers');
+    });
+
+    it('should prefer exact plural matches and apply offsets', () => {
+      const pattern =
+        '{count, plural, offset:1 =0 {Nobody} =1 {Sam} one {Sam and # other} other {Sam and # others}}';
+
+      expect(formatMessage(pattern, { count: 0 })).toBe('Nobody');
+      expect(formatMessage(pattern, { count: 1 })).toBe('Sam');
+      expect(formatMessage(pattern, { count: 2 })).toBe('Sam and 1 other');
+      expect(formatMessage(pattern, { count: 4 })).toBe('Sam and 3 others');
+    });
+
+    it('should pick select and ordinal options', () => {
+      expect(
+        formatMessage('{status, select, away {Away} other {Offline}}', {
+          status: 'away',
+        })
+      ).toBe('Away');
+      expect(
+        formatMessage('{status, select, away {Away} other {Offline}}', {
+          status: 'gone',
+        })
+      ).toBe('Offline');
+      expect(
+        formatMessage(
+          '{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}',
+          { n: 22 }
+        )
+      ).toBe('22nd');
+    });
+
+    it('should format numbers and dates for the locale', () => {
+      const date = new Date(Date.UTC(2026, 9, 19, 12));
+
+      expect(formatMessage('{n, number}', { n: 1234.5 }, 'de')).toBe('1.234,5');
+      expect(formatMessage('{n, number, percent}', { n: 0.25 })).toBe('25%');
+      expect(formatMessage('{d, date, long}', { d: date }, 'fr')).toBe(
+        '19 octobre 2026'
+      );
+    });
+
+    it('should treat apostrophes as text unless they quote syntax', () => {
+      expect(formatMessage("We'll call {name}", { name: 'you' })).toBe(
+        "We'll call you"
+      );
+      expect(formatMessage("Use '{name}' and ''quotes''")).toBe(
+        "Use {name} and 'quotes'"
+      );
+      expect(
+        formatMessage("{count, plural, other {'#' #}}", { count: 2 })
+      ).toBe('# 2');
+    });
+
+    it('should reject malformed patterns', () => {
+      expect(() => formatMessage('{count, plural, one {#}}')).toThrow(
+        "Missing 'other' option"
+      );
+      expect(() => formatMessage('Hello {name')).toThrow();
+      expect(() => formatMessage('Hello }')).toThrow();
+    });
+  });
+
+  describe('matchLocale', () => {
+    it('should match exact tags before languages', () => {
+      expect(matchLocale('de-CH', ['de', 'de-CH'])).toBe('de-CH');
+      expect(matchLocale('fr-CA', ['en', 'fr'])).toBe('fr');
+      expect(matchLocale('pt_BR', ['pt-br'])).toBe('pt-br');
+      expect(matchLocale('ja', ['en', 'fr'])).toBeUndefined();
+    });
+  });
+
+  describe('resolveLocale', () => {
+    it('should use an explicit locale with a bundle', () => {
+      expect(resolveLocale('fr-CA')).toBe('fr-CA');
+    });
+
+    it('should follow the browser languages when auto or unset', () => {
+      mockLanguages(['ja-JP', 'es-MX', 'en']);
+
+      expect(resolveLocale()).toBe('es-MX');
+      expect(resolveLocale('auto')).toBe('es-MX');
+    });
+
+    it('should fall back to English', () => {
+      mockLanguages(['ja-JP']);
+
+      expect(resolveLocale()).toBe('en');
+      expect(resolveLocale('ja')).toBe('en');
+      expect(resolveLocale('not a locale')).toBe('en');
+    });
+
+    it('should accept locales that only have configured overrides', () => {
+      expect(resolveLocale('nl', ['en', 'nl'])).toBe('nl');
+    });
+  });
+
+  describe('getLocaleDirection', () => {
+    it('should read right-to-left languages and scripts', () => {
+      expect(getLocaleDirection('ar')).toBe('rtl');
+      expect(getLocaleDirection('he-IL')).toBe('rtl');
+      expect(getLocaleDirection('az-Arab')).toBe('rtl');
+      expect(getLocaleDirection('en-US')).toBe('ltr');
+      expect(getLocaleDirection('sd-Deva')).toBe('ltr');
+      expect(getLocaleDirection('not a locale')).toBe('ltr');
+    });
+
+    it('should prefer an explicit direction', () => {
+      expect(resolveDirection('rtl', 'en')).toBe('rtl');
+      expect(resolveDirection('ltr', 'ar')).toBe('ltr');
+      expect(resolveDirection('auto', 'ur')).toBe('rtl');
+      expect(resolveDirection(undefined, 'fr')).toBe('ltr');
+    });
+  });
+
+  describe('createTranslator', () => {
+    it('should translate with the matching bundle', () => {
+      const { locale, t } = createTranslator('de-AT');
+
+      expect(locale).toBe('de-AT');
+      expect(t('chatButton.unread', { count: 2 })).toBe(
+        '2 ungelesene Nachrichten'
+      );
+    });
+
+    it('should fall back to English for missing strings', () => {
+      const { t } = createTranslator('nl', {
+        'chatButton.open': 'Chat openen',
+      });
+
+      expect(t('chatButton.open')).toBe('Chat openen');
+      expect(t('chatButton.close')).toBe('Close chat');
+    });
+
+    it('should return the raw pattern when it cannot be formatted', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { t } = createTranslator('en', {
+        'chatButton.unread': '{count, plural, one {#}',
+      });
+
+      expect(t('chatButton.unread', { count: 2 })).toBe(
+        '{count, plural, one {#}'
+      );
+      expect(warn).toHaveBeenCalled();
+    });
+
+    it('should format dates and numbers for the locale', () => {
+      const translator = createTranslator('de');
+
+      expect(translator.formatNumber(1234.5)).toBe('1.234,5');
+      expect(
+        translator.formatDate(new Date(2026, 9, 19), { month: 'long' })
+      ).toBe('Oktober');
+    });
+  });
+
+  describe('Bundles', () => {
+    const keys = Object.keys(en).sort();
+
+    Object.entries(LOCALES).forEach(([locale, bundle]) => {
+      it(`should translate every string in ${locale}`, () => {
+        expect(Object.keys(bundle).sort()).toEqual(keys);
+      });
+
+      it(`should use valid message syntax in ${locale}`, () => {
+        Object.entries(bundle).forEach(([key, pattern]) => {
+          expect(
+            () => formatMessage(pattern, {}, locale),
+            `${locale} ${key}`
+          ).not.toThrow();
+        });
+      });
+    });
+  });
+
+  describe('Per-locale messages', () => {
+    const messages: MessageConfiguration = {
+      welcomeMessage: 'Hi there!',
+      offlineMessage: 'We are offline.',
+      waitingMessage: '',
+      locales: {
+        fr: {
+          welcomeMessage: 'Bonjour !',
+          strings: { 'chatButton.open': 'Discuter' },
+        },
+        'fr-CA': { strings: { 'chatButton.open': 'Clavarder' } },
+        nl: { welcomeMessage: 'Hallo!' },
+      },
+    };
+
+    it('should list bundles and configured locales', () => {
+      expect(getAvailableLocales(messages)).toEqual([
+        'en',
+        'es',
+        'fr',
+        'de',
+        'fr-CA',
+        'nl',
+      ]);
+    });
+
+    it('should apply language overrides, then the exact tag', () => {
+      expect(getLocaleStrings(messages, 'fr-CA')).toEqual({
+        'chatButton.open': 'Clavarder',
+      });
+      expect(getLocaleStrings(messages, 'fr-FR')).toEqual({
+        'chatButton.open': 'Discuter',
+      });
+      expect(getLocaleStrings(messages, 'de')).toEqual({});
+    });
+
+    it('should prefer per-locale messages, then configured ones, then the bundle', () => {
+      const { t } = createTranslator('fr');
+      const localized = localizeMessages(messages, 'fr', t);
+
+      expect(localized.welcomeMessage).toBe('Bonjour !');
+      expect(localized.offlineMessage).toBe('We are offline.');
+      expect(localized.waitingMessage).toBe(
+        'Nous vous mettons en relation avec un conseiller...'
+      );
+    });
+
+    it('should translate messages that are not configured', () => {
+      expect(localizeMessages(undefined, 'en')).toEqual({
+        welcomeMessage: 'Hello! How can we help you today?',
+        offlineMessage: 'We are currently offline. Please leave a message.',
+        waitingMessage: 'Connecting you to an agent...',
+        connectingMessage: 'Connecting...',
+      });
+    });
+  });
+});
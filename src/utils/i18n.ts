@@ -0,0 +1,579 @@
+import type {
+  LocaleBundle,
+  TextDirection,
+  TranslateFn,
+  TranslationKey,
+  TranslationValues,
+  Translator,
+} from '../types/i18n';
+import type { MessageConfiguration } from '../types/widget';
+import { LOCALES } from '../locales';
+import { en } from '../locales/en';
+
+/**
+ * Locale used when no bundle matches the visitor's languages
+ */
+export const DEFAULT_LOCALE = 'en';
+
+type MessagePart =
+  | string
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | {
+      type: 'plural' | 'selectordinal' | 'select';
+      name: string;
+      offset: number;
+      options: Record<string, MessagePart[]>;
+    }
+  | { type: 'pound' };
+
+/**
+ * Parser for the ICU message syntax used by the bundles
+ * Supports simple, number, date and time arguments, plural, selectordinal
+ * and select, `#` inside plurals and apostrophe quoting
+ */
+class MessageParser {
+  private position = 0;
+
+  constructor(private pattern: string) {}
+
+  parse(): MessagePart[] {
+    const parts = this.parseMessage(false);
+    if (this.position < this.pattern.length) {
+      throw new Error(
+        `Unexpected '}' at ${this.position} in "${this.pattern}"`
+      );
+    }
+    return parts;
+  }
+
+  private parseMessage(inPlural: boolean): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) {
+        parts.push(text);
+        text = '';
+      }
+    };
+
+    while (this.position < this.pattern.length) {
+      const char = this.pattern[this.position];
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === "'") {
+        text += this.parseQuoted(inPlural);
+        continue;
+      }
+
+      if (char === '{') {
+        flushText();
+        parts.push(this.parseArgument());
+        continue;
+      }
+
+      if (char === '#' && inPlural) {
+        flushText();
+        parts.push({ type: 'pound' });
+        this.position++;
+        continue;
+      }
+
+      text += char;
+      this.position++;
+    }
+
+    flushText();
+    return parts;
+  }
+
+  /**
+   * An apostrophe quotes syntax characters; two apostrophes are one
+   * Apostrophes elsewhere, as in "we'll", are plain text
+   */
+  private parseQuoted(inPlural: boolean): string {
+    const next = this.pattern[this.position + 1];
+
+    if (next === "'") {
+      this.position += 2;
+      return "'";
+    }
+
+    if (next !== '{' && next !== '}' && !(next === '#' && inPlural)) {
+      this.position++;
+      return "'";
+    }
+
+    let text = '';
+    this.position++;
+    while (this.position < this.pattern.length) {
+      const char = this.pattern[this.position];
+      if (char === "'") {
+        if (this.pattern[this.position + 1] === "'") {
+          text += "'";
+          this.position += 2;
+          continue;
+        }
+        this.position++;
+        break;
+      }
+      text += char;
+      this.position++;
+    }
+    return text;
+  }
+
+  private parseArgument(): MessagePart {
+    this.position++; // {
+    const name = this.readToken();
+
+    if (this.consume('}')) {
+      return { type: 'argument', name };
+    }
+
+    this.expect(',');
+    const format = this.readToken();
+
+    if (
+      format === 'plural' ||
+      format === 'selectordinal' ||
+      format === 'select'
+    ) {
+      this.expect(',');
+      return { type: format, name, ...this.parseOptions(format !== 'select') };
+    }
+
+    let style: string | undefined;
+    if (this.consume(',')) {
+      style = this.readToken();
+    }
+    this.expect('}');
+    return { type: 'argument', name, format, style };
+  }
+
+  private parseOptions(isPlural: boolean): {
+    offset: number;
+    options: Record<string, MessagePart[]>;
+  } {
+    const options: Record<string, MessagePart[]> = {};
+    let offset = 0;
+
+    this.skipWhitespace();
+    while (!this.consume('}')) {
+      if (this.position >= this.pattern.length) {
+        throw new Error(`Unterminated argument in "${this.pattern}"`);
+      }
+
+      const selector = this.readToken();
+      if (isPlural && selector.startsWith('offset:')) {
+        offset = Number(selector.slice('offset:'.length));
+        this.skipWhitespace();
+        continue;
+      }
+
+      this.expect('{');
+      options[selector] = this.parseMessage(isPlural);
+      this.expect('}');
+      this.skipWhitespace();
+    }
+
+    if (!options.other) {
+      throw new Error(`Missing 'other' option in "${this.pattern}"`);
+    }
+
+    return { offset, options };
+  }
+
+  private readToken(): string {
+    this.skipWhitespace();
+    const start = this.position;
+    while (
+      this.position < this.pattern.length &&
+      !/[\s,{}]/.test(this.pattern[this.position])
+    ) {
+      this.position++;
+    }
+    const token = this.pattern.slice(start, this.position);
+    this.skipWhitespace();
+    return token;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.pattern[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+
+  private consume(char: string): boolean {
+    this.skipWhitespace();
+    if (this.pattern[this.position] === char) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      throw new Error(
+        `Expected '${char}' at ${this.position} in "${this.pattern}"`
+      );
+    }
+  }
+}
+
+const parsedMessages = new Map<string, MessagePart[]>();
+const formatters = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat>();
+
+const parseMessage = (pattern: string): MessagePart[] => {
+  let parts = parsedMessages.get(pattern);
+  if (!parts) {
+    parts = new MessageParser(pattern).parse();
+    parsedMessages.set(pattern, parts);
+  }
+  return parts;
+};
+
+const getNumberFormat = (
+  locale: string,
+  options: Intl.NumberFormatOptions = {}
+): Intl.NumberFormat => {
+  const key = `number|${locale}|${JSON.stringify(options)}`;
+  let format = formatters.get(key) as Intl.NumberFormat | undefined;
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    formatters.set(key, format);
+  }
+  return format;
+};
+
+const getDateTimeFormat = (
+  locale: string,
+  options: Intl.DateTimeFormatOptions = {}
+): Intl.DateTimeFormat => {
+  const key = `date|${locale}|${JSON.stringify(options)}`;
+  let format = formatters.get(key) as Intl.DateTimeFormat | undefined;
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options);
+    formatters.set(key, format);
+  }
+  return format;
+};
+
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: 'percent' },
+};
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'];
+
+const formatArgument = (
+  value: TranslationValues[string],
+  locale: string,
+  format?: string,
+  style = 'medium'
+): string => {
+  if (value === undefined) {
+    return '';
+  }
+
+  if (
+    format === 'number' ||
+    (format === undefined && typeof value === 'number')
+  ) {
+    return getNumberFormat(locale, NUMBER_STYLES[style]).format(Number(value));
+  }
+
+  if (format === 'date' || format === 'time' || value instanceof Date) {
+    const dateStyle = DATE_STYLES.includes(style) ? style : 'medium';
+    const options = (
+      format === 'time' ? { timeStyle: dateStyle } : { dateStyle }
+    ) as Intl.DateTimeFormatOptions;
+    return getDateTimeFormat(locale, options).format(new Date(value));
+  }
+
+  return String(value);
+};
+
+const formatParts = (
+  parts: MessagePart[],
+  values: TranslationValues,
+  locale: string,
+  pluralValue?: number
+): string =>
+  parts
+    .map(part => {
+      if (typeof part === 'string') {
+        return part;
+      }
+
+      switch (part.type) {
+        case 'argument':
+          return formatArgument(
+            values[part.name],
+            locale,
+            part.format,
+            part.style
+          );
+        case 'pound':
+          return pluralValue === undefined
+            ? '#'
+            : getNumberFormat(locale).format(pluralValue);
+        case 'select': {
+          const option = part.options[String(values[part.name])];
+          return formatParts(
+            option ?? part.options.other,
+            values,
+            locale,
+            pluralValue
+          );
+        }
+        default: {
+          const count = Number(values[part.name]);
+          const exact = part.options[`=${count}`];
+          if (exact) {
+            return formatParts(exact, values, locale, count - part.offset);
+          }
+
+          const category = new Intl.PluralRules(locale, {
+            type: part.type === 'selectordinal' ? 'ordinal' : 'cardinal',
+          }).select(count - part.offset);
+          return formatParts(
+            part.options[category] ?? part.options.other,
+            values,
+            locale,
+            count - part.offset
+          );
+        }
+      }
+    })
+    .join('');
+
+/**
+ * Format an ICU message, e.g.
+ * formatMessage('{count, plural, one {# message} other {# messages}}', { count: 2 })
+ */
+export const formatMessage = (
+  pattern: string,
+  values: TranslationValues = {},
+  locale: string = DEFAULT_LOCALE
+): string => formatParts(parseMessage(pattern), values, locale);
+
+/**
+ * Bundle key matching a locale tag
+ * Tries the exact tag, then its language, e.g. 'fr-CA' matches 'fr'
+ */
+export const matchLocale = (
+  locale: string,
+  available: string[]
+): string | undefined => {
+  const normalized = locale.toLowerCase().replace('_', '-');
+  const language = normalized.split('-')[0];
+
+  return (
+    available.find(candidate => candidate.toLowerCase() === normalized) ??
+    available.find(candidate => candidate.toLowerCase() === language)
+  );
+};
+
+/**
+ * Languages preferred by the visitor's browser, most preferred first
+ */
+export const detectLocales = (): string[] => {
+  if (typeof navigator === 'undefined') {
+    return [];
+  }
+
+  return navigator.languages?.length
+    ? [...navigator.languages]
+    : [navigator.language].filter(Boolean);
+};
+
+/**
+ * Locale to show the widget in
+ * An explicit locale wins; otherwise the first browser language with a bundle.
+ * The tag is kept whole so dates use its region, e.g. 'fr-CA'
+ */
+export const resolveLocale = (
+  requested?: string,
+  available: string[] = Object.keys(LOCALES)
+): string => {
+  const candidates =
+    requested && requested !== 'auto' ? [requested] : detectLocales();
+
+  const locale = candidates.find(candidate => {
+    try {
+      Intl.getCanonicalLocales(candidate);
+    } catch {
+      return false;
+    }
+    return matchLocale(candidate, available) !== undefined;
+  });
+
+  return locale ?? DEFAULT_LOCALE;
+};
+
+/**
+ * Scripts and languages written right to left
+ */
+const RTL_SCRIPTS = ['Adlm', 'Arab', 'Hebr', 'Nkoo', 'Rohg', 'Syrc', 'Thaa'];
+const RTL_LANGUAGES = [
+  'ar',
+  'ckb',
+  'dv',
+  'fa',
+  'he',
+  'ks',
+  'ps',
+  'sd',
+  'ug',
+  'ur',
+  'yi',
+];
+
+/**
+ * Reading direction of a locale
+ * A script subtag wins over the language, e.g. 'az-Arab' is right-to-left
+ */
+export const getLocaleDirection = (locale: string): TextDirection => {
+  try {
+    const { language, script } = new Intl.Locale(locale);
+    return (
+      script ? RTL_SCRIPTS.includes(script) : RTL_LANGUAGES.includes(language)
+    )
+      ? 'rtl'
+      : 'ltr';
+  } catch {
+    return 'ltr';
+  }
+};
+
+/**
+ * Direction to lay the widget out in
+ * An explicit direction wins; 'auto' or unset follows the locale
+ */
+export const resolveDirection = (
+  direction: TextDirection | 'auto' | undefined,
+  locale: string
+): TextDirection =>
+  direction === 'ltr' || direction === 'rtl'
+    ? direction
+    : getLocaleDirection(locale);
+
+/**
+ * Create a translator for a locale
+ * Strings missing from the locale's bundle and the overrides fall back to
+ * English
+ */
+export const createTranslator = (
+  locale: string = DEFAULT_LOCALE,
+  overrides: Partial<LocaleBundle> = {}
+): Translator => {
+  const bundleKey = matchLocale(locale, Object.keys(LOCALES));
+  const bundle: LocaleBundle = {
+    ...en,
+    ...(bundleKey ? LOCALES[bundleKey] : {}),
+    ...overrides,
+  };
+
+  const t: TranslateFn = (key, values) => {
+    const pattern = bundle[key] ?? key;
+    try {
+      return formatMessage(pattern, values, locale);
+    } catch (error) {
+      console.warn(`Failed to format message '${key}':`, error);
+      return pattern;
+    }
+  };
+
+  return {
+    locale,
+    t,
+    formatDate: (date, options) =>
+      getDateTimeFormat(locale, options).format(date),
+    formatNumber: (value, options) =>
+      getNumberFormat(locale, options).format(value),
+  };
+};
+
+/**
+ * English translator used when none is given
+ */
+export const defaultTranslator = createTranslator();
+
+/**
+ * Look up an English string
+ */
+export const translate: TranslateFn = (key: TranslationKey, values) =>
+  defaultTranslator.t(key, values);
+
+/**
+ * Locales with a bundle or configured overrides
+ */
+export const getAvailableLocales = (
+  messages?: MessageConfiguration
+): string[] =>
+  Array.from(
+    new Set([...Object.keys(LOCALES), ...Object.keys(messages?.locales ?? {})])
+  );
+
+/**
+ * Configured overrides for a locale
+ * Overrides for the language apply first, then those for the exact tag
+ */
+const getLocaleOverrides = (
+  messages: MessageConfiguration | undefined,
+  locale: string
+) => {
+  const locales = messages?.locales ?? {};
+  const language = matchLocale(locale.split('-')[0], Object.keys(locales));
+  const exact = matchLocale(locale, Object.keys(locales));
+
+  return {
+    ...(language ? locales[language] : {}),
+    ...(exact && exact !== language ? locales[exact] : {}),
+  };
+};
+
+/**
+ * Built-in string overrides configured for a locale
+ */
+export const getLocaleStrings = (
+  messages: MessageConfiguration | undefined,
+  locale: string
+): Partial<LocaleBundle> => getLocaleOverrides(messages, locale).strings ?? {};
+
+/**
+ * Message configuration for a locale
+ * Per-locale overrides win, then the configured messages, then the bundle
+ */
+export const localizeMessages = (
+  messages: MessageConfiguration | undefined,
+  locale: string,
+  t: TranslateFn = translate
+): MessageConfiguration => {
+  const overrides = getLocaleOverrides(messages, locale);
+
+  return {
+    ...messages,
+    welcomeMessage:
+      overrides.welcomeMessage ||
+      messages?.welcomeMessage ||
+      t('messages.welcome'),
+    offlineMessage:
+      overrides.offlineMessage ||
+      messages?.offlineMessage ||
+      t('messages.offline'),
+    waitingMessage:
+      overrides.waitingMessage ||
+      messages?.waitingMessage ||
+      t('messages.waiting'),
+    connectingMessage:
+      overrides.connectingMessage ||
+      messages?.connectingMessage ||
+      t('messages.connecting'),
+  };
+};
@@ -12,11 +12,136 @@ export {
   validateAWSConnectConfiguration,
   validateMessageConfiguration,
   validateFeatureConfiguration,
+  validatePreChatFormConfiguration,
+  validateAvailabilityConfiguration,
+  validateQueueConfiguration,
+  validateSurveyConfiguration,
+  validateLocaleConfiguration,
   WidgetConfigurationValidator,
   defaultValidator,
   configurationSchema,
 } from './validation';
 
+// Export attachment utilities
+export {
+  DEFAULT_ATTACHMENT_CONFIG,
+  resolveAttachmentConfig,
+  validateAttachmentFile,
+  isImageMimeType,
+  formatFileSize,
+} from './attachments';
+
+// Export business hours utilities
+export { isWithinBusinessHours, getZonedTime } from './businessHours';
+
+// Export queue status utilities
+export {
+  parseQueueStatusMessage,
+  formatWaitTime,
+  isWaitingForAgent,
+} from './queueStatus';
+
+// Export rich message utilities
+export {
+  parseMarkdown,
+  parseInlineMarkdown,
+  linkifyText,
+  sanitizeUrl,
+} from './markdown';
+export type { MarkdownBlock, MarkdownInline } from './markdown';
+export {
+  INTERACTIVE_CONTENT_TYPE,
+  INTERACTIVE_RESPONSE_CONTENT_TYPE,
+  parseInteractiveTemplate,
+  createInteractiveResponse,
+  getInteractiveResponseText,
+  formatTimeslot,
+  applyQuickReplyTemplate,
+} from './interactiveMessage';
+
+// Export transcript utilities
+export {
+  TRANSCRIPT_FORMATS,
+  createTranscript,
+  formatTranscriptText,
+  formatTranscriptHtml,
+  formatTranscriptJson,
+  formatTranscriptDuration,
+  getTranscriptDuration,
+  canExportTranscript,
+  exportTranscript,
+  downloadTranscript,
+} from './transcript';
+export type { TranscriptFormatOptions } from './transcript';
+export { createTranscriptPdf, canEncodeTranscriptPdf } from './transcriptPdf';
+
+// Export post-chat survey utilities
+export {
+  SURVEY_END,
+  DEFAULT_CSAT_SCALE,
+  getSurveyScale,
+  getNextSurveyQuestion,
+  getSurveyPath,
+  validateSurveyAnswer,
+  getSurveyAnswers,
+  toSurveyAttributes,
+} from './survey';
+export type { SurveyAnswers } from './survey';
+
+// Export pre-chat form utilities
+export {
+  DEFAULT_VISITOR_NAME,
+  DEFAULT_LEAVE_MESSAGE_FORM,
+  DEFAULT_CALLBACK_FORM,
+  getDefaultLeaveMessageForm,
+  getDefaultCallbackForm,
+  getInitialPreChatAnswers,
+  validatePreChatAnswer,
+  validatePreChatAnswers,
+  mapPreChatAnswers,
+} from './preChatForm';
+export type { PreChatAnswers } from './preChatForm';
+
+// Export AWS Connect service configuration utilities
+export { validateConnectServiceConfig } from './connectServiceConfig';
+export type { ConnectServiceConfig } from './connectServiceConfig';
+
+// Export widget configuration, event and frame protocol utilities
+export {
+  DEFAULT_WIDGET_CONFIG,
+  mergeWidgetConfig,
+  createWidgetConfig,
+  validateWidgetConfig,
+} from './widgetConfig';
+export { emitChatStateEvents } from './widgetEvents';
+export type { WidgetEventEmitter } from './widgetEvents';
+export {
+  FRAME_PROTOCOL,
+  FRAME_SIZES,
+  FRAME_COMMANDS,
+  createFrameMessage,
+  isHostMessage,
+  isFrameMessage,
+  isAllowedOrigin,
+} from './frameProtocol';
+
+// Export localization utilities
+export {
+  DEFAULT_LOCALE,
+  formatMessage,
+  matchLocale,
+  detectLocales,
+  resolveLocale,
+  getLocaleDirection,
+  resolveDirection,
+  createTranslator,
+  defaultTranslator,
+  translate,
+  getAvailableLocales,
+  getLocaleStrings,
+  localizeMessages,
+} from './i18n';
+
 // Export validation types
 export type {
   ValidationResult,
@@ -39,6 +164,7 @@ export {
   createButtonStyles,
   createInputStyles,
   createSurfaceStyles,
+  attachStyleSheet,
 } from './styled';
 
 // Export styling types
@@ -0,0 +1,175 @@
+/**
+ * Tests for interactive message utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyQuickReplyTemplate,
+  createInteractiveResponse,
+  formatTimeslot,
+  getInteractiveResponseText,
+  parseInteractiveTemplate,
+} from './interactiveMessage';
+import type { InteractiveTemplate } from '../types/aws-connect';
+import type { Message } from '../types/chat';
+
+describe('Interactive message utilities', () => {
+  const listPicker: InteractiveTemplate = {
+    templateType: 'ListPicker',
+    version: '1.0',
+    data: {
+      content: {
+        title: 'What can we help with?',
+        elements: [{ title: 'Billing' }, { title: 'Orders' }],
+      },
+    },
+  };
+
+  describe('parseInteractiveTemplate', () => {
+    it('should parse supported templates', () => {
+      expect(parseInteractiveTemplate(JSON.stringify(listPicker))).toEqual(
+        listPicker
+      );
+    });
+
+    it('should reject malformed and unsupported templates', () => {
+      expect(parseInteractiveTemplate('not json')).toBeNull();
+      expect(
+        parseInteractiveTemplate(
+          JSON.stringify({ templateType: 'Unknown', data: { content: {} } })
+        )
+      ).toBeNull();
+      expect(
+        parseInteractiveTemplate(
+          JSON.stringify({ templateType: 'ListPicker', data: { content: {} } })
+        )
+      ).toBeNull();
+      expect(
+        parseInteractiveTemplate(
+          JSON.stringify({
+            templateType: 'Carousel',
+            data: { content: { elements: [{ templateType: 'ListPicker' }] } },
+          })
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('applyQuickReplyTemplate', () => {
+    const message: Message = {
+      id: 'msg-1',
+      content: JSON.stringify({
+        templateType: 'QuickReply',
+        version: '1.0',
+        data: {
+          content: {
+            title: 'Was this helpful?',
+            elements: [{ title: 'Yes' }, { title: 'No' }],
+          },
+        },
+      }),
+      contentType: 'application/vnd.amazonaws.connect.message.interactive',
+      sender: 'system',
+      timestamp: new Date(),
+      status: 'delivered',
+      type: 'system',
+    };
+
+    it('should turn quick reply templates into text with quick replies', () => {
+      const result = applyQuickReplyTemplate(message);
+
+      expect(result).toMatchObject({
+        id: 'msg-1',
+        content: 'Was this helpful?',
+        quickReplies: [
+          { label: 'Yes', value: 'Yes' },
+          { label: 'No', value: 'No' },
+        ],
+      });
+      expect(result).not.toHaveProperty('contentType');
+    });
+
+    it('should leave other messages unchanged', () => {
+      const listPickerMessage = {
+        ...message,
+        content: JSON.stringify(listPicker),
+      };
+      const textMessage = { ...message, contentType: undefined };
+
+      expect(applyQuickReplyTemplate(listPickerMessage)).toBe(
+        listPickerMessage
+      );
+      expect(applyQuickReplyTemplate(textMessage)).toBe(textMessage);
+    });
+  });
+
+  describe('createInteractiveResponse', () => {
+    it('should answer with the selected element', () => {
+      expect(
+        createInteractiveResponse(listPicker, { title: 'Orders' })
+      ).toEqual({
+        templateType: 'ListPicker',
+        version: '1.0',
+        data: {
+          content: {
+            title: 'What can we help with?',
+            elements: [{ title: 'Orders' }],
+          },
+        },
+      });
+    });
+
+    it('should answer a time picker with the selected slot', () => {
+      const timePicker: InteractiveTemplate = {
+        templateType: 'TimePicker',
+        version: '1.0',
+        data: {
+          content: {
+            title: 'Pick a time',
+            timeslots: [{ date: '2026-10-19T10:00+00:00', duration: 30 }],
+          },
+        },
+      };
+
+      expect(
+        createInteractiveResponse(timePicker, {
+          date: '2026-10-19T10:00+00:00',
+          duration: 30,
+        }).data.content
+      ).toEqual({
+        title: 'Pick a time',
+        timeslots: [{ date: '2026-10-19T10:00+00:00', duration: 30 }],
+      });
+    });
+  });
+
+  describe('formatTimeslot', () => {
+    it('should format the start time in the template offset', () => {
+      expect(
+        formatTimeslot({ date: '2026-10-19T10:00:00Z', duration: 30 }, 60)
+      ).toBe('Mon, Oct 19, 11:00 AM');
+    });
+
+    it('should return unparseable dates unchanged', () => {
+      expect(formatTimeslot({ date: 'tomorrow', duration: 30 })).toBe(
+        'tomorrow'
+      );
+    });
+  });
+
+  describe('getInteractiveResponseText', () => {
+    it('should show the selected option', () => {
+      const response = createInteractiveResponse(listPicker, {
+        title: 'Billing',
+      });
+
+      expect(getInteractiveResponseText(JSON.stringify(response))).toBe(
+        'Billing'
+      );
+    });
+
+    it('should fall back to the raw content', () => {
+      expect(getInteractiveResponseText('Billing')).toBe('Billing');
+    });
+  });
+});
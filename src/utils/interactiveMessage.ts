@@ -0,0 +1,163 @@
+import type {
+  InteractiveElement,
+  InteractiveResponse,
+  InteractiveTemplate,
+  InteractiveTimeslot,
+  QuickReplyTemplate,
+} from '../types/aws-connect';
+import type { Message } from '../types/chat';
+import { DEFAULT_LOCALE } from './i18n';
+
+export const INTERACTIVE_CONTENT_TYPE =
+  'application/vnd.amazonaws.connect.message.interactive';
+export const INTERACTIVE_RESPONSE_CONTENT_TYPE =
+  'application/vnd.amazonaws.connect.message.interactive.response';
+
+const RESPONSE_VERSION = '1.0';
+
+/**
+ * Parse the JSON content of an interactive message
+ * Returns null for unsupported or malformed templates
+ */
+export const parseInteractiveTemplate = (
+  content: string
+): InteractiveTemplate | null => {
+  let template: InteractiveTemplate;
+  try {
+    template = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  const templateContent = template?.data?.content;
+  if (!templateContent || typeof templateContent !== 'object') {
+    return null;
+  }
+
+  switch (template.templateType) {
+    case 'ListPicker':
+    case 'Panel':
+      return Array.isArray(template.data.content.elements) ? template : null;
+    case 'TimePicker':
+      return Array.isArray(template.data.content.timeslots) ? template : null;
+    case 'Carousel':
+      return Array.isArray(template.data.content.elements) &&
+        template.data.content.elements.every(
+          panel =>
+            panel?.templateType === 'Panel' &&
+            Array.isArray(panel.data?.content?.elements)
+        )
+        ? template
+        : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Turn a QuickReply template into a text message carrying quick replies
+ * Any other message is returned unchanged
+ */
+export const applyQuickReplyTemplate = (message: Message): Message => {
+  if (message.contentType !== INTERACTIVE_CONTENT_TYPE) {
+    return message;
+  }
+
+  let template: QuickReplyTemplate;
+  try {
+    template = JSON.parse(message.content);
+  } catch {
+    return message;
+  }
+
+  const elements = template?.data?.content?.elements;
+  if (template?.templateType !== 'QuickReply' || !Array.isArray(elements)) {
+    return message;
+  }
+
+  const quickReplyMessage: Message = {
+    ...message,
+    content: template.data.content.title || '',
+    quickReplies: elements
+      .filter(element => element?.title)
+      .map(element => ({ label: element.title, value: element.title })),
+  };
+  delete quickReplyMessage.contentType;
+
+  return quickReplyMessage;
+};
+
+/**
+ * Build the response posted back when the visitor picks an option
+ */
+export const createInteractiveResponse = (
+  template: InteractiveTemplate,
+  selection: InteractiveElement | InteractiveTimeslot,
+  title: string = template.data.content.title ?? ''
+): InteractiveResponse => ({
+  templateType: template.templateType,
+  version: template.version || RESPONSE_VERSION,
+  data: {
+    content:
+      'date' in selection
+        ? {
+            title,
+            timeslots: [{ date: selection.date, duration: selection.duration }],
+          }
+        : { title, elements: [{ title: selection.title }] },
+  },
+});
+
+/**
+ * Format a time slot start time, e.g. "Mon, Oct 19, 10:00 AM"
+ * Uses the template's UTC offset when given, otherwise the local time zone
+ */
+export const formatTimeslot = (
+  timeslot: InteractiveTimeslot,
+  timeZoneOffset?: number,
+  locale: string = DEFAULT_LOCALE
+): string => {
+  const start = new Date(timeslot.date);
+  if (Number.isNaN(start.getTime())) {
+    return timeslot.date;
+  }
+
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  };
+
+  if (timeZoneOffset === undefined) {
+    return new Intl.DateTimeFormat(locale, options).format(start);
+  }
+
+  // Shift into the offset and format as UTC
+  return new Intl.DateTimeFormat(locale, {
+    ...options,
+    timeZone: 'UTC',
+  }).format(new Date(start.getTime() + timeZoneOffset * 60000));
+};
+
+/**
+ * Text shown for a visitor's interactive response, e.g. the option title
+ */
+export const getInteractiveResponseText = (content: string): string => {
+  try {
+    const response: InteractiveResponse = JSON.parse(content);
+    const { elements, timeslots } = response.data.content;
+
+    if (elements?.length) {
+      return elements.map(element => element.title).join(', ');
+    }
+    if (timeslots?.length) {
+      return timeslots.map(timeslot => formatTimeslot(timeslot)).join(', ');
+    }
+  } catch {
+    // Fall back to the raw content
+  }
+
+  return content;
+};
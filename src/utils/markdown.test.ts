@@ -0,0 +1,138 @@
+/**
+ * Tests for Markdown utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  linkifyText,
+  parseInlineMarkdown,
+  parseMarkdown,
+  sanitizeUrl,
+} from './markdown';
+
+describe('Markdown utilities', () => {
+  describe('sanitizeUrl', () => {
+    it('should allow web, mail and phone links', () => {
+      expect(sanitizeUrl('https://example.com/a?b=1')).toBe(
+        'https://example.com/a?b=1'
+      );
+      expect(sanitizeUrl('mailto:help@example.com')).toBe(
+        'mailto:help@example.com'
+      );
+      expect(sanitizeUrl('tel:+442079460000')).toBe('tel:+442079460000');
+      expect(sanitizeUrl('www.example.com')).toBe('https://www.example.com');
+    });
+
+    it('should reject scripts and relative URLs', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+      expect(sanitizeUrl(' java\tscript:alert(1)')).toBeNull();
+      expect(sanitizeUrl('data:text/html,<script>')).toBeNull();
+      expect(sanitizeUrl('/account')).toBeNull();
+    });
+  });
+
+  describe('parseInlineMarkdown', () => {
+    it('should parse emphasis, code and links', () => {
+      expect(
+        parseInlineMarkdown(
+          '**Bold** and *italic* with `code` and [docs](https://example.com)'
+        )
+      ).toEqual([
+        { type: 'strong', children: [{ type: 'text', text: 'Bold' }] },
+        { type: 'text', text: ' and ' },
+        { type: 'emphasis', children: [{ type: 'text', text: 'italic' }] },
+        { type: 'text', text: ' with ' },
+        { type: 'code', text: 'code' },
+        { type: 'text', text: ' and ' },
+        {
+          type: 'link',
+          href: 'https://example.com',
+          children: [{ type: 'text', text: 'docs' }],
+        },
+      ]);
+    });
+
+    it('should keep unsafe links and HTML as text', () => {
+      expect(
+        parseInlineMarkdown('[click](javascript:alert(1)) <b>hi</b>')
+      ).toEqual([{ type: 'text', text: 'click) <b>hi</b>' }]);
+    });
+
+    it('should not treat underscores inside words as emphasis', () => {
+      expect(parseInlineMarkdown('order_id_123')).toEqual([
+        { type: 'text', text: 'order_id_123' },
+      ]);
+    });
+  });
+
+  describe('linkifyText', () => {
+    it('should link bare URLs without trailing punctuation', () => {
+      expect(linkifyText('See https://example.com/help.\nThanks')).toEqual([
+        { type: 'text', text: 'See ' },
+        {
+          type: 'link',
+          href: 'https://example.com/help',
+          children: [{ type: 'text', text: 'https://example.com/help' }],
+        },
+        { type: 'text', text: '.' },
+        { type: 'break' },
+        { type: 'text', text: 'Thanks' },
+      ]);
+    });
+
+    it('should keep balanced parentheses in URLs', () => {
+      const [, link] = linkifyText(
+        '(see https://en.wikipedia.org/wiki/Chat_(software))'
+      );
+
+      expect(link).toMatchObject({
+        href: 'https://en.wikipedia.org/wiki/Chat_(software)',
+      });
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse block structure', () => {
+      const blocks = parseMarkdown(
+        [
+          '# Hours',
+          'We are open:',
+          '- Monday',
+          '- Tuesday',
+          '',
+          '1. First',
+          '2. Second',
+          '> Quoted',
+          '```',
+          'const a = 1;',
+          '```',
+        ].join('\n')
+      );
+
+      expect(blocks.map(block => block.type)).toEqual([
+        'heading',
+        'paragraph',
+        'list',
+        'list',
+        'blockquote',
+        'codeBlock',
+      ]);
+      expect(blocks[2]).toMatchObject({ ordered: false });
+      expect(blocks[3]).toMatchObject({ ordered: true });
+      expect(blocks[5]).toEqual({ type: 'codeBlock', text: 'const a = 1;' });
+    });
+
+    it('should keep line breaks inside paragraphs', () => {
+      expect(parseMarkdown('Line one\nLine two')).toEqual([
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', text: 'Line one' },
+            { type: 'break' },
+            { type: 'text', text: 'Line two' },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Inline Markdown node
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+/**
+ * Block Markdown node
+ */
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'blockquote'; children: MarkdownInline[] }
+  | { type: 'codeBlock'; text: string };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Code spans, links, bold, italics, bare URLs and line breaks
+const INLINE_PATTERN =
+  /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)|\[([^\]\n]+)\]\(\s*([^)\s]+)\s*\)|(\*\*|__)(?=\S)([\s\S]*?\S)\5|(?<![\w*])\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)|(?<![\w_])_(?=[^\s_])([\s\S]*?[^\s_])_(?![\w_])|((?:https?:\/\/|www\.)[^\s<>"]+)|\n/g;
+const URL_PATTERN = /((?:https?:\/\/|www\.)[^\s<>"]+)|\n/g;
+const TRAILING_PUNCTUATION_PATTERN = /[.,!?;:'"]+$/;
+
+const FENCE_PATTERN = /^\s*```/;
+const HEADING_PATTERN = /^\s*(#{1,6})\s+(.*)$/;
+const LIST_ITEM_PATTERN = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const BLOCKQUOTE_PATTERN = /^\s*>\s?(.*)$/;
+
+/**
+ * Return the URL when it is safe to link to, otherwise null
+ * Only http, https, mailto and tel links are allowed; www. gets https
+ */
+export const sanitizeUrl = (url: string): string | null => {
+  // Control characters and whitespace can hide a javascript: scheme
+  // eslint-disable-next-line no-control-regex
+  const cleaned = url.replace(/[\u0000- \u007f]/g, '');
+  const href = /^www\./i.test(cleaned) ? `https://${cleaned}` : cleaned;
+
+  try {
+    const parsed = new URL(href);
+    return SAFE_PROTOCOLS.includes(parsed.protocol.toLowerCase()) ? href : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Split a bare URL from punctuation that ends the sentence around it
+ */
+const trimUrl = (url: string): [string, string] => {
+  let trimmed = url.replace(TRAILING_PUNCTUATION_PATTERN, '');
+
+  // Keep a closing parenthesis only when the URL opened one
+  while (
+    trimmed.endsWith(')') &&
+    trimmed.split('(').length < trimmed.split(')').length
+  ) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION_PATTERN, '');
+  }
+
+  return [trimmed, url.slice(trimmed.length)];
+};
+
+/**
+ * Append text, merging with a preceding text node
+ */
+const pushText = (nodes: MarkdownInline[], text: string): void => {
+  if (!text) return;
+
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+/**
+ * Append a bare URL as a link, or as text when it is not safe
+ */
+const pushUrl = (nodes: MarkdownInline[], url: string): void => {
+  const [linkText, rest] = trimUrl(url);
+  const href = sanitizeUrl(linkText);
+
+  if (href) {
+    nodes.push({
+      type: 'link',
+      href,
+      children: [{ type: 'text', text: linkText }],
+    });
+  } else {
+    pushText(nodes, linkText);
+  }
+  pushText(nodes, rest);
+};
+
+/**
+ * Tokenize text with a global pattern, handing matches to onMatch
+ */
+const tokenize = (
+  text: string,
+  pattern: RegExp,
+  onMatch: (nodes: MarkdownInline[], match: RegExpExecArray) => void
+): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    pushText(nodes, text.slice(lastIndex, match.index));
+    onMatch(nodes, match);
+    lastIndex = regex.lastIndex;
+  }
+  pushText(nodes, text.slice(lastIndex));
+
+  return nodes;
+};
+
+/**
+ * Parse inline Markdown: code, links, bold, italics and bare URLs
+ * Everything else, including HTML, stays text
+ */
+export const parseInlineMarkdown = (text: string): MarkdownInline[] =>
+  tokenize(text, INLINE_PATTERN, (nodes, match) => {
+    const [
+      token,
+      ,
+      code,
+      linkText,
+      linkUrl,
+      ,
+      strong,
+      starEmphasis,
+      underscoreEmphasis,
+      url,
+    ] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code.trim() || code });
+    } else if (linkText !== undefined) {
+      const href = sanitizeUrl(linkUrl);
+      const children = parseInlineMarkdown(linkText);
+      if (href) {
+        nodes.push({ type: 'link', href, children });
+      } else {
+        children.forEach(child =>
+          child.type === 'text'
+            ? pushText(nodes, child.text)
+            : nodes.push(child)
+        );
+      }
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInlineMarkdown(strong) });
+    } else if (starEmphasis !== undefined || underscoreEmphasis !== undefined) {
+      nodes.push({
+        type: 'emphasis',
+        children: parseInlineMarkdown(starEmphasis ?? underscoreEmphasis),
+      });
+    } else if (url !== undefined) {
+      pushUrl(nodes, url);
+    } else if (token === '\n') {
+      nodes.push({ type: 'break' });
+    }
+  });
+
+/**
+ * Link bare URLs in plain text and keep its line breaks
+ */
+export const linkifyText = (text: string): MarkdownInline[] =>
+  tokenize(text, URL_PATTERN, (nodes, match) => {
+    if (match[1] !== undefined) {
+      pushUrl(nodes, match[1]);
+    } else {
+      nodes.push({ type: 'break' });
+    }
+  });
+
+/**
+ * Parse a Markdown message into blocks
+ * Supports paragraphs, headings, lists, block quotes and fenced code
+ */
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  const startsBlock = (line: string) =>
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line);
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++; // Closing fence
+      blocks.push({ type: 'codeBlock', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInlineMarkdown(heading[2].trim()),
+      });
+      index++;
+      continue;
+    }
+
+    const listItem = LIST_ITEM_PATTERN.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: MarkdownInline[][] = [];
+
+      while (index < lines.length) {
+        const item = LIST_ITEM_PATTERN.exec(lines[index]);
+        if (!item || /\d/.test(item[1]) !== ordered) break;
+
+        items.push(parseInlineMarkdown(item[2]));
+        index++;
+      }
+
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quote: string[] = [];
+      let quoteLine: RegExpExecArray | null;
+
+      while (
+        index < lines.length &&
+        (quoteLine = BLOCKQUOTE_PATTERN.exec(lines[index]))
+      ) {
+        quote.push(quoteLine[1]);
+        index++;
+      }
+
+      blocks.push({
+        type: 'blockquote',
+        children: parseInlineMarkdown(quote.join('\n')),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      (paragraph.length === 0 || !startsBlock(lines[index]))
+    ) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+
+    blocks.push({
+      type: 'paragraph',
+      children: parseInlineMarkdown(paragraph.join('\n')),
+    });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,148 @@
+/**
+ * Tests for pre-chat form utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getInitialPreChatAnswers,
+  validatePreChatAnswer,
+  validatePreChatAnswers,
+  mapPreChatAnswers,
+} from './preChatForm';
+import type { PreChatField } from '../types/widget';
+
+const fields: PreChatField[] = [
+  {
+    id: 'name',
+    label: 'Name',
+    type: 'text',
+    required: true,
+    mapTo: 'displayName',
+  },
+  { id: 'email', label: 'Email', type: 'email', mapTo: 'email' },
+  {
+    id: 'topic',
+    label: 'Topic',
+    type: 'select',
+    required: true,
+    attributeKey: 'customerTopic',
+    options: [
+      { label: 'Billing', value: 'billing' },
+      { label: 'Support', value: 'support' },
+    ],
+  },
+  { id: 'newsletter', label: 'Newsletter', type: 'checkbox' },
+];
+
+describe('Pre-chat form utilities', () => {
+  describe('getInitialPreChatAnswers', () => {
+    it('should use default values and unchecked checkboxes', () => {
+      expect(
+        getInitialPreChatAnswers([
+          { ...fields[0], defaultValue: 'Guest' },
+          fields[3],
+        ])
+      ).toEqual({ name: 'Guest', newsletter: 'false' });
+    });
+  });
+
+  describe('validatePreChatAnswer', () => {
+    it('should require answers to required fields', () => {
+      expect(validatePreChatAnswer(fields[0], '  ')).toBe('Name is required');
+      expect(validatePreChatAnswer(fields[1], '')).toBeNull();
+    });
+
+    it('should treat an unchecked required checkbox as missing', () => {
+      const consent: PreChatField = {
+        id: 'consent',
+        label: 'Consent',
+        type: 'checkbox',
+        required: true,
+      };
+
+      expect(validatePreChatAnswer(consent, 'false')).toBe(
+        'Consent is required'
+      );
+      expect(validatePreChatAnswer(consent, 'true')).toBeNull();
+    });
+
+    it('should validate email and phone formats', () => {
+      expect(validatePreChatAnswer(fields[1], 'not-an-email')).toBe(
+        'Please enter a valid email address'
+      );
+      expect(
+        validatePreChatAnswer(
+          { id: 'phone', label: 'Phone', type: 'tel' },
+          '+1 (555) 010-0000'
+        )
+      ).toBeNull();
+    });
+
+    it('should only accept configured select options', () => {
+      expect(validatePreChatAnswer(fields[2], 'sales')).toBe(
+        'Please choose a topic'
+      );
+      expect(validatePreChatAnswer(fields[2], 'support')).toBeNull();
+    });
+
+    it('should apply length and pattern rules', () => {
+      const orderNumber: PreChatField = {
+        id: 'order',
+        label: 'Order number',
+        type: 'text',
+        validation: {
+          minLength: 4,
+          maxLength: 8,
+          pattern: '[A-Z]{2}\\d+',
+          message: 'Order numbers look like AB1234',
+        },
+      };
+
+      expect(validatePreChatAnswer(orderNumber, 'AB1')).toBe(
+        'Order number must be at least 4 characters'
+      );
+      expect(validatePreChatAnswer(orderNumber, 'AB12345678')).toBe(
+        'Order number must be at most 8 characters'
+      );
+      expect(validatePreChatAnswer(orderNumber, 'x1234')).toBe(
+        'Order numbers look like AB1234'
+      );
+      expect(validatePreChatAnswer(orderNumber, 'AB1234')).toBeNull();
+    });
+  });
+
+  describe('validatePreChatAnswers', () => {
+    it('should return errors keyed by field id', () => {
+      expect(
+        validatePreChatAnswers(fields, { name: '', email: 'x', topic: '' })
+      ).toEqual({
+        name: 'Name is required',
+        email: 'Please enter a valid email address',
+        topic: 'Topic is required',
+      });
+    });
+  });
+
+  describe('mapPreChatAnswers', () => {
+    it('should map answers onto visitor details and contact attributes', () => {
+      expect(
+        mapPreChatAnswers(fields, {
+          name: ' Jamie ',
+          email: 'jamie@example.com',
+          topic: 'billing',
+          newsletter: 'true',
+        })
+      ).toEqual({
+        name: 'Jamie',
+        email: 'jamie@example.com',
+        attributes: { customerTopic: 'billing', newsletter: 'true' },
+      });
+    });
+
+    it('should fall back to the default name and omit empty answers', () => {
+      expect(mapPreChatAnswers(fields, { topic: '', email: '' })).toEqual({
+        name: 'Website Visitor',
+      });
+    });
+  });
+});
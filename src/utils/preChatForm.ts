@@ -0,0 +1,207 @@
+import type { PreChatField, PreChatFormConfiguration } from '../types/widget';
+import type { VisitorInfo } from '../types/chat';
+import type { TranslateFn } from '../types/i18n';
+import { translate } from './i18n';
+
+/**
+ * Pre-chat answers keyed by field id
+ * Checkbox answers are 'true' or 'false'
+ */
+export type PreChatAnswers = Record<string, string>;
+
+/**
+ * Display name used when the form does not collect one
+ */
+export const DEFAULT_VISITOR_NAME = 'Website Visitor';
+
+/**
+ * Fields asked when no leave-a-message form is configured, in a locale
+ */
+export const getDefaultLeaveMessageForm = (
+  t: TranslateFn = translate
+): PreChatFormConfiguration => ({
+  submitLabel: t('leaveMessage.submit'),
+  fields: [
+    {
+      id: 'name',
+      label: t('form.name'),
+      type: 'text',
+      required: true,
+      mapTo: 'displayName',
+    },
+    {
+      id: 'email',
+      label: t('form.email'),
+      type: 'email',
+      required: true,
+      mapTo: 'email',
+    },
+    {
+      id: 'message',
+      label: t('form.message'),
+      type: 'textarea',
+      required: true,
+      validation: { maxLength: 2000 },
+    },
+  ],
+});
+
+/**
+ * Fields asked when no callback form is configured, in a locale
+ */
+export const getDefaultCallbackForm = (
+  t: TranslateFn = translate
+): PreChatFormConfiguration => ({
+  submitLabel: t('queue.callbackSubmit'),
+  fields: [
+    {
+      id: 'name',
+      label: t('form.name'),
+      type: 'text',
+      required: true,
+      mapTo: 'displayName',
+    },
+    {
+      id: 'phone',
+      label: t('form.phone'),
+      type: 'tel',
+      required: true,
+    },
+  ],
+});
+
+/**
+ * Fields asked when no leave-a-message form is configured
+ */
+export const DEFAULT_LEAVE_MESSAGE_FORM = getDefaultLeaveMessageForm();
+
+/**
+ * Fields asked when no callback form is configured
+ */
+export const DEFAULT_CALLBACK_FORM = getDefaultCallbackForm();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9\s().-]{6,20}$/;
+
+/**
+ * Initial answers from the configured default values
+ */
+export const getInitialPreChatAnswers = (
+  fields: PreChatField[]
+): PreChatAnswers =>
+  Object.fromEntries(
+    fields.map(field => [
+      field.id,
+      field.defaultValue ?? (field.type === 'checkbox' ? 'false' : ''),
+    ])
+  );
+
+/**
+ * Validate a single answer
+ * Returns an error message, or null when the answer is valid
+ */
+export const validatePreChatAnswer = (
+  field: PreChatField,
+  value = '',
+  t: TranslateFn = translate
+): string | null => {
+  const trimmed = value.trim();
+  const isEmpty =
+    field.type === 'checkbox' ? value !== 'true' : trimmed.length === 0;
+
+  if (isEmpty) {
+    return field.required ? t('form.required', { label: field.label }) : null;
+  }
+
+  if (field.type === 'email' && !EMAIL_PATTERN.test(trimmed)) {
+    return t('form.invalidEmail');
+  }
+
+  if (field.type === 'tel' && !PHONE_PATTERN.test(trimmed)) {
+    return t('form.invalidPhone');
+  }
+
+  if (
+    field.type === 'select' &&
+    field.options &&
+    !field.options.some(option => option.value === value)
+  ) {
+    return t('form.invalidOption', {
+      label: field.label,
+      lowercaseLabel: field.label.toLowerCase(),
+    });
+  }
+
+  const { minLength, maxLength, pattern, message } = field.validation || {};
+
+  if (minLength !== undefined && trimmed.length < minLength) {
+    return t('form.minLength', { label: field.label, count: minLength });
+  }
+
+  if (maxLength !== undefined && trimmed.length > maxLength) {
+    return t('form.maxLength', { label: field.label, count: maxLength });
+  }
+
+  if (pattern && !new RegExp(`^(?:${pattern})$`).test(trimmed)) {
+    return message || t('form.invalidFormat', { label: field.label });
+  }
+
+  return null;
+};
+
+/**
+ * Validate all answers
+ * Returns error messages keyed by field id; empty when the form is valid
+ */
+export const validatePreChatAnswers = (
+  fields: PreChatField[],
+  answers: PreChatAnswers,
+  t: TranslateFn = translate
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  fields.forEach(field => {
+    const error = validatePreChatAnswer(field, answers[field.id], t);
+    if (error) {
+      errors[field.id] = error;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Map answers onto the visitor details used to start the chat
+ * Answers go to the display name, email or a contact attribute per field
+ */
+export const mapPreChatAnswers = (
+  fields: PreChatField[],
+  answers: PreChatAnswers
+): Omit<VisitorInfo, 'sessionId'> => {
+  const visitor: Omit<VisitorInfo, 'sessionId'> = {
+    name: DEFAULT_VISITOR_NAME,
+  };
+  const attributes: Record<string, string> = {};
+
+  fields.forEach(field => {
+    const value = (answers[field.id] ?? '').trim();
+    if (!value) return;
+
+    switch (field.mapTo) {
+      case 'displayName':
+        visitor.name = value;
+        break;
+      case 'email':
+        visitor.email = value;
+        break;
+      default:
+        attributes[field.attributeKey || field.id] = value;
+    }
+  });
+
+  if (Object.keys(attributes).length > 0) {
+    visitor.attributes = attributes;
+  }
+
+  return visitor;
+};
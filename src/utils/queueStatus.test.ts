@@ -0,0 +1,108 @@
+/**
+ * Tests for queue status utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatWaitTime,
+  isWaitingForAgent,
+  parseQueueStatusMessage,
+  toQueueStatus,
+} from './queueStatus';
+import type { ChatState } from '../types/chat';
+
+const now = new Date('2026-10-19T10:00:00Z');
+
+describe('Queue status utilities', () => {
+  describe('parseQueueStatusMessage', () => {
+    it('should read JSON queue updates', () => {
+      expect(
+        parseQueueStatusMessage(
+          '{"queuePosition": 3, "estimatedWaitSeconds": 240}',
+          now
+        )
+      ).toEqual({ position: 3, estimatedWaitSeconds: 240, updatedAt: now });
+    });
+
+    it('should read text queue updates', () => {
+      expect(
+        parseQueueStatusMessage(
+          'You are number 4 in the queue. Expected wait is 6 minutes.',
+          now
+        )
+      ).toEqual({ position: 4, estimatedWaitSeconds: 360, updatedAt: now });
+      expect(parseQueueStatusMessage('Your position in queue: 2', now)).toEqual(
+        { position: 2, updatedAt: now }
+      );
+    });
+
+    it('should ignore unrelated messages', () => {
+      expect(parseQueueStatusMessage('Order number 12345 shipped')).toBeNull();
+      expect(
+        parseQueueStatusMessage('Please wait while we connect')
+      ).toBeNull();
+      expect(parseQueueStatusMessage('{"greeting": "hi"}')).toBeNull();
+    });
+  });
+
+  describe('toQueueStatus', () => {
+    it('should drop values that are not numbers', () => {
+      expect(toQueueStatus('3', 120, now)).toEqual({
+        estimatedWaitSeconds: 120,
+        updatedAt: now,
+      });
+      expect(toQueueStatus(undefined, null, now)).toBeNull();
+    });
+  });
+
+  describe('isWaitingForAgent', () => {
+    const chatState: ChatState = {
+      status: 'connected',
+      session: {
+        contactId: 'contact-1',
+        connectionToken: 'connection-token',
+        participantId: 'participant-1',
+        participantToken: 'participant-token',
+        websocketUrl: 'wss://example.com',
+        startTime: now,
+      },
+      messages: [],
+      visitor: { name: 'Jamie', sessionId: 'session-1' },
+      unreadCount: 0,
+      isTyping: false,
+    };
+    const agent = {
+      id: 'agent-1',
+      name: 'Sam',
+      status: 'online' as const,
+      isTyping: false,
+    };
+
+    it('should wait from the start of the contact until an agent joins', () => {
+      expect(isWaitingForAgent(chatState)).toBe(true);
+      expect(isWaitingForAgent({ ...chatState, agent })).toBe(false);
+      expect(
+        isWaitingForAgent({
+          ...chatState,
+          agent: { ...agent, status: 'offline' },
+        })
+      ).toBe(true);
+    });
+
+    it('should not wait without a contact', () => {
+      expect(isWaitingForAgent({ ...chatState, session: undefined })).toBe(
+        false
+      );
+      expect(isWaitingForAgent({ ...chatState, status: 'ended' })).toBe(false);
+    });
+  });
+
+  describe('formatWaitTime', () => {
+    it('should round to minutes or hours', () => {
+      expect(formatWaitTime(30)).toBe('less than a minute');
+      expect(formatWaitTime(60)).toBe('about 1 minute');
+      expect(formatWaitTime(400)).toBe('about 7 minutes');
+      expect(formatWaitTime(7200)).toBe('about 2 hours');
+    });
+  });
+});
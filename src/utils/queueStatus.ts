@@ -0,0 +1,106 @@
+import type { ChatState, QueueStatus } from '../types/chat';
+import type { TranslateFn } from '../types/i18n';
+import { translate } from './i18n';
+
+const QUEUE_KEYWORD_PATTERN = /queue|wait/i;
+const POSITION_PATTERN = /(?:position|number)\D{0,20}?(\d+)/i;
+const WAIT_PATTERN = /(\d+)\s*(seconds?|secs?|minutes?|mins?|hours?|hrs?)\b/i;
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600 };
+
+/**
+ * Read a queue update from a contact flow system message
+ * Accepts JSON such as {"queuePosition": 3, "estimatedWaitSeconds": 240} or
+ * text such as "You are number 3 in the queue, about 4 minutes wait"
+ */
+export const parseQueueStatusMessage = (
+  content: string,
+  now: Date = new Date()
+): QueueStatus | null => {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const body = JSON.parse(trimmed);
+      return toQueueStatus(
+        body.queuePosition ?? body.position,
+        body.estimatedWaitSeconds,
+        now
+      );
+    } catch {
+      // Not JSON, fall through to the text patterns
+    }
+  }
+
+  if (!QUEUE_KEYWORD_PATTERN.test(trimmed)) {
+    return null;
+  }
+
+  const position = POSITION_PATTERN.exec(trimmed);
+  const wait = WAIT_PATTERN.exec(trimmed);
+
+  return toQueueStatus(
+    position ? Number(position[1]) : undefined,
+    wait
+      ? Number(wait[1]) * UNIT_SECONDS[wait[2].charAt(0).toLowerCase()]
+      : undefined,
+    now
+  );
+};
+
+/**
+ * Build a queue status from untrusted values
+ * Returns null when neither value is usable
+ */
+export const toQueueStatus = (
+  position: unknown,
+  estimatedWaitSeconds: unknown,
+  now: Date = new Date()
+): QueueStatus | null => {
+  const status: QueueStatus = { updatedAt: now };
+
+  if (typeof position === 'number' && Number.isFinite(position)) {
+    status.position = Math.max(1, Math.round(position));
+  }
+  if (
+    typeof estimatedWaitSeconds === 'number' &&
+    Number.isFinite(estimatedWaitSeconds)
+  ) {
+    status.estimatedWaitSeconds = Math.max(0, estimatedWaitSeconds);
+  }
+
+  return status.position === undefined &&
+    status.estimatedWaitSeconds === undefined
+    ? null
+    : status;
+};
+
+/**
+ * Whether a started contact is still queued for an agent
+ * The chat connects before an agent picks it up, so it waits until an agent
+ * joins, and again while a transfer moves it to another agent
+ */
+export const isWaitingForAgent = (chatState: ChatState): boolean =>
+  (chatState.status === 'waiting' || chatState.status === 'connected') &&
+  chatState.session !== undefined &&
+  (!chatState.agent || chatState.agent.status === 'offline');
+
+/**
+ * Format an estimated wait for display, e.g. "about 5 minutes"
+ */
+export const formatWaitTime = (
+  seconds: number,
+  t: TranslateFn = translate
+): string => {
+  if (seconds < 60) {
+    return t('queue.waitUnderMinute');
+  }
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 90) {
+    return t('queue.waitMinutes', { count: minutes });
+  }
+
+  const hours = Math.round(minutes / 60);
+  return t('queue.waitHours', { count: hours });
+};
@@ -0,0 +1,68 @@
+/**
+ * Tests for chat storage
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChatStorage } from './storage';
+import type { VisitorInfo } from '../types/chat';
+
+const visitor = (name: string): VisitorInfo => ({
+  name,
+  sessionId: `session-${name}`,
+});
+
+describe('ChatStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('should keep the unscoped keys without a namespace', () => {
+    ChatStorage.saveVisitorInfo(visitor('Jane'));
+
+    expect(localStorage.getItem('aws-connect-visitor-info')).not.toBeNull();
+  });
+
+  it('should keep namespaces apart', () => {
+    ChatStorage.saveVisitorInfo(visitor('Sales'), 'sales');
+    ChatStorage.saveVisitorInfo(visitor('Support'), 'support');
+
+    expect(ChatStorage.loadVisitorInfo('sales')?.name).toBe('Sales');
+    expect(ChatStorage.loadVisitorInfo('support')?.name).toBe('Support');
+    expect(ChatStorage.loadVisitorInfo()).toBeNull();
+  });
+
+  it('should scope the contact session in sessionStorage', () => {
+    ChatStorage.saveContactSession(
+      {
+        contactId: 'contact-1',
+        participantId: 'participant-1',
+        participantToken: 'token',
+        startTime: new Date().toISOString(),
+      },
+      'sales'
+    );
+
+    expect(ChatStorage.loadContactSession('sales')?.contactId).toBe(
+      'contact-1'
+    );
+    expect(ChatStorage.loadContactSession('support')).toBeNull();
+  });
+
+  it('should report active sessions per namespace', () => {
+    ChatStorage.saveChatState({ status: 'connected', messages: [] }, 'sales');
+
+    expect(ChatStorage.hasActiveSession('sales')).toBe(true);
+    expect(ChatStorage.hasActiveSession('support')).toBe(false);
+  });
+
+  it('should only clear the given namespace', () => {
+    ChatStorage.saveVisitorInfo(visitor('Sales'), 'sales');
+    ChatStorage.saveVisitorInfo(visitor('Support'), 'support');
+
+    ChatStorage.clearAll('sales');
+
+    expect(ChatStorage.loadVisitorInfo('sales')).toBeNull();
+    expect(ChatStorage.loadVisitorInfo('support')?.name).toBe('Support');
+  });
+});
@@ -1,4 +1,5 @@
 import type { ChatState, VisitorInfo } from '../types/chat';
+import type { StoredContactSession } from '../types/aws-connect';
 
 /**
  * Storage keys for persisting chat data
@@ -8,27 +9,43 @@ const STORAGE_KEYS = {
   VISITOR_INFO: 'aws-connect-visitor-info',
   SESSION_ID: 'aws-connect-session-id',
   CHAT_HISTORY: 'aws-connect-chat-history',
+  CONTACT_SESSION: 'aws-connect-contact-session',
 } as const;
 
+/**
+ * Storage key for a namespace
+ * The default namespace keeps the unscoped keys, so a single widget reads
+ * what it stored before namespaces existed
+ */
+const scopedKey = (key: string, namespace?: string): string =>
+  namespace ? `${key}:${namespace}` : key;
+
 /**
  * Storage utility for persisting chat state and visitor information
  * Supports requirements 1.3, 2.1 for visitor data persistence
+ * Every method takes an optional namespace, so widgets sharing a page keep
+ * separate chats
  */
 export class ChatStorage {
   /**
    * Save chat state to localStorage
    */
-  static saveChatState(state: Partial<ChatState>): void {
+  static saveChatState(state: Partial<ChatState>, namespace?: string): void {
     try {
       const serializedState = JSON.stringify({
         ...state,
+        // Session tokens are kept out of localStorage, see saveContactSession
+        session: undefined,
         // Convert Date objects to ISO strings for serialization
         messages: state.messages?.map(msg => ({
           ...msg,
           timestamp: msg.timestamp.toISOString(),
         })),
       });
-      localStorage.setItem(STORAGE_KEYS.CHAT_STATE, serializedState);
+      localStorage.setItem(
+        scopedKey(STORAGE_KEYS.CHAT_STATE, namespace),
+        serializedState
+      );
     } catch (error) {
       console.warn('Failed to save chat state:', error);
     }
@@ -37,9 +54,11 @@ export class ChatStorage {
   /**
    * Load chat state from localStorage
    */
-  static loadChatState(): Partial<ChatState> | null {
+  static loadChatState(namespace?: string): Partial<ChatState> | null {
     try {
-      const serializedState = localStorage.getItem(STORAGE_KEYS.CHAT_STATE);
+      const serializedState = localStorage.getItem(
+        scopedKey(STORAGE_KEYS.CHAT_STATE, namespace)
+      );
       if (!serializedState) return null;
 
       const state = JSON.parse(serializedState);
@@ -51,6 +70,9 @@ export class ChatStorage {
           timestamp: new Date(msg.timestamp),
         }));
       }
+      if (state.endTime) {
+        state.endTime = new Date(state.endTime);
+      }
 
       return state;
     } catch (error) {
@@ -62,9 +84,9 @@ export class ChatStorage {
   /**
    * Clear chat state from localStorage
    */
-  static clearChatState(): void {
+  static clearChatState(namespace?: string): void {
     try {
-      localStorage.removeItem(STORAGE_KEYS.CHAT_STATE);
+      localStorage.removeItem(scopedKey(STORAGE_KEYS.CHAT_STATE, namespace));
     } catch (error) {
       console.warn('Failed to clear chat state:', error);
     }
@@ -73,9 +95,12 @@ export class ChatStorage {
   /**
    * Save visitor information
    */
-  static saveVisitorInfo(visitor: VisitorInfo): void {
+  static saveVisitorInfo(visitor: VisitorInfo, namespace?: string): void {
     try {
-      localStorage.setItem(STORAGE_KEYS.VISITOR_INFO, JSON.stringify(visitor));
+      localStorage.setItem(
+        scopedKey(STORAGE_KEYS.VISITOR_INFO, namespace),
+        JSON.stringify(visitor)
+      );
     } catch (error) {
       console.warn('Failed to save visitor info:', error);
     }
@@ -84,9 +109,11 @@ export class ChatStorage {
   /**
    * Load visitor information
    */
-  static loadVisitorInfo(): VisitorInfo | null {
+  static loadVisitorInfo(namespace?: string): VisitorInfo | null {
     try {
-      const serializedVisitor = localStorage.getItem(STORAGE_KEYS.VISITOR_INFO);
+      const serializedVisitor = localStorage.getItem(
+        scopedKey(STORAGE_KEYS.VISITOR_INFO, namespace)
+      );
       return serializedVisitor ? JSON.parse(serializedVisitor) : null;
     } catch (error) {
       console.warn('Failed to load visitor info:', error);
@@ -97,9 +124,9 @@ export class ChatStorage {
   /**
    * Clear visitor information
    */
-  static clearVisitorInfo(): void {
+  static clearVisitorInfo(namespace?: string): void {
     try {
-      localStorage.removeItem(STORAGE_KEYS.VISITOR_INFO);
+      localStorage.removeItem(scopedKey(STORAGE_KEYS.VISITOR_INFO, namespace));
     } catch (error) {
       console.warn('Failed to clear visitor info:', error);
     }
@@ -108,10 +135,13 @@ export class ChatStorage {
   /**
    * Generate and save session ID
    */
-  static generateSessionId(): string {
+  static generateSessionId(namespace?: string): string {
     const sessionId = `chat-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
     try {
-      localStorage.setItem(STORAGE_KEYS.SESSION_ID, sessionId);
+      localStorage.setItem(
+        scopedKey(STORAGE_KEYS.SESSION_ID, namespace),
+        sessionId
+      );
     } catch (error) {
       console.warn('Failed to save session ID:', error);
     }
@@ -121,9 +151,11 @@ export class ChatStorage {
   /**
    * Load existing session ID
    */
-  static loadSessionId(): string | null {
+  static loadSessionId(namespace?: string): string | null {
     try {
-      return localStorage.getItem(STORAGE_KEYS.SESSION_ID);
+      return localStorage.getItem(
+        scopedKey(STORAGE_KEYS.SESSION_ID, namespace)
+      );
     } catch (error) {
       console.warn('Failed to load session ID:', error);
       return null;
@@ -133,18 +165,64 @@ export class ChatStorage {
   /**
    * Clear session ID
    */
-  static clearSessionId(): void {
+  static clearSessionId(namespace?: string): void {
     try {
-      localStorage.removeItem(STORAGE_KEYS.SESSION_ID);
+      localStorage.removeItem(scopedKey(STORAGE_KEYS.SESSION_ID, namespace));
     } catch (error) {
       console.warn('Failed to clear session ID:', error);
     }
   }
 
+  /**
+   * Save participant credentials needed to resume a contact
+   * Kept in sessionStorage so tokens never outlive the browser tab
+   */
+  static saveContactSession(
+    contact: StoredContactSession,
+    namespace?: string
+  ): void {
+    try {
+      sessionStorage.setItem(
+        scopedKey(STORAGE_KEYS.CONTACT_SESSION, namespace),
+        JSON.stringify(contact)
+      );
+    } catch (error) {
+      console.warn('Failed to save contact session:', error);
+    }
+  }
+
+  /**
+   * Load persisted participant credentials
+   */
+  static loadContactSession(namespace?: string): StoredContactSession | null {
+    try {
+      const serializedContact = sessionStorage.getItem(
+        scopedKey(STORAGE_KEYS.CONTACT_SESSION, namespace)
+      );
+      return serializedContact ? JSON.parse(serializedContact) : null;
+    } catch (error) {
+      console.warn('Failed to load contact session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Clear persisted participant credentials
+   */
+  static clearContactSession(namespace?: string): void {
+    try {
+      sessionStorage.removeItem(
+        scopedKey(STORAGE_KEYS.CONTACT_SESSION, namespace)
+      );
+    } catch (error) {
+      console.warn('Failed to clear contact session:', error);
+    }
+  }
+
   /**
    * Save chat history for transcript purposes
    */
-  static saveChatHistory(messages: any[]): void {
+  static saveChatHistory(messages: any[], namespace?: string): void {
     try {
       const serializedHistory = JSON.stringify(
         messages.map(msg => ({
@@ -152,7 +230,10 @@ export class ChatStorage {
           timestamp: msg.timestamp.toISOString(),
         }))
       );
-      localStorage.setItem(STORAGE_KEYS.CHAT_HISTORY, serializedHistory);
+      localStorage.setItem(
+        scopedKey(STORAGE_KEYS.CHAT_HISTORY, namespace),
+        serializedHistory
+      );
     } catch (error) {
       console.warn('Failed to save chat history:', error);
     }
@@ -161,9 +242,11 @@ export class ChatStorage {
   /**
    * Load chat history
    */
-  static loadChatHistory(): any[] {
+  static loadChatHistory(namespace?: string): any[] {
     try {
-      const serializedHistory = localStorage.getItem(STORAGE_KEYS.CHAT_HISTORY);
+      const serializedHistory = localStorage.getItem(
+        scopedKey(STORAGE_KEYS.CHAT_HISTORY, namespace)
+      );
       if (!serializedHistory) return [];
 
       const history = JSON.parse(serializedHistory);
@@ -180,12 +263,13 @@ export class ChatStorage {
   /**
    * Clear all chat data
    */
-  static clearAll(): void {
-    this.clearChatState();
-    this.clearVisitorInfo();
-    this.clearSessionId();
+  static clearAll(namespace?: string): void {
+    this.clearChatState(namespace);
+    this.clearVisitorInfo(namespace);
+    this.clearSessionId(namespace);
+    this.clearContactSession(namespace);
     try {
-      localStorage.removeItem(STORAGE_KEYS.CHAT_HISTORY);
+      localStorage.removeItem(scopedKey(STORAGE_KEYS.CHAT_HISTORY, namespace));
     } catch (error) {
       console.warn('Failed to clear chat history:', error);
     }
@@ -194,8 +278,8 @@ export class ChatStorage {
   /**
    * Check if there's an active chat session
    */
-  static hasActiveSession(): boolean {
-    const state = this.loadChatState();
+  static hasActiveSession(namespace?: string): boolean {
+    const state = this.loadChatState(namespace);
     return state?.status === 'connected' || state?.status === 'waiting';
   }
 }
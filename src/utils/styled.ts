@@ -54,6 +54,7 @@ export interface StyleDefinition {
 class StyleSheet {
   private static instance: StyleSheet;
   private styleElement: HTMLStyleElement | null = null;
+  private shadowStyleElements = new Set<HTMLStyleElement>();
   private classCounter = 0;
   private generatedStyles = new Map<string, string>();
 
@@ -119,14 +120,34 @@ class StyleSheet {
   }
 
   /**
-   * Add CSS rules to the stylesheet
+   * Add CSS rules to the stylesheet and its shadow root copies
    */
   private addCSSRules(rules: string[]): void {
-    if (this.styleElement) {
-      const existingCSS = this.styleElement.textContent || '';
-      const newCSS = rules.join('\n');
-      this.styleElement.textContent = existingCSS + '\n' + newCSS;
-    }
+    const newCSS = rules.join('\n');
+
+    [this.styleElement, ...this.shadowStyleElements].forEach(element => {
+      if (element) {
+        const existingCSS = element.textContent || '';
+        element.textContent = existingCSS + '\n' + newCSS;
+      }
+    });
+  }
+
+  /**
+   * Copy the generated styles into a shadow root and keep them in sync
+   * Returns a function that removes the copy
+   */
+  attachShadowRoot(root: ShadowRoot): () => void {
+    const element = document.createElement('style');
+    element.setAttribute('data-chat-styles', '');
+    element.textContent = this.styleElement?.textContent || '';
+    root.appendChild(element);
+    this.shadowStyleElements.add(element);
+
+    return () => {
+      this.shadowStyleElements.delete(element);
+      element.remove();
+    };
   }
 
   /**
@@ -232,6 +253,13 @@ class StyleSheet {
   }
 }
 
+/**
+ * Apply styles created with useStyles and useVariants inside a shadow root
+ * Returns a function that removes them again
+ */
+export const attachStyleSheet = (root: ShadowRoot): (() => void) =>
+  StyleSheet.getInstance().attachShadowRoot(root);
+
 /**
  * Create a styled component hook
  */
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNextSurveyQuestion,
+  getSurveyAnswers,
+  getSurveyPath,
+  matchesSurveyBranch,
+  toSurveyAttributes,
+  validateSurveyAnswer,
+} from './survey';
+import type { SurveyQuestion } from '../types/widget';
+
+const questions: SurveyQuestion[] = [
+  {
+    id: 'csat',
+    type: 'csat',
+    label: 'How satisfied are you?',
+    required: true,
+    branches: [{ lessThan: 3, goTo: 'reason' }],
+  },
+  {
+    id: 'nps',
+    type: 'nps',
+    label: 'How likely are you to recommend us?',
+    branches: [{ greaterThan: 8, goTo: 'end' }],
+  },
+  {
+    id: 'reason',
+    type: 'choice',
+    label: 'What could we improve?',
+    multiple: true,
+    options: [
+      { label: 'Wait time', value: 'wait' },
+      { label: 'Answer quality', value: 'quality' },
+    ],
+  },
+  { id: 'comments', type: 'text', label: 'Anything else?' },
+];
+
+describe('survey utilities', () => {
+  describe('matchesSurveyBranch', () => {
+    it('should compare scores against the branch bounds', () => {
+      expect(matchesSurveyBranch({ lessThan: 3, goTo: 'end' }, 2)).toBe(true);
+      expect(matchesSurveyBranch({ lessThan: 3, goTo: 'end' }, 3)).toBe(false);
+      expect(
+        matchesSurveyBranch({ greaterThan: 6, lessThan: 9, goTo: 'end' }, 7)
+      ).toBe(true);
+    });
+
+    it('should match multiple choice answers that include the value', () => {
+      const branch = { equals: 'wait', goTo: 'end' };
+
+      expect(matchesSurveyBranch(branch, ['quality', 'wait'])).toBe(true);
+      expect(matchesSurveyBranch(branch, ['quality'])).toBe(false);
+      expect(matchesSurveyBranch(branch, 'wait')).toBe(true);
+    });
+
+    it('should never match an unanswered question', () => {
+      expect(matchesSurveyBranch({ equals: '', goTo: 'end' }, '')).toBe(false);
+      expect(matchesSurveyBranch({ lessThan: 3, goTo: 'end' })).toBe(false);
+    });
+  });
+
+  describe('getNextSurveyQuestion', () => {
+    it('should follow the first matching branch', () => {
+      expect(getNextSurveyQuestion(questions, 'csat', 1)?.id).toBe('reason');
+      expect(getNextSurveyQuestion(questions, 'nps', 9)).toBeNull();
+    });
+
+    it('should continue in order when no branch matches', () => {
+      expect(getNextSurveyQuestion(questions, 'csat', 5)?.id).toBe('nps');
+      expect(getNextSurveyQuestion(questions, 'nps', 4)?.id).toBe('reason');
+      expect(getNextSurveyQuestion(questions, 'comments', 'Thanks')).toBeNull();
+    });
+  });
+
+  describe('getSurveyPath', () => {
+    it('should list the questions the answers lead through', () => {
+      expect(
+        getSurveyPath(questions, { csat: 2 }).map(question => question.id)
+      ).toEqual(['csat', 'reason', 'comments']);
+      expect(
+        getSurveyPath(questions, { csat: 5, nps: 10 }).map(
+          question => question.id
+        )
+      ).toEqual(['csat', 'nps']);
+    });
+
+    it('should stop when a branch loops back', () => {
+      const looping: SurveyQuestion[] = [
+        { id: 'a', type: 'text', label: 'A' },
+        {
+          id: 'b',
+          type: 'yesNo',
+          label: 'B',
+          branches: [{ equals: 'no', goTo: 'a' }],
+        },
+      ];
+
+      expect(
+        getSurveyPath(looping, { b: 'no' }).map(question => question.id)
+      ).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('validateSurveyAnswer', () => {
+    it('should require answers to required questions only', () => {
+      expect(validateSurveyAnswer(questions[0])).toBe(
+        'Please answer this question'
+      );
+      expect(validateSurveyAnswer(questions[3], '')).toBeNull();
+    });
+
+    it('should keep scores on the question scale', () => {
+      expect(validateSurveyAnswer(questions[0], 6)).toBe(
+        'Please choose a score from 1 to 5'
+      );
+      expect(validateSurveyAnswer(questions[1], 0)).toBeNull();
+      expect(validateSurveyAnswer(questions[1], 11)).toBe(
+        'Please choose a score from 0 to 10'
+      );
+    });
+
+    it('should only accept the configured options', () => {
+      expect(validateSurveyAnswer(questions[2], ['wait', 'quality'])).toBe(
+        null
+      );
+      expect(validateSurveyAnswer(questions[2], ['price'])).toBe(
+        'Please choose one of the options'
+      );
+      expect(
+        validateSurveyAnswer({ id: 'ok', type: 'yesNo', label: 'OK?' }, 'maybe')
+      ).toBe('Please answer yes or no');
+    });
+  });
+
+  describe('getSurveyAnswers', () => {
+    it('should drop answers to skipped and blank questions', () => {
+      expect(
+        getSurveyAnswers(questions, {
+          csat: 5,
+          nps: 10,
+          reason: ['wait'],
+          comments: '',
+        })
+      ).toEqual({ csat: 5, nps: 10 });
+    });
+  });
+
+  describe('toSurveyAttributes', () => {
+    it('should prefix the question ids and flatten the answers', () => {
+      expect(
+        toSurveyAttributes({ csat: 4, reason: ['wait', 'quality'] })
+      ).toEqual({ survey_csat: '4', survey_reason: 'wait,quality' });
+      expect(toSurveyAttributes({ csat: 4 }, 'postChat.')).toEqual({
+        'postChat.csat': '4',
+      });
+    });
+  });
+});
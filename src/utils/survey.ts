@@ -0,0 +1,208 @@
+import type {
+  SurveyAnswer,
+  SurveyBranch,
+  SurveyQuestion,
+} from '../types/widget';
+import type { TranslateFn } from '../types/i18n';
+import { translate } from './i18n';
+
+/**
+ * Survey answers keyed by question id
+ */
+export type SurveyAnswers = Record<string, SurveyAnswer>;
+
+/**
+ * Branch target that finishes the survey
+ */
+export const SURVEY_END = 'end';
+
+/**
+ * Highest CSAT score when no scale is configured
+ */
+export const DEFAULT_CSAT_SCALE = 5;
+
+/**
+ * Lowest and highest score a rating question accepts
+ */
+export const getSurveyScale = (
+  question: SurveyQuestion
+): { min: number; max: number } =>
+  question.type === 'nps'
+    ? { min: 0, max: 10 }
+    : { min: 1, max: question.scale ?? DEFAULT_CSAT_SCALE };
+
+/**
+ * Whether a question has been left unanswered
+ */
+export const isEmptySurveyAnswer = (answer?: SurveyAnswer): boolean =>
+  answer === undefined ||
+  (typeof answer === 'string' && answer.trim().length === 0) ||
+  (Array.isArray(answer) && answer.length === 0);
+
+/**
+ * Whether an answer meets every condition of a branch
+ * Multiple choice answers match `equals` when they include the value
+ */
+export const matchesSurveyBranch = (
+  branch: SurveyBranch,
+  answer?: SurveyAnswer
+): boolean => {
+  if (isEmptySurveyAnswer(answer)) {
+    return false;
+  }
+
+  if (branch.equals !== undefined) {
+    const expected = Array.isArray(branch.equals)
+      ? [...branch.equals].sort().join(',')
+      : String(branch.equals);
+    const matches = Array.isArray(answer)
+      ? Array.isArray(branch.equals)
+        ? [...answer].sort().join(',') === expected
+        : answer.includes(expected)
+      : String(answer) === expected;
+
+    if (!matches) return false;
+  }
+
+  const score = Number(answer);
+
+  if (
+    branch.lessThan !== undefined &&
+    (Array.isArray(answer) || Number.isNaN(score) || score >= branch.lessThan)
+  ) {
+    return false;
+  }
+
+  if (
+    branch.greaterThan !== undefined &&
+    (Array.isArray(answer) ||
+      Number.isNaN(score) ||
+      score <= branch.greaterThan)
+  ) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Question asked after the given one
+ * The first matching branch wins; otherwise the survey continues in order.
+ * Returns null when the survey is finished
+ */
+export const getNextSurveyQuestion = (
+  questions: SurveyQuestion[],
+  questionId: string,
+  answer?: SurveyAnswer
+): SurveyQuestion | null => {
+  const index = questions.findIndex(question => question.id === questionId);
+  if (index === -1) {
+    return null;
+  }
+
+  const branch = questions[index].branches?.find(candidate =>
+    matchesSurveyBranch(candidate, answer)
+  );
+
+  if (branch) {
+    return branch.goTo === SURVEY_END
+      ? null
+      : (questions.find(question => question.id === branch.goTo) ?? null);
+  }
+
+  return questions[index + 1] ?? null;
+};
+
+/**
+ * Questions the visitor is taken through with the given answers
+ * Stops before a question would be asked twice, so branches cannot loop
+ */
+export const getSurveyPath = (
+  questions: SurveyQuestion[],
+  answers: SurveyAnswers
+): SurveyQuestion[] => {
+  const path: SurveyQuestion[] = [];
+  let question: SurveyQuestion | null = questions[0] ?? null;
+
+  while (question && !path.includes(question)) {
+    path.push(question);
+    question = getNextSurveyQuestion(
+      questions,
+      question.id,
+      answers[question.id]
+    );
+  }
+
+  return path;
+};
+
+/**
+ * Validate a single answer
+ * Returns an error message, or null when the answer is valid
+ */
+export const validateSurveyAnswer = (
+  question: SurveyQuestion,
+  answer?: SurveyAnswer,
+  t: TranslateFn = translate
+): string | null => {
+  if (isEmptySurveyAnswer(answer)) {
+    return question.required ? t('survey.required') : null;
+  }
+
+  switch (question.type) {
+    case 'csat':
+    case 'nps': {
+      const { min, max } = getSurveyScale(question);
+      const score = Number(answer);
+
+      return Number.isInteger(score) && score >= min && score <= max
+        ? null
+        : t('survey.scoreRange', { min, max });
+    }
+    case 'yesNo':
+      return answer === 'yes' || answer === 'no'
+        ? null
+        : t('survey.yesNoRequired');
+    case 'choice': {
+      const values = Array.isArray(answer) ? answer : [String(answer)];
+      const isKnown = values.every(value =>
+        question.options?.some(option => option.value === value)
+      );
+
+      return isKnown && (question.multiple || values.length === 1)
+        ? null
+        : t('survey.invalidOption');
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Answers to submit
+ * Drops answers to questions a branch skipped and questions left blank
+ */
+export const getSurveyAnswers = (
+  questions: SurveyQuestion[],
+  answers: SurveyAnswers
+): SurveyAnswers =>
+  Object.fromEntries(
+    getSurveyPath(questions, answers)
+      .filter(question => !isEmptySurveyAnswer(answers[question.id]))
+      .map(question => [question.id, answers[question.id]])
+  );
+
+/**
+ * Flatten answers into contact attributes
+ * Multiple choice answers are joined with commas
+ */
+export const toSurveyAttributes = (
+  answers: SurveyAnswers,
+  prefix = 'survey_'
+): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(answers).map(([id, answer]) => [
+      `${prefix}${id}`,
+      Array.isArray(answer) ? answer.join(',') : String(answer),
+    ])
+  );
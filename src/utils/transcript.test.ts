@@ -0,0 +1,260 @@
+/**
+ * Tests for transcript utilities
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  canExportTranscript,
+  createTranscript,
+  downloadTranscript,
+  exportTranscript,
+  formatTranscriptDuration,
+  formatTranscriptHtml,
+  formatTranscriptJson,
+  formatTranscriptText,
+  getTranscriptDuration,
+  getTranscriptFileName,
+} from './transcript';
+import type { ChatState, ChatTranscript } from '../types/chat';
+
+describe('Transcript utilities', () => {
+  const startTime = new Date('2026-10-19T09:00:00Z');
+
+  const chatState: ChatState = {
+    status: 'ended',
+    session: {
+      connectionToken: 'token',
+      participantId: 'participant',
+      participantToken: 'token',
+      websocketUrl: 'wss://example.com',
+      startTime,
+    },
+    messages: [
+      {
+        id: '1',
+        content: 'Welcome! Was this about an order?',
+        sender: 'system',
+        timestamp: new Date('2026-10-19T09:00:05Z'),
+        status: 'delivered',
+        type: 'system',
+        quickReplies: [
+          { label: 'Yes', value: 'yes' },
+          { label: 'No', value: 'no' },
+        ],
+      },
+      {
+        id: '2',
+        content: 'Yes <script>alert(1)</script>',
+        sender: 'visitor',
+        timestamp: new Date('2026-10-19T09:01:00Z'),
+        status: 'sent',
+        type: 'text',
+      },
+      {
+        id: '3',
+        content: 'Agent has joined',
+        sender: 'system',
+        timestamp: new Date('2026-10-19T09:01:30Z'),
+        status: 'delivered',
+        type: 'system',
+      },
+      {
+        id: '4',
+        content: 'receipt.pdf',
+        sender: 'agent',
+        timestamp: new Date('2026-10-19T09:02:00Z'),
+        status: 'delivered',
+        type: 'file',
+        attachment: {
+          id: 'attachment-1',
+          name: 'receipt.pdf',
+          mimeType: 'application/pdf',
+        },
+      },
+    ],
+    agent: {
+      id: 'agent-1',
+      name: 'Sam',
+      status: 'online',
+      isTyping: false,
+    },
+    visitor: { name: 'Jamie', sessionId: 'session-1' },
+    unreadCount: 0,
+    isTyping: false,
+  };
+
+  const transcript: ChatTranscript = createTranscript(
+    chatState,
+    { score: 4, comment: 'Quick help', timestamp: startTime },
+    new Date('2026-10-19T09:12:05Z')
+  );
+
+  const options = { locale: 'en-US', timeZone: 'UTC' };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createTranscript', () => {
+    it('should build a transcript from the chat state', () => {
+      expect(transcript).toEqual({
+        sessionId: 'session-1',
+        startTime,
+        endTime: new Date('2026-10-19T09:12:05Z'),
+        messages: chatState.messages,
+        agent: chatState.agent,
+        visitor: chatState.visitor,
+        rating: { score: 4, comment: 'Quick help', timestamp: startTime },
+      });
+    });
+
+    it('should keep the time the chat ended', () => {
+      const endTime = new Date('2026-10-19T09:05:00Z');
+
+      expect(
+        createTranscript(
+          { ...chatState, session: undefined, endTime },
+          undefined,
+          new Date('2026-10-19T10:00:00Z')
+        )
+      ).toMatchObject({
+        startTime: new Date('2026-10-19T09:00:05Z'),
+        endTime,
+      });
+    });
+
+    it('should leave the end time unset while the chat is running', () => {
+      expect(
+        createTranscript({ ...chatState, status: 'connected' }).endTime
+      ).toBeUndefined();
+    });
+  });
+
+  describe('duration', () => {
+    it('should measure the chat up to its end', () => {
+      expect(getTranscriptDuration(transcript)).toBe(725);
+    });
+
+    it('should measure running chats up to the last message', () => {
+      expect(getTranscriptDuration({ ...transcript, endTime: undefined })).toBe(
+        120
+      );
+    });
+
+    it('should format durations', () => {
+      expect(formatTranscriptDuration(725)).toBe('12:05');
+      expect(formatTranscriptDuration(3725)).toBe('1:02:05');
+    });
+  });
+
+  describe('formatTranscriptText', () => {
+    it('should include names, rating, duration and local timestamps', () => {
+      const text = formatTranscriptText(transcript, options);
+
+      expect(text).toContain('Session ID: session-1');
+      expect(text).toContain('Date: Oct 19, 2026, 9:00 AM');
+      expect(text).toContain('Duration: 12:05');
+      expect(text).toContain('Visitor: Jamie');
+      expect(text).toContain('Agent: Sam');
+      expect(text).toContain('Rating: 4/5 - Quick help');
+      expect(text).toContain(
+        '[9:00 AM] System: Welcome! Was this about an order?\n  Quick replies: Yes | No'
+      );
+      expect(text).toContain('[9:01 AM] Jamie: Yes <script>');
+      expect(text).toContain('[9:02 AM] Sam: Attachment: receipt.pdf');
+      expect(text).not.toContain('Agent has joined');
+    });
+
+    it('should use the given locale and time zone', () => {
+      const text = formatTranscriptText(transcript, {
+        locale: 'de-DE',
+        timeZone: 'Europe/Berlin',
+      });
+
+      expect(text).toContain('[11:01] Jamie');
+    });
+  });
+
+  describe('formatTranscriptHtml', () => {
+    it('should build an escaped HTML document', () => {
+      const html = formatTranscriptHtml(transcript, options);
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<html lang="en-US">');
+      expect(html).toContain('<dt>Rating</dt><dd>4/5 - Quick help</dd>');
+      expect(html).toContain('Yes &lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('datetime="2026-10-19T09:01:00.000Z"');
+    });
+  });
+
+  describe('formatTranscriptJson', () => {
+    it('should include the transcript and its duration', () => {
+      const json = JSON.parse(formatTranscriptJson(transcript));
+
+      expect(json).toMatchObject({
+        sessionId: 'session-1',
+        startTime: '2026-10-19T09:00:00.000Z',
+        durationSeconds: 725,
+        rating: { score: 4 },
+      });
+      expect(json.messages).toHaveLength(4);
+    });
+  });
+
+  describe('exportTranscript', () => {
+    it.each([
+      ['text', 'text/plain;charset=utf-8'],
+      ['html', 'text/html;charset=utf-8'],
+      ['json', 'application/json'],
+      ['pdf', 'application/pdf'],
+    ] as const)('should export %s', (format, type) => {
+      expect(exportTranscript(transcript, format, options).type).toBe(type);
+    });
+
+    it('should name files after the session', () => {
+      expect(getTranscriptFileName(transcript, 'pdf')).toBe(
+        'chat-transcript-session-1.pdf'
+      );
+    });
+
+    it('should refuse PDFs for text the PDF fonts cannot show', () => {
+      const unicodeTranscript = {
+        ...transcript,
+        visitor: { name: 'Юлия', sessionId: 'session-1' },
+      };
+
+      expect(canExportTranscript(transcript, 'pdf', options)).toBe(true);
+      expect(canExportTranscript(unicodeTranscript, 'pdf', options)).toBe(
+        false
+      );
+      expect(canExportTranscript(unicodeTranscript, 'html', options)).toBe(
+        true
+      );
+      expect(() => exportTranscript(unicodeTranscript, 'pdf', options)).toThrow(
+        'Transcript has characters the PDF fonts cannot show'
+      );
+    });
+  });
+
+  describe('downloadTranscript', () => {
+    it('should save the export through a temporary link', () => {
+      const createObjectURL = vi.fn().mockReturnValue('blob:transcript');
+      const revokeObjectURL = vi.fn();
+      Object.assign(URL, { createObjectURL, revokeObjectURL });
+      const click = vi
+        .spyOn(HTMLAnchorElement.prototype, 'click')
+        .mockImplementation(function (this: HTMLAnchorElement) {
+          expect(this.download).toBe('chat-transcript-session-1.html');
+          expect(this.href).toBe('blob:transcript');
+        });
+
+      downloadTranscript(transcript, 'html', options);
+
+      expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+      expect(click).toHaveBeenCalled();
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:transcript');
+      expect(document.querySelector('a[download]')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,407 @@
+import type {
+  ChatRating,
+  ChatState,
+  ChatTranscript,
+  Message,
+  TranscriptFormat,
+} from '../types/chat';
+import type { TranslateFn } from '../types/i18n';
+import { translate } from './i18n';
+import {
+  INTERACTIVE_CONTENT_TYPE,
+  INTERACTIVE_RESPONSE_CONTENT_TYPE,
+  getInteractiveResponseText,
+  parseInteractiveTemplate,
+} from './interactiveMessage';
+import { canEncodeTranscriptPdf, createTranscriptPdf } from './transcriptPdf';
+
+/**
+ * Options for formatting a transcript
+ */
+export interface TranscriptFormatOptions {
+  locale?: string; // Defaults to the visitor's browser locale
+  timeZone?: string; // Defaults to the visitor's time zone
+  translate?: TranslateFn; // Defaults to English labels
+}
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = [
+  'text',
+  'html',
+  'json',
+  'pdf',
+];
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  text: 'text/plain;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+  json: 'application/json',
+  pdf: 'application/pdf',
+};
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  text: 'txt',
+  html: 'html',
+  json: 'json',
+  pdf: 'pdf',
+};
+
+/**
+ * Build a transcript of the current chat
+ * Ended chats keep the time they ended; the session is cleared by then, so
+ * the first message stands in for the start time
+ */
+export const createTranscript = (
+  chatState: ChatState,
+  rating?: ChatRating,
+  now: Date = new Date()
+): ChatTranscript => ({
+  sessionId: chatState.visitor.sessionId,
+  startTime:
+    chatState.session?.startTime || chatState.messages[0]?.timestamp || now,
+  endTime: chatState.status === 'ended' ? chatState.endTime || now : undefined,
+  messages: chatState.messages,
+  agent: chatState.agent,
+  visitor: chatState.visitor,
+  rating,
+});
+
+/**
+ * Messages shown in a transcript
+ * System notices are left out, except bot prompts offering quick replies so
+ * the visitor's choice has context
+ */
+export const getTranscriptMessages = (transcript: ChatTranscript): Message[] =>
+  transcript.messages.filter(
+    message => message.sender !== 'system' || message.quickReplies?.length
+  );
+
+/**
+ * Display name of a message's sender
+ */
+export const getTranscriptSenderName = (
+  transcript: ChatTranscript,
+  message: Message,
+  t: TranslateFn = translate
+): string => {
+  switch (message.sender) {
+    case 'visitor':
+      return transcript.visitor.name;
+    case 'system':
+      return t('transcript.system');
+    default:
+      return transcript.agent?.name || t('transcript.agent');
+  }
+};
+
+/**
+ * Readable text of a message, e.g. the title of an interactive template
+ */
+export const getTranscriptMessageText = (
+  message: Message,
+  t: TranslateFn = translate
+): string => {
+  if (message.attachment) {
+    return t('transcript.attachment', { name: message.attachment.name });
+  }
+
+  switch (message.contentType) {
+    case INTERACTIVE_CONTENT_TYPE:
+      return (
+        parseInteractiveTemplate(message.content)?.data.content.title ||
+        message.content
+      );
+    case INTERACTIVE_RESPONSE_CONTENT_TYPE:
+      return getInteractiveResponseText(message.content);
+    default:
+      return message.content;
+  }
+};
+
+/**
+ * Length of the chat in seconds
+ * Chats still running are measured up to the last message
+ */
+export const getTranscriptDuration = (transcript: ChatTranscript): number => {
+  const lastMessage = transcript.messages[transcript.messages.length - 1];
+  const end = transcript.endTime || lastMessage?.timestamp;
+  if (!end) return 0;
+
+  return Math.max(
+    0,
+    Math.floor((end.getTime() - transcript.startTime.getTime()) / 1000)
+  );
+};
+
+/**
+ * Format a duration in seconds as m:ss, or h:mm:ss for long chats
+ */
+export const formatTranscriptDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = (seconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${remainder}`
+    : `${minutes}:${remainder}`;
+};
+
+/**
+ * Date and time formatters and labels for the visitor's locale
+ */
+const createFormatters = ({
+  locale,
+  timeZone,
+  translate: t = translate,
+}: TranscriptFormatOptions) => {
+  const resolvedLocale =
+    locale || (typeof navigator !== 'undefined' ? navigator.language : 'en-US');
+
+  return {
+    date: new Intl.DateTimeFormat(resolvedLocale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone,
+    }),
+    time: new Intl.DateTimeFormat(resolvedLocale, {
+      timeStyle: 'short',
+      timeZone,
+    }),
+    locale: resolvedLocale,
+    t,
+  };
+};
+
+/**
+ * Summary lines shared by the text, HTML and PDF exports
+ */
+const getSummary = (
+  transcript: ChatTranscript,
+  options: TranscriptFormatOptions
+): Array<[string, string]> => {
+  const { t, ...formatters } = createFormatters(options);
+  const summary: Array<[string, string]> = [
+    [t('transcript.sessionId'), transcript.sessionId],
+    [t('transcript.date'), formatters.date.format(transcript.startTime)],
+    [
+      t('transcript.duration'),
+      formatTranscriptDuration(getTranscriptDuration(transcript)),
+    ],
+    [t('transcript.visitor'), transcript.visitor.name],
+  ];
+
+  if (transcript.agent) {
+    summary.push([t('transcript.agent'), transcript.agent.name]);
+  }
+  if (transcript.rating) {
+    const { score, comment } = transcript.rating;
+    summary.push([
+      t('transcript.rating'),
+      comment ? `${score}/5 - ${comment}` : `${score}/5`,
+    ]);
+  }
+
+  return summary;
+};
+
+/**
+ * Export a transcript as plain text
+ */
+export const formatTranscriptText = (
+  transcript: ChatTranscript,
+  options: TranscriptFormatOptions = {}
+): string => {
+  const { t, ...formatters } = createFormatters(options);
+  const heading = t('transcript.heading');
+  const conversation = t('transcript.conversation');
+  const lines = [heading, '='.repeat(heading.length), ''];
+
+  getSummary(transcript, options).forEach(([label, value]) =>
+    lines.push(`${label}: ${value}`)
+  );
+  lines.push('', conversation, '='.repeat(conversation.length), '');
+
+  getTranscriptMessages(transcript).forEach(message => {
+    lines.push(
+      `[${formatters.time.format(message.timestamp)}] ${getTranscriptSenderName(
+        transcript,
+        message,
+        t
+      )}: ${getTranscriptMessageText(message, t)}`
+    );
+    if (message.quickReplies?.length) {
+      lines.push(
+        `  ${t('transcript.quickReplies', {
+          replies: message.quickReplies.map(reply => reply.label).join(' | '),
+        })}`
+      );
+    }
+  });
+
+  lines.push('', t('transcript.end'));
+
+  return lines.join('\n');
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Export a transcript as a standalone HTML document
+ * Message content is escaped, never interpreted as HTML
+ */
+export const formatTranscriptHtml = (
+  transcript: ChatTranscript,
+  options: TranscriptFormatOptions = {}
+): string => {
+  const { t, ...formatters } = createFormatters(options);
+
+  const summary = getSummary(transcript, options)
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`
+    )
+    .join('\n      ');
+
+  const messages = getTranscriptMessages(transcript)
+    .map(message => {
+      const quickReplies = message.quickReplies?.length
+        ? `<p class="quick-replies">${escapeHtml(
+            t('transcript.quickReplies', {
+              replies: message.quickReplies
+                .map(reply => reply.label)
+                .join(' | '),
+            })
+          )}</p>`
+        : '';
+
+      return `<li class="message message--${message.sender}">
+        <p class="meta"><strong>${escapeHtml(
+          getTranscriptSenderName(transcript, message, t)
+        )}</strong> <time datetime="${message.timestamp.toISOString()}">${escapeHtml(
+          formatters.time.format(message.timestamp)
+        )}</time></p>
+        <p class="content">${escapeHtml(getTranscriptMessageText(message, t))}</p>${quickReplies}
+      </li>`;
+    })
+    .join('\n      ');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(formatters.locale)}">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(t('transcript.title'))} ${escapeHtml(transcript.sessionId)}</title>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; max-width: 720px; margin: 24px auto; padding: 0 16px; }
+      dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 12px; }
+      dt { font-weight: 600; }
+      dd { margin: 0; }
+      ol { list-style: none; padding: 0; }
+      .message { margin: 0 0 12px; }
+      .meta { margin: 0; font-size: 12px; color: #666; }
+      .content { margin: 2px 0 0; white-space: pre-wrap; }
+      .quick-replies { margin: 2px 0 0; font-size: 12px; color: #666; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(t('transcript.title'))}</h1>
+    <dl>
+      ${summary}
+    </dl>
+    <ol>
+      ${messages}
+    </ol>
+  </body>
+</html>
+`;
+};
+
+/**
+ * Export a transcript as JSON, with the duration in seconds
+ */
+export const formatTranscriptJson = (transcript: ChatTranscript): string =>
+  JSON.stringify(
+    { ...transcript, durationSeconds: getTranscriptDuration(transcript) },
+    null,
+    2
+  );
+
+/**
+ * Whether a transcript can be exported in a format
+ * The PDF writer only has the standard Latin fonts, so a transcript with
+ * other scripts or emoji cannot be exported as PDF
+ */
+export const canExportTranscript = (
+  transcript: ChatTranscript,
+  format: TranscriptFormat,
+  options: TranscriptFormatOptions = {}
+): boolean =>
+  format !== 'pdf' ||
+  canEncodeTranscriptPdf(formatTranscriptText(transcript, options));
+
+/**
+ * Export a transcript as a file in the given format
+ * Throws for a PDF the fonts cannot show, see canExportTranscript
+ */
+export const exportTranscript = (
+  transcript: ChatTranscript,
+  format: TranscriptFormat,
+  options: TranscriptFormatOptions = {}
+): Blob => {
+  switch (format) {
+    case 'html':
+      return new Blob([formatTranscriptHtml(transcript, options)], {
+        type: MIME_TYPES.html,
+      });
+    case 'json':
+      return new Blob([formatTranscriptJson(transcript)], {
+        type: MIME_TYPES.json,
+      });
+    case 'pdf': {
+      const text = formatTranscriptText(transcript, options);
+      if (!canEncodeTranscriptPdf(text)) {
+        throw new Error('Transcript has characters the PDF fonts cannot show');
+      }
+      return new Blob([createTranscriptPdf(text)], { type: MIME_TYPES.pdf });
+    }
+    default:
+      return new Blob([formatTranscriptText(transcript, options)], {
+        type: MIME_TYPES.text,
+      });
+  }
+};
+
+/**
+ * File name for an exported transcript, e.g. chat-transcript-abc123.pdf
+ */
+export const getTranscriptFileName = (
+  transcript: ChatTranscript,
+  format: TranscriptFormat
+): string =>
+  `chat-transcript-${transcript.sessionId}.${FILE_EXTENSIONS[format]}`;
+
+/**
+ * Save a transcript to the visitor's device
+ */
+export const downloadTranscript = (
+  transcript: ChatTranscript,
+  format: TranscriptFormat,
+  options: TranscriptFormatOptions = {}
+): void => {
+  const url = URL.createObjectURL(
+    exportTranscript(transcript, format, options)
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getTranscriptFileName(transcript, format);
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,68 @@
+/**
+ * Tests for the transcript PDF writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canEncodeTranscriptPdf, createTranscriptPdf } from './transcriptPdf';
+
+const decode = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+describe('createTranscriptPdf', () => {
+  it('should write a PDF with a valid cross-reference table', () => {
+    const pdf = decode(createTranscriptPdf('Hello (world)\nSecond line'));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(pdf).toContain('(Hello \\(world\\)) Tj T*');
+    expect(pdf).toContain('(Second line) Tj T*');
+
+    // Every xref entry points at the start of its object
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    const entries = pdf
+      .slice(startxref)
+      .match(/^(\d{10}) 00000 n $/gm)
+      ?.map(entry => Number(entry.slice(0, 10)));
+
+    expect(entries).toHaveLength(5);
+    entries?.forEach((offset, index) => {
+      expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+    });
+  });
+
+  it('should split long transcripts across pages', () => {
+    const text = Array.from(
+      { length: 120 },
+      (_, index) => `Line ${index}`
+    ).join('\n');
+    const pdf = decode(createTranscriptPdf(text));
+
+    expect(pdf).toContain('/Count 3');
+    expect(pdf).toContain('(Line 119) Tj T*');
+  });
+
+  it('should wrap long lines and keep their indent', () => {
+    const pdf = decode(
+      createTranscriptPdf(`  Quick replies: ${'option '.repeat(20).trim()}`)
+    );
+    const lines = pdf.match(/^\((.*)\) Tj T\*$/gm) ?? [];
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toMatch(/^\( {2}option/);
+  });
+
+  it('should replace characters the standard fonts cannot show', () => {
+    const bytes = createTranscriptPdf('Café “quoted” 你好');
+    const pdf = decode(bytes);
+
+    expect(pdf).toContain('(Café \u0093quoted\u0094 ??) Tj T*');
+    expect(bytes.every(byte => byte <= 0xff)).toBe(true);
+  });
+
+  it('should tell whether the standard fonts can show the text', () => {
+    expect(canEncodeTranscriptPdf('Café “quoted” — 5 €')).toBe(true);
+    expect(canEncodeTranscriptPdf('你好')).toBe(false);
+    expect(canEncodeTranscriptPdf('Thanks 👍')).toBe(false);
+  });
+});
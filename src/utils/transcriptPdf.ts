@@ -0,0 +1,157 @@
+/**
+ * Minimal PDF writer for transcripts
+ * Lays out plain text in Helvetica on A4 pages, so no PDF library has to be
+ * bundled with the widget
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+// Helvetica averages about half an em per character; stay under the margin
+const MAX_LINE_LENGTH = 90;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT);
+
+// Characters WinAnsiEncoding places outside Latin-1
+const WIN_ANSI_CODES: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/**
+ * Whether the standard fonts can show every character of the text
+ * Characters outside WinAnsiEncoding, such as Cyrillic, CJK or emoji, would
+ * print as '?'
+ */
+export const canEncodeTranscriptPdf = (text: string): boolean =>
+  Array.from(text).every(
+    character =>
+      Boolean(WIN_ANSI_CODES[character]) ||
+      (character.codePointAt(0) ?? 0) <= 0xff
+  );
+
+/**
+ * Map text to single-byte WinAnsi characters, replacing anything the
+ * standard fonts cannot show
+ */
+const toWinAnsi = (text: string): string =>
+  Array.from(text, character => {
+    const code = character.codePointAt(0) ?? 0;
+    if (WIN_ANSI_CODES[character]) {
+      return String.fromCharCode(WIN_ANSI_CODES[character]);
+    }
+    if (code === 0x09) return '    ';
+    if (code < 0x20 || (code >= 0x7f && code < 0xa0) || code > 0xff) {
+      return '?';
+    }
+    return character;
+  }).join('');
+
+/**
+ * Wrap a line at word boundaries, breaking words longer than a line
+ */
+const wrapLine = (line: string): string[] => {
+  if (line.length <= MAX_LINE_LENGTH) return [line];
+
+  const indent = /^\s*/.exec(line)?.[0] ?? '';
+  const wrapped: string[] = [];
+  let current = '';
+
+  line
+    .trimStart()
+    .split(' ')
+    .forEach(word => {
+      let remaining = word;
+      while (remaining) {
+        const prefix = current ? `${current} ` : wrapped.length ? indent : '';
+        const room = MAX_LINE_LENGTH - prefix.length;
+
+        if (remaining.length <= room) {
+          current = prefix + remaining;
+          remaining = '';
+        } else if (current) {
+          wrapped.push(current);
+          current = '';
+        } else {
+          wrapped.push(prefix + remaining.slice(0, room));
+          remaining = remaining.slice(room);
+        }
+      }
+    });
+
+  if (current) wrapped.push(current);
+  return wrapped;
+};
+
+const escapePdfString = (text: string): string =>
+  text.replace(/[\\()]/g, match => `\\${match}`);
+
+/**
+ * Render plain text as a PDF document
+ */
+export const createTranscriptPdf = (text: string): Uint8Array => {
+  const lines = text
+    .split(/\r\n?|\n/)
+    .map(toWinAnsi)
+    .flatMap(wrapLine);
+
+  const pages: string[][] = [];
+  for (let index = 0; index < lines.length; index += LINES_PER_PAGE) {
+    pages.push(lines.slice(index, index + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-3 are the catalog, page tree and font; each page then takes a
+  // page object and a content stream
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds
+      .map(id => `${id} 0 R`)
+      .join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((pageLines, index) => {
+    const stream = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map(line => `(${escapePdfString(line)}) Tj T*`),
+      'ET',
+    ].join('\n');
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${
+        pageIds[index] + 1
+      } 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, character => character.charCodeAt(0));
+};
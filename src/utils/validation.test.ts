@@ -13,6 +13,11 @@ import {
   validateAWSConnectConfiguration,
   validateMessageConfiguration,
   validateFeatureConfiguration,
+  validatePreChatFormConfiguration,
+  validateAvailabilityConfiguration,
+  validateQueueConfiguration,
+  validateSurveyConfiguration,
+  validateLocaleConfiguration,
 } from './validation';
 
 describe('Configuration Validation', () => {
@@ -530,5 +535,356 @@ describe('Advanced Validation Functions', () => {
       expect(result.warnings).toHaveLength(1);
       expect(result.warnings[0].code).toBe('PERFORMANCE_IMPACT');
     });
+
+    it('should validate attachment limits', () => {
+      const valid = validateFeatureConfiguration({
+        fileUpload: true,
+        attachments: {
+          maxFileSizeBytes: 5 * 1024 * 1024,
+          allowedMimeTypes: ['image/*', 'application/pdf'],
+        },
+      });
+      expect(valid.isValid).toBe(true);
+
+      const invalid = validateFeatureConfiguration({
+        fileUpload: true,
+        attachments: { maxFileSizeBytes: -1, allowedMimeTypes: 'image/png' },
+      });
+      expect(invalid.isValid).toBe(false);
+      expect(invalid.errors.map(error => error.field)).toEqual([
+        'features.attachments.maxFileSizeBytes',
+        'features.attachments.allowedMimeTypes',
+      ]);
+    });
+  });
+
+  describe('validatePreChatFormConfiguration', () => {
+    it('should accept a missing or well-formed pre-chat form', () => {
+      expect(validatePreChatFormConfiguration(undefined).isValid).toBe(true);
+
+      const result = validatePreChatFormConfiguration({
+        fields: [
+          { id: 'name', label: 'Name', type: 'text', mapTo: 'displayName' },
+          {
+            id: 'topic',
+            label: 'Topic',
+            type: 'select',
+            options: [{ label: 'Billing', value: 'billing' }],
+          },
+        ],
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject malformed fields', () => {
+      const result = validatePreChatFormConfiguration({
+        fields: [
+          { id: 'name', label: 'Name', type: 'text' },
+          { id: 'name', label: '', type: 'date' },
+          { id: 'topic', label: 'Topic', type: 'select' },
+          {
+            id: 'order',
+            label: 'Order',
+            type: 'text',
+            validation: { pattern: '[' },
+          },
+        ],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual([
+        'preChatForm.fields[1].id',
+        'preChatForm.fields[1].label',
+        'preChatForm.fields[1].type',
+        'preChatForm.fields[2].options',
+        'preChatForm.fields[3].validation.pattern',
+      ]);
+    });
+
+    it('should require a fields array', () => {
+      const result = validatePreChatFormConfiguration({});
+
+      expect(result.errors[0].field).toBe('preChatForm.fields');
+    });
+
+    it('should warn when several fields map to the display name', () => {
+      const result = validatePreChatFormConfiguration({
+        fields: [
+          { id: 'first', label: 'First', type: 'text', mapTo: 'displayName' },
+          { id: 'last', label: 'Last', type: 'text', mapTo: 'displayName' },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings[0].field).toBe('preChatForm.fields[1].mapTo');
+    });
+  });
+
+  describe('validateAvailabilityConfiguration', () => {
+    it('should accept a missing or well-formed availability configuration', () => {
+      expect(validateAvailabilityConfiguration(undefined).isValid).toBe(true);
+
+      const result = validateAvailabilityConfiguration({
+        businessHours: {
+          timeZone: 'Europe/London',
+          weeklyHours: { monday: [{ open: '09:00', close: '17:30' }] },
+          holidays: [{ date: '2026-12-25' }],
+        },
+        availabilityEndpoint: 'https://api.example.com/hours',
+        leaveMessage: { endpoint: 'https://api.example.com/messages' },
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should reject malformed schedules and endpoints', () => {
+      const result = validateAvailabilityConfiguration({
+        businessHours: {
+          timeZone: 'Mars/Olympus',
+          weeklyHours: {
+            funday: [],
+            monday: [{ open: '9am', close: '17:00' }],
+          },
+          holidays: [{ date: '25/12/2026' }],
+        },
+        leaveMessage: { endpoint: 'not a url' },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual(
+        expect.arrayContaining([
+          'availability.businessHours.timeZone',
+          'availability.businessHours.weeklyHours.funday',
+          'availability.businessHours.holidays[0].date',
+          'availability.leaveMessage.endpoint',
+        ])
+      );
+      expect(
+        result.errors.some(error =>
+          error.field.startsWith(
+            'availability.businessHours.weeklyHours.monday'
+          )
+        )
+      ).toBe(true);
+    });
+
+    it('should warn when nothing can take the widget offline', () => {
+      const result = validateAvailabilityConfiguration({});
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings[0].field).toBe('availability');
+    });
+  });
+
+  describe('validateQueueConfiguration', () => {
+    it('should accept a missing or well-formed queue configuration', () => {
+      expect(validateQueueConfiguration(undefined).isValid).toBe(true);
+
+      const result = validateQueueConfiguration({
+        provider: 'endpoint',
+        statusEndpoint: 'https://api.example.com/queue',
+        pollIntervalMs: 10000,
+        callback: {
+          endpoint: 'https://api.example.com/callbacks',
+          thresholdSeconds: 300,
+        },
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept a custom provider object', () => {
+      const result = validateQueueConfiguration({
+        provider: { start: () => {}, stop: () => {} },
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject malformed providers and callbacks', () => {
+      const result = validateQueueConfiguration({
+        provider: 'websocket',
+        pollIntervalMs: 10,
+        callback: { endpoint: 'not a url', thresholdSeconds: -1 },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual([
+        'queue.provider',
+        'queue.pollIntervalMs',
+        'queue.callback.endpoint',
+        'queue.callback.thresholdSeconds',
+      ]);
+    });
+
+    it('should require a status endpoint for the endpoint provider', () => {
+      const result = validateQueueConfiguration({ provider: 'endpoint' });
+
+      expect(result.errors[0].field).toBe('queue.statusEndpoint');
+    });
+  });
+
+  describe('validateSurveyConfiguration', () => {
+    it('should accept a missing or well-formed survey configuration', () => {
+      expect(validateSurveyConfiguration(undefined).isValid).toBe(true);
+
+      const result = validateSurveyConfiguration({
+        sink: 'contactAttributes',
+        endpoint: 'https://api.example.com/survey',
+        questions: [
+          {
+            id: 'resolved',
+            type: 'yesNo',
+            label: 'Was your issue resolved?',
+            branches: [{ equals: 'yes', goTo: 'end' }],
+          },
+          {
+            id: 'reason',
+            type: 'choice',
+            label: 'What went wrong?',
+            options: [{ label: 'Too slow', value: 'slow' }],
+          },
+        ],
+      });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept a custom sink without an endpoint', () => {
+      const result = validateSurveyConfiguration({
+        sink: { submit: async () => {} },
+        questions: [{ id: 'nps', type: 'nps', label: 'Recommend us?' }],
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject malformed questions and branches', () => {
+      const result = validateSurveyConfiguration({
+        endpoint: 'https://api.example.com/survey',
+        questions: [
+          {
+            id: 'score',
+            type: 'stars',
+            label: 'Rate us',
+            branches: [{ lessThan: 3, goTo: 'missing' }],
+          },
+          { id: 'score', type: 'choice', label: 'Why?' },
+          { id: 'csat', type: 'csat', label: 'Satisfied?', scale: 20 },
+        ],
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual([
+        'survey.questions[0].type',
+        'survey.questions[0].branches[0].goTo',
+        'survey.questions[1].id',
+        'survey.questions[1].options',
+        'survey.questions[2].scale',
+      ]);
+    });
+
+    it('should warn about branches back to earlier questions', () => {
+      const result = validateSurveyConfiguration({
+        endpoint: 'https://api.example.com/survey',
+        questions: [
+          { id: 'first', type: 'text', label: 'First' },
+          {
+            id: 'second',
+            type: 'yesNo',
+            label: 'Second',
+            branches: [{ equals: 'no', goTo: 'first' }],
+          },
+        ],
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings[0].field).toBe(
+        'survey.questions[1].branches[0].goTo'
+      );
+    });
+
+    it('should require questions and an endpoint for the built-in sinks', () => {
+      const result = validateSurveyConfiguration({ questions: [] });
+
+      expect(result.errors.map(error => error.field)).toEqual([
+        'survey.questions',
+        'survey.endpoint',
+      ]);
+    });
+  });
+
+  describe('validateLocaleConfiguration', () => {
+    it('should accept bundled locales, auto and configured overrides', () => {
+      expect(validateLocaleConfiguration(undefined).isValid).toBe(true);
+      expect(validateLocaleConfiguration({ locale: 'auto' }).isValid).toBe(
+        true
+      );
+
+      const result = validateLocaleConfiguration({
+        locale: 'nl',
+        messages: {
+          locales: {
+            nl: {
+              welcomeMessage: 'Hallo!',
+              strings: {
+                'chatButton.unread':
+                  '{count, plural, one {# ongelezen bericht} other {# ongelezen berichten}}',
+              },
+            },
+          },
+        },
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should reject invalid tags and message syntax', () => {
+      const result = validateLocaleConfiguration({
+        locale: 'not a locale',
+        messages: {
+          locales: {
+            'x y': {},
+            fr: {
+              strings: {
+                'chatButton.open': 42,
+                'chatButton.unread': '{count, plural, one {#}}',
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toEqual([
+        'ui.messages.locales.x y',
+        'ui.messages.locales.fr.strings.chatButton.open',
+        'ui.messages.locales.fr.strings.chatButton.unread',
+        'ui.locale',
+      ]);
+    });
+
+    it('should check the layout direction', () => {
+      expect(validateLocaleConfiguration({ direction: 'rtl' }).isValid).toBe(
+        true
+      );
+
+      const result = validateLocaleConfiguration({ direction: 'right' });
+      expect(result.errors[0]).toMatchObject({
+        field: 'ui.direction',
+        code: 'INVALID_VALUE',
+      });
+    });
+
+    it('should warn about unknown strings and locales without strings', () => {
+      const result = validateLocaleConfiguration({
+        locale: 'ja',
+        messages: { locales: { fr: { strings: { 'chat.hello': 'Salut' } } } },
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings.map(warning => warning.field)).toEqual([
+        'ui.messages.locales.fr.strings.chat.hello',
+        'ui.locale',
+      ]);
+    });
   });
 });
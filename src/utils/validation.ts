@@ -14,6 +14,9 @@ import type {
   FieldType,
   ValidatorFunction,
 } from '../types/validation';
+import { LOCALES } from '../locales';
+import { en } from '../locales/en';
+import { formatMessage, matchLocale } from './i18n';
 
 /**
  * AWS regions supported by Connect
@@ -632,6 +635,35 @@ export class WidgetConfigurationValidator implements ConfigurationValidator {
       });
     }
 
+    // Validate pre-chat form configuration
+    const preChatResult = validatePreChatFormConfiguration(
+      configObj.preChatForm
+    );
+    errors.push(...preChatResult.errors);
+    warnings.push(...preChatResult.warnings);
+
+    // Validate business hours and offline mode
+    const availabilityResult = validateAvailabilityConfiguration(
+      configObj.availability
+    );
+    errors.push(...availabilityResult.errors);
+    warnings.push(...availabilityResult.warnings);
+
+    // Validate queue position and callback configuration
+    const queueResult = validateQueueConfiguration(configObj.queue);
+    errors.push(...queueResult.errors);
+    warnings.push(...queueResult.warnings);
+
+    // Validate post-chat survey configuration
+    const surveyResult = validateSurveyConfiguration(configObj.survey);
+    errors.push(...surveyResult.errors);
+    warnings.push(...surveyResult.warnings);
+
+    // Validate locale, direction and per-locale messages
+    const localeResult = validateLocaleConfiguration(configObj.ui);
+    errors.push(...localeResult.errors);
+    warnings.push(...localeResult.warnings);
+
     return { isValid: errors.length === 0, errors, warnings };
   }
 
@@ -1023,6 +1055,41 @@ export function validateFeatureConfiguration(
     }
   }
 
+  // Validate attachment limits
+  const attachments = featuresObj.attachments;
+  if (attachments !== undefined) {
+    const attachmentsObj =
+      attachments && typeof attachments === 'object'
+        ? (attachments as Record<string, unknown>)
+        : {};
+    const { maxFileSizeBytes, allowedMimeTypes } = attachmentsObj;
+
+    if (
+      maxFileSizeBytes !== undefined &&
+      (typeof maxFileSizeBytes !== 'number' || maxFileSizeBytes <= 0)
+    ) {
+      errors.push({
+        field: 'features.attachments.maxFileSizeBytes',
+        code: 'INVALID_FORMAT',
+        message: 'Attachment size limit must be a positive number of bytes',
+        value: maxFileSizeBytes,
+      });
+    }
+
+    if (
+      allowedMimeTypes !== undefined &&
+      (!Array.isArray(allowedMimeTypes) ||
+        !allowedMimeTypes.every(type => typeof type === 'string'))
+    ) {
+      errors.push({
+        field: 'features.attachments.allowedMimeTypes',
+        code: 'INVALID_FORMAT',
+        message: 'Allowed attachment types must be an array of MIME types',
+        value: allowedMimeTypes,
+      });
+    }
+  }
+
   // Warn about performance implications
   if (featuresObj.fileUpload === true) {
     warnings.push({
@@ -1036,3 +1103,753 @@ export function validateFeatureConfiguration(
 
   return { isValid: errors.length === 0, errors, warnings };
 }
+
+/**
+ * Pre-chat field types accepted in the configuration
+ */
+const PRE_CHAT_FIELD_TYPES = [
+  'text',
+  'email',
+  'tel',
+  'textarea',
+  'select',
+  'checkbox',
+];
+
+/**
+ * Validate pre-chat form configuration
+ * Ensures fields are well formed and their answers can be mapped
+ */
+export function validatePreChatFormConfiguration(
+  preChatForm: unknown
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (preChatForm === undefined) {
+    return { isValid: true, errors, warnings };
+  }
+
+  const fields =
+    preChatForm && typeof preChatForm === 'object'
+      ? (preChatForm as Record<string, unknown>).fields
+      : undefined;
+
+  if (!Array.isArray(fields)) {
+    errors.push({
+      field: 'preChatForm.fields',
+      code: 'INVALID_FORMAT',
+      message: 'Pre-chat form fields must be an array',
+      value: fields,
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const seenIds = new Set<string>();
+  const seenTargets = new Set<string>();
+
+  fields.forEach((field, index) => {
+    const path = `preChatForm.fields[${index}]`;
+    const fieldObj =
+      field && typeof field === 'object'
+        ? (field as Record<string, unknown>)
+        : {};
+
+    if (typeof fieldObj.id !== 'string' || !fieldObj.id) {
+      errors.push({
+        field: `${path}.id`,
+        code: 'REQUIRED_FIELD_MISSING',
+        message: 'Pre-chat field id is required',
+        value: fieldObj.id,
+      });
+    } else if (seenIds.has(fieldObj.id)) {
+      errors.push({
+        field: `${path}.id`,
+        code: 'INVALID_VALUE',
+        message: `Duplicate pre-chat field id '${fieldObj.id}'`,
+        value: fieldObj.id,
+      });
+    } else {
+      seenIds.add(fieldObj.id);
+    }
+
+    if (typeof fieldObj.label !== 'string' || !fieldObj.label) {
+      errors.push({
+        field: `${path}.label`,
+        code: 'REQUIRED_FIELD_MISSING',
+        message: 'Pre-chat field label is required',
+        value: fieldObj.label,
+      });
+    }
+
+    if (!PRE_CHAT_FIELD_TYPES.includes(fieldObj.type as string)) {
+      errors.push({
+        field: `${path}.type`,
+        code: 'INVALID_VALUE',
+        message: `Pre-chat field type must be one of: ${PRE_CHAT_FIELD_TYPES.join(', ')}`,
+        value: fieldObj.type,
+      });
+    }
+
+    if (
+      fieldObj.type === 'select' &&
+      (!Array.isArray(fieldObj.options) || fieldObj.options.length === 0)
+    ) {
+      errors.push({
+        field: `${path}.options`,
+        code: 'REQUIRED_FIELD_MISSING',
+        message: 'Select fields need at least one option',
+        value: fieldObj.options,
+      });
+    }
+
+    const validation = fieldObj.validation as
+      Record<string, unknown> | undefined;
+    if (typeof validation?.pattern === 'string') {
+      try {
+        new RegExp(validation.pattern);
+      } catch {
+        errors.push({
+          field: `${path}.validation.pattern`,
+          code: 'INVALID_FORMAT',
+          message: 'Pre-chat field pattern is not a valid regular expression',
+          value: validation.pattern,
+        });
+      }
+    }
+
+    const target = fieldObj.mapTo;
+    if (target === 'displayName' || target === 'email') {
+      if (seenTargets.has(target)) {
+        warnings.push({
+          field: `${path}.mapTo`,
+          code: 'SUBOPTIMAL_VALUE',
+          message: `More than one pre-chat field maps to ${target}. The last answer will be used.`,
+          value: target,
+        });
+      }
+      seenTargets.add(target);
+    }
+  });
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * 'HH:mm' time of day, up to 24:00
+ */
+const TIME_OF_DAY_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+/**
+ * 'YYYY-MM-DD' calendar date
+ */
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const WEEKDAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+/**
+ * Check whether the runtime knows an IANA time zone
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a list of business hours ranges
+ */
+function validateBusinessHoursRanges(
+  path: string,
+  ranges: unknown
+): ValidationError[] {
+  if (!Array.isArray(ranges)) {
+    return [
+      {
+        field: path,
+        code: 'INVALID_FORMAT',
+        message: 'Business hours must be an array of { open, close } ranges',
+        value: ranges,
+      },
+    ];
+  }
+
+  const errors: ValidationError[] = [];
+
+  ranges.forEach((range, index) => {
+    const rangeObj =
+      range && typeof range === 'object'
+        ? (range as Record<string, unknown>)
+        : {};
+
+    (['open', 'close'] as const).forEach(key => {
+      const value = rangeObj[key];
+      if (typeof value !== 'string' || !TIME_OF_DAY_PATTERN.test(value)) {
+        errors.push({
+          field: `${path}[${index}].${key}`,
+          code: 'INVALID_FORMAT',
+          message: 'Times must use 24-hour HH:mm format',
+          value,
+        });
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Validate availability configuration
+ * Checks the business hours schedule, time zone and endpoints
+ */
+export function validateAvailabilityConfiguration(
+  availability: unknown
+): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (availability === undefined) {
+    return { isValid: true, errors, warnings };
+  }
+
+  if (!availability || typeof availability !== 'object') {
+    errors.push({
+      field: 'availability',
+      code: 'INVALID_FORMAT',
+      message: 'Availability configuration must be an object',
+      value: availability,
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const availabilityObj = availability as Record<string, unknown>;
+  const businessHours = availabilityObj.businessHours as
+    Record<string, unknown> | undefined;
+
+  if (businessHours) {
+    const { timeZone } = businessHours;
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      errors.push({
+        field: 'availability.businessHours.timeZone',
+        code: 'INVALID_VALUE',
+        message: 'Business hours need a valid IANA time zone',
+        value: businessHours.timeZone,
+      });
+    }
+
+    const weeklyHours =
+      businessHours.weeklyHours && typeof businessHours.weeklyHours === 'object'
+        ? (businessHours.weeklyHours as Record<string, unknown>)
+        : {};
+
+    Object.entries(weeklyHours).forEach(([day, ranges]) => {
+      if (!WEEKDAYS.includes(day)) {
+        errors.push({
+          field: `availability.businessHours.weeklyHours.${day}`,
+          code: 'INVALID_VALUE',
+          message: `Unknown weekday '${day}'`,
+          value: day,
+        });
+        return;
+      }
+
+      errors.push(
+        ...validateBusinessHoursRanges(
+          `availability.businessHours.weeklyHours.${day}`,
+          ranges
+        )
+      );
+    });
+
+    const holidays = businessHours.holidays;
+    if (holidays !== undefined && !Array.isArray(holidays)) {
+      errors.push({
+        field: 'availability.businessHours.holidays',
+        code: 'INVALID_FORMAT',
+        message: 'Holidays must be an array',
+        value: holidays,
+      });
+    } else {
+      (holidays || []).forEach((holiday: Record<string, unknown>, index) => {
+        const path = `availability.businessHours.holidays[${index}]`;
+
+        if (
+          typeof holiday?.date !== 'string' ||
+          !CALENDAR_DATE_PATTERN.test(holiday.date)
+        ) {
+          errors.push({
+            field: `${path}.date`,
+            code: 'INVALID_FORMAT',
+            message: 'Holiday dates must use YYYY-MM-DD format',
+            value: holiday?.date,
+          });
+        }
+
+        if (holiday?.hours !== undefined) {
+          errors.push(
+            ...validateBusinessHoursRanges(`${path}.hours`, holiday.hours)
+          );
+        }
+      });
+    }
+  }
+
+  if (availabilityObj.availabilityEndpoint !== undefined) {
+    const result = validateUrl(availabilityObj.availabilityEndpoint);
+    result.errors.forEach(error =>
+      errors.push({ ...error, field: 'availability.availabilityEndpoint' })
+    );
+  }
+
+  const leaveMessage = availabilityObj.leaveMessage as
+    Record<string, unknown> | undefined;
+  if (leaveMessage) {
+    const result = validateUrl(leaveMessage.endpoint);
+    result.errors.forEach(error =>
+      errors.push({ ...error, field: 'availability.leaveMessage.endpoint' })
+    );
+  }
+
+  if (!businessHours && availabilityObj.availabilityEndpoint === undefined) {
+    warnings.push({
+      field: 'availability',
+      code: 'MISSING_OPTIONAL_FIELD',
+      message:
+        'Availability has neither business hours nor an endpoint, so the widget is always online.',
+      value: availability,
+    });
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validate queue configuration
+ * Checks the queue status provider and the callback offer
+ */
+export function validateQueueConfiguration(queue: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (queue === undefined) {
+    return { isValid: true, errors, warnings };
+  }
+
+  if (!queue || typeof queue !== 'object') {
+    errors.push({
+      field: 'queue',
+      code: 'INVALID_FORMAT',
+      message: 'Queue configuration must be an object',
+      value: queue,
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const queueObj = queue as Record<string, unknown>;
+  const { provider } = queueObj;
+
+  if (
+    provider !== undefined &&
+    provider !== 'endpoint' &&
+    provider !== 'systemMessages' &&
+    (!provider ||
+      typeof provider !== 'object' ||
+      typeof (provider as Record<string, unknown>).start !== 'function' ||
+      typeof (provider as Record<string, unknown>).stop !== 'function')
+  ) {
+    errors.push({
+      field: 'queue.provider',
+      code: 'INVALID_VALUE',
+      message:
+        "Queue provider must be 'endpoint', 'systemMessages' or an object with start() and stop()",
+      value: provider,
+    });
+  }
+
+  if (queueObj.statusEndpoint !== undefined) {
+    const result = validateUrl(queueObj.statusEndpoint);
+    result.errors.forEach(error =>
+      errors.push({ ...error, field: 'queue.statusEndpoint' })
+    );
+  } else if (provider === 'endpoint') {
+    errors.push({
+      field: 'queue.statusEndpoint',
+      code: 'REQUIRED_FIELD_MISSING',
+      message: "The 'endpoint' queue provider needs a status endpoint",
+    });
+  }
+
+  if (
+    queueObj.pollIntervalMs !== undefined &&
+    (typeof queueObj.pollIntervalMs !== 'number' ||
+      queueObj.pollIntervalMs < 1000)
+  ) {
+    errors.push({
+      field: 'queue.pollIntervalMs',
+      code: 'OUT_OF_RANGE',
+      message: 'Queue poll interval must be at least 1000 ms',
+      value: queueObj.pollIntervalMs,
+    });
+  }
+
+  const callback = queueObj.callback as Record<string, unknown> | undefined;
+  if (callback) {
+    const result = validateUrl(callback.endpoint);
+    result.errors.forEach(error =>
+      errors.push({ ...error, field: 'queue.callback.endpoint' })
+    );
+
+    if (
+      typeof callback.thresholdSeconds !== 'number' ||
+      callback.thresholdSeconds < 0
+    ) {
+      errors.push({
+        field: 'queue.callback.thresholdSeconds',
+        code: 'OUT_OF_RANGE',
+        message: 'Callback threshold must be a non-negative number of seconds',
+        value: callback.thresholdSeconds,
+      });
+    }
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+const SURVEY_QUESTION_TYPES = ['csat', 'nps', 'yesNo', 'text', 'choice'];
+
+/**
+ * Validate post-chat survey configuration
+ * Checks the questions, their branches and the sink
+ */
+export function validateSurveyConfiguration(survey: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (survey === undefined) {
+    return { isValid: true, errors, warnings };
+  }
+
+  if (!survey || typeof survey !== 'object') {
+    errors.push({
+      field: 'survey',
+      code: 'INVALID_FORMAT',
+      message: 'Survey configuration must be an object',
+      value: survey,
+    });
+    return { isValid: false, errors, warnings };
+  }
+
+  const surveyObj = survey as Record<string, unknown>;
+  const { questions, sink } = surveyObj;
+
+  if (!Array.isArray(questions) || questions.length === 0) {
+    errors.push({
+      field: 'survey.questions',
+      code: 'REQUIRED_FIELD_MISSING',
+      message: 'Survey must have at least one question',
+      value: questions,
+    });
+  } else {
+    const ids = questions.map(question => question?.id);
+
+    questions.forEach((question, index) => {
+      const field = `survey.questions[${index}]`;
+
+      if (!question || typeof question !== 'object') {
+        errors.push({
+          field,
+          code: 'INVALID_FORMAT',
+          message: 'Survey question must be an object',
+          value: question,
+        });
+        return;
+      }
+
+      if (typeof question.id !== 'string' || !question.id) {
+        errors.push({
+          field: `${field}.id`,
+          code: 'REQUIRED_FIELD_MISSING',
+          message: 'Survey question id is required',
+        });
+      } else if (ids.indexOf(question.id) !== index) {
+        errors.push({
+          field: `${field}.id`,
+          code: 'INVALID_VALUE',
+          message: `Survey question id '${question.id}' is used more than once`,
+          value: question.id,
+        });
+      }
+
+      if (!SURVEY_QUESTION_TYPES.includes(question.type)) {
+        errors.push({
+          field: `${field}.type`,
+          code: 'INVALID_VALUE',
+          message: `Survey question type must be one of: ${SURVEY_QUESTION_TYPES.join(', ')}`,
+          value: question.type,
+        });
+      }
+
+      if (typeof question.label !== 'string' || !question.label) {
+        errors.push({
+          field: `${field}.label`,
+          code: 'REQUIRED_FIELD_MISSING',
+          message: 'Survey question label is required',
+        });
+      }
+
+      if (
+        question.type === 'choice' &&
+        (!Array.isArray(question.options) || question.options.length === 0)
+      ) {
+        errors.push({
+          field: `${field}.options`,
+          code: 'REQUIRED_FIELD_MISSING',
+          message: 'Choice questions need at least one option',
+        });
+      }
+
+      if (
+        question.type === 'csat' &&
+        question.scale !== undefined &&
+        (!Number.isInteger(question.scale) ||
+          question.scale < 2 ||
+          question.scale > 10)
+      ) {
+        errors.push({
+          field: `${field}.scale`,
+          code: 'OUT_OF_RANGE',
+          message: 'CSAT scale must be a whole number from 2 to 10',
+          value: question.scale,
+        });
+      }
+
+      if (Array.isArray(question.branches)) {
+        question.branches.forEach(
+          (branch: Record<string, unknown>, branchIndex: number) => {
+            if (branch?.goTo !== 'end' && !ids.includes(branch?.goTo)) {
+              errors.push({
+                field: `${field}.branches[${branchIndex}].goTo`,
+                code: 'INVALID_VALUE',
+                message: "Survey branch must go to a question id or 'end'",
+                value: branch?.goTo,
+              });
+            } else if (
+              ids.indexOf(branch.goTo) !== -1 &&
+              ids.indexOf(branch.goTo) <= index
+            ) {
+              warnings.push({
+                field: `${field}.branches[${branchIndex}].goTo`,
+                code: 'SUBOPTIMAL_VALUE',
+                message:
+                  'Survey branch goes back to an earlier question; questions are never asked twice',
+                value: branch.goTo,
+              });
+            }
+          }
+        );
+      }
+    });
+  }
+
+  if (
+    sink !== undefined &&
+    sink !== 'endpoint' &&
+    sink !== 'contactAttributes' &&
+    (!sink ||
+      typeof sink !== 'object' ||
+      typeof (sink as Record<string, unknown>).submit !== 'function')
+  ) {
+    errors.push({
+      field: 'survey.sink',
+      code: 'INVALID_VALUE',
+      message:
+        "Survey sink must be 'endpoint', 'contactAttributes' or an object with submit()",
+      value: sink,
+    });
+  }
+
+  if (surveyObj.endpoint !== undefined) {
+    const result = validateUrl(surveyObj.endpoint);
+    result.errors.forEach(error =>
+      errors.push({ ...error, field: 'survey.endpoint' })
+    );
+  } else if (sink === undefined || typeof sink === 'string') {
+    errors.push({
+      field: 'survey.endpoint',
+      code: 'REQUIRED_FIELD_MISSING',
+      message: 'Survey endpoint is required unless a custom sink is given',
+    });
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Whether a locale is a well-formed BCP 47 tag, e.g. 'fr' or 'de-CH'
+ */
+const isValidLocaleTag = (locale: string): boolean => {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+const TEXT_DIRECTIONS = ['ltr', 'rtl', 'auto'];
+
+/**
+ * Validate the widget locale, direction and per-locale message overrides
+ * Checks locale tags, override keys and the ICU syntax of string overrides
+ */
+export function validateLocaleConfiguration(ui: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  if (!ui || typeof ui !== 'object') {
+    return { isValid: true, errors, warnings };
+  }
+
+  const { locale, direction, messages } = ui as Record<string, unknown>;
+  const locales =
+    messages && typeof messages === 'object'
+      ? (messages as Record<string, unknown>).locales
+      : undefined;
+  const available = Object.keys(LOCALES);
+
+  if (locales !== undefined) {
+    if (!locales || typeof locales !== 'object' || Array.isArray(locales)) {
+      errors.push({
+        field: 'ui.messages.locales',
+        code: 'INVALID_FORMAT',
+        message: 'Locale messages must be an object keyed by locale',
+        value: locales,
+      });
+    } else {
+      Object.entries(locales as Record<string, unknown>).forEach(
+        ([tag, overrides]) => {
+          const field = `ui.messages.locales.${tag}`;
+
+          if (!isValidLocaleTag(tag)) {
+            errors.push({
+              field,
+              code: 'INVALID_FORMAT',
+              message: `'${tag}' is not a valid locale tag`,
+              value: tag,
+            });
+            return;
+          }
+
+          if (!overrides || typeof overrides !== 'object') {
+            errors.push({
+              field,
+              code: 'INVALID_FORMAT',
+              message: 'Locale messages must be an object',
+              value: overrides,
+            });
+            return;
+          }
+
+          const { strings } = overrides as Record<string, unknown>;
+          if (strings === undefined) {
+            return;
+          }
+
+          if (!strings || typeof strings !== 'object') {
+            errors.push({
+              field: `${field}.strings`,
+              code: 'INVALID_FORMAT',
+              message: 'Locale strings must be an object',
+              value: strings,
+            });
+            return;
+          }
+
+          Object.entries(strings as Record<string, unknown>).forEach(
+            ([key, pattern]) => {
+              const stringField = `${field}.strings.${key}`;
+
+              if (!(key in en)) {
+                warnings.push({
+                  field: stringField,
+                  code: 'SUBOPTIMAL_VALUE',
+                  message: `'${key}' is not a widget string and will be ignored`,
+                  value: key,
+                });
+                return;
+              }
+
+              if (typeof pattern !== 'string') {
+                errors.push({
+                  field: stringField,
+                  code: 'INVALID_FORMAT',
+                  message: 'Locale strings must be strings',
+                  value: pattern,
+                });
+                return;
+              }
+
+              try {
+                formatMessage(pattern, {}, tag);
+              } catch (error) {
+                errors.push({
+                  field: stringField,
+                  code: 'INVALID_FORMAT',
+                  message: `Invalid message syntax: ${
+                    error instanceof Error ? error.message : String(error)
+                  }`,
+                  value: pattern,
+                });
+              }
+            }
+          );
+        }
+      );
+
+      available.push(...Object.keys(locales as Record<string, unknown>));
+    }
+  }
+
+  if (locale !== undefined && locale !== 'auto') {
+    if (typeof locale !== 'string' || !isValidLocaleTag(locale)) {
+      errors.push({
+        field: 'ui.locale',
+        code: 'INVALID_FORMAT',
+        message:
+          "Locale must be a BCP 47 tag such as 'fr' or 'de-CH', or 'auto'",
+        value: locale,
+      });
+    } else if (!matchLocale(locale, available)) {
+      warnings.push({
+        field: 'ui.locale',
+        code: 'SUBOPTIMAL_VALUE',
+        message: `No strings are available for '${locale}'; English will be shown`,
+        value: locale,
+      });
+    }
+  }
+
+  if (
+    direction !== undefined &&
+    !TEXT_DIRECTIONS.includes(direction as string)
+  ) {
+    errors.push({
+      field: 'ui.direction',
+      code: 'INVALID_VALUE',
+      message: `Direction must be one of: ${TEXT_DIRECTIONS.join(', ')}`,
+      value: direction,
+    });
+  }
+
+  return { isValid: errors.length === 0, errors, warnings };
+}
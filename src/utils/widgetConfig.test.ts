@@ -0,0 +1,129 @@
+/**
+ * Tests for widget configuration utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WIDGET_CONFIG,
+  mergeWidgetConfig,
+  createWidgetConfig,
+  validateWidgetConfig,
+} from './widgetConfig';
+import type { WidgetOptions } from '../types/widget';
+
+const options: WidgetOptions = {
+  aws: {
+    instanceId: '12345678-1234-1234-1234-123456789012',
+    contactFlowId: '87654321-4321-4321-4321-210987654321',
+    apiGatewayEndpoint: 'https://api.example.com/connect',
+  },
+};
+
+describe('Widget configuration utilities', () => {
+  describe('mergeWidgetConfig', () => {
+    it('should merge nested objects', () => {
+      const merged = mergeWidgetConfig(
+        { theme: { primaryColor: '#000', secondaryColor: '#111' } },
+        { theme: { primaryColor: '#fff' } }
+      );
+
+      expect(merged).toEqual({
+        theme: { primaryColor: '#fff', secondaryColor: '#111' },
+      });
+    });
+
+    it('should replace arrays rather than merging them', () => {
+      const merged = mergeWidgetConfig(
+        { allowedMimeTypes: ['image/png', 'image/jpeg'] },
+        { allowedMimeTypes: ['application/pdf'] }
+      );
+
+      expect(merged.allowedMimeTypes).toEqual(['application/pdf']);
+    });
+
+    it('should ignore undefined values', () => {
+      const merged = mergeWidgetConfig(
+        { locale: 'fr', bottom: '20px' },
+        { locale: undefined }
+      );
+
+      expect(merged).toEqual({ locale: 'fr', bottom: '20px' });
+    });
+
+    it('should not modify the base configuration', () => {
+      const base = { theme: { primaryColor: '#000' } };
+      mergeWidgetConfig(base, { theme: { primaryColor: '#fff' } });
+
+      expect(base.theme.primaryColor).toBe('#000');
+    });
+  });
+
+  describe('createWidgetConfig', () => {
+    it('should fill every field from the defaults', () => {
+      const config = createWidgetConfig(options);
+
+      expect(config.aws.region).toBe('us-east-1');
+      expect(config.aws.instanceId).toBe(options.aws.instanceId);
+      expect(config.ui.theme).toEqual(DEFAULT_WIDGET_CONFIG.ui.theme);
+      expect(config.ui.messages).toHaveProperty('connectingMessage');
+      expect(config.features.typing).toBe(true);
+    });
+
+    it('should keep defaults next to partial overrides', () => {
+      const config = createWidgetConfig({
+        ...options,
+        ui: {
+          theme: { primaryColor: '#ff0000' },
+          messages: { welcomeMessage: 'Hi there' },
+        },
+        features: { fileUpload: true },
+      });
+
+      expect(config.ui.theme.primaryColor).toBe('#ff0000');
+      expect(config.ui.theme.borderRadius).toBe('8px');
+      expect(config.ui.messages.welcomeMessage).toBe('Hi there');
+      expect(config.ui.position.bottom).toBe('20px');
+      expect(config.features).toMatchObject({
+        fileUpload: true,
+        chatRatings: true,
+      });
+    });
+  });
+
+  describe('validateWidgetConfig', () => {
+    it('should accept the defaults with untranslated messages', () => {
+      const result = validateWidgetConfig(createWidgetConfig(options));
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject an invalid Connect instance id', () => {
+      const result = validateWidgetConfig(
+        createWidgetConfig({
+          ...options,
+          aws: { ...options.aws, instanceId: 'not-a-uuid' },
+        })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toContain(
+        'aws.instanceId'
+      );
+    });
+
+    it('should reject invalid merged values', () => {
+      const result = validateWidgetConfig(
+        createWidgetConfig({
+          ...options,
+          ui: { theme: { primaryColor: 'not-a-color' } },
+        })
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map(error => error.field)).toContain(
+        'ui.theme.primaryColor'
+      );
+    });
+  });
+});
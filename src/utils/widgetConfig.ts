@@ -0,0 +1,102 @@
+import type { ValidationResult } from '../types/validation';
+import type {
+  AWSConnectConfig,
+  DeepPartial,
+  WidgetConfig,
+  WidgetOptions,
+} from '../types/widget';
+import { DEFAULT_LOCALE, localizeMessages } from './i18n';
+import { validateConfiguration } from './validation';
+
+/**
+ * Complete widget configuration that embed options are merged over
+ * Messages left empty are shown translated for the visitor's locale
+ */
+export const DEFAULT_WIDGET_CONFIG: Omit<WidgetConfig, 'aws'> & {
+  aws: Partial<AWSConnectConfig>;
+} = {
+  aws: {
+    region: 'us-east-1',
+  },
+  ui: {
+    theme: {
+      primaryColor: '#007bff',
+      secondaryColor: '#6c757d',
+      fontFamily:
+        '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+      borderRadius: '8px',
+    },
+    position: {
+      bottom: '20px',
+      right: '20px',
+    },
+    messages: {
+      welcomeMessage: '',
+      offlineMessage: '',
+      waitingMessage: '',
+      connectingMessage: '',
+    },
+  },
+  features: {
+    fileUpload: false,
+    emojiPicker: false,
+    chatRatings: true,
+    chatTranscript: true,
+    typing: true,
+  },
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Merge a partial configuration over a complete one
+ * Nested objects are merged; arrays, functions and class instances replace
+ * the base value, and undefined values are ignored
+ */
+export const mergeWidgetConfig = <T>(
+  base: T,
+  overrides: DeepPartial<NoInfer<T>> | undefined
+): T => {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return (overrides === undefined ? base : overrides) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value === undefined) return;
+
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? mergeWidgetConfig(merged[key], value)
+        : value;
+  });
+
+  return merged as T;
+};
+
+/**
+ * Complete configuration for embed options
+ */
+export const createWidgetConfig = (options: WidgetOptions): WidgetConfig =>
+  mergeWidgetConfig(
+    DEFAULT_WIDGET_CONFIG as WidgetConfig,
+    options as DeepPartial<WidgetConfig>
+  );
+
+/**
+ * Validate a complete widget configuration before it is mounted
+ * Empty messages are translated at runtime, so they are checked with the
+ * English defaults filled in
+ */
+export const validateWidgetConfig = (config: WidgetConfig): ValidationResult =>
+  validateConfiguration({
+    ...config,
+    ui: {
+      ...config.ui,
+      messages: localizeMessages(config.ui?.messages, DEFAULT_LOCALE),
+    },
+  });
@@ -0,0 +1,155 @@
+/**
+ * Tests for widget event utilities
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { emitChatStateEvents } from './widgetEvents';
+import type { ChatState, Message } from '../types/chat';
+
+const createMessage = (id: string, minutes: number): Message => ({
+  id,
+  content: `Message ${id}`,
+  sender: 'agent',
+  timestamp: new Date(Date.UTC(2024, 0, 1, 12, minutes)),
+  status: 'delivered',
+  type: 'text',
+});
+
+const createState = (overrides: Partial<ChatState> = {}): ChatState => ({
+  status: 'connected',
+  messages: [],
+  visitor: { name: 'Visitor', sessionId: 'session-1' },
+  unreadCount: 0,
+  isTyping: false,
+  ...overrides,
+});
+
+const agent = {
+  id: 'agent-1',
+  name: 'Sam',
+  status: 'online' as const,
+  isTyping: false,
+};
+
+describe('Widget event utilities', () => {
+  describe('emitChatStateEvents', () => {
+    it('should emit nothing for an unchanged state', () => {
+      const emit = vi.fn();
+      const state = createState({ messages: [createMessage('1', 0)] });
+
+      emitChatStateEvents(state, { ...state }, emit);
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('should emit status changes', () => {
+      const emit = vi.fn();
+
+      emitChatStateEvents(
+        createState({ status: 'waiting' }),
+        createState({ status: 'connected' }),
+        emit
+      );
+
+      expect(emit).toHaveBeenCalledWith('statusChange', 'connected');
+    });
+
+    it('should emit new messages in order', () => {
+      const emit = vi.fn();
+      const first = createMessage('1', 0);
+      const second = createMessage('2', 1);
+      const third = createMessage('3', 2);
+
+      emitChatStateEvents(
+        createState({ messages: [first] }),
+        createState({ messages: [first, second, third] }),
+        emit
+      );
+
+      expect(emit.mock.calls).toEqual([
+        ['message', second],
+        ['message', third],
+      ]);
+    });
+
+    it('should not emit older history as new messages', () => {
+      const emit = vi.fn();
+      const older = createMessage('0', 0);
+      const current = createMessage('1', 5);
+
+      emitChatStateEvents(
+        createState({ messages: [current] }),
+        createState({ messages: [older, current] }),
+        emit
+      );
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('should not emit messages updated in place', () => {
+      const emit = vi.fn();
+      const sent = {
+        ...createMessage('local-1', 0),
+        sender: 'visitor' as const,
+      };
+
+      emitChatStateEvents(
+        createState({ messages: [sent] }),
+        createState({
+          messages: [{ ...sent, id: 'server-1', status: 'sent' }],
+        }),
+        emit
+      );
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('should emit when an agent joins', () => {
+      const emit = vi.fn();
+
+      emitChatStateEvents(
+        createState({ status: 'waiting' }),
+        createState({ status: 'waiting', agent }),
+        emit
+      );
+
+      expect(emit).toHaveBeenCalledWith('agentJoined', agent);
+    });
+
+    it('should not emit agent updates for the same agent', () => {
+      const emit = vi.fn();
+
+      emitChatStateEvents(
+        createState({ agent }),
+        createState({ agent: { ...agent, isTyping: true } }),
+        emit
+      );
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('should not report a restored chat as new activity', () => {
+      const emit = vi.fn();
+
+      emitChatStateEvents(
+        createState({ status: 'closed' }),
+        createState({ messages: [createMessage('1', 0)], agent }),
+        emit
+      );
+
+      expect(emit.mock.calls).toEqual([['statusChange', 'connected']]);
+    });
+
+    it('should emit unread count changes', () => {
+      const emit = vi.fn();
+
+      emitChatStateEvents(
+        createState({ unreadCount: 1 }),
+        createState({ unreadCount: 0 }),
+        emit
+      );
+
+      expect(emit).toHaveBeenCalledWith('unreadChange', 0);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import type { ChatState } from '../types/chat';
+import type { WidgetEventMap, WidgetEventName } from '../types/widget';
+
+/**
+ * Emits one widget event
+ */
+export type WidgetEventEmitter = <K extends WidgetEventName>(
+  event: K,
+  data: WidgetEventMap[K]
+) => void;
+
+/**
+ * Emit the widget events for a change between two chat state snapshots
+ * Messages restored or loaded from history are not reported as new, and
+ * neither is an agent restored with a resumed chat
+ */
+export const emitChatStateEvents = (
+  previous: ChatState,
+  next: ChatState,
+  emit: WidgetEventEmitter
+): void => {
+  if (next.status !== previous.status) {
+    emit('statusChange', next.status);
+  }
+
+  // A chat restored after a page load starts from the closed state
+  const isRestored = previous.status === 'closed';
+
+  if (!isRestored && next.messages.length > previous.messages.length) {
+    const knownIds = new Set(previous.messages.map(message => message.id));
+    const latest = Math.max(
+      ...previous.messages.map(message => message.timestamp.getTime())
+    );
+
+    next.messages
+      .filter(
+        message =>
+          !knownIds.has(message.id) && message.timestamp.getTime() >= latest
+      )
+      .forEach(message => emit('message', message));
+  }
+
+  if (!isRestored && next.agent && next.agent.id !== previous.agent?.id) {
+    emit('agentJoined', next.agent);
+  }
+
+  if (next.unreadCount !== previous.unreadCount) {
+    emit('unreadChange', next.unreadCount);
+  }
+};
@@ -77,7 +77,7 @@ describe('Widget Lifecycle Management', () => {
     vi.clearAllMocks();
 
     // Import the widget module
-    WidgetModule = await import('./widget-simple');
+    WidgetModule = await import('./widget');
 
     // Create a widget instance
     widgetInstance = WidgetModule.initializeWidget({
@@ -309,7 +309,7 @@ describe('Global Widget API', () => {
   });
 
   it('should expose global API', async () => {
-    await import('./widget-simple');
+    await import('./widget');
 
     expect((global as any).window.AWSConnectChatWidget).toBeDefined();
     expect((global as any).window.AWSConnectChatWidget.init).toBeInstanceOf(
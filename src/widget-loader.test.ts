@@ -0,0 +1,159 @@
+/**
+ * Tests for the iframe loader
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { loadWidgetFrame } from './widget-loader';
+import { FRAME_PROTOCOL, FRAME_SIZES } from './utils/frameProtocol';
+import type { FrameMessage, WidgetFrameInstance } from './types/frame';
+
+const FRAME_ORIGIN = 'https://chat.example.com';
+
+const options = {
+  frameUrl: `${FRAME_ORIGIN}/frame.html`,
+  aws: {
+    instanceId: '12345678-1234-1234-1234-123456789012',
+    contactFlowId: '87654321-4321-4321-4321-210987654321',
+  },
+  onError: vi.fn(),
+};
+
+describe('Widget loader', () => {
+  let widget: WidgetFrameInstance;
+
+  const load = () => {
+    widget = loadWidgetFrame(options);
+    const frameWindow = widget.element.contentWindow!;
+    const postMessage = vi
+      .spyOn(frameWindow, 'postMessage')
+      .mockImplementation(() => undefined);
+    return { frameWindow, postMessage };
+  };
+
+  const receive = (
+    message: FrameMessage,
+    { source = widget.element.contentWindow, origin = FRAME_ORIGIN } = {}
+  ) => {
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data: { ...message, protocol: FRAME_PROTOCOL },
+        origin,
+        source,
+      })
+    );
+  };
+
+  afterEach(() => {
+    widget?.destroy();
+    vi.clearAllMocks();
+  });
+
+  it('should add an iframe sized for the launcher', () => {
+    load();
+
+    expect(widget.element.parentElement).toBe(document.body);
+    expect(widget.element.src).toBe(options.frameUrl);
+    expect(widget.element.title).toBe('Chat');
+    expect(widget.element.style.width).toBe(FRAME_SIZES.closed.width);
+  });
+
+  it('should send the widget options once the frame loads', () => {
+    const { postMessage } = load();
+    widget.open();
+
+    expect(postMessage).not.toHaveBeenCalled();
+
+    widget.element.dispatchEvent(new Event('load'));
+
+    expect(postMessage).toHaveBeenNthCalledWith(
+      1,
+      {
+        protocol: FRAME_PROTOCOL,
+        type: 'init',
+        options: { aws: options.aws },
+      },
+      FRAME_ORIGIN
+    );
+    expect(postMessage).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ type: 'command', command: 'open' }),
+      FRAME_ORIGIN
+    );
+  });
+
+  it('should settle commands with the frame result', async () => {
+    const { postMessage } = load();
+    widget.element.dispatchEvent(new Event('load'));
+
+    const sent = widget.sendMessage('Hello');
+    const failed = widget.endChat();
+    const [, sentCommand, failedCommand] = postMessage.mock.calls.map(
+      ([message]) => message
+    );
+    receive({ type: 'result', id: sentCommand.id });
+    receive({ type: 'result', id: failedCommand.id, error: 'No active chat' });
+
+    await expect(sent).resolves.toBeUndefined();
+    await expect(failed).rejects.toThrow('No active chat');
+  });
+
+  it('should resize the iframe and report layout changes', () => {
+    load();
+    const handleLayout = vi.fn();
+    widget.on('layoutChange', handleLayout);
+
+    receive({ type: 'resize', layout: 'open', size: FRAME_SIZES.open });
+
+    expect(widget.element.style.height).toBe(FRAME_SIZES.open.height);
+    expect(widget.getLayout()).toBe('open');
+    expect(handleLayout).toHaveBeenCalledWith('open');
+  });
+
+  it('should report unread counts for the launcher', () => {
+    load();
+    const handleUnread = vi.fn();
+    widget.on('unreadChange', handleUnread);
+
+    receive({ type: 'unread', count: 3 });
+
+    expect(widget.getUnreadCount()).toBe(3);
+    expect(widget.element.getAttribute('data-unread-count')).toBe('3');
+    expect(handleUnread).toHaveBeenCalledWith(3);
+  });
+
+  it('should forward widget events and errors', () => {
+    load();
+    const handleStatus = vi.fn();
+    widget.on('statusChange', handleStatus);
+    const error = { code: 'CONFIG_INVALID', message: 'Invalid' } as const;
+
+    receive({ type: 'event', event: 'statusChange', data: 'connected' });
+    receive({ type: 'event', event: 'error', data: error });
+
+    expect(handleStatus).toHaveBeenCalledWith('connected');
+    expect(options.onError).toHaveBeenCalledWith(error);
+  });
+
+  it('should ignore messages from other windows and origins', () => {
+    load();
+    const handleUnread = vi.fn();
+    widget.on('unreadChange', handleUnread);
+
+    receive({ type: 'unread', count: 1 }, { origin: 'https://evil.example' });
+    receive({ type: 'unread', count: 1 }, { source: window });
+
+    expect(handleUnread).not.toHaveBeenCalled();
+  });
+
+  it('should remove the iframe and reject pending commands on destroy', async () => {
+    load();
+    widget.element.dispatchEvent(new Event('load'));
+    const pending = widget.sendMessage('Hello');
+
+    widget.destroy();
+
+    await expect(pending).rejects.toThrow('Widget instance was destroyed');
+    expect(widget.element.isConnected).toBe(false);
+    expect(widget.isDestroyed()).toBe(true);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Iframe Loader for AWS Connect Chat Widget
+ * Runs the widget in an iframe for pages whose Content Security Policy does
+ * not allow the widget's scripts and styles. The loader has no dependencies;
+ * the frame page loads the full widget and calls startFrame
+ */
+
+import {
+  createFrameMessage,
+  FRAME_SIZES,
+  isFrameMessage,
+} from './utils/frameProtocol';
+import type {
+  FrameCommand,
+  FrameCommandMap,
+  FrameMessage,
+  HostMessage,
+  WidgetFrameInstance,
+  WidgetLoaderOptions,
+} from './types/frame';
+import type {
+  DeepPartial,
+  WidgetConfig,
+  WidgetError,
+  WidgetEventHandler,
+  WidgetEventMap,
+  WidgetEventName,
+  WidgetLayout,
+  WidgetVisitor,
+} from './types/widget';
+
+/**
+ * Error handler used when none is given
+ */
+const logWidgetError = (error: WidgetError) => {
+  console.error('Widget Error:', error);
+};
+
+/**
+ * Widget running in an iframe on the host page
+ */
+class WidgetFrameInstanceImpl implements WidgetFrameInstance {
+  readonly element: HTMLIFrameElement;
+  private frameOrigin: string;
+  private onError: (error: WidgetError) => void;
+  private initMessage: HostMessage;
+  private loaded = false;
+  private destroyed = false;
+  private layout: WidgetLayout = 'closed';
+  private unreadCount = 0;
+  private nextRequestId = 1;
+  private pendingMessages: HostMessage[] = [];
+  private pendingRequests = new Map<
+    number,
+    { resolve: () => void; reject: (error: Error) => void }
+  >();
+  private eventHandlers: {
+    [K in WidgetEventName]: Set<WidgetEventHandler<K>>;
+  } = {
+    message: new Set(),
+    statusChange: new Set(),
+    agentJoined: new Set(),
+    unreadChange: new Set(),
+    layoutChange: new Set(),
+    error: new Set(),
+  };
+
+  constructor(options: WidgetLoaderOptions) {
+    const {
+      frameUrl,
+      title = 'Chat',
+      onError = logWidgetError,
+      ...widgetOptions
+    } = options;
+    const url = new URL(frameUrl, window.location.href);
+
+    this.frameOrigin = url.origin;
+    this.onError = onError;
+    this.initMessage = { type: 'init', options: widgetOptions };
+
+    this.element = document.createElement('iframe');
+    this.element.src = url.href;
+    this.element.title = title;
+    this.element.setAttribute('data-unread-count', '0');
+    Object.assign(this.element.style, {
+      position: 'fixed',
+      bottom: '0',
+      border: 'none',
+      background: 'transparent',
+      colorScheme: 'normal',
+      zIndex: '2147483647', // Maximum z-index
+      ...FRAME_SIZES.closed,
+    });
+    // Follow the side the launcher is configured on
+    if (widgetOptions.ui?.position?.left !== undefined) {
+      this.element.style.left = '0';
+    } else {
+      this.element.style.right = '0';
+    }
+
+    this.element.addEventListener('load', this.handleLoad);
+    window.addEventListener('message', this.handleMessage);
+    document.body.appendChild(this.element);
+  }
+
+  open(): void {
+    this.runCommand('open', []);
+  }
+
+  close(): void {
+    this.runCommand('close', []);
+  }
+
+  minimize(): void {
+    this.runCommand('minimize', []);
+  }
+
+  startChat(
+    visitor?: WidgetVisitor,
+    attributes?: Record<string, string>
+  ): void {
+    this.runCommand('startChat', [visitor, attributes]);
+  }
+
+  sendMessage(text: string): Promise<void> {
+    return this.request('sendMessage', [text]);
+  }
+
+  endChat(): Promise<void> {
+    return this.request('endChat', []);
+  }
+
+  setVisitor(visitor: WidgetVisitor): void {
+    this.runCommand('setVisitor', [visitor]);
+  }
+
+  updateConfig(config: DeepPartial<WidgetConfig>): Promise<void> {
+    return this.request('updateConfig', [config]);
+  }
+
+  getLayout(): WidgetLayout {
+    return this.layout;
+  }
+
+  getUnreadCount(): number {
+    return this.unreadCount;
+  }
+
+  on<K extends WidgetEventName>(
+    event: K,
+    handler: WidgetEventHandler<K>
+  ): () => void {
+    if (this.destroyed) {
+      throw new Error('Cannot subscribe to destroyed widget instance');
+    }
+
+    this.eventHandlers[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<K extends WidgetEventName>(
+    event: K,
+    handler: WidgetEventHandler<K>
+  ): void {
+    this.eventHandlers[event].delete(handler);
+  }
+
+  destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    this.post({ type: 'destroy' });
+    this.element.removeEventListener('load', this.handleLoad);
+    window.removeEventListener('message', this.handleMessage);
+    this.element.remove();
+
+    this.pendingRequests.forEach(({ reject }) =>
+      reject(new Error('Widget instance was destroyed'))
+    );
+    this.pendingRequests.clear();
+    this.pendingMessages = [];
+    Object.values(this.eventHandlers).forEach(handlers => handlers.clear());
+
+    this.destroyed = true;
+  }
+
+  isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /**
+   * Run a command whose result the caller does not wait for
+   * Failures are reported like other widget errors
+   */
+  private runCommand<K extends FrameCommand>(
+    command: K,
+    args: FrameCommandMap[K]
+  ): void {
+    this.request(command, args).catch(error =>
+      this.reportError({
+        code: 'WIDGET_ERROR',
+        message: error instanceof Error ? error.message : String(error),
+        details: { command },
+      })
+    );
+  }
+
+  /**
+   * Run a command in the frame and wait for its result
+   */
+  private request<K extends FrameCommand>(
+    command: K,
+    args: FrameCommandMap[K]
+  ): Promise<void> {
+    if (this.destroyed) {
+      return Promise.reject(
+        new Error('Cannot control destroyed widget instance')
+      );
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      this.post({ type: 'command', id, command, args } as HostMessage);
+    });
+  }
+
+  /**
+   * Post a message to the frame, or queue it until the frame has loaded
+   */
+  private post(message: HostMessage): void {
+    if (!this.loaded) {
+      this.pendingMessages.push(message);
+      return;
+    }
+
+    this.element.contentWindow?.postMessage(
+      createFrameMessage(message),
+      this.frameOrigin
+    );
+  }
+
+  /**
+   * Send the widget options whenever the frame page loads, then anything
+   * queued in the meantime
+   */
+  private handleLoad = (): void => {
+    this.loaded = true;
+    this.post(this.initMessage);
+
+    const queued = this.pendingMessages;
+    this.pendingMessages = [];
+    queued.forEach(message => this.post(message));
+  };
+
+  private handleMessage = (event: MessageEvent): void => {
+    if (
+      event.source !== this.element.contentWindow ||
+      event.origin !== this.frameOrigin ||
+      !isFrameMessage(event.data)
+    ) {
+      return;
+    }
+
+    const message: FrameMessage = event.data;
+    switch (message.type) {
+      case 'result': {
+        const request = this.pendingRequests.get(message.id);
+        this.pendingRequests.delete(message.id);
+        if (message.error === undefined) {
+          request?.resolve();
+        } else {
+          request?.reject(new Error(message.error));
+        }
+        break;
+      }
+      case 'resize':
+        Object.assign(this.element.style, message.size);
+        if (message.layout !== this.layout) {
+          this.layout = message.layout;
+          this.emit('layoutChange', message.layout);
+        }
+        break;
+      case 'unread':
+        this.unreadCount = message.count;
+        this.element.setAttribute('data-unread-count', String(message.count));
+        this.emit('unreadChange', message.count);
+        break;
+      case 'event':
+        if (message.event === 'error') {
+          this.reportError(message.data);
+        } else {
+          this.emit(message.event, message.data as never);
+        }
+        break;
+    }
+  };
+
+  private emit = <K extends WidgetEventName>(
+    event: K,
+    data: WidgetEventMap[K]
+  ): void => {
+    this.eventHandlers[event].forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Error in widget ${event} handler:`, error);
+      }
+    });
+  };
+
+  private reportError = (error: WidgetError): void => {
+    this.emit('error', error);
+    this.onError(error);
+  };
+}
+
+/**
+ * Load the chat widget in an iframe
+ * @param options Frame page URL and the widget options to send it
+ * @returns Widget instance for external control
+ */
+export function loadWidgetFrame(
+  options: WidgetLoaderOptions
+): WidgetFrameInstance {
+  return new WidgetFrameInstanceImpl(options);
+}
+
+// Named export mirrors the embed module's init
+export const init = loadWidgetFrame;
+export type { WidgetFrameInstance, WidgetLoaderOptions };
@@ -0,0 +1,223 @@
+/**
+ * Tests for running several widgets on one page and for the iframe mode
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  getWidgetInstance,
+  initializeWidget,
+  startWidgetFrame,
+} from './widget';
+import { FRAME_PROTOCOL } from './utils/frameProtocol';
+import type { HostMessage } from './types/frame';
+import type { WidgetInitOptions, WidgetInstance } from './types/widget';
+
+const options = (contactFlowId: string): WidgetInitOptions => ({
+  aws: {
+    instanceId: '12345678-1234-1234-1234-123456789012',
+    contactFlowId,
+    apiGatewayEndpoint: 'https://api.example.com/connect',
+  },
+  autoMount: false,
+  onError: () => undefined,
+});
+
+const SALES_FLOW = '11111111-1111-1111-1111-111111111111';
+const SUPPORT_FLOW = '22222222-2222-2222-2222-222222222222';
+
+describe('Widget instances', () => {
+  const created: WidgetInstance[] = [];
+  const init = (initOptions: WidgetInitOptions) => {
+    const instance = initializeWidget(initOptions);
+    created.push(instance);
+    return instance;
+  };
+
+  afterEach(() => {
+    created.splice(0).forEach(instance => instance.destroy());
+  });
+
+  it('should scope storage to the instance id', () => {
+    const sales = init({ ...options(SALES_FLOW), id: 'sales' });
+    const support = init({ ...options(SUPPORT_FLOW), id: 'support' });
+
+    expect(sales.getState().config.storageNamespace).toBe('sales');
+    expect(support.getState().config.storageNamespace).toBe('support');
+    expect(support.getState().config.aws.contactFlowId).toBe(SUPPORT_FLOW);
+  });
+
+  it('should keep the unscoped storage for the default widget', () => {
+    const widget = init(options(SALES_FLOW));
+
+    expect(widget.getState().id).toBeNull();
+    expect(widget.getState().config.storageNamespace).toBeUndefined();
+  });
+
+  it('should look up live instances by id', () => {
+    const widget = init(options(SALES_FLOW));
+    const sales = init({ ...options(SALES_FLOW), id: 'sales' });
+
+    expect(getWidgetInstance()).toBe(widget);
+    expect(getWidgetInstance('sales')).toBe(sales);
+    expect(getWidgetInstance('support')).toBeUndefined();
+  });
+
+  it('should reject a second widget with the same id', () => {
+    init({ ...options(SALES_FLOW), id: 'sales' });
+
+    expect(() => init({ ...options(SUPPORT_FLOW), id: 'sales' })).toThrow(
+      'A widget with id "sales" is already initialized'
+    );
+    expect(() => init(options(SALES_FLOW))).not.toThrow();
+    expect(() => init(options(SUPPORT_FLOW))).toThrow(
+      'pass a unique id to add another'
+    );
+  });
+
+  it('should free the id when the widget is destroyed', () => {
+    const first = init({ ...options(SALES_FLOW), id: 'sales' });
+    first.destroy();
+
+    expect(getWidgetInstance('sales')).toBeUndefined();
+    expect(() => init({ ...options(SALES_FLOW), id: 'sales' })).not.toThrow();
+  });
+
+  it('should keep event handlers per instance', () => {
+    const sales = init({ ...options(SALES_FLOW), id: 'sales' });
+    const support = init({ ...options(SUPPORT_FLOW), id: 'support' });
+    let salesErrors = 0;
+    let supportErrors = 0;
+    sales.on('error', () => salesErrors++);
+    support.on('error', () => supportErrors++);
+
+    expect(() => support.updateConfig({ aws: { region: '' } })).toThrow();
+
+    expect(salesErrors).toBe(0);
+    expect(supportErrors).toBe(1);
+  });
+
+  it('should report commands sent to a destroyed widget', async () => {
+    const onError = vi.fn();
+    const widget = init({ ...options(SALES_FLOW), onError });
+    widget.destroy();
+
+    expect(() => widget.open()).not.toThrow();
+    await expect(widget.sendMessage('Hello')).rejects.toThrow(
+      'Cannot control destroyed widget instance'
+    );
+    expect(onError).toHaveBeenCalledWith({
+      code: 'WIDGET_ERROR',
+      message: 'Cannot control destroyed widget instance',
+      details: { command: 'open' },
+    });
+  });
+});
+
+describe('Widget frame', () => {
+  const HOST_ORIGIN = 'https://www.example.com';
+  let stopFrame: (() => void) | undefined;
+
+  const start = () => {
+    const postMessage = vi
+      .spyOn(window.parent, 'postMessage')
+      .mockImplementation(() => undefined);
+    stopFrame = startWidgetFrame({ allowedOrigins: [HOST_ORIGIN] });
+    return postMessage;
+  };
+
+  const receive = (
+    message: HostMessage,
+    { origin = HOST_ORIGIN, source = window.parent } = {}
+  ) => {
+    window.dispatchEvent(
+      new MessageEvent('message', {
+        data: { ...message, protocol: FRAME_PROTOCOL },
+        origin,
+        source,
+      })
+    );
+  };
+
+  afterEach(() => {
+    stopFrame?.();
+    vi.restoreAllMocks();
+  });
+
+  it('should reject commands before the widget is initialized', () => {
+    const postMessage = start();
+
+    receive({ type: 'command', id: 1, command: 'open', args: [] });
+
+    expect(postMessage).toHaveBeenCalledWith(
+      {
+        protocol: FRAME_PROTOCOL,
+        type: 'result',
+        id: 1,
+        error: 'Widget frame is not initialized',
+      },
+      HOST_ORIGIN
+    );
+  });
+
+  it('should report an invalid configuration to the host', () => {
+    const postMessage = start();
+
+    receive({
+      type: 'init',
+      options: { aws: { instanceId: 'invalid', contactFlowId: 'invalid' } },
+    });
+
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'event',
+        event: 'error',
+        data: expect.objectContaining({ code: 'CONFIG_INVALID' }),
+      }),
+      HOST_ORIGIN
+    );
+  });
+
+  it('should ignore origins that are not allowed', () => {
+    const postMessage = start();
+
+    receive(
+      { type: 'command', id: 1, command: 'open', args: [] },
+      { origin: 'https://evil.example' }
+    );
+
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should only answer the host that initialized it', () => {
+    const postMessage = vi
+      .spyOn(window.parent, 'postMessage')
+      .mockImplementation(() => undefined);
+    stopFrame = startWidgetFrame({
+      allowedOrigins: ['https://*.example.com'],
+    });
+
+    receive(
+      { type: 'command', id: 1, command: 'open', args: [] },
+      { origin: 'https://shop.example.com' }
+    );
+    receive(
+      { type: 'command', id: 2, command: 'open', args: [] },
+      { origin: 'https://blog.example.com' }
+    );
+
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    expect(postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 1 }),
+      'https://shop.example.com'
+    );
+  });
+
+  it('should stop listening once stopped', () => {
+    const postMessage = start();
+    stopFrame?.();
+
+    receive({ type: 'command', id: 1, command: 'open', args: [] });
+
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+});
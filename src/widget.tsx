@@ -1,29 +1,116 @@
 import React from 'react';
 import { createRoot, type Root } from 'react-dom/client';
 import { ChatWidget } from './components/ChatWidget';
-import { ThemeProvider } from './components/ThemeProvider';
-import type { WidgetConfig, WidgetError } from './types/widget';
+import { ThemeProvider, useDirection } from './components/ThemeProvider';
+import { I18nProvider, useTranslation } from './components/I18nProvider';
+import { WidgetRootProvider } from './components/WidgetRoot';
+import { attachStyleSheet } from './utils/styled';
+import {
+  createWidgetConfig,
+  mergeWidgetConfig,
+  validateWidgetConfig,
+} from './utils/widgetConfig';
+import { emitChatStateEvents } from './utils/widgetEvents';
+import {
+  FRAME_SIZES,
+  createFrameMessage,
+  isAllowedOrigin,
+  isHostMessage,
+} from './utils/frameProtocol';
+import type {
+  DeepPartial,
+  WidgetConfig,
+  WidgetError,
+  WidgetEventHandler,
+  WidgetEventMap,
+  WidgetEventName,
+  WidgetInitOptions,
+  WidgetInstance,
+  WidgetInstanceState,
+  WidgetLayout,
+  WidgetOptions,
+  WidgetState,
+  WidgetVisitor,
+} from './types/widget';
+import type { ChatState } from './types/chat';
+import type {
+  FrameCommandMap,
+  FrameMessage,
+  WidgetFrameOptions,
+} from './types/frame';
+import type { ChatWidgetHandle } from './types/ui';
 import './styles/theme.css';
 
 /**
- * Widget initialization options
+ * Widget version reported by the global API
  */
-export interface WidgetInitOptions extends WidgetConfig {
-  containerId?: string;
-  autoMount?: boolean;
-}
+export const version = '1.0.0';
 
 /**
- * Widget instance interface for external control
+ * Id of the container created when none is given
+ * Widgets initialized with an id append it, e.g. aws-connect-chat-widget-sales
  */
-export interface WidgetInstance {
-  mount(containerId?: string): void;
-  unmount(): void;
-  destroy(): void;
-  updateConfig(config: Partial<WidgetConfig>): void;
-  getState(): any;
-  isDestroyed(): boolean;
-}
+const DEFAULT_CONTAINER_ID = 'aws-connect-chat-widget';
+
+/**
+ * Live widget instances by id; the unscoped default widget is keyed by null
+ */
+const instances = new Map<string | null, WidgetInstance>();
+
+/**
+ * Styles injected into the shadow root in Shadow DOM mode
+ * Inherited page styles are reset on the host before the widget stylesheets
+ */
+const SHADOW_STYLES = [
+  ':host { all: initial; display: block; }',
+  ...Object.values(
+    import.meta.glob<string>('./styles/*.css', {
+      query: '?inline',
+      import: 'default',
+      eager: true,
+    })
+  ),
+].join('\n');
+
+/**
+ * Error handler used when none is given
+ */
+const logWidgetError = (error: WidgetError) => {
+  console.error('Widget Error:', error);
+};
+
+/**
+ * Message shown in place of the widget after an error
+ */
+const WidgetUnavailable: React.FC = () => {
+  const { t } = useTranslation();
+  const direction = useDirection();
+
+  return (
+    <div
+      dir={direction}
+      style={{
+        position: 'fixed',
+        bottom: '20px',
+        insetInlineEnd: '20px',
+        padding: '12px',
+        backgroundColor: '#f8f9fa',
+        border: '1px solid #dee2e6',
+        borderRadius: '8px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        maxWidth: '300px',
+        fontSize: '14px',
+        color: '#6c757d',
+        zIndex: 1000,
+      }}
+    >
+      <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
+        {t('widget.unavailable')}
+      </div>
+      <div>{t('widget.refresh')}</div>
+    </div>
+  );
+};
 
 /**
  * Error boundary component for the widget
@@ -55,29 +142,7 @@ class WidgetErrorBoundary extends React.Component<
 
   render() {
     if (this.state.hasError) {
-      return (
-        <div
-          style={{
-            position: 'fixed',
-            bottom: '20px',
-            right: '20px',
-            padding: '12px',
-            backgroundColor: '#f8f9fa',
-            border: '1px solid #dee2e6',
-            borderRadius: '8px',
-            boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
-            maxWidth: '300px',
-            fontSize: '14px',
-            color: '#6c757d',
-            zIndex: 1000,
-          }}
-        >
-          <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>
-            Chat temporarily unavailable
-          </div>
-          <div>Please refresh the page to try again.</div>
-        </div>
-      );
+      return <WidgetUnavailable />;
     }
 
     return this.props.children;
@@ -85,52 +150,85 @@ class WidgetErrorBoundary extends React.Component<
 }
 
 /**
- * Default widget configuration
+ * Validate a configuration before it is used
+ * Warnings are logged; errors are reported and thrown
  */
-const DEFAULT_CONFIG: WidgetConfig = {
-  aws: {
-    region: 'us-east-1',
-    instanceId: '',
-    contactFlowId: '',
-    apiGatewayEndpoint: '',
-  },
-  ui: {
-    theme: {
-      primaryColor: '#007bff',
-      secondaryColor: '#6c757d',
-      fontFamily:
-        '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-      borderRadius: '8px',
-    },
-    position: {
-      bottom: '20px',
-      right: '20px',
-    },
-    messages: {
-      welcomeMessage: 'Hello! How can we help you today?',
-      offlineMessage: 'We are currently offline. Please leave a message.',
-      waitingMessage: 'Connecting you to an agent...',
-    },
-  },
-  features: {
-    fileUpload: false,
-    emojiPicker: false,
-    chatRatings: true,
-    chatTranscript: true,
-  },
+const assertValidConfig = (
+  config: WidgetConfig,
+  onError: (error: WidgetError) => void
+): void => {
+  const { isValid, errors, warnings } = validateWidgetConfig(config);
+
+  warnings.forEach(warning => {
+    console.warn(`Widget configuration: ${warning.field}: ${warning.message}`);
+  });
+
+  if (!isValid) {
+    const message = `Invalid widget configuration: ${errors
+      .map(error => `${error.field}: ${error.message}`)
+      .join('; ')}`;
+
+    onError({ code: 'CONFIG_INVALID', message, details: { errors } });
+    throw new Error(message);
+  }
 };
 
 /**
  * Widget instance implementation
  */
 class WidgetInstanceImpl implements WidgetInstance {
+  private id: string | null;
   private root: Root | null = null;
   private container: HTMLElement | null = null;
+  private ownsContainer = false;
+  private shadowDom: boolean;
+  private shadowRoot: ShadowRoot | null = null;
+  private shadowNodes: HTMLElement[] = [];
+  private portalContainer: HTMLElement | null = null;
+  private detachStyleSheet: (() => void) | null = null;
   private config: WidgetConfig;
+  private onError: (error: WidgetError) => void;
   private destroyed = false;
+  private eventListeners: Array<{
+    element: Element | Window | Document;
+    event: string;
+    handler: EventListener;
+  }> = [];
+  private timeouts: ReturnType<typeof setTimeout>[] = [];
+  private handle: ChatWidgetHandle | null = null;
+  private pendingCommands: Array<(handle: ChatWidgetHandle) => void> = [];
+  private widgetState: WidgetState = 'closed';
+  private layout: WidgetLayout = 'closed';
+  private chatState: ChatState | null = null;
+  private eventHandlers: {
+    [K in WidgetEventName]: Set<WidgetEventHandler<K>>;
+  } = {
+    message: new Set(),
+    statusChange: new Set(),
+    agentJoined: new Set(),
+    unreadChange: new Set(),
+    layoutChange: new Set(),
+    error: new Set(),
+  };
 
-  constructor(config: WidgetConfig) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+  constructor(
+    id: string | null,
+    config: WidgetConfig,
+    onError: (error: WidgetError) => void,
+    shadowDom = false
+  ) {
+    this.id = id;
+    this.config = config;
+    this.onError = onError;
+    this.shadowDom = shadowDom;
+
+    // Add cleanup on page unload
+    this.addEventListener(
+      window,
+      'beforeunload',
+      this.handlePageUnload.bind(this)
+    );
+    this.addEventListener(window, 'pagehide', this.handlePageUnload.bind(this));
   }
 
   mount(containerId?: string): void {
@@ -152,16 +250,24 @@ class WidgetInstanceImpl implements WidgetInstance {
     } else {
       // Create default container
       this.container = document.createElement('div');
-      this.container.id = 'aws-connect-chat-widget';
+      this.container.id = this.id
+        ? `${DEFAULT_CONTAINER_ID}-${this.id}`
+        : DEFAULT_CONTAINER_ID;
       this.container.style.position = 'fixed';
       this.container.style.zIndex = '2147483647'; // Maximum z-index
       this.container.style.pointerEvents = 'none'; // Allow clicks through container
       document.body.appendChild(this.container);
+      this.ownsContainer = true;
     }
 
     // Create React root and render
-    this.root = createRoot(this.container);
+    this.root = createRoot(
+      this.shadowDom ? this.attachShadow(this.container) : this.container
+    );
     this.render();
+
+    // Start memory leak monitoring
+    this.setTimeout(() => this.checkMemoryLeaks(), 30000);
   }
 
   unmount(): void {
@@ -170,34 +276,71 @@ class WidgetInstanceImpl implements WidgetInstance {
       this.root = null;
     }
 
-    if (this.container && this.container.id === 'aws-connect-chat-widget') {
+    // Remove what was added to the shadow root
+    this.detachStyleSheet?.();
+    this.detachStyleSheet = null;
+    this.shadowNodes.forEach(node => node.remove());
+    this.shadowNodes = [];
+    this.shadowRoot = null;
+    this.portalContainer = null;
+
+    if (this.container && this.ownsContainer) {
       // Only remove if we created the container
       this.container.remove();
-      this.container = null;
     }
+    this.container = null;
+    this.ownsContainer = false;
   }
 
   destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    // Cleanup React components
     this.unmount();
+
+    // Cleanup event listeners
+    this.removeAllEventListeners();
+
+    // Cleanup timers
+    this.clearAllTimers();
+
+    // Drop queued commands and subscribers
+    this.pendingCommands = [];
+    Object.values(this.eventHandlers).forEach(handlers => handlers.clear());
+
+    // Free the id for a new widget
+    if (instances.get(this.id) === this) {
+      instances.delete(this.id);
+    }
+
     this.destroyed = true;
   }
 
-  updateConfig(config: Partial<WidgetConfig>): void {
+  updateConfig(config: DeepPartial<WidgetConfig>): void {
     if (this.destroyed) {
       throw new Error('Cannot update config of destroyed widget instance');
     }
 
-    this.config = { ...this.config, ...config };
+    const nextConfig = mergeWidgetConfig(this.config, config);
+    assertValidConfig(nextConfig, this.reportError);
+
+    this.config = nextConfig;
     if (this.root) {
       this.render();
     }
   }
 
-  getState(): any {
+  getState(): WidgetInstanceState {
     return {
+      id: this.id,
       mounted: !!this.root,
       destroyed: this.destroyed,
       config: this.config,
+      widgetState: this.widgetState,
+      layout: this.layout,
+      chat: this.chatState,
     };
   }
 
@@ -205,21 +348,283 @@ class WidgetInstanceImpl implements WidgetInstance {
     return this.destroyed;
   }
 
+  open(): void {
+    this.runCommand('open', handle => handle.open());
+  }
+
+  close(): void {
+    this.runCommand('close', handle => handle.close());
+  }
+
+  minimize(): void {
+    this.runCommand('minimize', handle => handle.minimize());
+  }
+
+  startChat(
+    visitor?: WidgetVisitor,
+    attributes?: Record<string, string>
+  ): void {
+    this.runCommand('startChat', handle =>
+      handle.startChat(visitor, attributes)
+    );
+  }
+
+  sendMessage(text: string): Promise<void> {
+    return this.request(handle => handle.sendMessage(text));
+  }
+
+  endChat(): Promise<void> {
+    return this.request(handle => handle.endChat());
+  }
+
+  setVisitor(visitor: WidgetVisitor): void {
+    this.runCommand('setVisitor', handle => handle.setVisitor(visitor));
+  }
+
+  on<K extends WidgetEventName>(
+    event: K,
+    handler: WidgetEventHandler<K>
+  ): () => void {
+    this.eventHandlers[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<K extends WidgetEventName>(
+    event: K,
+    handler: WidgetEventHandler<K>
+  ): void {
+    this.eventHandlers[event].delete(handler);
+  }
+
+  /**
+   * Notify subscribers of an event
+   */
+  private emit = <K extends WidgetEventName>(
+    event: K,
+    data: WidgetEventMap[K]
+  ): void => {
+    this.eventHandlers[event].forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+        console.error(`Error in widget ${event} handler:`, error);
+      }
+    });
+  };
+
+  /**
+   * Report errors to subscribers and the onError option
+   */
+  private reportError = (error: WidgetError): void => {
+    this.emit('error', error);
+    this.onError(error);
+  };
+
+  /**
+   * Run a command whose result the caller does not wait for
+   * Failures are reported like other widget errors
+   */
+  private runCommand(
+    name: string,
+    command: (handle: ChatWidgetHandle) => unknown
+  ): void {
+    this.request(command).catch(error =>
+      this.reportError({
+        code: 'WIDGET_ERROR',
+        message: error instanceof Error ? error.message : String(error),
+        details: { command: name },
+      })
+    );
+  }
+
+  /**
+   * Run a command against the rendered widget, or queue it until then
+   */
+  private request<T>(
+    command: (handle: ChatWidgetHandle) => T | Promise<T>
+  ): Promise<T> {
+    if (this.destroyed) {
+      return Promise.reject(
+        new Error('Cannot control destroyed widget instance')
+      );
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const run = (handle: ChatWidgetHandle) => {
+        try {
+          resolve(command(handle));
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      if (this.handle) {
+        run(this.handle);
+      } else {
+        this.pendingCommands.push(run);
+      }
+    });
+  }
+
+  /**
+   * Receive the rendered widget's controls and run queued commands
+   */
+  private setHandle = (handle: ChatWidgetHandle | null): void => {
+    this.handle = handle;
+
+    if (handle) {
+      const commands = this.pendingCommands;
+      this.pendingCommands = [];
+      commands.forEach(run => run(handle));
+    }
+  };
+
+  private handleWidgetStateChange = (state: WidgetState): void => {
+    this.widgetState = state;
+  };
+
+  private handleLayoutChange = (layout: WidgetLayout): void => {
+    if (layout !== this.layout) {
+      this.layout = layout;
+      this.emit('layoutChange', layout);
+    }
+  };
+
+  private handleChatStateChange = (state: ChatState): void => {
+    if (this.chatState) {
+      emitChatStateEvents(this.chatState, state, this.emit);
+    }
+    this.chatState = state;
+  };
+
+  /**
+   * Set up a shadow root with the widget styles and a dialog container
+   * Returns the element to render into
+   */
+  private attachShadow(host: HTMLElement): HTMLElement {
+    const shadowRoot = host.shadowRoot ?? host.attachShadow({ mode: 'open' });
+
+    const style = document.createElement('style');
+    style.setAttribute('data-chat-widget', '');
+    style.textContent = SHADOW_STYLES;
+    const mountPoint = document.createElement('div');
+    const portalContainer = document.createElement('div');
+    shadowRoot.append(style, mountPoint, portalContainer);
+
+    this.shadowRoot = shadowRoot;
+    this.shadowNodes = [style, mountPoint, portalContainer];
+    this.portalContainer = portalContainer;
+    // Styles generated by useStyles are kept in sync in the shadow root
+    this.detachStyleSheet = attachStyleSheet(shadowRoot);
+
+    return mountPoint;
+  }
+
+  /**
+   * Add event listener with automatic cleanup tracking
+   */
+  private addEventListener(
+    element: Element | Window | Document,
+    event: string,
+    handler: EventListener
+  ): void {
+    element.addEventListener(event, handler);
+    this.eventListeners.push({ element, event, handler });
+  }
+
+  /**
+   * Remove all tracked event listeners
+   */
+  private removeAllEventListeners(): void {
+    this.eventListeners.forEach(({ element, event, handler }) => {
+      try {
+        element.removeEventListener(event, handler);
+      } catch (error) {
+        console.warn('Failed to remove event listener:', error);
+      }
+    });
+    this.eventListeners = [];
+  }
+
+  /**
+   * Track timeout for cleanup
+   */
+  private setTimeout(
+    callback: () => void,
+    delay: number
+  ): ReturnType<typeof setTimeout> {
+    const timeoutId = setTimeout(callback, delay);
+    this.timeouts.push(timeoutId);
+    return timeoutId;
+  }
+
+  /**
+   * Clear all tracked timers
+   */
+  private clearAllTimers(): void {
+    this.timeouts.forEach(timeoutId => clearTimeout(timeoutId));
+    this.timeouts = [];
+  }
+
+  /**
+   * Handle page unload
+   */
+  private handlePageUnload(): void {
+    if (!this.destroyed) {
+      this.destroy();
+    }
+  }
+
+  /**
+   * Memory leak prevention - check for common issues
+   */
+  private checkMemoryLeaks(): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    // Check for excessive event listeners
+    if (this.eventListeners.length > 50) {
+      console.warn(
+        `⚠️ High number of event listeners (${this.eventListeners.length}). Possible memory leak.`
+      );
+    }
+
+    // Fired timers no longer need tracking
+    this.timeouts = [];
+    this.setTimeout(() => this.checkMemoryLeaks(), 30000); // Check every 30 seconds
+  }
+
   private render(): void {
     if (!this.root) return;
 
-    const handleError = (error: WidgetError) => {
-      console.error('Widget Error:', error);
-      // Could emit to external error handlers here
-    };
-
     this.root.render(
       <React.StrictMode>
-        <WidgetErrorBoundary onError={handleError}>
-          <ThemeProvider theme={this.config.ui.theme}>
-            <ChatWidget config={this.config} onError={handleError} />
-          </ThemeProvider>
-        </WidgetErrorBoundary>
+        <WidgetRootProvider
+          root={this.shadowRoot ?? document}
+          portalContainer={this.portalContainer ?? undefined}
+        >
+          <I18nProvider
+            locale={this.config.ui.locale}
+            messages={this.config.ui.messages}
+          >
+            <WidgetErrorBoundary onError={this.reportError}>
+              <ThemeProvider
+                theme={this.config.ui.theme}
+                direction={this.config.ui.direction}
+              >
+                <ChatWidget
+                  ref={this.setHandle}
+                  config={this.config}
+                  onStateChange={this.handleWidgetStateChange}
+                  onChatStateChange={this.handleChatStateChange}
+                  onLayoutChange={this.handleLayoutChange}
+                  onError={this.reportError}
+                />
+              </ThemeProvider>
+            </WidgetErrorBoundary>
+          </I18nProvider>
+        </WidgetRootProvider>
       </React.StrictMode>
     );
   }
@@ -227,18 +632,44 @@ class WidgetInstanceImpl implements WidgetInstance {
 
 /**
  * Initialize the chat widget
+ * Options are merged over the widget defaults and validated before anything
+ * mounts; an invalid configuration is reported to onError and thrown
  * @param options Widget configuration and initialization options
  * @returns Widget instance for external control
  */
 export function initializeWidget(options: WidgetInitOptions): WidgetInstance {
-  const { containerId, autoMount = true, ...config } = options;
-
-  // Validate required configuration
-  if (!config.aws?.instanceId || !config.aws?.contactFlowId) {
-    throw new Error('AWS Connect instanceId and contactFlowId are required');
+  const {
+    id,
+    containerId,
+    autoMount = true,
+    shadowDom = false,
+    onError = logWidgetError,
+    ...widgetOptions
+  } = options;
+
+  // Each id keeps its own chat, visitor and contact in storage
+  const config = createWidgetConfig({
+    ...widgetOptions,
+    storageNamespace: widgetOptions.storageNamespace ?? id,
+  });
+  assertValidConfig(config, onError);
+
+  const instanceId = id ?? null;
+  if (instances.has(instanceId)) {
+    throw new Error(
+      id
+        ? `A widget with id "${id}" is already initialized`
+        : 'A widget is already initialized; pass a unique id to add another'
+    );
   }
 
-  const instance = new WidgetInstanceImpl(config);
+  const instance = new WidgetInstanceImpl(
+    instanceId,
+    config,
+    onError,
+    shadowDom
+  );
+  instances.set(instanceId, instance);
 
   if (autoMount) {
     // Mount when DOM is ready
@@ -254,6 +685,119 @@ export function initializeWidget(options: WidgetInitOptions): WidgetInstance {
   return instance;
 }
 
+/**
+ * Look up a live widget instance
+ * @param id Id passed to init; omit it for the default widget
+ * @returns The instance, or undefined once it has been destroyed
+ */
+export function getWidgetInstance(id?: string): WidgetInstance | undefined {
+  return instances.get(id ?? null);
+}
+
+/**
+ * Serve the widget to a host page that embeds this page in an iframe
+ * The host's loader sends the widget options once the frame loads. Messages
+ * are only accepted from the parent window on an allowed origin, and the
+ * first host to initialize the frame keeps it
+ * @param options Host pages allowed to control the frame
+ * @returns Function that stops listening and destroys the widget
+ */
+export function startWidgetFrame(options: WidgetFrameOptions): () => void {
+  const { allowedOrigins } = options;
+  let instance: WidgetInstance | null = null;
+  let hostOrigin: string | null = null;
+
+  const post = (message: FrameMessage) => {
+    if (hostOrigin) {
+      window.parent.postMessage(createFrameMessage(message), hostOrigin);
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (
+      event.source !== window.parent ||
+      !isHostMessage(event.data) ||
+      !isAllowedOrigin(event.origin, allowedOrigins) ||
+      (hostOrigin !== null && event.origin !== hostOrigin)
+    ) {
+      return;
+    }
+    hostOrigin = event.origin;
+    const message = event.data;
+
+    if (message.type === 'init') {
+      instance?.destroy();
+      instance = null;
+
+      try {
+        instance = initializeWidget({
+          ...message.options,
+          onError: error =>
+            post({ type: 'event', event: 'error', data: error }),
+        });
+      } catch {
+        // Already reported to the host through onError
+        return;
+      }
+
+      instance.on('message', data =>
+        post({ type: 'event', event: 'message', data })
+      );
+      instance.on('statusChange', data =>
+        post({ type: 'event', event: 'statusChange', data })
+      );
+      instance.on('agentJoined', data =>
+        post({ type: 'event', event: 'agentJoined', data })
+      );
+      instance.on('unreadChange', count => post({ type: 'unread', count }));
+      instance.on('layoutChange', layout =>
+        post({ type: 'resize', layout, size: FRAME_SIZES[layout] })
+      );
+      post({ type: 'resize', layout: 'closed', size: FRAME_SIZES.closed });
+      return;
+    }
+
+    if (message.type === 'destroy') {
+      instance?.destroy();
+      instance = null;
+      return;
+    }
+
+    const { id, command, args } = message;
+    const target = instance;
+    if (!target || target.isDestroyed()) {
+      post({ type: 'result', id, error: 'Widget frame is not initialized' });
+      return;
+    }
+
+    const run = target[command] as (
+      ...commandArgs: FrameCommandMap[typeof command]
+    ) => unknown;
+
+    Promise.resolve()
+      .then(() => run.apply(target, args))
+      .then(
+        () => post({ type: 'result', id }),
+        error =>
+          post({
+            type: 'result',
+            id,
+            error: error instanceof Error ? error.message : String(error),
+          })
+      );
+  };
+
+  // Let the host page show through around the launcher
+  document.documentElement.style.background = 'transparent';
+  window.addEventListener('message', handleMessage);
+
+  return () => {
+    window.removeEventListener('message', handleMessage);
+    instance?.destroy();
+    instance = null;
+  };
+}
+
 /**
  * Global widget API for script integration
  */
@@ -261,6 +805,8 @@ declare global {
   interface Window {
     AWSConnectChatWidget?: {
       init: typeof initializeWidget;
+      getInstance: typeof getWidgetInstance;
+      startFrame: typeof startWidgetFrame;
       version: string;
     };
   }
@@ -270,9 +816,27 @@ declare global {
 if (typeof window !== 'undefined') {
   window.AWSConnectChatWidget = {
     init: initializeWidget,
-    version: '1.0.0',
+    getInstance: getWidgetInstance,
+    startFrame: startWidgetFrame,
+    version,
   };
 }
 
+// Named exports mirror the global API for the ES and UMD builds
+export const init = initializeWidget;
+export const getInstance = getWidgetInstance;
+export const startFrame = startWidgetFrame;
 export { ChatWidget, ThemeProvider };
-export type { WidgetConfig, WidgetError };
+export type {
+  WidgetConfig,
+  WidgetError,
+  WidgetFrameOptions,
+  WidgetLayout,
+  WidgetEventMap,
+  WidgetEventName,
+  WidgetInitOptions,
+  WidgetInstance,
+  WidgetInstanceState,
+  WidgetOptions,
+  WidgetVisitor,
+};
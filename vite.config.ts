@@ -5,6 +5,29 @@ import { resolve } from 'node:path';
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
   const isLibrary = mode === 'library';
+  const isLoader = mode === 'loader';
+
+  if (isLoader) {
+    // Dependency-free iframe loader, built next to the library bundle
+    return {
+      build: {
+        lib: {
+          entry: resolve(__dirname, 'src/widget-loader.ts'),
+          name: 'AWSConnectChatWidgetLoader',
+          fileName: format => `aws-connect-chat-loader.${format}.js`,
+          formats: ['umd', 'es'],
+        },
+        rollupOptions: {
+          output: {
+            exports: 'named',
+          },
+        },
+        emptyOutDir: false,
+        minify: 'terser',
+        sourcemap: true,
+      },
+    };
+  }
 
   if (isLibrary) {
     // Library build configuration for embeddable widget
@@ -12,7 +35,7 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       build: {
         lib: {
-          entry: resolve(__dirname, 'src/widget-simple.tsx'),
+          entry: resolve(__dirname, 'src/widget.tsx'),
           name: 'AWSConnectChatWidget',
           fileName: format => `aws-connect-chat-widget.${format}.js`,
           formats: ['umd', 'es'],